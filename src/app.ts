@@ -2,14 +2,40 @@ import { loadConfig, type Config } from './config.js'
 import { createLogger, type Logger } from './logger.js'
 import { loadMessages, type Messages } from './messages.js'
 import { createGreenApiSender, createMockSender, createFakeGreenApiSender, type GreenApiSender } from './greenapi/sender.js'
+import { createRateLimitedSender } from './greenapi/rate-limit.js'
+import { createRetryingSender } from './greenapi/retry.js'
+import { createLayoutSender } from './greenapi/layout.js'
+import { createInMemoryMessageStatusStore, createMessageStatusTracker, type MessageStatusTracker, type TrackOptions } from './greenapi/message-status.js'
+import { createFileFailedMessageStore, createInMemoryFailedMessageStore, type FailedMessageStore } from './greenapi/failed-messages.js'
 import { createWebhookHandler, type WebhookHandler } from './webhook/handler.js'
+import { createWebhookAuth } from './webhook/auth.js'
+import { createInMemoryProcessedMessageStore, createRedisProcessedMessageStore, type ProcessedMessageStore } from './webhook/dedup.js'
+import { createChannelHandler } from './channels/handler.js'
+import { createTelegramChannel } from './channels/telegram.js'
+import { createTelegramSender } from './telegram/sender.js'
+import { createWebChat, type WebChat } from './webchat/chat.js'
+import { createWebChatFileStore } from './webchat/files.js'
 import { createWebhookForwarder, createFakeWebhookForwarder, type WebhookForwarder } from './webhook/forwarder.js'
 import { createInMemoryManager } from './conversation/memory.js'
+import { createFileMemoryManager } from './conversation/file-memory.js'
+import { createRedisMemoryManager } from './conversation/redis-memory.js'
+import { createAccessControl } from './auth/access-control.js'
+import { createSessionSweeper } from './conversation/session-sweeper.js'
+import { createRedisClient, type RedisClient } from './redis/client.js'
 import { createFlowController, type FlowController } from './conversation/flow-controller.js'
 import type { FlowDefinition, MemoryManager } from './conversation/types.js'
+import { validateFlow } from './conversation/flow-schema.js'
 import { createWooCommerceClient } from './woocommerce/client.js'
 import type { WooCommerceClient } from './woocommerce/types.js'
-import { createServer } from './server.js'
+import { createOrderWebhookHandler, type OrderWebhookHandler } from './woocommerce/order-webhook.js'
+import { createStockAlertService } from './woocommerce/stock-alerts.js'
+import { createSystemClock } from './scheduler/clock.js'
+import { createScheduler, type Scheduler } from './scheduler/scheduler.js'
+import { createJobQueue, type JobQueue } from './queue/job-queue.js'
+import { createFileJobStore, createInMemoryJobStore } from './queue/job-store.js'
+import type { JobStore } from './queue/types.js'
+import { FlowDefinitionError, WebhookError, WebhookReplyError } from './errors.js'
+import { createServer, type ServerOptions } from './server.js'
 import type { FastifyInstance } from 'fastify'
 import { readFileSync } from 'fs'
 import { fileURLToPath } from 'url'
@@ -28,6 +54,9 @@ export interface AppDependencies {
   flowController: FlowController
   webhookHandler: WebhookHandler
   forwarder?: WebhookForwarder
+  orderWebhookHandler?: OrderWebhookHandler
+  scheduler: Scheduler
+  webhookQueue?: JobQueue<unknown>
 }
 
 export interface App {
@@ -35,32 +64,126 @@ export interface App {
   dependencies: AppDependencies
 }
 
-function loadFlow(): FlowDefinition {
-  const flowPath = join(__dirname, 'flows', 'inventory.json')
+/** Reads and validates the flow; throws FlowDefinitionError listing every problem found. */
+export function loadFlow(messages: Messages, filePath?: string): FlowDefinition {
+  const flowPath = filePath ?? join(__dirname, 'flows', 'inventory.json')
   const flowContent = readFileSync(flowPath, 'utf-8')
-  return JSON.parse(flowContent) as FlowDefinition
+  let definition: unknown
+  try {
+    definition = JSON.parse(flowContent)
+  } catch (err) {
+    throw new FlowDefinitionError([err instanceof Error ? err.message : String(err)], flowPath)
+  }
+  return validateFlow(definition, messages)
+}
+
+function createMemoryManager(config: Config, logger: Logger, redisClient?: RedisClient): MemoryManager {
+  if (redisClient) {
+    logger.info({ event: 'session_store_selected', store: 'redis' })
+    return createRedisMemoryManager({ client: redisClient, timeoutMs: config.sessionTimeoutMs, logger })
+  }
+  if (config.sessionStore === 'file') {
+    logger.info({ event: 'session_store_selected', store: 'file', filePath: config.sessionFilePath })
+    return createFileMemoryManager({ filePath: config.sessionFilePath, timeoutMs: config.sessionTimeoutMs, logger })
+  }
+  return createInMemoryManager(config.sessionTimeoutMs)
+}
+
+function createFailedMessageStore(config: Config, logger: Logger): FailedMessageStore {
+  if (config.failedMessagesStore === 'file') {
+    return createFileFailedMessageStore({ filePath: config.failedMessagesFilePath, logger })
+  }
+  return createInMemoryFailedMessageStore()
+}
+
+function createJobStore(config: Config, logger: Logger): JobStore<unknown> {
+  if (config.jobStore === 'file') {
+    logger.info({ event: 'job_store_selected', store: 'file', filePath: config.jobFilePath })
+    return createFileJobStore({ filePath: config.jobFilePath, logger })
+  }
+  return createInMemoryJobStore()
+}
+
+function createProcessedMessageStore(config: Config, logger: Logger, redisClient?: RedisClient): ProcessedMessageStore | undefined {
+  if (config.webhookDedupTtlMs === 0) {
+    logger.warn({ event: 'webhook_dedup_disabled' })
+    return undefined
+  }
+  if (redisClient) {
+    return createRedisProcessedMessageStore({ client: redisClient, ttlMs: config.webhookDedupTtlMs, logger })
+  }
+  return createInMemoryProcessedMessageStore(config.webhookDedupTtlMs)
 }
 
 export function createApp(): App {
   const config = loadConfig()
   const logger = createLogger('shop-update-chatbot')
   const messages = loadMessages()
-  const flow = loadFlow()
+  const flow = loadFlow(messages)
 
-  let sender: GreenApiSender
+  const clock = createSystemClock()
+
+  let baseSender: GreenApiSender
   if (config.fakeGreenApiMode) {
-    sender = createFakeGreenApiSender(logger)
+    baseSender = createFakeGreenApiSender(logger)
     logger.warn({ event: 'fake_greenapi_mode_enabled', mode: 'FAKE GreenAPI' })
   } else if (config.mockMode) {
-    sender = createMockSender(logger)
+    baseSender = createMockSender(logger)
     logger.warn({ event: 'mock_mode_enabled' })
   } else {
-    sender = createGreenApiSender(config.greenApi, logger)
+    baseSender = createGreenApiSender(config.greenApi, logger)
+    // Only the real API has sending limits worth protecting
+    if (config.sendRatePerSecond > 0) {
+      baseSender = createRateLimitedSender({
+        sender: baseSender,
+        clock,
+        logger,
+        messagesPerSecond: config.sendRatePerSecond,
+        burst: config.sendBurst,
+        perChatIntervalMs: config.sendChatIntervalMs
+      })
+    } else {
+      logger.warn({ event: 'send_rate_limit_disabled' })
+    }
   }
 
+  // Retries go back through the rate limiter
+  const failedMessages = createFailedMessageStore(config, logger)
+  const retryingSender = createRetryingSender({
+    sender: baseSender,
+    failedMessages,
+    clock,
+    logger,
+    maxAttempts: config.sendMaxAttempts,
+    baseDelayMs: config.sendRetryBaseDelayMs,
+    maxDelayMs: config.sendRetryMaxDelayMs
+  })
+  let messageStatus: MessageStatusTracker | undefined
+  if (config.messageStatusLimit > 0) {
+    messageStatus = createMessageStatusTracker({
+      store: createInMemoryMessageStatusStore(config.messageStatusLimit),
+      clock,
+      messages,
+      logger,
+      maxRetries: config.deliveryRetries,
+      fallbackChatIds: config.deliveryFallbackChatIds
+    })
+  }
+  // Split before tracking and retrying, so every part of a long reply has its own status and retries
+  function createOutboundSender(options: TrackOptions): GreenApiSender {
+    return createLayoutSender(messageStatus?.track(retryingSender, options) ?? retryingSender)
+  }
+  // Replies are tracked for the history only; alerts are resent or reported when they fail
+  const sender = createOutboundSender({ kind: 'reply' })
+  const orderAlertSender = createOutboundSender({ kind: 'order_alert', important: true })
+  const stockAlertSender = createOutboundSender({ kind: 'stock_alert', important: true })
+
   const wooCommerce = createWooCommerceClient(config.wooCommerce, logger)
 
-  const memory = createInMemoryManager(config.sessionTimeoutMs)
+  // One connection serves both the session store and the processed-message store
+  const redisClient = config.sessionStore === 'redis' ? createRedisClient(config.redisUrl!, logger) : undefined
+  const memory = createMemoryManager(config, logger, redisClient)
+  const processedMessages = createProcessedMessageStore(config, logger, redisClient)
 
   const flowController = createFlowController({
     memory,
@@ -82,19 +205,145 @@ export function createApp(): App {
     }
   }
 
+  const accessControl = createAccessControl({
+    users: config.allowedUsers,
+    ownerChatIds: config.ownerChatIds,
+    logger
+  })
+  if (!accessControl.enabled) {
+    logger.warn({ event: 'access_control_disabled', hint: 'Set ALLOWED_USERS to restrict who can use the bot' })
+  }
+
   const webhookHandler = createWebhookHandler({
     flowController,
     sender,
     logger,
-    forwarder
+    forwarder,
+    accessControl,
+    processedMessages,
+    messageStatus
   })
 
+  let telegram: ServerOptions['telegram']
+  if (config.telegramBotToken) {
+    const files = createWebChatFileStore()
+    const handler = createChannelHandler({
+      channel: createTelegramChannel({ sender: createTelegramSender({ botToken: config.telegramBotToken }, logger), files, logger }),
+      flowController,
+      logger,
+      accessControl,
+      processedMessages
+    })
+    telegram = { handler, secretToken: config.telegramWebhookSecret, files }
+    if (!config.telegramWebhookSecret) {
+      logger.warn({ event: 'telegram_webhook_secret_missing', hint: 'Set TELEGRAM_WEBHOOK_SECRET to reject updates that do not come from Telegram' })
+    }
+    logger.info({ event: 'telegram_channel_enabled' })
+  }
+
+  let webChat: WebChat | undefined
+  if (config.webChatUsers.length > 0) {
+    webChat = createWebChat({ users: config.webChatUsers, flowController, processedMessages, logger })
+    logger.info({ event: 'webchat_enabled', users: config.webChatUsers.length })
+  }
+
+  let orderWebhookHandler: OrderWebhookHandler | undefined
+  if (config.wooCommerceWebhookSecret) {
+    orderWebhookHandler = createOrderWebhookHandler({
+      secret: config.wooCommerceWebhookSecret,
+      ownerChatIds: config.ownerChatIds,
+      sender: orderAlertSender,
+      messages,
+      logger,
+      processedMessages
+    })
+    if (config.ownerChatIds.length === 0) {
+      logger.warn({ event: 'order_webhook_no_owners', hint: 'Set OWNER_CHAT_IDS to receive order notifications' })
+    }
+    logger.info({ event: 'order_webhook_enabled', owners: config.ownerChatIds.length })
+  }
+
+  const scheduler = createScheduler({ clock, logger })
+  scheduler.every(createSessionSweeper({ memory, logger }), config.sessionCleanupIntervalMs)
+
+  if (config.ownerChatIds.length > 0 && (config.stockCheckIntervalMs > 0 || config.dailyDigestTime)) {
+    const stockAlerts = createStockAlertService({
+      wooCommerce,
+      sender: stockAlertSender,
+      messages,
+      ownerChatIds: config.ownerChatIds,
+      lowStockThreshold: config.lowStockThreshold,
+      clock,
+      logger
+    })
+    if (config.stockCheckIntervalMs > 0) {
+      scheduler.every({ name: 'low_stock_check', run: stockAlerts.checkLowStock }, config.stockCheckIntervalMs)
+    }
+    if (config.dailyDigestTime) {
+      scheduler.dailyAt({ name: 'stock_digest', run: stockAlerts.sendDailyDigest }, config.dailyDigestTime)
+    }
+    logger.info({
+      event: 'stock_alerts_enabled',
+      threshold: config.lowStockThreshold,
+      intervalMs: config.stockCheckIntervalMs,
+      digestTime: config.dailyDigestTime
+    })
+  }
+
   logger.info({ event: 'dependencies_loaded', messageKeys: Object.keys(messages), flowId: flow.id })
 
-  const server = createServer(config, logger, webhookHandler)
+  const webhookAuth = createWebhookAuth({
+    token: config.webhookToken,
+    allowedIpRanges: config.webhookAllowedIps,
+    logger
+  })
+  if (!webhookAuth.enabled) {
+    logger.warn({ event: 'webhook_auth_disabled', hint: 'Set GREEN_API_WEBHOOK_TOKEN to reject unauthenticated POST /webhook calls' })
+  }
+
+  let jobStore: JobStore<unknown> | undefined
+  let webhookQueue: JobQueue<unknown> | undefined
+  if (config.webhookMode === 'queue') {
+    jobStore = createJobStore(config, logger)
+    webhookQueue = createJobQueue<unknown>({
+      name: 'webhook',
+      store: jobStore,
+      worker: body => webhookHandler.handle(body),
+      // Replies that failed after the flow ran would run the flow twice if retried
+      isRetryable: err => !(err instanceof WebhookReplyError || err instanceof WebhookError),
+      concurrency: config.jobConcurrency,
+      maxAttempts: config.jobMaxAttempts,
+      retryDelayMs: config.jobRetryDelayMs,
+      clock,
+      logger
+    })
+  }
+
+  const server = createServer(config, logger, webhookHandler, {
+    orderWebhookHandler,
+    webhookAuth,
+    webhookQueue,
+    admin: config.adminToken ? { token: config.adminToken, sender: retryingSender, messageStatus } : undefined,
+    telegram,
+    webChat
+  })
+  scheduler.start()
+  if (webhookQueue) {
+    const queue = webhookQueue
+    server.addHook('onReady', async () => queue.start())
+  }
+  // One hook so shutdown runs in order: queued messages still need the session store
+  server.addHook('onClose', async () => {
+    scheduler.stop()
+    await webhookQueue?.drain(config.jobDrainTimeoutMs)
+    await orderWebhookHandler?.drain()
+    await jobStore?.close?.()
+    await failedMessages.close?.()
+    await memory.close?.()
+  })
 
   return {
     server,
-    dependencies: { config, logger, messages, sender, wooCommerce, memory, flowController, webhookHandler, forwarder }
+    dependencies: { config, logger, messages, sender, wooCommerce, memory, flowController, webhookHandler, forwarder, orderWebhookHandler, scheduler, webhookQueue }
   }
 }
@@ -0,0 +1,73 @@
+import { createNoopLogger, type Logger } from '../logger.js'
+
+export type Role = 'owner' | 'staff' | 'viewer'
+
+export const ROLES: readonly Role[] = ['owner', 'staff', 'viewer']
+
+export interface AllowedUser {
+  id: string
+  role: Role
+}
+
+export interface AccessControlDeps {
+  users: AllowedUser[]
+  ownerChatIds?: string[]
+  logger?: Logger
+}
+
+export interface AccessControl {
+  enabled: boolean
+  /** Role of the sender, or undefined when access control is on and the sender is not listed. */
+  resolveRole(chatId: string, sender?: string): Role | undefined
+}
+
+export function isRole(value: string): value is Role {
+  return (ROLES as readonly string[]).includes(value)
+}
+
+/**
+ * `972501234567@c.us`, `+972 50-123-4567` and `972501234567` all become `972501234567`. A channel
+ * prefix such as `tg:` is kept, so ids from different channels never collide.
+ */
+export function normalizeUserId(id: string): string {
+  const [, prefix = '', rest] = /^([a-z]+:)?(.*)$/.exec(id.trim())!
+  const [user] = rest.split('@')
+  return prefix + user.replace(/[^0-9a-zA-Z]/g, '')
+}
+
+/**
+ * Maps WhatsApp and Telegram senders to roles. Access control is only enforced once at least one user is
+ * listed; `ownerChatIds` are then added as owners unless listed with another role.
+ */
+export function createAccessControl(deps: AccessControlDeps): AccessControl {
+  const logger = deps.logger ?? createNoopLogger()
+  const enabled = deps.users.length > 0
+  const roles = new Map<string, Role>()
+
+  if (enabled) {
+    for (const chatId of deps.ownerChatIds ?? []) {
+      roles.set(normalizeUserId(chatId), 'owner')
+    }
+    for (const user of deps.users) {
+      roles.set(normalizeUserId(user.id), user.role)
+    }
+  }
+
+  function resolveRole(chatId: string, sender?: string): Role | undefined {
+    if (!enabled) {
+      return 'owner'
+    }
+    // In group chats chatId is the group, so the individual sender is checked first
+    const candidates = sender ? [sender, chatId] : [chatId]
+    for (const candidate of candidates) {
+      const role = roles.get(normalizeUserId(candidate))
+      if (role) {
+        return role
+      }
+    }
+    logger.info({ event: 'access_unknown_user', chatId, sender })
+    return undefined
+  }
+
+  return { enabled, resolveRole }
+}
@@ -0,0 +1,74 @@
+import { WebhookError } from '../errors.js'
+import type { GreenApiSender, SendMessageResponse } from '../greenapi/sender.js'
+import type { FlowMedia, FlowResult } from '../conversation/types.js'
+import { incomingMessageSchema, extractMessageContent, type IncomingMessage } from '../webhook/types.js'
+import type { ChannelAdapter, InboundMessage } from './types.js'
+
+/** The chat message in an `incomingMessageReceived` webhook; null for other webhook types and unsupported messages. */
+export function toInboundMessage(payload: IncomingMessage): InboundMessage | null {
+  if (payload.typeWebhook !== 'incomingMessageReceived') {
+    return null
+  }
+  const message = extractMessageContent(payload)
+  if (message === null) {
+    return null
+  }
+  return {
+    id: payload.idMessage,
+    chatId: payload.senderData.chatId,
+    senderId: payload.senderData.sender,
+    message
+  }
+}
+
+/** WhatsApp through Green API. Status webhooks and forwarding stay in the Green API webhook handler. */
+export function createGreenApiChannel(sender: GreenApiSender): ChannelAdapter {
+  async function receive(body: unknown): Promise<InboundMessage | null> {
+    const result = incomingMessageSchema.safeParse(body)
+    if (!result.success) {
+      const field = result.error.errors[0]?.path.join('.') ?? 'unknown'
+      throw new WebhookError(`Invalid webhook payload: ${result.error.message}`, field)
+    }
+    return toInboundMessage(result.data)
+  }
+
+  function sendMedia(chatId: string, media: FlowMedia): Promise<SendMessageResponse> {
+    if (media.type === 'url') {
+      return sender.sendFileByUrl({ chatId, urlFile: media.url, fileName: media.fileName, caption: media.caption })
+    }
+    return sender.sendFileByUpload({ chatId, file: media.data, fileName: media.fileName, mimeType: media.mimeType, caption: media.caption })
+  }
+
+  async function sendReply(chatId: string, result: FlowResult): Promise<void> {
+    if (result.media) {
+      await sendMedia(chatId, result.media)
+    }
+
+    if (result.preMessage) {
+      await sender.sendMessage(chatId, result.preMessage)
+    }
+
+    if (result.buttons) {
+      await sender.sendButtons({
+        chatId,
+        body: result.buttons.body,
+        buttons: result.buttons.options,
+        header: result.buttons.header,
+        footer: result.buttons.footer
+      })
+    } else if (result.list) {
+      await sender.sendListMessage({
+        chatId,
+        message: result.list.body,
+        buttonText: result.list.buttonText,
+        sections: result.list.sections,
+        title: result.list.header,
+        footer: result.list.footer
+      })
+    } else if (result.response) {
+      await sender.sendMessage(chatId, result.response)
+    }
+  }
+
+  return { name: 'greenapi', receive, sendReply }
+}
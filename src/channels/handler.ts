@@ -0,0 +1,104 @@
+import { WebhookReplyError } from '../errors.js'
+import { createNoopLogger, type Logger } from '../logger.js'
+import type { FlowController } from '../conversation/flow-controller.js'
+import type { AccessControl } from '../auth/access-control.js'
+import type { ProcessedMessageStore } from '../webhook/dedup.js'
+import { createChatQueue, type ChatQueue } from '../webhook/chat-queue.js'
+import type { WebhookHandlerResult } from '../webhook/handler.js'
+import type { ChannelAdapter, InboundMessage } from './types.js'
+
+export interface ChannelHandlerDeps {
+  channel: ChannelAdapter
+  flowController: FlowController
+  logger?: Logger
+  accessControl?: AccessControl
+  processedMessages?: ProcessedMessageStore
+  chatQueue?: ChatQueue
+}
+
+export function createChannelHandler(deps: ChannelHandlerDeps) {
+  const { channel, flowController, accessControl, processedMessages } = deps
+  const logger = deps.logger ?? createNoopLogger()
+  // Messages from one chat share a Session, so they are processed strictly one after another
+  const chatQueue = deps.chatQueue ?? createChatQueue()
+  // Replays that arrive while the original delivery is still being processed share its result
+  const inFlight = new Map<string, Promise<WebhookHandlerResult>>()
+
+  async function handle(body: unknown): Promise<WebhookHandlerResult> {
+    const inbound = await channel.receive(body)
+    if (!inbound) {
+      return { handled: false, action: 'ignored_unsupported' }
+    }
+    if (!processedMessages) {
+      return process(inbound)
+    }
+
+    // Channels share the store, and their ids are only unique within the channel
+    const key = `${channel.name}:${inbound.id}`
+    const pending = inFlight.get(key)
+    if (pending) {
+      logger.info({ event: 'duplicate_webhook_ignored', channel: channel.name, idMessage: inbound.id, chatId: inbound.chatId, inFlight: true })
+      return pending
+    }
+
+    const processing = processOnce(processedMessages, key, inbound)
+    inFlight.set(key, processing)
+    try {
+      return await processing
+    } finally {
+      inFlight.delete(key)
+    }
+  }
+
+  async function processOnce(store: ProcessedMessageStore, key: string, inbound: InboundMessage): Promise<WebhookHandlerResult> {
+    const cached = await store.get(key).catch(err => {
+      logger.error({ event: 'dedup_store_error', operation: 'get', idMessage: key, error: err })
+      return undefined
+    })
+    if (cached) {
+      logger.info({ event: 'duplicate_webhook_ignored', channel: channel.name, idMessage: inbound.id, chatId: inbound.chatId, inFlight: false })
+      return cached
+    }
+
+    const result = await process(inbound)
+    await store.set(key, result).catch(err => {
+      logger.error({ event: 'dedup_store_error', operation: 'set', idMessage: key, error: err })
+    })
+    return result
+  }
+
+  /** Runs the flow for a message in its chat's turn and sends the reply through the channel. */
+  async function process(inbound: InboundMessage): Promise<WebhookHandlerResult> {
+    const { chatId } = inbound
+    const queued = chatQueue.size(chatId)
+    if (queued > 0) {
+      logger.info({ event: 'chat_message_queued', chatId, idMessage: inbound.id, queued })
+    }
+    return chatQueue.run(chatId, () => processMessage(inbound))
+  }
+
+  async function processMessage(inbound: InboundMessage): Promise<WebhookHandlerResult> {
+    const { chatId } = inbound
+    const role = accessControl ? accessControl.resolveRole(chatId, inbound.senderId) : 'owner'
+    const message = typeof inbound.message === 'function' ? await inbound.message() : inbound.message
+    const result = await flowController.process(chatId, message, { role })
+
+    if (!result.handled) {
+      logger.info({ event: 'flow_not_handled', chatId })
+      return { handled: false, action: 'flow_processed' }
+    }
+
+    try {
+      await channel.sendReply(chatId, result, inbound.id)
+    } catch (err) {
+      throw new WebhookReplyError(`Failed to reply to ${chatId}`, chatId, { cause: err })
+    }
+
+    logger.info({ event: 'flow_processed', chatId, handled: result.handled })
+    return { handled: true, action: 'flow_processed' }
+  }
+
+  return { handle, process }
+}
+
+export type ChannelHandler = ReturnType<typeof createChannelHandler>
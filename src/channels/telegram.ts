@@ -0,0 +1,191 @@
+import { z } from 'zod'
+import { WebhookError } from '../errors.js'
+import { createNoopLogger, type Logger } from '../logger.js'
+import { splitText } from '../greenapi/layout.js'
+import type { FlowButtonOption, FlowMedia, FlowResult } from '../conversation/types.js'
+import type { MessageInput } from '../conversation/flow-controller.js'
+import type { InlineKeyboardButton, TelegramFile, TelegramSender } from '../telegram/sender.js'
+import { telegramUpdateSchema, type TelegramMessage } from '../telegram/types.js'
+import type { WebChatFileStore } from '../webchat/files.js'
+import type { ChannelAdapter, InboundMessage } from './types.js'
+
+/** Bot API limits; unlike WhatsApp, inline keyboards have no limit worth fitting to. */
+export const TELEGRAM_LIMITS = {
+  textLength: 4096,
+  captionLength: 1024
+}
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|webp)$/i
+
+const CHAT_ID_PREFIX = 'tg:'
+
+/** What POST /telegram/webhook passes to `receive`. */
+export interface TelegramDelivery {
+  /** `https://host` Telegram reached the bot on; images users send are linked under it. */
+  baseUrl: string
+  update: unknown
+}
+
+const telegramDeliverySchema = z.object({
+  baseUrl: z.string().url(),
+  update: telegramUpdateSchema
+})
+
+export interface TelegramChannelDeps {
+  sender: TelegramSender
+  /** Holds downloaded images, since Telegram's own download URLs contain the bot token. */
+  files: WebChatFileStore
+  logger?: Logger
+}
+
+/**
+ * Telegram ids get their own namespace, so a Telegram user never matches a WhatsApp number in
+ * ALLOWED_USERS or shares a Session with it.
+ */
+export function telegramChatId(id: number): string {
+  return `${CHAT_ID_PREFIX}${id}`
+}
+
+/** The id the Bot API takes for a chat id from `telegramChatId`. */
+function toBotApiChatId(chatId: string): string {
+  return chatId.startsWith(CHAT_ID_PREFIX) ? chatId.slice(CHAT_ID_PREFIX.length) : chatId
+}
+
+export function telegramFileUrl(baseUrl: string, id: string): string {
+  return `${baseUrl}/telegram/files/${id}`
+}
+
+/** Joins the parts WhatsApp shows as separate header, body and footer. */
+function joinText(...parts: (string | undefined)[]): string {
+  return parts.filter(part => part).join('\n\n')
+}
+
+function keyboard(options: FlowButtonOption[]): InlineKeyboardButton[][] {
+  return options.map(option => [{ text: option.buttonText, callback_data: option.buttonId }])
+}
+
+/** Telegram bots in private chats: buttons become inline keyboards, and a tapped button reads like its id was typed. */
+export function createTelegramChannel(deps: TelegramChannelDeps): ChannelAdapter {
+  const { sender, files } = deps
+  const logger = deps.logger ?? createNoopLogger()
+
+  async function saveImage(baseUrl: string, fileId: string, mimeType: string, fileName?: string): Promise<MessageInput> {
+    const { data, filePath } = await sender.downloadFile(fileId)
+    const id = files.save({ data, fileName: fileName ?? filePath.split('/').at(-1)!, mimeType })
+    return { type: 'image', content: telegramFileUrl(baseUrl, id), mimeType }
+  }
+
+  /** Images become a download for later, so a redelivered update is dropped before fetching it again. */
+  function toMessageInput(message: TelegramMessage, baseUrl: string): InboundMessage['message'] | null {
+    if (message.text !== undefined) {
+      return { type: 'text', content: message.text }
+    }
+    // The last size is the largest
+    const photo = message.photo?.at(-1)
+    if (photo) {
+      return () => saveImage(baseUrl, photo.file_id, 'image/jpeg')
+    }
+    const { document } = message
+    const mimeType = document?.mime_type
+    if (document && mimeType?.startsWith('image/')) {
+      return () => saveImage(baseUrl, document.file_id, mimeType, document.file_name)
+    }
+    return null
+  }
+
+  function parseDelivery(delivery: unknown): z.infer<typeof telegramDeliverySchema> {
+    const result = telegramDeliverySchema.safeParse(delivery)
+    if (!result.success) {
+      const field = result.error.errors[0]?.path.join('.') ?? 'unknown'
+      logger.error({ event: 'telegram_parse_error', error: result.error.message, field })
+      throw new WebhookError(`Invalid Telegram update: ${result.error.message}`, field)
+    }
+    return result.data
+  }
+
+  async function receive(delivery: unknown): Promise<InboundMessage | null> {
+    const { baseUrl, update } = parseDelivery(delivery)
+    const id = String(update.update_id)
+
+    const callback = update.callback_query
+    if (callback) {
+      await sender.answerCallbackQuery(callback.id).catch(err => {
+        logger.warn({ event: 'telegram_callback_answer_error', callbackQueryId: callback.id, error: err })
+      })
+      if (callback.data === undefined || !callback.message) {
+        return null
+      }
+      return {
+        id,
+        chatId: telegramChatId(callback.message.chat.id),
+        senderId: telegramChatId(callback.from.id),
+        message: { type: 'text', content: callback.data }
+      }
+    }
+
+    if (!update.message) {
+      logger.info({ event: 'telegram_update_ignored', updateId: update.update_id })
+      return null
+    }
+    const message = toMessageInput(update.message, baseUrl)
+    if (message === null) {
+      logger.info({ event: 'telegram_message_unsupported', updateId: update.update_id, chatId: update.message.chat.id })
+      return null
+    }
+    return {
+      id,
+      chatId: telegramChatId(update.message.chat.id),
+      senderId: update.message.from ? telegramChatId(update.message.from.id) : undefined,
+      message
+    }
+  }
+
+  async function sendText(chatId: string, text: string, buttons?: InlineKeyboardButton[][]): Promise<void> {
+    const chunks = splitText(text, TELEGRAM_LIMITS.textLength)
+    for (const [index, chunk] of chunks.entries()) {
+      // The keyboard goes on the last part, under the text it answers
+      await sender.sendMessage({ chatId, text: chunk, buttons: index === chunks.length - 1 ? buttons : undefined })
+    }
+  }
+
+  async function sendMedia(chatId: string, media: FlowMedia): Promise<void> {
+    const file: TelegramFile = media.type === 'url'
+      ? { url: media.url }
+      : { data: media.data, fileName: media.fileName, mimeType: media.mimeType }
+    const isImage = media.type === 'url'
+      ? IMAGE_EXTENSIONS.test(media.fileName)
+      : media.mimeType?.startsWith('image/') ?? false
+    const fits = !media.caption || media.caption.length <= TELEGRAM_LIMITS.captionLength
+    const params = { chatId, file, caption: fits ? media.caption : undefined }
+
+    await (isImage ? sender.sendPhoto(params) : sender.sendDocument(params))
+    if (!fits) {
+      await sendText(chatId, media.caption!)
+    }
+  }
+
+  async function sendReply(flowChatId: string, result: FlowResult): Promise<void> {
+    const chatId = toBotApiChatId(flowChatId)
+    if (result.media) {
+      await sendMedia(chatId, result.media)
+    }
+
+    if (result.preMessage) {
+      await sendText(chatId, result.preMessage)
+    }
+
+    if (result.buttons) {
+      const { header, body, footer, options } = result.buttons
+      await sendText(chatId, joinText(header, body, footer), keyboard(options))
+    } else if (result.list) {
+      const { header, body, footer, sections } = result.list
+      // Inline keyboards have no sections, so the rows are listed in order
+      const options = sections.flatMap(section => section.rows.map(row => ({ buttonId: row.rowId, buttonText: row.title })))
+      await sendText(chatId, joinText(header, body, footer), keyboard(options))
+    } else if (result.response) {
+      await sendText(chatId, result.response)
+    }
+  }
+
+  return { name: 'telegram', receive, sendReply }
+}
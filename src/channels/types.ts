@@ -0,0 +1,32 @@
+import type { MessageInput } from '../conversation/flow-controller.js'
+import type { FlowResult } from '../conversation/types.js'
+
+/** A chat message from any channel, in the form the flow takes. */
+export interface InboundMessage {
+  /** Unique within the channel; a redelivered update keeps its id. */
+  id: string
+  chatId: string
+  /** Who sent it, checked by access control before chatId (the group in group chats). */
+  senderId?: string
+  /**
+   * A function when the input still has to be fetched (e.g. an image download). It runs after
+   * deduplication, so a redelivered update is not fetched twice.
+   */
+  message: MessageInput | (() => Promise<MessageInput>)
+}
+
+/**
+ * Connects the flow to one messaging platform: turns its webhook updates into `InboundMessage`s
+ * and sends `FlowResult`s back with its own API.
+ */
+export interface ChannelAdapter {
+  /** Also namespaces the channel's message ids for deduplication. */
+  readonly name: string
+  /** Validates a webhook body; null for updates that carry nothing for the flow. Throws WebhookError when malformed. */
+  receive(body: unknown): Promise<InboundMessage | null>
+  /**
+   * Sends a handled `FlowResult`: media first, then the pre-message, then buttons, list or text.
+   * `messageId` is the id of the `InboundMessage` it answers.
+   */
+  sendReply(chatId: string, result: FlowResult, messageId: string): Promise<void>
+}
@@ -0,0 +1,138 @@
+import { WebhookError } from '../errors.js'
+import { createNoopLogger, type Logger } from '../logger.js'
+import type { FlowButtonOption, FlowMedia, FlowResult } from '../conversation/types.js'
+import type { MessageInput } from '../conversation/flow-controller.js'
+import type { WebChatFileStore } from '../webchat/files.js'
+import { WEB_CHAT_MAX_IMAGE_BYTES, webChatRequestSchema, type WebChatButton, type WebChatReply } from '../webchat/types.js'
+import type { ChannelAdapter, InboundMessage } from './types.js'
+
+/** What POST /chat/messages passes to `receive` once the user is authenticated. */
+export interface WebChatDelivery {
+  userId: string
+  /** `https://host` the browser reached the bot on; uploaded images are linked under it. */
+  baseUrl: string
+  body: unknown
+}
+
+export interface WebChatChannelDeps {
+  files: WebChatFileStore
+  logger?: Logger
+  /** Messages whose replies are kept for retried requests. Defaults to 1000. */
+  maxRepliedMessages?: number
+}
+
+export interface WebChatChannel extends ChannelAdapter {
+  /** Replies to one message, oldest first. A retried request gets them again. */
+  repliesTo(messageId: string): WebChatReply[]
+}
+
+/** Web sessions get their own chat ids, so they never share a Session with a WhatsApp or Telegram chat. */
+export function webChatId(userId: string): string {
+  return `web:${userId}`
+}
+
+/** Ids come from the browser, so they are only unique per user. */
+export function webChatMessageId(userId: string, requestId: string): string {
+  return `${userId}:${requestId}`
+}
+
+export function webChatFileUrl(baseUrl: string, id: string): string {
+  return `${baseUrl}/chat/files/${id}`
+}
+
+/** Joins the parts WhatsApp shows as separate header, body and footer. */
+function joinText(...parts: (string | undefined)[]): string {
+  return parts.filter(part => part).join('\n\n')
+}
+
+function toButtons(options: FlowButtonOption[]): WebChatButton[] {
+  return options.map(option => ({ id: option.buttonId, label: option.buttonText }))
+}
+
+/**
+ * The browser chat: requests carry one message each, and the replies are collected per message for
+ * the response instead of being pushed to an API. Requests of one user can overlap, so replies are
+ * never collected per chat.
+ */
+export function createWebChatChannel(deps: WebChatChannelDeps): WebChatChannel {
+  const { files } = deps
+  const logger = deps.logger ?? createNoopLogger()
+  const maxRepliedMessages = deps.maxRepliedMessages ?? 1000
+  // Insertion order is answer order, so the oldest entries go first
+  const outbox = new Map<string, WebChatReply[]>()
+
+  async function receive(delivery: unknown): Promise<InboundMessage | null> {
+    const { userId, baseUrl, body } = delivery as WebChatDelivery
+    const result = webChatRequestSchema.safeParse(body)
+    if (!result.success) {
+      const field = result.error.errors[0]?.path.join('.') || 'body'
+      logger.error({ event: 'webchat_parse_error', userId, error: result.error.message, field })
+      throw new WebhookError(`Invalid web chat message: ${result.error.errors[0]?.message ?? result.error.message}`, field)
+    }
+    const request = result.data
+
+    let message: MessageInput
+    if (request.image) {
+      const data = Buffer.from(request.image.data, 'base64')
+      if (data.length === 0 || data.length > WEB_CHAT_MAX_IMAGE_BYTES) {
+        throw new WebhookError(`Images must be between 1 byte and ${WEB_CHAT_MAX_IMAGE_BYTES / 1024 / 1024} MB`, 'image.data')
+      }
+      const { mimeType } = request.image
+      const id = files.save({ data, fileName: request.image.fileName ?? 'image', mimeType })
+      message = { type: 'image', content: webChatFileUrl(baseUrl, id), mimeType }
+    } else {
+      message = { type: 'text', content: request.text! }
+    }
+
+    const chatId = webChatId(userId)
+    return { id: webChatMessageId(userId, request.id), chatId, senderId: chatId, message }
+  }
+
+  function toFileReply(media: FlowMedia): WebChatReply {
+    if (media.type === 'url') {
+      return { type: 'file', fileName: media.fileName, url: media.url, caption: media.caption }
+    }
+    const id = files.save({ data: media.data, fileName: media.fileName, mimeType: media.mimeType })
+    // Relative, since the page that shows it is served from the same host
+    return { type: 'file', fileName: media.fileName, url: webChatFileUrl('', id), mimeType: media.mimeType, caption: media.caption }
+  }
+
+  async function sendReply(_chatId: string, result: FlowResult, messageId: string): Promise<void> {
+    let replies = outbox.get(messageId)
+    if (!replies) {
+      for (const oldest of outbox.keys()) {
+        if (outbox.size < maxRepliedMessages) {
+          break
+        }
+        outbox.delete(oldest)
+      }
+      replies = []
+      outbox.set(messageId, replies)
+    }
+
+    if (result.media) {
+      replies.push(toFileReply(result.media))
+    }
+
+    if (result.preMessage) {
+      replies.push({ type: 'text', text: result.preMessage })
+    }
+
+    if (result.buttons) {
+      const { header, body, footer, options } = result.buttons
+      replies.push({ type: 'buttons', text: joinText(header, body, footer), buttons: toButtons(options) })
+    } else if (result.list) {
+      const { header, body, footer, sections } = result.list
+      const buttons = sections.flatMap(section => section.rows.map(row => ({ id: row.rowId, label: row.title, description: row.description })))
+      replies.push({ type: 'buttons', text: joinText(header, body, footer), buttons })
+    } else if (result.response) {
+      replies.push({ type: 'text', text: result.response })
+    }
+  }
+
+  function repliesTo(messageId: string): WebChatReply[] {
+    return outbox.get(messageId) ?? []
+  }
+
+  return { name: 'web', receive, sendReply, repliesTo }
+}
@@ -0,0 +1,119 @@
+import 'dotenv/config'
+import { parseArgs } from 'node:util'
+import { loadFlow } from '../app.js'
+import { loadMessages } from '../messages.js'
+import { createLogger, createNoopLogger, type Logger } from '../logger.js'
+import { ConfigError } from '../errors.js'
+import { isRole } from '../auth/access-control.js'
+import { createFlowController } from '../conversation/flow-controller.js'
+import { createInMemoryManager } from '../conversation/memory.js'
+import { createFileMemoryManager } from '../conversation/file-memory.js'
+import { createRedisMemoryManager } from '../conversation/redis-memory.js'
+import { createRedisClient } from '../redis/client.js'
+import type { MemoryManager } from '../conversation/types.js'
+import { createWooCommerceClient } from '../woocommerce/client.js'
+import { createFakeWooCommerceClient } from '../woocommerce/fake-client.js'
+import type { WooCommerceClient } from '../woocommerce/types.js'
+import { createRepl } from './repl.js'
+
+const USAGE = `Usage: npm run cli -- [options]
+
+  --chat <chatId>          simulated chat (default: 972500000000@c.us)
+  --role <role>            sender role: owner, staff or viewer (default: owner)
+  --sessions <store>       memory, file or redis (default: memory)
+  --session-file <path>    file for --sessions file (default: data/cli-sessions.json)
+  --woocommerce <client>   fake (in-memory demo shop) or live (WOOCOMMERCE_* variables) (default: fake)
+  --trigger <code>         trigger code that starts a conversation (default: TRIGGER_CODE)
+  --verbose                print the bot's logs`
+
+function requireEnv(name: string): string {
+  const value = process.env[name]
+  if (!value) {
+    throw new ConfigError(`${name} is required for --woocommerce live`, name)
+  }
+  return value
+}
+
+function createMemory(store: string, options: { sessionFile: string; timeoutMs: number; logger: Logger }): MemoryManager {
+  switch (store) {
+    case 'memory':
+      return createInMemoryManager(options.timeoutMs)
+    case 'file':
+      return createFileMemoryManager({ filePath: options.sessionFile, timeoutMs: options.timeoutMs, logger: options.logger })
+    case 'redis':
+      return createRedisMemoryManager({
+        client: createRedisClient(requireEnv('REDIS_URL'), options.logger),
+        timeoutMs: options.timeoutMs,
+        logger: options.logger
+      })
+    default:
+      throw new ConfigError(`Unknown session store "${store}" (use memory, file or redis)`, 'sessions')
+  }
+}
+
+function createWooCommerce(client: string, logger: Logger): WooCommerceClient {
+  switch (client) {
+    case 'fake':
+      return createFakeWooCommerceClient({ logger })
+    case 'live':
+      return createWooCommerceClient({
+        storeUrl: requireEnv('WOOCOMMERCE_STORE_URL'),
+        consumerKey: requireEnv('WOOCOMMERCE_CONSUMER_KEY'),
+        consumerSecret: requireEnv('WOOCOMMERCE_CONSUMER_SECRET')
+      }, logger)
+    default:
+      throw new ConfigError(`Unknown WooCommerce client "${client}" (use fake or live)`, 'woocommerce')
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      chat: { type: 'string', default: '972500000000@c.us' },
+      role: { type: 'string', default: 'owner' },
+      sessions: { type: 'string', default: 'memory' },
+      'session-file': { type: 'string', default: 'data/cli-sessions.json' },
+      woocommerce: { type: 'string', default: 'fake' },
+      trigger: { type: 'string', default: process.env.TRIGGER_CODE },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false }
+    }
+  })
+  if (values.help) {
+    console.log(USAGE)
+    return
+  }
+  if (!isRole(values.role)) {
+    throw new ConfigError(`Unknown role "${values.role}" (use owner, staff or viewer)`, 'role')
+  }
+
+  // Logs would drown the conversation, so they are opt-in
+  const logger = values.verbose ? createLogger('shop-update-cli') : createNoopLogger()
+  const messages = loadMessages()
+  const flow = loadFlow(messages)
+  const memory = createMemory(values.sessions, {
+    sessionFile: values['session-file'],
+    timeoutMs: flow.sessionTimeoutMs,
+    logger
+  })
+  const flowController = createFlowController({
+    memory,
+    flow,
+    messages,
+    triggerCode: values.trigger,
+    logger,
+    wooCommerce: createWooCommerce(values.woocommerce, logger)
+  })
+
+  const repl = createRepl({ flowController, input: process.stdin, output: process.stdout, chatId: values.chat, role: values.role })
+  try {
+    await repl.run()
+  } finally {
+    await memory.close?.()
+  }
+}
+
+main().catch(err => {
+  console.error(err instanceof ConfigError ? `${err.message}\n\n${USAGE}` : err)
+  process.exit(1)
+})
@@ -0,0 +1,55 @@
+import type { FlowMedia, FlowResult } from '../conversation/types.js'
+
+export interface RenderedReply {
+  /** One entry per message the bot would send, in sending order. */
+  messages: string[]
+  /** Ids of the numbered options, so typing a number can stand in for tapping one. */
+  options: string[]
+}
+
+function renderMedia(media: FlowMedia): string {
+  const file = media.type === 'url'
+    ? `[file] ${media.fileName} <${media.url}>`
+    : `[file] ${media.fileName} (${media.data.length} bytes${media.mimeType ? `, ${media.mimeType}` : ''})`
+  return media.caption ? `${file}\n${media.caption}` : file
+}
+
+function joinBlocks(...blocks: (string | undefined)[]): string {
+  return blocks.filter(block => block).join('\n\n')
+}
+
+/** Formats a `FlowResult` for a terminal: buttons and list rows become numbered options. */
+export function renderFlowResult(result: FlowResult): RenderedReply {
+  const messages: string[] = []
+  const options: string[] = []
+
+  if (result.media) {
+    messages.push(renderMedia(result.media))
+  }
+  if (result.preMessage) {
+    messages.push(result.preMessage)
+  }
+
+  if (result.buttons) {
+    const { header, body, footer } = result.buttons
+    const lines = result.buttons.options.map(option => {
+      options.push(option.buttonId)
+      return `  ${options.length}) ${option.buttonText}`
+    })
+    messages.push(joinBlocks(header, body, lines.join('\n'), footer))
+  } else if (result.list) {
+    const { header, body, footer, buttonText } = result.list
+    const sections = result.list.sections.map(section => {
+      const rows = section.rows.map(row => {
+        options.push(row.rowId)
+        return `  ${options.length}) ${row.title}${row.description ? ` - ${row.description}` : ''}`
+      })
+      return [section.title ? `${section.title}:` : undefined, ...rows].filter(line => line !== undefined).join('\n')
+    })
+    messages.push(joinBlocks(header, body, `[${buttonText}]`, sections.join('\n\n'), footer))
+  } else if (result.response) {
+    messages.push(result.response)
+  }
+
+  return { messages, options }
+}
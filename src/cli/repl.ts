@@ -0,0 +1,151 @@
+import { access } from 'node:fs/promises'
+import { extname, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { createInterface } from 'node:readline'
+import type { FlowController, MessageInput } from '../conversation/flow-controller.js'
+import { isRole, type Role } from '../auth/access-control.js'
+import { renderFlowResult } from './render.js'
+
+export interface ReplDeps {
+  flowController: FlowController
+  input: NodeJS.ReadableStream
+  output: NodeJS.WritableStream
+  /** Simulated WhatsApp chat the messages come from. */
+  chatId: string
+  role?: Role
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif'
+}
+
+const HELP = [
+  'Type a message to send it to the bot. With a menu shown, its number picks the option.',
+  '  /chat [chatId]   show or switch the simulated chat (each chat has its own session)',
+  '  /role [role]     show or switch the sender role: owner, staff or viewer',
+  '  /image <path>    send a local image file as an image message',
+  '  /help            show this help',
+  '  /quit            leave'
+].join('\n')
+
+/** Terminal chat with the flow, for trying flow changes without WhatsApp. */
+export function createRepl(deps: ReplDeps) {
+  const { flowController, input, output } = deps
+  let chatId = deps.chatId
+  let role: Role = deps.role ?? 'owner'
+  // Option ids of the last menu shown in each chat
+  const menus = new Map<string, string[]>()
+
+  function print(text: string): void {
+    output.write(`${text}\n`)
+  }
+
+  async function send(message: MessageInput): Promise<void> {
+    try {
+      const result = await flowController.process(chatId, message, { role })
+      if (!result.handled) {
+        print('(not handled: the bot ignores this message)')
+        return
+      }
+      const { messages, options } = renderFlowResult(result)
+      for (const text of messages) {
+        print(`\n${text}`)
+      }
+      print('')
+      menus.set(chatId, options)
+    } catch (err) {
+      print(`Error: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  async function sendImage(path: string): Promise<void> {
+    const filePath = resolve(path)
+    const mimeType = IMAGE_MIME_TYPES[extname(filePath).toLowerCase()]
+    if (!mimeType) {
+      print(`Not an image: ${path} (use ${Object.keys(IMAGE_MIME_TYPES).join(', ')})`)
+      return
+    }
+    try {
+      await access(filePath)
+    } catch {
+      print(`File not found: ${filePath}`)
+      return
+    }
+    // The flow passes image URLs on to WooCommerce; the fake client just stores this one
+    await send({ type: 'image', content: pathToFileURL(filePath).href, mimeType })
+  }
+
+  /** Handles one line of input; false once the user asked to quit. */
+  async function handleLine(line: string): Promise<boolean> {
+    const text = line.trim()
+    if (!text) {
+      return true
+    }
+
+    if (text.startsWith('/')) {
+      const [command, ...args] = text.split(/\s+/)
+      const argument = args.join(' ')
+      switch (command) {
+        case '/quit':
+        case '/exit':
+          return false
+        case '/help':
+          print(HELP)
+          return true
+        case '/chat':
+          if (argument) {
+            chatId = argument
+          }
+          print(`Chat: ${chatId}`)
+          return true
+        case '/role':
+          if (argument && !isRole(argument)) {
+            print(`Unknown role "${argument}" (use owner, staff or viewer)`)
+          } else {
+            role = (argument as Role) || role
+            print(`Role: ${role}`)
+          }
+          return true
+        case '/image':
+          if (!argument) {
+            print('Usage: /image <path>')
+          } else {
+            await sendImage(argument)
+          }
+          return true
+        default:
+          print(`Unknown command ${command}, try /help`)
+          return true
+      }
+    }
+
+    // Like a tapped button, a menu number reaches the flow as the option id
+    const options = menus.get(chatId) ?? []
+    const number = /^\d+$/.test(text) ? Number(text) : 0
+    const content = number >= 1 && number <= options.length ? options[number - 1] : text
+    await send({ type: 'text', content })
+    return true
+  }
+
+  /** Reads lines until /quit or the end of the input. */
+  async function run(): Promise<void> {
+    print(`Chatting as ${chatId} (${role}). Type /help for commands.`)
+    const lines = createInterface({ input, output, prompt: 'you> ' })
+    lines.prompt()
+    for await (const line of lines) {
+      if (!await handleLine(line)) {
+        break
+      }
+      lines.prompt()
+    }
+    lines.close()
+  }
+
+  return { handleLine, run }
+}
+
+export type Repl = ReturnType<typeof createRepl>
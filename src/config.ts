@@ -1,6 +1,9 @@
 import { z } from 'zod'
 import { ConfigError } from './errors.js'
 import { logger } from './logger.js'
+import { isRole, type AllowedUser } from './auth/access-control.js'
+import { isValidIpRange } from './webhook/auth.js'
+import type { WebChatUser } from './webchat/types.js'
 
 const coerceBooleanFromEnvVar = z
   .union([z.boolean(), z.string()])
@@ -10,6 +13,45 @@ const coerceBooleanFromEnvVar = z
   })
   .default(false)
 
+const commaSeparatedListFromEnvVar = z
+  .string()
+  .optional()
+  .transform((val) => (val ?? '').split(',').map(item => item.trim()).filter(item => item.length > 0))
+
+// .env.example lists optional secrets as `NAME=`, which dotenv loads as '' rather than leaving unset
+function optionalFromEnvVar<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess(val => (val === '' ? undefined : val), schema.optional())
+}
+
+const allowedUsersFromEnvVar = commaSeparatedListFromEnvVar.transform((entries, ctx) =>
+  entries.map((entry): AllowedUser => {
+    // Telegram user ids keep their `tg:` prefix
+    const [, id, role = 'staff'] = /^((?:tg:)?[^:]*)(?::(.*))?$/.exec(entry)!.map(part => part?.trim())
+    if (!isRole(role)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown role "${role}" for ${id} in ALLOWED_USERS (use owner, staff or viewer)` })
+      return { id, role: 'viewer' }
+    }
+    return { id, role }
+  })
+)
+
+const webChatUsersFromEnvVar = commaSeparatedListFromEnvVar.transform((entries, ctx) =>
+  entries.map((entry): WebChatUser => {
+    const [id = '', role = '', ...rest] = entry.split(':').map(part => part.trim())
+    const token = rest.join(':')
+    if (!/^[A-Za-z0-9_.-]+$/.test(id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid user id "${id}" in WEB_CHAT_USERS (use id:role:token; ids may contain A-Z, a-z, 0-9, _, . and -)` })
+    } else if (!isRole(role)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown role "${role}" for ${id} in WEB_CHAT_USERS (use owner, staff or viewer)` })
+    } else if (token.length < 16) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Token for ${id} in WEB_CHAT_USERS must be at least 16 characters` })
+    } else {
+      return { id, role, token }
+    }
+    return { id, role: 'viewer', token }
+  })
+)
+
 const configSchema = z.object({
   port: z.coerce.number().int().min(1).max(65535).default(3000),
   logLevel: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent']).default('info'),
@@ -17,7 +59,40 @@ const configSchema = z.object({
   fakeGreenApiMode: coerceBooleanFromEnvVar,
   triggerCode: z.string().min(1).optional(),
   sessionTimeoutMs: z.coerce.number().int().min(1000).default(300000),
+  sessionCleanupIntervalMs: z.coerce.number().int().min(1000).default(60000),
+  sessionStore: z.enum(['memory', 'file', 'redis']).default('memory'),
+  sessionFilePath: z.string().min(1).default('data/sessions.json'),
+  redisUrl: z.string().url().optional(),
   forwardWebhookUrl: z.string().url().optional(),
+  webhookToken: optionalFromEnvVar(z.string()),
+  webhookAllowedIps: commaSeparatedListFromEnvVar.refine(
+    ranges => ranges.every(isValidIpRange),
+    'WEBHOOK_ALLOWED_IPS must be comma-separated IPs or CIDR ranges'
+  ),
+  trustProxy: coerceBooleanFromEnvVar,
+  webhookDedupTtlMs: z.coerce.number().int().min(0).default(86400000),
+  webhookMode: z.enum(['queue', 'sync']).default('queue'),
+  jobStore: z.enum(['memory', 'file']).default('memory'),
+  jobFilePath: z.string().min(1).default('data/jobs.json'),
+  jobConcurrency: z.coerce.number().int().min(1).default(4),
+  jobMaxAttempts: z.coerce.number().int().min(1).default(3),
+  jobRetryDelayMs: z.coerce.number().int().min(0).default(1000),
+  jobDrainTimeoutMs: z.coerce.number().int().min(0).default(10000),
+  sendMaxAttempts: z.coerce.number().int().min(1).default(4),
+  sendRatePerSecond: z.coerce.number().min(0).default(2),
+  sendBurst: z.coerce.number().int().min(1).default(5),
+  sendChatIntervalMs: z.coerce.number().int().min(0).default(300),
+  sendRetryBaseDelayMs: z.coerce.number().int().min(0).default(500),
+  sendRetryMaxDelayMs: z.coerce.number().int().min(0).default(30000),
+  failedMessagesStore: z.enum(['memory', 'file']).default('file'),
+  failedMessagesFilePath: z.string().min(1).default('data/failed-messages.jsonl'),
+  adminToken: optionalFromEnvVar(z.string().min(16, 'ADMIN_TOKEN must be at least 16 characters')),
+  messageStatusLimit: z.coerce.number().int().min(0).default(1000),
+  deliveryRetries: z.coerce.number().int().min(0).default(1),
+  deliveryFallbackChatIds: commaSeparatedListFromEnvVar,
+  telegramBotToken: optionalFromEnvVar(z.string()),
+  telegramWebhookSecret: optionalFromEnvVar(z.string().regex(/^[A-Za-z0-9_-]{1,256}$/, 'TELEGRAM_WEBHOOK_SECRET may only contain A-Z, a-z, 0-9, _ and - (up to 256)')),
+  webChatUsers: webChatUsersFromEnvVar,
   greenApi: z.object({
     instanceId: z.string({ required_error: 'GREEN_API_INSTANCE_ID is required' }).min(1, 'GREEN_API_INSTANCE_ID cannot be empty'),
     token: z.string({ required_error: 'GREEN_API_TOKEN is required' }).min(1, 'GREEN_API_TOKEN cannot be empty')
@@ -27,7 +102,17 @@ const configSchema = z.object({
     consumerKey: z.string({ required_error: 'WOOCOMMERCE_CONSUMER_KEY is required' }).min(1, 'WOOCOMMERCE_CONSUMER_KEY cannot be empty'),
     consumerSecret: z.string({ required_error: 'WOOCOMMERCE_CONSUMER_SECRET is required' }).min(1, 'WOOCOMMERCE_CONSUMER_SECRET cannot be empty')
   }),
-  shopUrl: z.string().optional()
+  shopUrl: z.string().optional(),
+  wooCommerceWebhookSecret: optionalFromEnvVar(z.string()),
+  ownerChatIds: commaSeparatedListFromEnvVar,
+  allowedUsers: allowedUsersFromEnvVar,
+  lowStockThreshold: z.coerce.number().int().min(0).default(5),
+  stockCheckIntervalMs: z.coerce.number().int().min(0).default(3600000),
+  dailyDigestTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'DAILY_DIGEST_TIME must be HH:MM (24h)').optional()
+}).superRefine((config, ctx) => {
+  if (config.sessionStore === 'redis' && !config.redisUrl) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['redisUrl'], message: 'REDIS_URL is required when SESSION_STORE=redis' })
+  }
 })
 
 export type Config = z.infer<typeof configSchema>
@@ -38,12 +123,48 @@ function fieldToEnvVar(field: string): string {
     'logLevel': 'LOG_LEVEL',
     'mockMode': 'MOCK_MODE',
     'forwardWebhookUrl': 'FORWARD_WEBHOOK_URL',
+    'webhookToken': 'GREEN_API_WEBHOOK_TOKEN',
+    'webhookAllowedIps': 'WEBHOOK_ALLOWED_IPS',
+    'trustProxy': 'TRUST_PROXY',
+    'webhookDedupTtlMs': 'WEBHOOK_DEDUP_TTL_MS',
+    'webhookMode': 'WEBHOOK_MODE',
+    'jobStore': 'JOB_STORE',
+    'jobFilePath': 'JOB_FILE_PATH',
+    'jobConcurrency': 'JOB_CONCURRENCY',
+    'jobMaxAttempts': 'JOB_MAX_ATTEMPTS',
+    'jobRetryDelayMs': 'JOB_RETRY_DELAY_MS',
+    'jobDrainTimeoutMs': 'JOB_DRAIN_TIMEOUT_MS',
+    'sendMaxAttempts': 'SEND_MAX_ATTEMPTS',
+    'sendRatePerSecond': 'SEND_RATE_PER_SECOND',
+    'sendBurst': 'SEND_BURST',
+    'sendChatIntervalMs': 'SEND_CHAT_INTERVAL_MS',
+    'sendRetryBaseDelayMs': 'SEND_RETRY_BASE_DELAY_MS',
+    'sendRetryMaxDelayMs': 'SEND_RETRY_MAX_DELAY_MS',
+    'failedMessagesStore': 'FAILED_MESSAGES_STORE',
+    'failedMessagesFilePath': 'FAILED_MESSAGES_FILE_PATH',
+    'adminToken': 'ADMIN_TOKEN',
+    'messageStatusLimit': 'MESSAGE_STATUS_LIMIT',
+    'deliveryRetries': 'DELIVERY_RETRIES',
+    'deliveryFallbackChatIds': 'DELIVERY_FALLBACK_CHAT_IDS',
+    'telegramBotToken': 'TELEGRAM_BOT_TOKEN',
+    'telegramWebhookSecret': 'TELEGRAM_WEBHOOK_SECRET',
+    'webChatUsers': 'WEB_CHAT_USERS',
+    'sessionCleanupIntervalMs': 'SESSION_CLEANUP_INTERVAL_MS',
+    'sessionStore': 'SESSION_STORE',
+    'sessionFilePath': 'SESSION_FILE_PATH',
+    'redisUrl': 'REDIS_URL',
     'greenApi.instanceId': 'GREEN_API_INSTANCE_ID',
     'greenApi.token': 'GREEN_API_TOKEN',
     'wooCommerce.storeUrl': 'WOOCOMMERCE_STORE_URL',
     'wooCommerce.consumerKey': 'WOOCOMMERCE_CONSUMER_KEY',
     'wooCommerce.consumerSecret': 'WOOCOMMERCE_CONSUMER_SECRET',
-    'shopUrl': 'SHOP_URL'
+    'shopUrl': 'SHOP_URL',
+    'wooCommerceWebhookSecret': 'WOOCOMMERCE_WEBHOOK_SECRET',
+    'ownerChatIds': 'OWNER_CHAT_IDS',
+    'allowedUsers': 'ALLOWED_USERS',
+    'lowStockThreshold': 'LOW_STOCK_THRESHOLD',
+    'stockCheckIntervalMs': 'STOCK_CHECK_INTERVAL_MS',
+    'dailyDigestTime': 'DAILY_DIGEST_TIME'
   }
   return mapping[field] || field.toUpperCase()
 }
@@ -56,7 +177,37 @@ export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
     fakeGreenApiMode: env.FAKE_GREENAPI_MODE,
     triggerCode: env.TRIGGER_CODE,
     sessionTimeoutMs: env.SESSION_TIMEOUT_MS,
+    sessionCleanupIntervalMs: env.SESSION_CLEANUP_INTERVAL_MS,
+    sessionStore: env.SESSION_STORE,
+    sessionFilePath: env.SESSION_FILE_PATH,
+    redisUrl: env.REDIS_URL,
     forwardWebhookUrl: env.FORWARD_WEBHOOK_URL,
+    webhookToken: env.GREEN_API_WEBHOOK_TOKEN,
+    webhookAllowedIps: env.WEBHOOK_ALLOWED_IPS,
+    trustProxy: env.TRUST_PROXY,
+    webhookDedupTtlMs: env.WEBHOOK_DEDUP_TTL_MS,
+    webhookMode: env.WEBHOOK_MODE,
+    jobStore: env.JOB_STORE,
+    jobFilePath: env.JOB_FILE_PATH,
+    jobConcurrency: env.JOB_CONCURRENCY,
+    jobMaxAttempts: env.JOB_MAX_ATTEMPTS,
+    jobRetryDelayMs: env.JOB_RETRY_DELAY_MS,
+    jobDrainTimeoutMs: env.JOB_DRAIN_TIMEOUT_MS,
+    sendMaxAttempts: env.SEND_MAX_ATTEMPTS,
+    sendRatePerSecond: env.SEND_RATE_PER_SECOND,
+    sendBurst: env.SEND_BURST,
+    sendChatIntervalMs: env.SEND_CHAT_INTERVAL_MS,
+    sendRetryBaseDelayMs: env.SEND_RETRY_BASE_DELAY_MS,
+    sendRetryMaxDelayMs: env.SEND_RETRY_MAX_DELAY_MS,
+    failedMessagesStore: env.FAILED_MESSAGES_STORE,
+    failedMessagesFilePath: env.FAILED_MESSAGES_FILE_PATH,
+    adminToken: env.ADMIN_TOKEN,
+    messageStatusLimit: env.MESSAGE_STATUS_LIMIT,
+    deliveryRetries: env.DELIVERY_RETRIES,
+    deliveryFallbackChatIds: env.DELIVERY_FALLBACK_CHAT_IDS,
+    telegramBotToken: env.TELEGRAM_BOT_TOKEN,
+    telegramWebhookSecret: env.TELEGRAM_WEBHOOK_SECRET,
+    webChatUsers: env.WEB_CHAT_USERS,
     greenApi: {
       instanceId: env.GREEN_API_INSTANCE_ID,
       token: env.GREEN_API_TOKEN
@@ -66,7 +217,13 @@ export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
       consumerKey: env.WOOCOMMERCE_CONSUMER_KEY,
       consumerSecret: env.WOOCOMMERCE_CONSUMER_SECRET
     },
-    shopUrl: env.SHOP_URL
+    shopUrl: env.SHOP_URL,
+    wooCommerceWebhookSecret: env.WOOCOMMERCE_WEBHOOK_SECRET,
+    ownerChatIds: env.OWNER_CHAT_IDS,
+    allowedUsers: env.ALLOWED_USERS,
+    lowStockThreshold: env.LOW_STOCK_THRESHOLD,
+    stockCheckIntervalMs: env.STOCK_CHECK_INTERVAL_MS,
+    dailyDigestTime: env.DAILY_DIGEST_TIME
   })
 
   if (!result.success) {
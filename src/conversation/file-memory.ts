@@ -0,0 +1,173 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+import { SessionStoreError } from '../errors.js'
+import { createNoopLogger, type Logger } from '../logger.js'
+import { createSessionFactory, isExpiredSessionRetained, isSessionExpired, touchSession } from './memory.js'
+import type { Session, MemoryManager } from './types.js'
+
+interface StoredSessions {
+  sessions: Map<string, Session>
+  expired: Map<string, Session>
+}
+
+interface SessionFile {
+  sessions: Record<string, Session>
+  expired?: Record<string, Session>
+}
+
+export interface FileMemoryManagerOptions {
+  filePath: string
+  timeoutMs: number
+  logger?: Logger
+}
+
+/**
+ * Keeps sessions in memory and writes the whole set to a JSON file after every change,
+ * so half-finished conversations survive restarts. Writes go to a temp file and are
+ * renamed into place, one at a time.
+ */
+export function createFileMemoryManager(options: FileMemoryManagerOptions): MemoryManager {
+  const { filePath, timeoutMs } = options
+  const logger = options.logger ?? createNoopLogger()
+  let loading: Promise<StoredSessions> | undefined
+  let writing: Promise<void> = Promise.resolve()
+
+  function emptyStore(): StoredSessions {
+    return { sessions: new Map(), expired: new Map() }
+  }
+
+  async function readSessions(): Promise<StoredSessions> {
+    let content: string
+    try {
+      content = await readFile(filePath, 'utf-8')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return emptyStore()
+      }
+      throw new SessionStoreError(`Failed to read sessions from ${filePath}`, { cause: err })
+    }
+
+    try {
+      const stored = JSON.parse(content) as SessionFile
+      logger.info({ event: 'session_file_loaded', filePath, count: Object.keys(stored.sessions).length })
+      return {
+        sessions: new Map(Object.entries(stored.sessions)),
+        expired: new Map(Object.entries(stored.expired ?? {}))
+      }
+    } catch (err) {
+      logger.error({ event: 'session_file_corrupt', filePath, error: err })
+      return emptyStore()
+    }
+  }
+
+  function load(): Promise<StoredSessions> {
+    loading ??= readSessions()
+    return loading
+  }
+
+  async function persist(store: StoredSessions): Promise<void> {
+    const file: SessionFile = {
+      sessions: Object.fromEntries(store.sessions),
+      expired: Object.fromEntries(store.expired)
+    }
+    const content = JSON.stringify(file)
+    const write = writing.then(async () => {
+      const tempPath = `${filePath}.tmp`
+      try {
+        await mkdir(dirname(filePath), { recursive: true })
+        await writeFile(tempPath, content, 'utf-8')
+        await rename(tempPath, filePath)
+      } catch (err) {
+        throw new SessionStoreError(`Failed to write sessions to ${filePath}`, { cause: err })
+      }
+    })
+    writing = write.catch(() => {})
+    return write
+  }
+
+  function evict(store: StoredSessions, chatId: string, session: Session): void {
+    store.sessions.delete(chatId)
+    store.expired.set(chatId, session)
+  }
+
+  async function get(chatId: string): Promise<Session | undefined> {
+    const store = await load()
+    const session = store.sessions.get(chatId)
+    if (!session) {
+      return undefined
+    }
+    if (isSessionExpired(session)) {
+      evict(store, chatId, session)
+      await persist(store)
+      return undefined
+    }
+    return session
+  }
+
+  async function set(chatId: string, session: Session): Promise<void> {
+    const store = await load()
+    touchSession(session, timeoutMs)
+    store.sessions.set(chatId, session)
+    store.expired.delete(chatId)
+    await persist(store)
+  }
+
+  async function deleteSession(chatId: string): Promise<void> {
+    const store = await load()
+    const deleted = store.sessions.delete(chatId)
+    const forgotten = store.expired.delete(chatId)
+    if (deleted || forgotten) {
+      await persist(store)
+    }
+  }
+
+  async function cleanup(): Promise<Session[]> {
+    const store = await load()
+    const now = Date.now()
+    const evicted: Session[] = []
+    let changed = false
+    for (const [chatId, session] of store.sessions) {
+      if (isSessionExpired(session, now)) {
+        evict(store, chatId, session)
+        evicted.push(session)
+        changed = true
+      }
+    }
+    for (const [chatId, session] of store.expired) {
+      if (!isExpiredSessionRetained(session, now)) {
+        store.expired.delete(chatId)
+        changed = true
+      }
+    }
+    if (changed) {
+      await persist(store)
+    }
+    return evicted
+  }
+
+  async function takeExpired(chatId: string): Promise<Session | undefined> {
+    await get(chatId)
+    const store = await load()
+    const session = store.expired.get(chatId)
+    if (!session) {
+      return undefined
+    }
+    store.expired.delete(chatId)
+    await persist(store)
+    return isExpiredSessionRetained(session) ? session : undefined
+  }
+
+  async function close(): Promise<void> {
+    await writing
+  }
+
+  return {
+    get,
+    set,
+    delete: deleteSession,
+    cleanup,
+    takeExpired,
+    createSession: createSessionFactory(timeoutMs),
+    close
+  }
+}
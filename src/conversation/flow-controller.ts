@@ -1,15 +1,22 @@
 import { randomUUID } from 'crypto'
 import { WooCommerceError, type WooCommerceErrorCode } from '../errors.js'
 import { createNoopLogger, type Logger } from '../logger.js'
-import type { WooCommerceClient } from '../woocommerce/types.js'
+import type { WooCommerceClient, WooProduct, WooOrder, ProductSearchFilters, UpdateProductInput } from '../woocommerce/types.js'
 import type { ExtractedMessage } from '../webhook/types.js'
+import type { Role } from '../auth/access-control.js'
+import { formatNumberedMenu, isShownAsNumberedMenu } from '../greenapi/layout.js'
 import type {
   FlowDefinition,
+  FlowAccess,
   FlowResult,
   FlowButtons,
+  FlowList,
+  FlowListSection,
+  FlowMedia,
   MemoryManager,
   Session,
   ChoiceStep,
+  StepOption,
   TriggerStep,
   ActionStep,
   InputStep,
@@ -33,9 +40,15 @@ export interface MessageInput {
 }
 
 export interface FlowController {
-  process(chatId: string, message: MessageInput): Promise<FlowResult>
+  process(chatId: string, message: MessageInput, access?: FlowAccess): Promise<FlowResult>
 }
 
+const PRODUCTS_PAGE_SIZE = 20
+const ORDERS_LIST_SIZE = 10
+const ORDER_FILTER_STATUSES = ['pending', 'processing', 'on-hold', 'completed', 'cancelled', 'refunded', 'failed']
+const ORDER_TARGET_STATUSES = ['processing', 'completed', 'on-hold', 'cancelled']
+const FULL_ACCESS: FlowAccess = { role: 'owner' }
+
 export function createFlowController(dependencies: FlowControllerDeps): FlowController {
   const { memory, flow, messages, triggerCode, wooCommerce } = dependencies
   const logger = dependencies.logger ?? createNoopLogger()
@@ -62,6 +75,8 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
     duplicate_sku: 'error_duplicate_sku',
     invalid_data: 'error_invalid_data',
     image_upload_error: 'error_image_upload',
+    already_trashed: 'error_already_trashed',
+    trash_not_supported: 'error_trash_not_supported',
     server_error: 'error_server',
     unknown: 'error_unknown'
   }
@@ -74,21 +89,88 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
     return getMessage('error_unknown')
   }
 
-  function buildButtonsFromChoice(step: ChoiceStep): FlowButtons {
+  function buildButtonsFromChoice(step: ChoiceStep, role: Role | undefined): FlowButtons {
     return {
       body: getMessage(step.messageKey),
-      options: step.options.map(opt => ({
+      options: displayedOptions(step, role).map(opt => ({
         buttonId: opt.id,
         buttonText: opt.label
       }))
     }
   }
 
+  /**
+   * Options in the order the user sees them, leaving out those the role cannot use. List rows are
+   * grouped by section, so options of a section that comes back later move up to its first
+   * appearance; menu numbers follow this order.
+   */
+  function displayedOptions(step: ChoiceStep, role: Role | undefined): StepOption[] {
+    const options = step.options.filter(option => isOptionAllowed(step, option.id, role))
+    if (step.responseType !== 'list') {
+      return options
+    }
+    const sections = new Map<string | undefined, StepOption[]>()
+    for (const option of options) {
+      const section = sections.get(option.section) ?? []
+      section.push(option)
+      sections.set(option.section, section)
+    }
+    return [...sections.values()].flat()
+  }
+
+  function buildListFromChoice(step: ChoiceStep, role: Role | undefined): FlowList {
+    const sections: FlowListSection[] = []
+    for (const option of displayedOptions(step, role)) {
+      const last = sections.at(-1)
+      if (last && last.title === option.section) {
+        last.rows.push({ rowId: option.id, title: option.label })
+      } else {
+        sections.push({ title: option.section, rows: [{ rowId: option.id, title: option.label }] })
+      }
+    }
+    return {
+      body: getMessage(step.messageKey),
+      buttonText: getMessage('choice_list_button'),
+      sections: [...sections.values()]
+    }
+  }
+
+  /**
+   * Renders a choice step the way its `responseType` asks for, with an optional header. Only the
+   * options the role can use are shown.
+   */
+  function buildChoicePrompt(
+    step: ChoiceStep,
+    role: Role | undefined,
+    header?: string
+  ): Pick<FlowResult, 'buttons' | 'list' | 'response'> {
+    if (step.responseType === 'text') {
+      // Numbers match option order, which matchChoiceOption accepts
+      const labels = displayedOptions(step, role).map(opt => opt.label)
+      return { response: formatNumberedMenu({ header, body: getMessage(step.messageKey), labels }) }
+    }
+    if (step.responseType === 'list') {
+      return { list: { ...buildListFromChoice(step, role), header } }
+    }
+    return { buttons: { ...buildButtonsFromChoice(step, role), header } }
+  }
+
   function isChoiceStep(step: Step | undefined): step is ChoiceStep {
     return step?.type === 'choice'
   }
 
-  function matchChoiceOption(step: ChoiceStep, input: string): string | undefined {
+  function canAccess(roles: Role[] | undefined, role: Role | undefined): boolean {
+    return !roles || (role !== undefined && roles.includes(role))
+  }
+
+  /** The role may pick the option and enter the step it leads to. */
+  function isOptionAllowed(step: ChoiceStep, optionId: string, role: Role | undefined): boolean {
+    const option = step.options.find(o => o.id === optionId)
+    const nextStepId = step.transitions[optionId]?.nextStep
+    return canAccess(option?.roles, role) && (!nextStepId || canAccess(flow.steps[nextStepId]?.roles, role))
+  }
+
+  function matchChoiceOption(step: ChoiceStep, input: string, role: Role | undefined): string | undefined {
     const normalizedInput = input.trim().toLowerCase()
     for (const option of step.options) {
       if (option.id === normalizedInput) {
@@ -100,14 +182,23 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
         }
       }
     }
+    // Numbers only mean something where the user was shown a numbered menu; on buttons a stray
+    // digit must not pick, say, "Delete Permanently"
+    if (/^\d+$/.test(normalizedInput) && !step.confirm) {
+      const options = displayedOptions(step, role)
+      if (isShownAsNumberedMenu(step.responseType, options.length)) {
+        return options[Number(normalizedInput) - 1]?.id
+      }
+    }
     return undefined
   }
 
-  function processTriggerStep(
+  async function processTriggerStep(
     chatId: string,
     message: MessageInput,
-    step: TriggerStep
-  ): FlowResult {
+    step: TriggerStep,
+    role: Role | undefined
+  ): Promise<FlowResult> {
     if (!isTriggerMatch(message)) {
       logger.info({ event: 'trigger_no_match', chatId })
       return { handled: step.onNoMatch.handled }
@@ -116,19 +207,15 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
     logger.info({ event: 'trigger_matched', chatId })
 
     const session = memory.createSession(chatId, step.onMatch.nextStep)
-    memory.set(chatId, session)
+    await memory.set(chatId, session)
 
     const nextStep = flow.steps[step.onMatch.nextStep]
     const welcomeMessage = step.onMatch.messageKey ? getMessage(step.onMatch.messageKey) : undefined
 
     if (isChoiceStep(nextStep)) {
-      const buttons = buildButtonsFromChoice(nextStep)
-      if (welcomeMessage) {
-        buttons.header = welcomeMessage
-      }
       return {
         handled: true,
-        buttons
+        ...buildChoicePrompt(nextStep, role, welcomeMessage)
       }
     }
 
@@ -150,33 +237,30 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
     chatId: string,
     message: MessageInput,
     session: Session,
-    step: ChoiceStep
+    step: ChoiceStep,
+    role: Role | undefined
   ): Promise<FlowResult> {
     if (message.type !== 'text') {
       logger.info({ event: 'choice_invalid_type', chatId, type: message.type })
       const invalidStep = flow.steps[step.onInvalid.nextStep]
       if (isChoiceStep(invalidStep)) {
-        const buttons = buildButtonsFromChoice(invalidStep)
-        buttons.header = getMessage(step.onInvalid.messageKey)
-        return { handled: true, buttons }
+        return { handled: true, ...buildChoicePrompt(invalidStep, role, getMessage(step.onInvalid.messageKey)) }
       }
       return { handled: true, response: getMessage(step.onInvalid.messageKey) }
     }
 
-    const matchedOption = matchChoiceOption(step, message.content)
+    const matchedOption = matchChoiceOption(step, message.content, role)
 
     if (!matchedOption) {
       logger.info({ event: 'choice_invalid', chatId, input: message.content })
       session.currentStep = step.onInvalid.nextStep
-      memory.set(chatId, session)
+      await memory.set(chatId, session)
 
       const invalidStep = flow.steps[step.onInvalid.nextStep]
       if (isChoiceStep(invalidStep)) {
-        const buttons = buildButtonsFromChoice(invalidStep)
-        buttons.header = getMessage(step.onInvalid.messageKey)
         return {
           handled: true,
-          buttons
+          ...buildChoicePrompt(invalidStep, role, getMessage(step.onInvalid.messageKey))
         }
       }
 
@@ -195,15 +279,21 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
       }
     }
 
+    // Hidden options can still be typed by id or alias
+    if (!isOptionAllowed(step, matchedOption, role)) {
+      logger.warn({ event: 'access_denied', chatId, role, step: session.currentStep, option: matchedOption })
+      return { handled: true, ...buildChoicePrompt(step, role, getMessage('access_denied')) }
+    }
+
     logger.info({ event: 'choice_selected', chatId, option: matchedOption })
 
     session.currentStep = transition.nextStep
-    memory.set(chatId, session)
+    await memory.set(chatId, session)
 
     const nextStep = flow.steps[transition.nextStep]
 
     if (nextStep && nextStep.type === 'action') {
-      return await processActionStep(chatId, session, nextStep as ActionStep)
+      return await processActionStep(chatId, session, nextStep as ActionStep, role)
     }
 
     if (isInputStep(nextStep)) {
@@ -219,13 +309,9 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
     }
 
     if (isChoiceStep(nextStep)) {
-      const buttons = buildButtonsFromChoice(nextStep)
-      if (transition.messageKey) {
-        buttons.header = getMessage(transition.messageKey)
-      }
       return {
         handled: true,
-        buttons
+        ...buildChoicePrompt(nextStep, role, transition.messageKey ? getMessage(transition.messageKey) : undefined)
       }
     }
 
@@ -255,7 +341,8 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
     chatId: string,
     message: MessageInput,
     session: Session,
-    step: InputStep
+    step: InputStep,
+    role: Role | undefined
   ): Promise<FlowResult> {
     logger.info({ event: 'input_received', chatId, contextKey: step.contextKey, type: message.type })
 
@@ -271,28 +358,47 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
 
     if (messageText.trim().toLowerCase() === 'stop') {
       logger.info({ event: 'input_cancelled', chatId, contextKey: step.contextKey })
-      delete session.context.productData
-      delete session.context.productImage
+      clearProductContext(session)
+      clearOrderContext(session)
       delete session.context[step.contextKey]
       session.currentStep = 'awaiting_intent'
-      memory.set(chatId, session)
+      await memory.set(chatId, session)
 
+      const cancelMessageKey = step.cancelMessageKey ?? 'add_product_cancelled'
       const intentStep = flow.steps['awaiting_intent']
       if (isChoiceStep(intentStep)) {
-        const buttons = buildButtonsFromChoice(intentStep)
-        buttons.header = getMessage('add_product_cancelled')
         return {
           handled: true,
-          buttons
+          ...buildChoicePrompt(intentStep, role, getMessage(cancelMessageKey))
         }
       }
 
       return {
         handled: true,
-        response: getMessage('add_product_cancelled')
+        response: getMessage(cancelMessageKey)
       }
     }
 
+    if (step.contextKey === 'productSearch') {
+      return await processProductSearch(chatId, messageText, session, step, role)
+    }
+
+    if (step.contextKey === 'productSelection') {
+      return await processProductSelection(chatId, messageText, session, step, role)
+    }
+
+    if (step.contextKey === 'productUpdateInput') {
+      return await processProductUpdateInput(chatId, messageText, session, step, role)
+    }
+
+    if (step.contextKey === 'orderSelection') {
+      return await processOrderSelection(chatId, messageText, session, step, role)
+    }
+
+    if (step.contextKey === 'orderStatusInput') {
+      return await processOrderStatusInput(chatId, messageText, session, step, role)
+    }
+
     if (step.contextKey === 'productInput') {
       const existingData = (session.context.productData as ProductData) || {}
       const newFields = parseInputFields(messageText)
@@ -302,7 +408,7 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
       logger.info({ event: 'product_data_updated', chatId, product, errors })
 
       if (!isProductComplete(product) || errors.length > 0) {
-        memory.set(chatId, session)
+        await memory.set(chatId, session)
         const prompt = buildMissingFieldsPrompt(product, errors)
         return {
           handled: true,
@@ -311,11 +417,11 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
       }
 
       session.currentStep = step.nextStep
-      memory.set(chatId, session)
+      await memory.set(chatId, session)
 
       const nextStep = flow.steps[step.nextStep]
       if (nextStep && nextStep.type === 'action') {
-        return await processActionStep(chatId, session, nextStep as ActionStep)
+        return await processActionStep(chatId, session, nextStep as ActionStep, role)
       }
 
       if (isImageInputStep(nextStep)) {
@@ -328,18 +434,18 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
 
     session.context[step.contextKey] = messageText
     session.currentStep = step.nextStep
-    memory.set(chatId, session)
+    await memory.set(chatId, session)
 
     const nextStep = flow.steps[step.nextStep]
 
     if (nextStep && nextStep.type === 'action') {
-      return await processActionStep(chatId, session, nextStep as ActionStep)
+      return await processActionStep(chatId, session, nextStep as ActionStep, role)
     }
 
     if (isChoiceStep(nextStep)) {
       return {
         handled: true,
-        buttons: buildButtonsFromChoice(nextStep)
+        ...buildChoicePrompt(nextStep, role)
       }
     }
 
@@ -364,7 +470,8 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
     chatId: string,
     message: MessageInput,
     session: Session,
-    step: ImageInputStep
+    step: ImageInputStep,
+    role: Role | undefined
   ): Promise<FlowResult> {
     logger.info({ event: 'image_input_received', chatId, contextKey: step.contextKey, type: message.type })
 
@@ -373,16 +480,13 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
 
       if (text === 'stop') {
         logger.info({ event: 'image_input_cancelled', chatId })
-        delete session.context.productData
-        delete session.context.productImage
+        clearProductContext(session)
         session.currentStep = 'awaiting_intent'
-        memory.set(chatId, session)
+        await memory.set(chatId, session)
 
         const intentStep = flow.steps['awaiting_intent']
         if (isChoiceStep(intentStep)) {
-          const buttons = buildButtonsFromChoice(intentStep)
-          buttons.header = getMessage('add_product_cancelled')
-          return { handled: true, buttons }
+          return { handled: true, ...buildChoicePrompt(intentStep, role, getMessage('add_product_cancelled')) }
         }
         return { handled: true, response: getMessage('add_product_cancelled') }
       }
@@ -390,11 +494,11 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
       if (step.optional && step.skipKeyword && text === step.skipKeyword.toLowerCase()) {
         logger.info({ event: 'image_input_skipped', chatId })
         session.currentStep = step.nextStep
-        memory.set(chatId, session)
+        await memory.set(chatId, session)
 
         const nextStep = flow.steps[step.nextStep]
         if (nextStep && nextStep.type === 'action') {
-          return await processActionStep(chatId, session, nextStep as ActionStep)
+          return await processActionStep(chatId, session, nextStep as ActionStep, role)
         }
 
         return { handled: true, response: getMessage('add_product_image_skipped') }
@@ -414,12 +518,12 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
         mimeType: message.mimeType
       }
       session.currentStep = step.nextStep
-      memory.set(chatId, session)
+      await memory.set(chatId, session)
 
       const nextStep = flow.steps[step.nextStep]
       if (nextStep && nextStep.type === 'action') {
         const imageReceivedMsg = getMessage('add_product_image_received')
-        const actionResult = await processActionStep(chatId, session, nextStep as ActionStep)
+        const actionResult = await processActionStep(chatId, session, nextStep as ActionStep, role)
         if (actionResult.preMessage) {
           actionResult.preMessage = `${imageReceivedMsg}\n\n${actionResult.preMessage}`
         } else if (actionResult.response) {
@@ -436,31 +540,64 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
     return { handled: true, response: getMessage('add_product_image_invalid') }
   }
 
-  async function executeListProducts(): Promise<string> {
+  interface ProductPagination {
+    page: number
+    totalPages: number
+  }
+
+  async function executeListProducts(session: Session, page: number): Promise<string> {
     if (!wooCommerce) {
       logger.warn({ event: 'woocommerce_not_configured' })
       return '[WooCommerce not configured]'
     }
 
     try {
-      const products = await wooCommerce.getProducts(20)
-      logger.info({ event: 'list_products_fetched', count: products.length })
+      const result = await wooCommerce.getProducts(PRODUCTS_PAGE_SIZE, page)
+      const { products, total, totalPages } = result
+      logger.info({ event: 'list_products_fetched', count: products.length, page, total, totalPages })
+
+      session.context.productList = products.map(toProductSummary)
+      const pagination: ProductPagination = { page, totalPages }
+      session.context.productPagination = pagination
 
       if (products.length === 0) {
         return 'No products found in your store.'
       }
 
-      const productList = products.map((p, i) => 
-        `${i + 1}. ${p.name} - ${p.price} (${p.stock_status})`
-      ).join('\n')
+      const productList = formatProductLines(products)
+
+      const pageInfo = totalPages > 1 ? `\n${getMessage('list_products_page_info').replace('{page}', String(page)).replace('{total_pages}', String(totalPages))}` : ''
 
-      return `📦 *Products (${products.length}):*\n\n${productList}`
+      return `📦 *Products (${total}):*${pageInfo}\n\n${productList}`
     } catch (err) {
-      logger.error({ event: 'list_products_error', error: err })
+      logger.error({ event: 'list_products_error', error: err, page })
       return `${getMessage('list_products_error')}\n\n${getErrorMessage(err)}`
     }
   }
 
+  function formatProductLines(products: WooProduct[]): string {
+    return products.map((p, i) =>
+      `${i + 1}. ${p.name} - ${p.price} (${p.stock_status})`
+    ).join('\n')
+  }
+
+  async function executeChangeProductsPage(session: Session, direction: 1 | -1): Promise<string> {
+    const pagination = (session.context.productPagination as ProductPagination | undefined) ?? { page: 1, totalPages: 1 }
+    const targetPage = pagination.page + direction
+
+    if (targetPage < 1) {
+      logger.info({ event: 'list_products_first_page', page: pagination.page })
+      return getMessage('list_products_first_page')
+    }
+
+    if (targetPage > pagination.totalPages) {
+      logger.info({ event: 'list_products_last_page', page: pagination.page, totalPages: pagination.totalPages })
+      return getMessage('list_products_last_page')
+    }
+
+    return await executeListProducts(session, targetPage)
+  }
+
   interface ProductData {
     name?: string
     price?: number
@@ -469,6 +606,436 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
     sku?: string
   }
 
+  interface ProductSummary {
+    id: number
+    name: string
+    sku: string
+    price: string
+    stock: number | null
+    permalink: string
+  }
+
+  interface ProductUpdateData {
+    price?: number
+    stock?: number
+  }
+
+  function toProductSummary(product: WooProduct): ProductSummary {
+    return {
+      id: product.id,
+      name: product.name,
+      sku: product.sku,
+      price: product.regular_price || product.price,
+      stock: product.stock_quantity,
+      permalink: product.permalink
+    }
+  }
+
+  function clearProductContext(session: Session): void {
+    delete session.context.productData
+    delete session.context.productImage
+    delete session.context.selectedProduct
+    delete session.context.productUpdate
+  }
+
+  function formatStock(stock: number | null): string {
+    return stock === null ? '-' : stock.toString()
+  }
+
+  async function advanceToStep(
+    chatId: string,
+    session: Session,
+    stepId: string,
+    role: Role | undefined,
+    leadMessage?: string
+  ): Promise<FlowResult> {
+    session.currentStep = stepId
+    await memory.set(chatId, session)
+
+    const nextStep = flow.steps[stepId]
+
+    if (nextStep && nextStep.type === 'action') {
+      const actionResult = await processActionStep(chatId, session, nextStep as ActionStep, role)
+      if (leadMessage) {
+        if (actionResult.preMessage) {
+          actionResult.preMessage = `${leadMessage}\n\n${actionResult.preMessage}`
+        } else {
+          actionResult.response = actionResult.response ? `${leadMessage}\n\n${actionResult.response}` : leadMessage
+        }
+      }
+      return actionResult
+    }
+
+    if (isChoiceStep(nextStep)) {
+      // Lead messages are product or order summaries, too long for a header and lost if it gets cut
+      return { handled: true, preMessage: leadMessage, ...buildChoicePrompt(nextStep, role) }
+    }
+
+    const responseMessages: string[] = []
+    if (leadMessage) {
+      responseMessages.push(leadMessage)
+    }
+    if (nextStep && 'messageKey' in nextStep && nextStep.messageKey) {
+      responseMessages.push(getMessage(nextStep.messageKey))
+    }
+
+    return {
+      handled: true,
+      response: responseMessages.length > 0 ? responseMessages.join('\n\n') : undefined
+    }
+  }
+
+  async function findProductsByQuery(query: string, session: Session): Promise<ProductSummary[]> {
+    const productList = (session.context.productList as ProductSummary[] | undefined) ?? []
+
+    if (/^\d+$/.test(query)) {
+      const index = parseInt(query, 10) - 1
+      if (index >= 0 && index < productList.length) {
+        return [productList[index]]
+      }
+    }
+
+    const bySku = await wooCommerce!.getProductBySku(query)
+    if (bySku) {
+      return [toProductSummary(bySku)]
+    }
+
+    const { products } = await wooCommerce!.searchProducts({ search: query }, PRODUCTS_PAGE_SIZE)
+    return products.map(toProductSummary)
+  }
+
+  /** Filters from a search message; `category` is the name the user typed, resolved to an ID before searching. */
+  function parseSearchQuery(query: string): { filters: ProductSearchFilters; category?: string } {
+    const fields = parseInputFields(query)
+    const filters: ProductSearchFilters = {}
+
+    const search = fields.name ?? fields.search
+    if (search) filters.search = search
+    if (fields.sku) filters.sku = fields.sku
+    if (fields.status) filters.status = fields.status.toLowerCase()
+    const category = fields.category || undefined
+
+    if (Object.keys(filters).length === 0 && !category) {
+      filters.search = query
+    }
+
+    return { filters, category }
+  }
+
+  async function processProductSearch(
+    chatId: string,
+    messageText: string,
+    session: Session,
+    step: InputStep,
+    role: Role | undefined
+  ): Promise<FlowResult> {
+    const query = messageText.trim()
+
+    if (!wooCommerce) {
+      logger.warn({ event: 'woocommerce_not_configured' })
+      return { handled: true, response: '[WooCommerce not configured]' }
+    }
+
+    const { filters, category } = parseSearchQuery(query)
+
+    try {
+      if (category) {
+        // Category IDs still work, for users who know them
+        const found = /^\d+$/.test(category) ? { id: Number(category) } : await wooCommerce.findCategory(category)
+        if (!found) {
+          logger.info({ event: 'search_products_unknown_category', chatId, category })
+          return { handled: true, response: getMessage('search_products_unknown_category').replace('{category}', category) }
+        }
+        filters.category = found.id
+      }
+
+      const { products, total } = await wooCommerce.searchProducts(filters, PRODUCTS_PAGE_SIZE)
+      logger.info({ event: 'search_products_fetched', chatId, filters, count: products.length, total })
+
+      if (products.length === 0) {
+        return { handled: true, response: getMessage('search_products_no_results').replace('{query}', query) }
+      }
+
+      session.context.productList = products.map(toProductSummary)
+
+      const header = getMessage('search_products_results')
+        .replace('{query}', query)
+        .replace('{total}', String(total))
+
+      return await advanceToStep(chatId, session, step.nextStep, role, `${header}\n\n${formatProductLines(products)}`)
+    } catch (err) {
+      logger.error({ event: 'search_products_error', chatId, filters, error: err })
+      return { handled: true, response: `${getMessage('search_products_error')}\n\n${getErrorMessage(err)}` }
+    }
+  }
+
+  async function processProductSelection(
+    chatId: string,
+    messageText: string,
+    session: Session,
+    step: InputStep,
+    role: Role | undefined
+  ): Promise<FlowResult> {
+    const query = messageText.trim()
+
+    if (!wooCommerce) {
+      logger.warn({ event: 'woocommerce_not_configured' })
+      return { handled: true, response: '[WooCommerce not configured]' }
+    }
+
+    let matches: ProductSummary[]
+    try {
+      matches = await findProductsByQuery(query, session)
+    } catch (err) {
+      logger.error({ event: 'product_selection_error', chatId, query, error: err })
+      return { handled: true, response: `${getMessage('product_select_error')}\n\n${getErrorMessage(err)}` }
+    }
+
+    if (matches.length === 0) {
+      logger.info({ event: 'product_selection_not_found', chatId, query })
+      return { handled: true, response: getMessage('product_select_not_found').replace('{query}', query) }
+    }
+
+    if (matches.length > 1) {
+      logger.info({ event: 'product_selection_ambiguous', chatId, query, count: matches.length })
+      session.context.productList = matches
+      await memory.set(chatId, session)
+      const productLines = matches.map((p, i) => `${i + 1}. ${p.name} (SKU: ${p.sku})`).join('\n')
+      return {
+        handled: true,
+        response: getMessage('product_select_multiple').replace('{query}', query).replace('{products}', productLines)
+      }
+    }
+
+    const selected = matches[0]
+    logger.info({ event: 'product_selected', chatId, productId: selected.id, sku: selected.sku })
+    session.context.selectedProduct = selected
+
+    const selectedMessage = getMessage('product_selected')
+      .replace('{name}', selected.name)
+      .replace('{sku}', selected.sku)
+      .replace('{price}', selected.price)
+      .replace('{stock}', formatStock(selected.stock))
+
+    const nextStep = flow.steps[step.nextStep]
+    const leadMessage = nextStep?.type === 'action' ? undefined : selectedMessage
+
+    return await advanceToStep(chatId, session, step.nextStep, role, leadMessage)
+  }
+
+  async function processProductUpdateInput(
+    chatId: string,
+    messageText: string,
+    session: Session,
+    step: InputStep,
+    role: Role | undefined
+  ): Promise<FlowResult> {
+    const fields = parseInputFields(messageText)
+    const { product, errors } = validateAndMergeProduct({}, { price: fields.price, stock: fields.stock })
+    const update: ProductUpdateData = { price: product.price, stock: product.stock }
+
+    logger.info({ event: 'product_update_input', chatId, update, errors })
+
+    if (errors.length > 0) {
+      return { handled: true, response: '⚠️ ' + errors.join('\n⚠️ ') }
+    }
+
+    if (update.price === undefined && update.stock === undefined) {
+      return { handled: true, response: getMessage('update_product_no_fields') }
+    }
+
+    session.context.productUpdate = update
+    return await advanceToStep(chatId, session, step.nextStep, role)
+  }
+
+  interface OrderSummary {
+    id: number
+    number: string
+    customer: string
+    total: string
+    currency: string
+    status: string
+  }
+
+  function toOrderSummary(order: WooOrder): OrderSummary {
+    return {
+      id: order.id,
+      number: order.number,
+      customer: `${order.billing.first_name} ${order.billing.last_name}`.trim() || '-',
+      total: order.total,
+      currency: order.currency,
+      status: order.status
+    }
+  }
+
+  function clearOrderContext(session: Session): void {
+    delete session.context.selectedOrder
+    delete session.context.orderStatusUpdate
+  }
+
+  function normalizeOrderStatus(input: string): string {
+    const status = input.trim().toLowerCase().replace(/\s+/g, '-')
+    if (status === 'hold') return 'on-hold'
+    if (status === 'complete') return 'completed'
+    if (status === 'canceled' || status === 'cancel') return 'cancelled'
+    return status
+  }
+
+  function formatOrderDetail(order: WooOrder): string {
+    const summary = toOrderSummary(order)
+    const items = order.line_items
+      .map(item => `• ${item.quantity} × ${item.name} - ${item.total}`)
+      .join('\n')
+
+    return getMessage('order_detail')
+      .replace('{number}', summary.number)
+      .replace('{customer}', summary.customer)
+      .replace('{total}', summary.total)
+      .replace('{currency}', summary.currency)
+      .replace('{status}', summary.status)
+      .replace('{date}', order.date_created.replace('T', ' ').slice(0, 16))
+      .replace('{items}', items || '-')
+  }
+
+  async function executeListOrders(session: Session, status?: string): Promise<string> {
+    if (!wooCommerce) {
+      logger.warn({ event: 'woocommerce_not_configured' })
+      return '[WooCommerce not configured]'
+    }
+
+    try {
+      const orders = await wooCommerce.getOrders({ status }, ORDERS_LIST_SIZE)
+      logger.info({ event: 'list_orders_fetched', count: orders.length, status })
+
+      session.context.orderList = orders.map(toOrderSummary)
+
+      if (orders.length === 0) {
+        return status
+          ? getMessage('orders_none_filtered').replace('{status}', status)
+          : getMessage('orders_none')
+      }
+
+      const header = status
+        ? getMessage('orders_list_header_filtered').replace('{status}', status).replace('{count}', String(orders.length))
+        : getMessage('orders_list_header').replace('{count}', String(orders.length))
+
+      const orderLines = orders.map(toOrderSummary).map((o, i) =>
+        `${i + 1}. #${o.number} ${o.customer} - ${o.total} ${o.currency} (${o.status})`
+      ).join('\n')
+
+      return `${header}\n\n${orderLines}`
+    } catch (err) {
+      logger.error({ event: 'list_orders_error', error: err, status })
+      return `${getMessage('orders_list_error')}\n\n${getErrorMessage(err)}`
+    }
+  }
+
+  async function processOrderSelection(
+    chatId: string,
+    messageText: string,
+    session: Session,
+    step: InputStep,
+    role: Role | undefined
+  ): Promise<FlowResult> {
+    const query = messageText.trim()
+
+    if (!wooCommerce) {
+      logger.warn({ event: 'woocommerce_not_configured' })
+      return { handled: true, response: '[WooCommerce not configured]' }
+    }
+
+    const filter = normalizeOrderStatus(query)
+    if (filter === 'all' || ORDER_FILTER_STATUSES.includes(filter)) {
+      const status = filter === 'all' ? undefined : filter
+      const listMessage = await executeListOrders(session, status)
+      await memory.set(chatId, session)
+      return { handled: true, response: `${listMessage}\n\n${getMessage(step.messageKey)}` }
+    }
+
+    const orderList = (session.context.orderList as OrderSummary[] | undefined) ?? []
+    const idMatch = query.match(/^#?(\d+)$/)
+    if (!idMatch) {
+      return { handled: true, response: getMessage('order_select_not_found').replace('{query}', query) }
+    }
+
+    const index = parseInt(idMatch[1], 10) - 1
+    const fromList = !query.startsWith('#') && index >= 0 && index < orderList.length
+    const orderId = fromList ? orderList[index].id : parseInt(idMatch[1], 10)
+
+    let order: WooOrder
+    try {
+      order = await wooCommerce.getOrder(orderId)
+    } catch (err) {
+      logger.error({ event: 'order_selection_error', chatId, query, error: err })
+      return { handled: true, response: `${getMessage('order_select_error')}\n\n${getErrorMessage(err)}` }
+    }
+
+    logger.info({ event: 'order_selected', chatId, orderId: order.id, status: order.status })
+    session.context.selectedOrder = toOrderSummary(order)
+
+    return await advanceToStep(chatId, session, step.nextStep, role, formatOrderDetail(order))
+  }
+
+  async function processOrderStatusInput(
+    chatId: string,
+    messageText: string,
+    session: Session,
+    step: InputStep,
+    role: Role | undefined
+  ): Promise<FlowResult> {
+    const selectedOrder = session.context.selectedOrder as OrderSummary | undefined
+    const status = normalizeOrderStatus(messageText)
+
+    if (!ORDER_TARGET_STATUSES.includes(status)) {
+      logger.info({ event: 'order_status_invalid', chatId, input: messageText })
+      return { handled: true, response: getMessage('order_status_invalid') }
+    }
+
+    if (selectedOrder && selectedOrder.status === status) {
+      return { handled: true, response: getMessage('order_status_same').replace('{status}', status) }
+    }
+
+    session.context.orderStatusUpdate = status
+
+    const confirmMessage = getMessage('order_status_confirm_header')
+      .replace('{number}', selectedOrder?.number ?? '-')
+      .replace('{from}', selectedOrder?.status ?? '-')
+      .replace('{to}', status)
+
+    return await advanceToStep(chatId, session, step.nextStep, role, confirmMessage)
+  }
+
+  async function executeUpdateOrderStatus(session: Session): Promise<string> {
+    const selectedOrder = session.context.selectedOrder as OrderSummary | undefined
+    const status = session.context.orderStatusUpdate as string | undefined
+
+    if (!selectedOrder || !status) {
+      logger.warn({ event: 'update_order_status_incomplete', selectedOrder, status })
+      return '[Order update incomplete]'
+    }
+
+    if (!wooCommerce) {
+      logger.warn({ event: 'woocommerce_not_configured' })
+      return '[WooCommerce not configured]'
+    }
+
+    try {
+      const updatedOrder = await wooCommerce.updateOrderStatus(selectedOrder.id, status)
+
+      logger.info({ event: 'update_order_status_success', orderId: updatedOrder.id, from: selectedOrder.status, to: updatedOrder.status })
+
+      clearOrderContext(session)
+      delete session.context.orderList
+
+      return getMessage('order_status_updated')
+        .replace('{number}', updatedOrder.number)
+        .replace('{status}', updatedOrder.status)
+    } catch (err) {
+      logger.error({ event: 'update_order_status_error', error: err, orderId: selectedOrder.id, status })
+      return `${getMessage('order_status_error')}\n\n${getErrorMessage(err)}`
+    }
+  }
+
   function parseInputFields(input: string): Record<string, string> {
     const lines = input.split('\n')
     const fields: Record<string, string> = {}
@@ -614,51 +1181,286 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
     }
   }
 
+  async function executeUpdateProduct(session: Session): Promise<string> {
+    const selectedProduct = session.context.selectedProduct as ProductSummary | undefined
+    const productUpdate = session.context.productUpdate as ProductUpdateData | undefined
+
+    if (!selectedProduct || !productUpdate) {
+      logger.warn({ event: 'update_product_incomplete', selectedProduct, productUpdate })
+      return '[Product update incomplete]'
+    }
+
+    if (!wooCommerce) {
+      logger.warn({ event: 'woocommerce_not_configured' })
+      return '[WooCommerce not configured]'
+    }
+
+    logger.info({ event: 'update_product_processing', productId: selectedProduct.id, productUpdate })
+
+    try {
+      const updateInput: UpdateProductInput = {}
+      if (productUpdate.price !== undefined) {
+        updateInput.regular_price = productUpdate.price.toString()
+      }
+      if (productUpdate.stock !== undefined) {
+        updateInput.stock_quantity = productUpdate.stock
+      }
+
+      const updatedProduct = await wooCommerce.updateProduct(selectedProduct.id, updateInput)
+
+      logger.info({ event: 'update_product_success', productId: updatedProduct.id, price: updatedProduct.regular_price, stock: updatedProduct.stock_quantity })
+
+      const changes: string[] = []
+      if (updateInput.regular_price !== undefined) {
+        changes.push(`Price: ${selectedProduct.price} → ${updatedProduct.regular_price}`)
+      }
+      if (updateInput.stock_quantity !== undefined) {
+        changes.push(`Stock: ${formatStock(selectedProduct.stock)} → ${formatStock(updatedProduct.stock_quantity)}`)
+      }
+
+      delete session.context.selectedProduct
+      delete session.context.productUpdate
+
+      return getMessage('update_product_success')
+        .replace('{name}', updatedProduct.name)
+        .replace('{changes}', changes.join('\n'))
+        .replace('{permalink}', updatedProduct.permalink)
+    } catch (err) {
+      logger.error({ event: 'update_product_error', error: err, productId: selectedProduct.id })
+      return `${getMessage('update_product_error')}\n\n${getErrorMessage(err)}`
+    }
+  }
+
+  async function executeRemoveProduct(session: Session, force: boolean): Promise<string> {
+    const selectedProduct = session.context.selectedProduct as ProductSummary | undefined
+
+    if (!selectedProduct) {
+      logger.warn({ event: 'remove_product_no_selection' })
+      return '[No product selected]'
+    }
+
+    if (!wooCommerce) {
+      logger.warn({ event: 'woocommerce_not_configured' })
+      return '[WooCommerce not configured]'
+    }
+
+    logger.info({ event: 'remove_product_processing', productId: selectedProduct.id, force })
+
+    try {
+      const removedProduct = await wooCommerce.deleteProduct(selectedProduct.id, force)
+
+      logger.info({ event: 'remove_product_success', productId: removedProduct.id, force })
+
+      delete session.context.selectedProduct
+      delete session.context.productList
+
+      const messageKey = force ? 'remove_product_deleted' : 'remove_product_trashed'
+      return getMessage(messageKey).replace('{name}', selectedProduct.name)
+    } catch (err) {
+      logger.error({ event: 'remove_product_error', error: err, productId: selectedProduct.id, force })
+      return `${getMessage('remove_product_error')}\n\n${getErrorMessage(err)}`
+    }
+  }
+
+  interface ProductCard {
+    text: string
+    media?: FlowMedia
+  }
+
+  function stripHtml(html: string): string {
+    return html.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim()
+  }
+
+  function formatProductCard(product: WooProduct): string {
+    const price = product.sale_price
+      ? getMessage('product_card_sale_price').replace('{sale_price}', product.sale_price).replace('{regular_price}', product.regular_price)
+      : product.regular_price || product.price
+    const stock = product.stock_quantity === null
+      ? product.stock_status
+      : `${product.stock_status} (${product.stock_quantity})`
+    const categories = product.categories?.map(c => c.name).join(', ') || '-'
+    const description = stripHtml(product.short_description) || '-'
+
+    return getMessage('product_card')
+      .replace('{name}', product.name)
+      .replace('{sku}', product.sku || '-')
+      .replace('{price}', price)
+      .replace('{stock}', stock)
+      .replace('{categories}', categories)
+      .replace('{description}', description)
+      .replace('{permalink}', product.permalink)
+  }
+
+  async function executeViewProduct(session: Session): Promise<ProductCard> {
+    const selectedProduct = session.context.selectedProduct as ProductSummary | undefined
+
+    if (!selectedProduct) {
+      logger.warn({ event: 'view_product_no_selection' })
+      return { text: '[No product selected]' }
+    }
+
+    if (!wooCommerce) {
+      logger.warn({ event: 'woocommerce_not_configured' })
+      return { text: '[WooCommerce not configured]' }
+    }
+
+    try {
+      const product = await wooCommerce.getProduct(selectedProduct.id)
+      const featuredImage = product.images?.[0]
+
+      logger.info({ event: 'view_product_fetched', productId: product.id, hasImage: !!featuredImage })
+
+      session.context.selectedProduct = toProductSummary(product)
+
+      const card: ProductCard = { text: formatProductCard(product) }
+      if (featuredImage) {
+        card.media = {
+          type: 'url',
+          url: featuredImage.src,
+          fileName: featuredImage.src.split('/').pop()?.split('?')[0] || `product-${product.id}.jpg`,
+          caption: product.name
+        }
+      }
+      return card
+    } catch (err) {
+      logger.error({ event: 'view_product_error', error: err, productId: selectedProduct.id })
+      return { text: `${getMessage('view_product_error')}\n\n${getErrorMessage(err)}` }
+    }
+  }
+
   async function processActionStep(
     chatId: string,
     session: Session,
-    step: ActionStep
+    step: ActionStep,
+    role: Role | undefined
   ): Promise<FlowResult> {
     logger.info({ event: 'action_triggered', chatId, action: step.action })
 
     let actionResult: string
+    let actionMedia: FlowMedia | undefined
     if (step.action === 'listProducts') {
-      actionResult = await executeListProducts()
+      actionResult = await executeListProducts(session, 1)
+    } else if (step.action === 'nextProductsPage') {
+      actionResult = await executeChangeProductsPage(session, 1)
+    } else if (step.action === 'previousProductsPage') {
+      actionResult = await executeChangeProductsPage(session, -1)
     } else if (step.action === 'addProduct') {
       actionResult = await executeAddProduct(session)
+    } else if (step.action === 'updateProduct') {
+      actionResult = await executeUpdateProduct(session)
+    } else if (step.action === 'removeProduct') {
+      actionResult = await executeRemoveProduct(session, false)
+    } else if (step.action === 'forceRemoveProduct') {
+      actionResult = await executeRemoveProduct(session, true)
+    } else if (step.action === 'listOrders') {
+      actionResult = await executeListOrders(session)
+    } else if (step.action === 'updateOrderStatus') {
+      actionResult = await executeUpdateOrderStatus(session)
+    } else if (step.action === 'viewProduct') {
+      const card = await executeViewProduct(session)
+      actionResult = card.text
+      actionMedia = card.media
     } else {
       actionResult = `[Action: ${step.action}]`
     }
 
     session.currentStep = step.nextStep
-    memory.set(chatId, session)
+    await memory.set(chatId, session)
 
     const nextStep = flow.steps[step.nextStep]
 
     if (isChoiceStep(nextStep)) {
-      const buttons = buildButtonsFromChoice(nextStep)
       return {
         handled: true,
         preMessage: actionResult,
-        buttons
+        ...buildChoicePrompt(nextStep, role),
+        media: actionMedia
       }
     }
 
     if (nextStep && 'messageKey' in nextStep && nextStep.messageKey) {
       return {
         handled: true,
-        response: `${actionResult}\n\n${getMessage(nextStep.messageKey)}`
+        response: `${actionResult}\n\n${getMessage(nextStep.messageKey)}`,
+        media: actionMedia
       }
     }
 
     return {
       handled: true,
-      response: actionResult
+      response: actionResult,
+      media: actionMedia
+    }
+  }
+
+  /**
+   * The user wrote after their session lapsed mid-flow. An explicit trigger simply restarts;
+   * anything else gets `session_expired` instead of being dropped as a non-matching trigger.
+   * Without a trigger code every message restarts, so the notice leads the welcome instead.
+   */
+  async function processExpiredSession(
+    chatId: string,
+    message: MessageInput,
+    expiredSession: Session,
+    triggerStep: TriggerStep,
+    role: Role | undefined
+  ): Promise<FlowResult> {
+    logger.info({
+      event: 'session_expired_notice',
+      chatId,
+      step: expiredSession.currentStep,
+      idleMs: Date.now() - expiredSession.updatedAt
+    })
+
+    if (!isTriggerMatch(message)) {
+      return { handled: true, response: getMessage('session_expired') }
+    }
+
+    const result = await processTriggerStep(chatId, message, triggerStep, role)
+    if (!triggerCode) {
+      result.preMessage = getMessage('session_expired_restarted')
     }
+    return result
   }
 
-  async function process(chatId: string, message: MessageInput): Promise<FlowResult> {
-    let session = memory.get(chatId)
+  /** Senders that are not allowed at all only get an answer when they send the trigger. */
+  async function processUnknownSender(chatId: string, message: MessageInput): Promise<FlowResult> {
+    if (await memory.get(chatId)) {
+      await memory.delete(chatId)
+    }
+    if (!isTriggerMatch(message)) {
+      return { handled: false }
+    }
+    logger.warn({ event: 'access_denied', chatId, reason: 'unknown_user' })
+    return { handled: true, response: getMessage('access_denied_unknown_user') }
+  }
+
+  /** The role no longer covers the step the session is in (e.g. the user was demoted mid-flow). */
+  async function denyCurrentStep(chatId: string, session: Session, role: Role): Promise<FlowResult> {
+    logger.warn({ event: 'access_denied', chatId, role, step: session.currentStep })
+    const currentStep = flow.steps[session.currentStep]
+    if (isInputStep(currentStep) || isImageInputStep(currentStep)) {
+      delete session.context[currentStep.contextKey]
+    }
+    clearProductContext(session)
+    clearOrderContext(session)
+    session.currentStep = 'awaiting_intent'
+    await memory.set(chatId, session)
+
+    const intentStep = flow.steps['awaiting_intent']
+    if (isChoiceStep(intentStep)) {
+      return { handled: true, ...buildChoicePrompt(intentStep, role, getMessage('access_denied')) }
+    }
+    return { handled: true, response: getMessage('access_denied') }
+  }
+
+  async function process(chatId: string, message: MessageInput, access: FlowAccess = FULL_ACCESS): Promise<FlowResult> {
+    const { role } = access
+    if (role === undefined) {
+      return await processUnknownSender(chatId, message)
+    }
+
+    let session = await memory.get(chatId)
 
     if (!session) {
       const triggerStep = flow.steps[flow.initialStep]
@@ -666,31 +1468,39 @@ export function createFlowController(dependencies: FlowControllerDeps): FlowCont
         logger.error({ event: 'invalid_initial_step', chatId })
         return { handled: false }
       }
-      return processTriggerStep(chatId, message, triggerStep as TriggerStep)
+      const expiredSession = await memory.takeExpired(chatId)
+      if (expiredSession) {
+        return await processExpiredSession(chatId, message, expiredSession, triggerStep as TriggerStep, role)
+      }
+      return await processTriggerStep(chatId, message, triggerStep as TriggerStep, role)
     }
 
     const currentStep = flow.steps[session.currentStep]
     if (!currentStep) {
       logger.error({ event: 'invalid_step', chatId, step: session.currentStep })
-      memory.delete(chatId)
+      await memory.delete(chatId)
       return { handled: false }
     }
 
+    if (!canAccess(currentStep.roles, role)) {
+      return await denyCurrentStep(chatId, session, role)
+    }
+
     switch (currentStep.type) {
       case 'trigger':
-        return processTriggerStep(chatId, message, currentStep as TriggerStep)
+        return await processTriggerStep(chatId, message, currentStep as TriggerStep, role)
 
       case 'choice':
-        return await processChoiceStep(chatId, message, session, currentStep as ChoiceStep)
+        return await processChoiceStep(chatId, message, session, currentStep as ChoiceStep, role)
 
       case 'input':
-        return await processInputStep(chatId, message, session, currentStep as InputStep)
+        return await processInputStep(chatId, message, session, currentStep as InputStep, role)
 
       case 'imageInput':
-        return await processImageInputStep(chatId, message, session, currentStep as ImageInputStep)
+        return await processImageInputStep(chatId, message, session, currentStep as ImageInputStep, role)
 
       case 'action':
-        return await processActionStep(chatId, session, currentStep as ActionStep)
+        return await processActionStep(chatId, session, currentStep as ActionStep, role)
 
       default:
         logger.warn({ event: 'unhandled_step_type', chatId, type: currentStep.type })
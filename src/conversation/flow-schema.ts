@@ -0,0 +1,222 @@
+import { z } from 'zod'
+import { FlowDefinitionError } from '../errors.js'
+import { ROLES, type Role } from '../auth/access-control.js'
+import type { Messages } from '../messages.js'
+import { isShownAsNumberedMenu } from '../greenapi/layout.js'
+import type { FlowDefinition, Step, StepId } from './types.js'
+
+const stepIdSchema = z.string().min(1)
+const rolesSchema = z.array(z.enum(ROLES as [Role, ...Role[]])).optional()
+
+const stepOptionSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  aliases: z.array(z.string()),
+  roles: rolesSchema,
+  section: z.string().min(1).optional()
+}).strict()
+
+const stepTransitionSchema = z.object({
+  nextStep: stepIdSchema,
+  messageKey: z.string().min(1).optional()
+}).strict()
+
+// strict() turns a misspelt optional field (e.g. `cancelMessagekey`) into an error instead of a silent default
+const stepSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('trigger'),
+    roles: rolesSchema,
+    onMatch: stepTransitionSchema,
+    onNoMatch: z.object({ handled: z.boolean() }).strict()
+  }).strict(),
+  z.object({
+    type: z.literal('choice'),
+    roles: rolesSchema,
+    responseType: z.enum(['text', 'buttons', 'list']),
+    messageKey: z.string().min(1),
+    options: z.array(stepOptionSchema).min(1),
+    transitions: z.record(stepTransitionSchema),
+    onInvalid: z.object({ messageKey: z.string().min(1), nextStep: stepIdSchema }).strict(),
+    confirm: z.boolean().optional()
+  }).strict(),
+  z.object({
+    type: z.literal('input'),
+    roles: rolesSchema,
+    messageKey: z.string().min(1),
+    contextKey: z.string().min(1),
+    nextStep: stepIdSchema,
+    cancelMessageKey: z.string().min(1).optional()
+  }).strict(),
+  z.object({
+    type: z.literal('imageInput'),
+    roles: rolesSchema,
+    messageKey: z.string().min(1),
+    contextKey: z.string().min(1),
+    nextStep: stepIdSchema,
+    optional: z.boolean().optional(),
+    skipKeyword: z.string().min(1).optional()
+  }).strict(),
+  z.object({
+    type: z.literal('action'),
+    roles: rolesSchema,
+    action: z.string().min(1),
+    nextStep: stepIdSchema
+  }).strict(),
+  z.object({
+    type: z.literal('terminal'),
+    roles: rolesSchema,
+    messageKey: z.string().min(1).optional()
+  }).strict()
+])
+
+export const flowDefinitionSchema = z.object({
+  id: z.string().min(1),
+  initialStep: stepIdSchema,
+  sessionTimeoutMs: z.number().int().positive(),
+  steps: z.record(stepSchema)
+}).strict()
+
+interface StepReference {
+  /** Where the reference is, e.g. `steps.awaiting_intent.transitions.list.nextStep`. */
+  path: string
+  value: string
+}
+
+/** The steps a step can move the session to. */
+function nextStepReferences(stepId: StepId, step: Step): StepReference[] {
+  const at = `steps.${stepId}`
+  switch (step.type) {
+    case 'trigger':
+      return [{ path: `${at}.onMatch.nextStep`, value: step.onMatch.nextStep }]
+    case 'choice':
+      return [
+        ...Object.entries(step.transitions).map(([optionId, transition]) => ({ path: `${at}.transitions.${optionId}.nextStep`, value: transition.nextStep })),
+        { path: `${at}.onInvalid.nextStep`, value: step.onInvalid.nextStep }
+      ]
+    case 'input':
+    case 'imageInput':
+    case 'action':
+      return [{ path: `${at}.nextStep`, value: step.nextStep }]
+    case 'terminal':
+      return []
+  }
+}
+
+function messageKeyReferences(stepId: StepId, step: Step): StepReference[] {
+  const at = `steps.${stepId}`
+  const references: (StepReference | false | undefined)[] = []
+  switch (step.type) {
+    case 'trigger':
+      references.push(step.onMatch.messageKey !== undefined && { path: `${at}.onMatch.messageKey`, value: step.onMatch.messageKey })
+      break
+    case 'choice':
+      references.push(
+        { path: `${at}.messageKey`, value: step.messageKey },
+        { path: `${at}.onInvalid.messageKey`, value: step.onInvalid.messageKey },
+        ...Object.entries(step.transitions).map(([optionId, transition]) =>
+          transition.messageKey !== undefined && { path: `${at}.transitions.${optionId}.messageKey`, value: transition.messageKey })
+      )
+      break
+    case 'input':
+      references.push(
+        { path: `${at}.messageKey`, value: step.messageKey },
+        step.cancelMessageKey !== undefined && { path: `${at}.cancelMessageKey`, value: step.cancelMessageKey }
+      )
+      break
+    case 'imageInput':
+      references.push({ path: `${at}.messageKey`, value: step.messageKey })
+      break
+    case 'terminal':
+      references.push(step.messageKey !== undefined && { path: `${at}.messageKey`, value: step.messageKey })
+      break
+  }
+  return references.filter((reference): reference is StepReference => Boolean(reference))
+}
+
+/** Checks that only make sense once every step has the right shape. */
+function findGraphProblems(flow: FlowDefinition, messages: Messages): string[] {
+  const problems: string[] = []
+  const steps = Object.entries(flow.steps)
+
+  const initial = flow.steps[flow.initialStep]
+  if (!initial) {
+    problems.push(`initialStep: unknown step "${flow.initialStep}"`)
+  } else if (initial.type !== 'trigger') {
+    problems.push(`initialStep: "${flow.initialStep}" is a ${initial.type} step, not a trigger`)
+  }
+
+  for (const [stepId, step] of steps) {
+    for (const reference of nextStepReferences(stepId, step)) {
+      if (!flow.steps[reference.value]) {
+        problems.push(`${reference.path}: unknown step "${reference.value}"`)
+      }
+    }
+    for (const reference of messageKeyReferences(stepId, step)) {
+      if (messages[reference.value] === undefined) {
+        problems.push(`${reference.path}: unknown message key "${reference.value}"`)
+      }
+    }
+
+    if (step.type === 'choice') {
+      const optionIds = new Set<string>()
+      for (const option of step.options) {
+        if (optionIds.has(option.id)) {
+          problems.push(`steps.${stepId}.options: duplicate option id "${option.id}"`)
+        }
+        optionIds.add(option.id)
+        if (!step.transitions[option.id]) {
+          problems.push(`steps.${stepId}.transitions: no transition for option "${option.id}"`)
+        }
+      }
+      for (const optionId of Object.keys(step.transitions)) {
+        if (!optionIds.has(optionId)) {
+          problems.push(`steps.${stepId}.transitions.${optionId}: no option with this id`)
+        }
+      }
+      if (step.confirm && isShownAsNumberedMenu(step.responseType, step.options.length)) {
+        problems.push(`steps.${stepId}.confirm: confirm steps refuse menu numbers, so they cannot be sent as a numbered menu`)
+      }
+    }
+  }
+
+  if (initial) {
+    const reachable = new Set<StepId>([flow.initialStep])
+    const pending = [flow.initialStep]
+    while (pending.length > 0) {
+      const stepId = pending.pop()!
+      for (const { value } of nextStepReferences(stepId, flow.steps[stepId])) {
+        if (flow.steps[value] && !reachable.has(value)) {
+          reachable.add(value)
+          pending.push(value)
+        }
+      }
+    }
+    for (const [stepId] of steps) {
+      if (!reachable.has(stepId)) {
+        problems.push(`steps.${stepId}: unreachable from initialStep "${flow.initialStep}"`)
+      }
+    }
+  }
+
+  return problems
+}
+
+/**
+ * Validates a parsed flow file against the step schemas and the messages it uses. Throws a
+ * FlowDefinitionError listing every problem, so a broken flow fails at startup rather than as
+ * `invalid_step` mid-conversation.
+ */
+export function validateFlow(definition: unknown, messages: Messages): FlowDefinition {
+  const result = flowDefinitionSchema.safeParse(definition)
+  if (!result.success) {
+    const problems = result.error.errors.map(issue => `${issue.path.join('.') || 'flow'}: ${issue.message}`)
+    throw new FlowDefinitionError(problems)
+  }
+
+  const flow = result.data as FlowDefinition
+  const problems = findGraphProblems(flow, messages)
+  if (problems.length > 0) {
+    throw new FlowDefinitionError(problems)
+  }
+  return flow
+}
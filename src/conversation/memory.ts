@@ -1,54 +1,91 @@
 import type { Session, StepId, MemoryManager } from './types.js'
 
+/** How long an expired session is remembered so the user can be told it lapsed. */
+export const EXPIRED_SESSION_RETENTION_MS = 24 * 60 * 60 * 1000
+
+export function isSessionExpired(session: Session, now = Date.now()): boolean {
+  return now > session.expiresAt
+}
+
+export function isExpiredSessionRetained(session: Session, now = Date.now()): boolean {
+  return now <= session.expiresAt + EXPIRED_SESSION_RETENTION_MS
+}
+
+export function createSessionFactory(timeoutMs: number): (chatId: string, initialStep: StepId) => Session {
+  return (chatId, initialStep) => {
+    const now = Date.now()
+    return {
+      chatId,
+      currentStep: initialStep,
+      context: {},
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: now + timeoutMs
+    }
+  }
+}
+
+/** Refreshes `updatedAt` / `expiresAt` the way every backend does on `set`. */
+export function touchSession(session: Session, timeoutMs: number): void {
+  const now = Date.now()
+  session.updatedAt = now
+  session.expiresAt = now + timeoutMs
+}
+
 export function createInMemoryManager(timeoutMs: number): MemoryManager {
   const sessions = new Map<string, Session>()
+  const expired = new Map<string, Session>()
 
-  function isExpired(session: Session): boolean {
-    return Date.now() > session.expiresAt
+  function evict(chatId: string, session: Session): void {
+    sessions.delete(chatId)
+    expired.set(chatId, session)
   }
 
-  function get(chatId: string): Session | undefined {
+  async function get(chatId: string): Promise<Session | undefined> {
     const session = sessions.get(chatId)
     if (!session) {
       return undefined
     }
-    if (isExpired(session)) {
-      sessions.delete(chatId)
+    if (isSessionExpired(session)) {
+      evict(chatId, session)
       return undefined
     }
     return session
   }
 
-  function set(chatId: string, session: Session): void {
-    const now = Date.now()
-    session.updatedAt = now
-    session.expiresAt = now + timeoutMs
+  async function set(chatId: string, session: Session): Promise<void> {
+    touchSession(session, timeoutMs)
     sessions.set(chatId, session)
+    expired.delete(chatId)
   }
 
-  function deleteSession(chatId: string): void {
+  async function deleteSession(chatId: string): Promise<void> {
     sessions.delete(chatId)
+    expired.delete(chatId)
   }
 
-  function cleanup(): void {
+  async function cleanup(): Promise<Session[]> {
     const now = Date.now()
+    const evicted: Session[] = []
     for (const [chatId, session] of sessions) {
-      if (now > session.expiresAt) {
-        sessions.delete(chatId)
+      if (isSessionExpired(session, now)) {
+        evict(chatId, session)
+        evicted.push(session)
+      }
+    }
+    for (const [chatId, session] of expired) {
+      if (!isExpiredSessionRetained(session, now)) {
+        expired.delete(chatId)
       }
     }
+    return evicted
   }
 
-  function createSession(chatId: string, initialStep: StepId): Session {
-    const now = Date.now()
-    return {
-      chatId,
-      currentStep: initialStep,
-      context: {},
-      createdAt: now,
-      updatedAt: now,
-      expiresAt: now + timeoutMs
-    }
+  async function takeExpired(chatId: string): Promise<Session | undefined> {
+    await get(chatId)
+    const session = expired.get(chatId)
+    expired.delete(chatId)
+    return session && isExpiredSessionRetained(session) ? session : undefined
   }
 
   return {
@@ -56,6 +93,7 @@ export function createInMemoryManager(timeoutMs: number): MemoryManager {
     set,
     delete: deleteSession,
     cleanup,
-    createSession
+    takeExpired,
+    createSession: createSessionFactory(timeoutMs)
   }
 }
@@ -0,0 +1,124 @@
+import { createNoopLogger, type Logger } from '../logger.js'
+import type { RedisClient } from '../redis/client.js'
+import { EXPIRED_SESSION_RETENTION_MS, createSessionFactory, isExpiredSessionRetained, isSessionExpired, touchSession } from './memory.js'
+import type { Session, MemoryManager } from './types.js'
+
+export interface RedisMemoryManagerOptions {
+  client: RedisClient
+  timeoutMs: number
+  keyPrefix?: string
+  logger?: Logger
+}
+
+const SCAN_COUNT = 100
+
+/**
+ * Stores each session as a JSON string under `<keyPrefix><chatId>`. `expiresAt` decides
+ * expiry like the other backends; the PX expiry only lets Redis drop sessions nobody
+ * touched again once the expired-session retention has passed too. Expired sessions
+ * are moved to `expired:<keyPrefix><chatId>` for `takeExpired`.
+ */
+export function createRedisMemoryManager(options: RedisMemoryManagerOptions): MemoryManager {
+  const { client, timeoutMs } = options
+  const keyPrefix = options.keyPrefix ?? 'session:'
+  const logger = options.logger ?? createNoopLogger()
+
+  function keyFor(chatId: string): string {
+    return `${keyPrefix}${chatId}`
+  }
+
+  function expiredKeyFor(chatId: string): string {
+    return `expired:${keyPrefix}${chatId}`
+  }
+
+  function parseSession(key: string, value: string): Session | undefined {
+    try {
+      return JSON.parse(value) as Session
+    } catch (err) {
+      logger.error({ event: 'redis_session_corrupt', key, error: err })
+      return undefined
+    }
+  }
+
+  async function evict(session: Session): Promise<void> {
+    const retainMs = session.expiresAt + EXPIRED_SESSION_RETENTION_MS - Date.now()
+    await client.command(['DEL', keyFor(session.chatId)])
+    if (retainMs > 0) {
+      await client.command(['SET', expiredKeyFor(session.chatId), JSON.stringify(session), 'PX', retainMs])
+    }
+  }
+
+  async function get(chatId: string): Promise<Session | undefined> {
+    const key = keyFor(chatId)
+    const value = await client.command(['GET', key])
+    if (typeof value !== 'string') {
+      return undefined
+    }
+    const session = parseSession(key, value)
+    if (!session) {
+      await client.command(['DEL', key])
+      return undefined
+    }
+    if (isSessionExpired(session)) {
+      await evict(session)
+      return undefined
+    }
+    return session
+  }
+
+  async function set(chatId: string, session: Session): Promise<void> {
+    touchSession(session, timeoutMs)
+    await client.command(['SET', keyFor(chatId), JSON.stringify(session), 'PX', timeoutMs + EXPIRED_SESSION_RETENTION_MS])
+    await client.command(['DEL', expiredKeyFor(chatId)])
+  }
+
+  async function deleteSession(chatId: string): Promise<void> {
+    await client.command(['DEL', keyFor(chatId), expiredKeyFor(chatId)])
+  }
+
+  async function cleanup(): Promise<Session[]> {
+    const now = Date.now()
+    const evicted: Session[] = []
+    let cursor = '0'
+    do {
+      const reply = await client.command(['SCAN', cursor, 'MATCH', `${keyPrefix}*`, 'COUNT', SCAN_COUNT]) as [string, string[]]
+      cursor = reply[0]
+      for (const key of reply[1]) {
+        const value = await client.command(['GET', key])
+        if (typeof value !== 'string') {
+          continue
+        }
+        const session = parseSession(key, value)
+        if (!session) {
+          await client.command(['DEL', key])
+        } else if (isSessionExpired(session, now)) {
+          await evict(session)
+          evicted.push(session)
+        }
+      }
+    } while (cursor !== '0')
+    return evicted
+  }
+
+  async function takeExpired(chatId: string): Promise<Session | undefined> {
+    await get(chatId)
+    const key = expiredKeyFor(chatId)
+    const value = await client.command(['GET', key])
+    if (typeof value !== 'string') {
+      return undefined
+    }
+    await client.command(['DEL', key])
+    const session = parseSession(key, value)
+    return session && isExpiredSessionRetained(session) ? session : undefined
+  }
+
+  return {
+    get,
+    set,
+    delete: deleteSession,
+    cleanup,
+    takeExpired,
+    createSession: createSessionFactory(timeoutMs),
+    close: () => client.close()
+  }
+}
@@ -0,0 +1,30 @@
+import { createNoopLogger, type Logger } from '../logger.js'
+import type { ScheduledTask } from '../scheduler/scheduler.js'
+import type { MemoryManager } from './types.js'
+
+export interface SessionSweeperDeps {
+  memory: MemoryManager
+  logger?: Logger
+}
+
+/** Scheduler task that evicts expired sessions and logs the step each user abandoned. */
+export function createSessionSweeper(deps: SessionSweeperDeps): ScheduledTask {
+  const { memory } = deps
+  const logger = deps.logger ?? createNoopLogger()
+
+  async function run(): Promise<number> {
+    const expired = await memory.cleanup()
+    const now = Date.now()
+    for (const session of expired) {
+      logger.info({
+        event: 'session_expired',
+        chatId: session.chatId,
+        step: session.currentStep,
+        idleMs: now - session.updatedAt
+      })
+    }
+    return expired.length
+  }
+
+  return { name: 'session_cleanup', run }
+}
@@ -1,3 +1,5 @@
+import type { Role } from '../auth/access-control.js'
+
 export type StepId = string
 
 export interface Session {
@@ -13,6 +15,9 @@ export interface StepOption {
   id: string
   label: string
   aliases: string[]
+  roles?: Role[]
+  /** Section the option is listed under when the step is sent as a list message. */
+  section?: string
 }
 
 export interface StepTransition {
@@ -22,6 +27,7 @@ export interface StepTransition {
 
 export interface BaseStep {
   type: 'trigger' | 'choice' | 'input' | 'imageInput' | 'action' | 'terminal'
+  roles?: Role[]
 }
 
 export interface TriggerStep extends BaseStep {
@@ -32,11 +38,14 @@ export interface TriggerStep extends BaseStep {
 
 export interface ChoiceStep extends BaseStep {
   type: 'choice'
-  responseType: 'text' | 'buttons'
+  /** How options are offered: a numbered text menu, reply buttons or a list message. */
+  responseType: 'text' | 'buttons' | 'list'
   messageKey: string
   options: StepOption[]
   transitions: Record<string, StepTransition>
   onInvalid: { messageKey: string; nextStep: StepId }
+  /** Confirms an irreversible action: only option ids and aliases select, never a menu number. */
+  confirm?: boolean
 }
 
 export interface InputStep extends BaseStep {
@@ -44,6 +53,7 @@ export interface InputStep extends BaseStep {
   messageKey: string
   contextKey: string
   nextStep: StepId
+  cancelMessageKey?: string
 }
 
 export interface ImageInputStep extends BaseStep {
@@ -75,6 +85,11 @@ export interface FlowDefinition {
   steps: Record<StepId, Step>
 }
 
+/** Who is sending the message; `role` is undefined for senders that are not allowed at all. */
+export interface FlowAccess {
+  role?: Role
+}
+
 export interface FlowButtonOption {
   buttonId: string
   buttonText: string
@@ -87,18 +102,49 @@ export interface FlowButtons {
   footer?: string
 }
 
+export interface FlowListRow {
+  rowId: string
+  title: string
+  description?: string
+}
+
+export interface FlowListSection {
+  title?: string
+  rows: FlowListRow[]
+}
+
+export interface FlowList {
+  body: string
+  /** Label of the button that opens the list. */
+  buttonText: string
+  sections: FlowListSection[]
+  header?: string
+  footer?: string
+}
+
+/** A file sent before the text of a reply: fetched by Green API from `url`, or uploaded from `data`. */
+export type FlowMedia =
+  | { type: 'url'; url: string; fileName: string; caption?: string }
+  | { type: 'upload'; data: Buffer; fileName: string; mimeType?: string; caption?: string }
+
 export interface FlowResult {
   handled: boolean
   response?: string
   preMessage?: string
   buttons?: FlowButtons
+  list?: FlowList
+  media?: FlowMedia
   sessionEnded?: boolean
 }
 
 export interface MemoryManager {
-  get(chatId: string): Session | undefined
-  set(chatId: string, session: Session): void
-  delete(chatId: string): void
-  cleanup(): void
+  get(chatId: string): Promise<Session | undefined>
+  set(chatId: string, session: Session): Promise<void>
+  delete(chatId: string): Promise<void>
+  /** Evicts every expired session and returns the evicted ones. */
+  cleanup(): Promise<Session[]>
+  /** Returns (once) the session that expired for this chat, if it expired recently. */
+  takeExpired(chatId: string): Promise<Session | undefined>
   createSession(chatId: string, initialStep: StepId): Session
+  close?(): Promise<void>
 }
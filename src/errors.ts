@@ -14,15 +14,42 @@ export class MessagesError extends Error {
   }
 }
 
+/** Everything wrong with a flow file at once, so one failed start shows every fix needed. */
+export class FlowDefinitionError extends Error {
+  readonly name = 'FlowDefinitionError'
+
+  constructor(public readonly problems: string[], source = 'Flow definition') {
+    super(`${source} is invalid:\n${problems.map(problem => `  - ${problem}`).join('\n')}`)
+  }
+}
+
 export class GreenApiError extends Error {
   readonly name = 'GreenApiError'
-  
+  /** From the `Retry-After` header of a 429 response. */
+  readonly retryAfterMs?: number
+
   constructor(
     message: string,
     public readonly statusCode?: number,
-    options?: ErrorOptions
+    options?: ErrorOptions & { retryAfterMs?: number }
+  ) {
+    super(message, options)
+    this.retryAfterMs = options?.retryAfterMs
+  }
+}
+
+export class TelegramError extends Error {
+  readonly name = 'TelegramError'
+  /** From `parameters.retry_after` of a 429 response. */
+  readonly retryAfterMs?: number
+
+  constructor(
+    message: string,
+    public readonly statusCode?: number,
+    options?: ErrorOptions & { retryAfterMs?: number }
   ) {
     super(message, options)
+    this.retryAfterMs = options?.retryAfterMs
   }
 }
 
@@ -34,6 +61,23 @@ export class WebhookError extends Error {
   }
 }
 
+/** Sending the reply failed after the flow already ran, so the message must not be processed again. */
+export class WebhookReplyError extends Error {
+  readonly name = 'WebhookReplyError'
+
+  constructor(message: string, public readonly chatId: string, options?: ErrorOptions) {
+    super(message, options)
+  }
+}
+
+export class WebhookSignatureError extends Error {
+  readonly name = 'WebhookSignatureError'
+
+  constructor(message: string) {
+    super(message)
+  }
+}
+
 export type WooCommerceErrorCode = 
   | 'network_error'
   | 'unauthorized'
@@ -42,6 +86,8 @@ export type WooCommerceErrorCode =
   | 'duplicate_sku'
   | 'invalid_data'
   | 'image_upload_error'
+  | 'already_trashed'
+  | 'trash_not_supported'
   | 'server_error'
   | 'unknown'
 
@@ -57,3 +103,43 @@ export class WooCommerceError extends Error {
     super(message, options)
   }
 }
+
+export class RedisError extends Error {
+  readonly name = 'RedisError'
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+  }
+}
+
+export class SessionStoreError extends Error {
+  readonly name = 'SessionStoreError'
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+  }
+}
+
+export class FailedMessageStoreError extends Error {
+  readonly name = 'FailedMessageStoreError'
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+  }
+}
+
+export class JobQueueError extends Error {
+  readonly name = 'JobQueueError'
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+  }
+}
+
+export class JobStoreError extends Error {
+  readonly name = 'JobStoreError'
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+  }
+}
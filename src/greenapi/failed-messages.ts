@@ -0,0 +1,141 @@
+import { appendFile, mkdir, readFile } from 'fs/promises'
+import { dirname } from 'path'
+import { FailedMessageStoreError } from '../errors.js'
+import { createNoopLogger, type Logger } from '../logger.js'
+import type { SendButtonsParams, SendFileByUploadParams, SendFileByUrlParams, SendListMessageParams } from './sender.js'
+
+/** Upload params with the file as base64, so the message survives a JSON round trip. */
+export type StoredFileUpload = Omit<SendFileByUploadParams, 'file'> & { fileBase64: string }
+
+export type OutboundMessage =
+  | { method: 'sendMessage'; chatId: string; message: string }
+  | { method: 'sendButtons'; params: SendButtonsParams }
+  | { method: 'sendListMessage'; params: SendListMessageParams }
+  | { method: 'sendFileByUrl'; params: SendFileByUrlParams }
+  | { method: 'sendFileByUpload'; params: StoredFileUpload }
+
+/** An outbound message that still failed after every retry. */
+export interface FailedMessage {
+  id: string
+  chatId: string
+  request: OutboundMessage
+  attempts: number
+  error: string
+  statusCode?: number
+  failedAt: string
+}
+
+export interface FailedMessageStore {
+  /** Adds the message, replacing an earlier entry with the same id. */
+  add(message: FailedMessage): Promise<void>
+  /** Oldest first. */
+  list(): Promise<FailedMessage[]>
+  get(id: string): Promise<FailedMessage | undefined>
+  remove(id: string): Promise<void>
+  close?(): Promise<void>
+}
+
+type LogEntry =
+  | { type: 'failed'; message: FailedMessage }
+  | { type: 'resent'; id: string; at: string }
+
+export function createInMemoryFailedMessageStore(): FailedMessageStore {
+  const messages = new Map<string, FailedMessage>()
+
+  return {
+    add: async (message) => {
+      messages.delete(message.id)
+      messages.set(message.id, message)
+    },
+    list: async () => [...messages.values()],
+    get: async (id) => messages.get(id),
+    remove: async (id) => { messages.delete(id) }
+  }
+}
+
+export interface FileFailedMessageStoreOptions {
+  filePath: string
+  logger?: Logger
+}
+
+/**
+ * Append-only JSON Lines log: one `failed` entry per failure and one `resent` entry
+ * once a message went out after all. The file doubles as an audit trail.
+ */
+export function createFileFailedMessageStore(options: FileFailedMessageStoreOptions): FailedMessageStore {
+  const { filePath } = options
+  const logger = options.logger ?? createNoopLogger()
+  let loading: Promise<Map<string, FailedMessage>> | undefined
+  let writing: Promise<void> = Promise.resolve()
+
+  async function readLog(): Promise<Map<string, FailedMessage>> {
+    const messages = new Map<string, FailedMessage>()
+    let content: string
+    try {
+      content = await readFile(filePath, 'utf-8')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return messages
+      }
+      throw new FailedMessageStoreError(`Failed to read failed messages from ${filePath}`, { cause: err })
+    }
+
+    for (const [index, line] of content.split('\n').entries()) {
+      if (!line.trim()) {
+        continue
+      }
+      try {
+        const entry = JSON.parse(line) as LogEntry
+        if (entry.type === 'failed') {
+          messages.delete(entry.message.id)
+          messages.set(entry.message.id, entry.message)
+        } else {
+          messages.delete(entry.id)
+        }
+      } catch (err) {
+        logger.error({ event: 'failed_message_log_corrupt', filePath, line: index + 1, error: err })
+      }
+    }
+    return messages
+  }
+
+  function load(): Promise<Map<string, FailedMessage>> {
+    loading ??= readLog()
+    return loading
+  }
+
+  function append(entry: LogEntry): Promise<void> {
+    const write = writing.then(async () => {
+      try {
+        await mkdir(dirname(filePath), { recursive: true })
+        await appendFile(filePath, `${JSON.stringify(entry)}\n`, 'utf-8')
+      } catch (err) {
+        throw new FailedMessageStoreError(`Failed to write failed messages to ${filePath}`, { cause: err })
+      }
+    })
+    writing = write.catch(() => {})
+    return write
+  }
+
+  async function add(message: FailedMessage): Promise<void> {
+    const messages = await load()
+    messages.delete(message.id)
+    messages.set(message.id, message)
+    await append({ type: 'failed', message })
+  }
+
+  async function remove(id: string): Promise<void> {
+    const messages = await load()
+    if (messages.delete(id)) {
+      await append({ type: 'resent', id, at: new Date().toISOString() })
+    }
+  }
+
+  return {
+    add,
+    list: async () => [...(await load()).values()],
+    get: async (id) => (await load()).get(id),
+    remove,
+    close: async () => { await writing }
+  }
+}
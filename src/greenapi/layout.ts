@@ -0,0 +1,227 @@
+import type {
+  ButtonOption,
+  GreenApiSender,
+  ListSection,
+  SendButtonsParams,
+  SendFileByUploadParams,
+  SendFileByUrlParams,
+  SendListMessageParams,
+  SendMessageResponse
+} from './sender.js'
+
+export interface MessageLimits {
+  /** Longest text sent as one message. */
+  textLength: number
+  /** Most buttons one interactive message can carry. */
+  buttonCount: number
+  buttonTextLength: number
+  buttonBodyLength: number
+  headerLength: number
+  footerLength: number
+  captionLength: number
+  /** Most rows across all sections of a list message. */
+  listRowCount: number
+  listRowTitleLength: number
+  listRowDescriptionLength: number
+  listSectionTitleLength: number
+  listButtonTextLength: number
+}
+
+/** Green API / WhatsApp limits for sendMessage, sendInteractiveButtonsReply, sendListMessage and file captions. */
+export const GREEN_API_LIMITS: MessageLimits = {
+  textLength: 4096,
+  buttonCount: 3,
+  buttonTextLength: 25,
+  buttonBodyLength: 1024,
+  headerLength: 60,
+  footerLength: 60,
+  captionLength: 1024,
+  listRowCount: 10,
+  listRowTitleLength: 24,
+  listRowDescriptionLength: 72,
+  listSectionTitleLength: 24,
+  listButtonTextLength: 20
+}
+
+export function truncate(text: string, maxLength: number): string {
+  return text.length <= maxLength ? text : `${text.slice(0, maxLength - 1).trimEnd()}…`
+}
+
+/** Splits a line longer than `maxLength`, at the last space when there is one. */
+function splitLongLine(line: string, maxLength: number): string[] {
+  const parts: string[] = []
+  let rest = line
+  while (rest.length > maxLength) {
+    const space = rest.lastIndexOf(' ', maxLength)
+    const cut = space > 0 ? space : maxLength
+    parts.push(rest.slice(0, cut).trimEnd())
+    rest = rest.slice(cut).trimStart()
+  }
+  parts.push(rest)
+  return parts
+}
+
+/**
+ * Splits text into messages of at most `maxLength` characters, breaking on line
+ * boundaries and only inside a line when a single line is too long.
+ */
+export function splitText(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) {
+    return [text]
+  }
+  const chunks: string[] = []
+  let current = ''
+  for (const line of text.split('\n').flatMap(line => splitLongLine(line, maxLength))) {
+    const candidate = current === '' ? line : `${current}\n${line}`
+    if (candidate.length <= maxLength) {
+      current = candidate
+      continue
+    }
+    if (current.trim() !== '') {
+      chunks.push(current)
+    }
+    current = line
+  }
+  if (current.trim() !== '') {
+    chunks.push(current)
+  }
+  return chunks
+}
+
+export interface NumberedMenu {
+  body: string
+  labels: string[]
+  header?: string
+  footer?: string
+}
+
+/** Options as a numbered text menu, for text-only steps and when buttons or lists do not fit. */
+export function formatNumberedMenu(menu: NumberedMenu): string {
+  const lines = menu.labels.map((label, index) => `${index + 1}. ${label}`)
+  return [menu.header, menu.body, lines.join('\n'), menu.footer]
+    .filter((part): part is string => Boolean(part))
+    .join('\n\n')
+}
+
+/**
+ * Whether a choice reaches WhatsApp users as a numbered text menu: text steps, and buttons or list
+ * rows beyond what one interactive message allows (see createLayoutSender).
+ */
+export function isShownAsNumberedMenu(
+  responseType: 'text' | 'buttons' | 'list',
+  optionCount: number,
+  limits: MessageLimits = GREEN_API_LIMITS
+): boolean {
+  switch (responseType) {
+    case 'text':
+      return true
+    case 'buttons':
+      return optionCount > limits.buttonCount
+    case 'list':
+      return optionCount > limits.listRowCount
+  }
+}
+
+/**
+ * Wraps a sender so everything it sends fits the limits: long text becomes several
+ * messages, long headers move into the body, button and list texts are truncated, and more
+ * options than one interactive message allows become a numbered text menu. Resolves to the
+ * response for the last message.
+ */
+export function createLayoutSender(sender: GreenApiSender, limits: MessageLimits = GREEN_API_LIMITS): GreenApiSender {
+  async function sendText(chatId: string, text: string): Promise<SendMessageResponse> {
+    let response: SendMessageResponse | undefined
+    for (const chunk of splitText(text, limits.textLength)) {
+      response = await sender.sendMessage(chatId, chunk)
+    }
+    return response ?? sender.sendMessage(chatId, text)
+  }
+
+  /** Sends whatever does not fit an interactive message body as text first, and returns the rest. */
+  async function fitBody(chatId: string, text: string): Promise<string> {
+    const chunks = splitText(text, limits.buttonBodyLength)
+    const body = chunks.pop()!
+    for (const chunk of chunks) {
+      await sender.sendMessage(chatId, chunk)
+    }
+    return body
+  }
+
+  /** Headers carry real content (summaries, access notices), so one that is too long opens the body instead of being cut. */
+  function fitHeader(header: string | undefined, body: string): { header?: string; body: string } {
+    if (!header || header.length <= limits.headerLength) {
+      return { header, body }
+    }
+    return { header: undefined, body: `${header}\n\n${body}` }
+  }
+
+  async function sendButtons(params: SendButtonsParams): Promise<SendMessageResponse> {
+    if (params.buttons.length > limits.buttonCount) {
+      const labels = params.buttons.map(button => button.buttonText)
+      return sendText(params.chatId, formatNumberedMenu({ ...params, labels }))
+    }
+
+    const fitted = fitHeader(params.header, params.body)
+    const body = await fitBody(params.chatId, fitted.body)
+
+    const buttons: ButtonOption[] = params.buttons.map(button => ({
+      buttonId: button.buttonId,
+      buttonText: truncate(button.buttonText, limits.buttonTextLength)
+    }))
+    return sender.sendButtons({
+      chatId: params.chatId,
+      body,
+      buttons,
+      header: fitted.header,
+      footer: params.footer && truncate(params.footer, limits.footerLength)
+    })
+  }
+
+  async function sendListMessage(params: SendListMessageParams): Promise<SendMessageResponse> {
+    const rows = params.sections.flatMap(section => section.rows)
+    if (rows.length > limits.listRowCount) {
+      const labels = rows.map(row => row.title)
+      return sendText(params.chatId, formatNumberedMenu({ ...params, body: params.message, header: params.title, labels }))
+    }
+
+    const fitted = fitHeader(params.title, params.message)
+    const message = await fitBody(params.chatId, fitted.body)
+    const sections: ListSection[] = params.sections.map(section => ({
+      title: section.title && truncate(section.title, limits.listSectionTitleLength),
+      rows: section.rows.map(row => ({
+        rowId: row.rowId,
+        title: truncate(row.title, limits.listRowTitleLength),
+        description: row.description && truncate(row.description, limits.listRowDescriptionLength)
+      }))
+    }))
+    return sender.sendListMessage({
+      chatId: params.chatId,
+      message,
+      buttonText: truncate(params.buttonText, limits.listButtonTextLength),
+      sections,
+      title: fitted.header,
+      footer: params.footer && truncate(params.footer, limits.footerLength)
+    })
+  }
+
+  /** A caption that is too long goes out as text after the file. */
+  async function sendFile<P extends SendFileByUrlParams | SendFileByUploadParams>(
+    params: P,
+    send: (params: P) => Promise<SendMessageResponse>
+  ): Promise<SendMessageResponse> {
+    if (!params.caption || params.caption.length <= limits.captionLength) {
+      return send(params)
+    }
+    const response = await send({ ...params, caption: undefined })
+    await sendText(params.chatId, params.caption)
+    return response
+  }
+
+  return {
+    sendMessage: sendText,
+    sendButtons,
+    sendListMessage,
+    sendFileByUrl: (params) => sendFile(params, sender.sendFileByUrl),
+    sendFileByUpload: (params) => sendFile(params, sender.sendFileByUpload)
+  }
+}
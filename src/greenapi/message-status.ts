@@ -0,0 +1,221 @@
+import { createNoopLogger, type Logger } from '../logger.js'
+import { getMessage, type Messages } from '../messages.js'
+import type { Clock } from '../scheduler/clock.js'
+import type { OutboundMessage } from './failed-messages.js'
+import { chatIdOf, sendOutbound } from './retry.js'
+import type { GreenApiSender, SendMessageResponse } from './sender.js'
+
+/** `pending` until Green API reports on the message; the rest are Green API's own statuses. */
+export type DeliveryStatus = 'pending' | 'sent' | 'delivered' | 'read' | 'failed' | 'noAccount' | 'notInGroup' | 'yellowCard'
+
+/** Statuses after which the message will not reach the recipient. */
+const FAILED_STATUSES: ReadonlySet<DeliveryStatus> = new Set(['failed', 'noAccount', 'notInGroup', 'yellowCard'])
+
+export function isFailedStatus(status: DeliveryStatus): boolean {
+  return FAILED_STATUSES.has(status)
+}
+
+export interface StatusEntry {
+  status: DeliveryStatus
+  at: string
+  description?: string
+}
+
+export interface TrackedMessage {
+  idMessage: string
+  chatId: string
+  /** What was sent, e.g. `reply` or `order_alert`. Unset for messages sent outside the bot. */
+  kind?: string
+  /** Kept for important messages, so a failed delivery can be sent again. */
+  request?: OutboundMessage
+  /** Deliveries so far, counting the first one; set for important messages. */
+  attempt?: number
+  /** idMessage of the failed message this one resends. */
+  retryOf?: string
+  /** Oldest first. */
+  statuses: StatusEntry[]
+}
+
+export interface MessageStatusStore {
+  /** Adds the message, replacing an earlier entry with the same idMessage. */
+  save(message: TrackedMessage): Promise<void>
+  get(idMessage: string): Promise<TrackedMessage | undefined>
+  /** Newest first. */
+  listByChat(chatId: string): Promise<TrackedMessage[]>
+  close?(): Promise<void>
+}
+
+/** Keeps the `limit` most recently sent messages; older ones are dropped. */
+export function createInMemoryMessageStatusStore(limit: number): MessageStatusStore {
+  const messages = new Map<string, TrackedMessage>()
+
+  return {
+    save: async (message) => {
+      if (!messages.has(message.idMessage) && messages.size >= limit) {
+        const oldest = messages.keys().next().value
+        if (oldest !== undefined) {
+          messages.delete(oldest)
+        }
+      }
+      messages.set(message.idMessage, message)
+    },
+    get: async (idMessage) => messages.get(idMessage),
+    listByChat: async (chatId) => [...messages.values()].filter(message => message.chatId === chatId).reverse()
+  }
+}
+
+export interface StatusUpdate {
+  idMessage: string
+  chatId: string
+  status: DeliveryStatus
+  description?: string
+  /** When Green API saw the change; defaults to now. */
+  at?: Date
+}
+
+export interface TrackOptions {
+  kind: string
+  /** Failed deliveries are resent, then reported to the fallback chats. */
+  important?: boolean
+}
+
+export interface MessageStatusTrackerDeps {
+  store: MessageStatusStore
+  clock: Clock
+  messages: Messages
+  logger?: Logger
+  /** Resends of an important message whose delivery failed. Defaults to 1. */
+  maxRetries?: number
+  /** Chats told about important messages that still could not be delivered. */
+  fallbackChatIds?: string[]
+}
+
+export interface MessageStatusTracker {
+  /** Wraps a sender so the idMessage of everything it sends is tracked under `kind`. */
+  track(sender: GreenApiSender, options: TrackOptions): GreenApiSender
+  /** Records a status reported by an `outgoingMessageStatus` webhook. */
+  recordStatus(update: StatusUpdate): Promise<void>
+  /** Status history of the messages sent to a chat, newest first. */
+  history(chatId: string): Promise<TrackedMessage[]>
+}
+
+export function createMessageStatusTracker(deps: MessageStatusTrackerDeps): MessageStatusTracker {
+  const { store, clock, messages } = deps
+  const logger = deps.logger ?? createNoopLogger()
+  const maxRetries = deps.maxRetries ?? 1
+  const fallbackChatIds = deps.fallbackChatIds ?? []
+  // Resends go through the sender the message was first sent with
+  const senders = new Map<string, GreenApiSender>()
+
+  async function saveSafely(message: TrackedMessage): Promise<void> {
+    try {
+      await store.save(message)
+    } catch (err) {
+      logger.error({ event: 'message_status_store_error', idMessage: message.idMessage, error: err })
+    }
+  }
+
+  async function deliver(
+    request: OutboundMessage,
+    options: TrackOptions,
+    retry?: { of: TrackedMessage }
+  ): Promise<SendMessageResponse> {
+    const response = await sendOutbound(senders.get(options.kind)!, request)
+    const message: TrackedMessage = {
+      idMessage: response.idMessage,
+      chatId: chatIdOf(request),
+      kind: options.kind,
+      statuses: [{ status: 'pending', at: clock.now().toISOString() }]
+    }
+    if (options.important) {
+      message.request = request
+      message.attempt = retry ? (retry.of.attempt ?? 1) + 1 : 1
+      message.retryOf = retry?.of.idMessage
+    }
+    await saveSafely(message)
+    return response
+  }
+
+  function track(sender: GreenApiSender, options: TrackOptions): GreenApiSender {
+    senders.set(options.kind, sender)
+    return {
+      sendMessage: (chatId, message) => deliver({ method: 'sendMessage', chatId, message }, options),
+      sendButtons: (params) => deliver({ method: 'sendButtons', params }, options),
+      sendListMessage: (params) => deliver({ method: 'sendListMessage', params }, options),
+      sendFileByUrl: (params) => deliver({ method: 'sendFileByUrl', params }, options),
+      sendFileByUpload: ({ file, ...params }) =>
+        deliver({ method: 'sendFileByUpload', params: { ...params, fileBase64: file.toString('base64') } }, options)
+    }
+  }
+
+  function describe(request: OutboundMessage): string {
+    switch (request.method) {
+      case 'sendMessage':
+        return request.message
+      case 'sendButtons':
+        return request.params.body
+      case 'sendListMessage':
+        return request.params.message
+      default:
+        return request.params.caption ?? request.params.fileName
+    }
+  }
+
+  async function handleFailure(message: TrackedMessage, entry: StatusEntry): Promise<void> {
+    const kind = message.kind!
+    const request = message.request!
+    const attempt = message.attempt ?? 1
+    if (attempt <= maxRetries) {
+      logger.warn({ event: 'delivery_failed_resending', idMessage: message.idMessage, chatId: message.chatId, kind, status: entry.status, attempt })
+      try {
+        await deliver(request, { kind, important: true }, { of: message })
+      } catch (err) {
+        // The sender has already retried and dead-lettered it
+        logger.error({ event: 'delivery_resend_error', idMessage: message.idMessage, chatId: message.chatId, error: err })
+      }
+      return
+    }
+
+    logger.error({ event: 'delivery_failed_permanently', idMessage: message.idMessage, chatId: message.chatId, kind, status: entry.status, attempt })
+    const sender = senders.get(kind)!
+    const notice = getMessage(messages, 'delivery_failed_notice')
+      .replace('{chatId}', message.chatId)
+      .replace('{status}', entry.description ?? entry.status)
+      .replace('{message}', describe(request))
+    for (const chatId of fallbackChatIds.filter(id => id !== message.chatId)) {
+      try {
+        await sender.sendMessage(chatId, notice)
+      } catch (err) {
+        logger.error({ event: 'delivery_fallback_error', chatId, idMessage: message.idMessage, error: err })
+      }
+    }
+  }
+
+  async function recordStatus(update: StatusUpdate): Promise<void> {
+    const entry: StatusEntry = {
+      status: update.status,
+      at: (update.at ?? clock.now()).toISOString(),
+      description: update.description
+    }
+    const message = await store.get(update.idMessage)
+      ?? { idMessage: update.idMessage, chatId: update.chatId, statuses: [] }
+    // Green API repeats a status when it retries the webhook
+    if (message.statuses.some(previous => previous.status === entry.status)) {
+      return
+    }
+    const alreadyFailed = message.statuses.some(previous => isFailedStatus(previous.status))
+    message.statuses.push(entry)
+    await saveSafely(message)
+    logger.info({ event: 'message_status_recorded', idMessage: message.idMessage, chatId: message.chatId, kind: message.kind, status: entry.status })
+
+    if (isFailedStatus(entry.status) && !alreadyFailed && message.request && message.kind && senders.has(message.kind)) {
+      await handleFailure(message, entry)
+    }
+  }
+
+  return {
+    track,
+    recordStatus,
+    history: (chatId) => store.listByChat(chatId)
+  }
+}
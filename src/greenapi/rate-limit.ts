@@ -0,0 +1,130 @@
+import { createNoopLogger, type Logger } from '../logger.js'
+import type { Clock, TimerHandle } from '../scheduler/clock.js'
+import type { GreenApiSender, SendMessageResponse } from './sender.js'
+
+export interface RateLimitedSenderDeps {
+  sender: GreenApiSender
+  clock: Clock
+  logger?: Logger
+  /** Sustained sends per second across all chats. */
+  messagesPerSecond: number
+  /** Sends allowed back to back before the rate applies. Defaults to 1. */
+  burst?: number
+  /** Minimum time between two sends to the same chat. Defaults to 0. */
+  perChatIntervalMs?: number
+}
+
+export interface RateLimitedSender extends GreenApiSender {
+  /** Sends waiting for a token or for their chat's spacing. */
+  pending(): number
+}
+
+interface PendingSend {
+  chatId: string
+  send(): Promise<SendMessageResponse>
+  resolve(response: SendMessageResponse): void
+  reject(error: unknown): void
+}
+
+/**
+ * Token bucket in front of a sender. Sends that exceed the rate wait in a queue
+ * instead of being dropped; each chat keeps its own order, and a chat that is still
+ * within its spacing does not hold up other chats.
+ */
+export function createRateLimitedSender(deps: RateLimitedSenderDeps): RateLimitedSender {
+  const { sender, clock, messagesPerSecond } = deps
+  const logger = deps.logger ?? createNoopLogger()
+  const capacity = Math.max(1, deps.burst ?? 1)
+  const perChatIntervalMs = deps.perChatIntervalMs ?? 0
+
+  const queue: PendingSend[] = []
+  const lastSentAt = new Map<string, number>()
+  let tokens = capacity
+  let refilledAt = clock.now().getTime()
+  let timer: TimerHandle | undefined
+
+  function refill(now: number): void {
+    tokens = Math.min(capacity, tokens + (now - refilledAt) * messagesPerSecond / 1000)
+    refilledAt = now
+  }
+
+  function forgetSpacedChats(now: number): void {
+    for (const [chatId, sentAt] of lastSentAt) {
+      if (sentAt + perChatIntervalMs <= now) {
+        lastSentAt.delete(chatId)
+      }
+    }
+  }
+
+  /** Index of the oldest send whose chat may send now, or the wait until one may. */
+  function nextReady(now: number): { index: number } | { waitMs: number } {
+    const seen = new Set<string>()
+    let waitMs = Infinity
+    for (const [index, pending] of queue.entries()) {
+      if (seen.has(pending.chatId)) {
+        continue
+      }
+      seen.add(pending.chatId)
+      const sentAt = lastSentAt.get(pending.chatId)
+      const chatWaitMs = sentAt === undefined ? 0 : sentAt + perChatIntervalMs - now
+      if (chatWaitMs <= 0) {
+        return { index }
+      }
+      waitMs = Math.min(waitMs, chatWaitMs)
+    }
+    return { waitMs }
+  }
+
+  function wakeAfter(waitMs: number): void {
+    logger.info({ event: 'greenapi_send_throttled', pending: queue.length, waitMs })
+    timer = clock.setTimeout(() => {
+      timer = undefined
+      pump()
+    }, waitMs)
+  }
+
+  function pump(): void {
+    // A newly queued send may be ready before the pending wake-up (another chat)
+    if (timer !== undefined) {
+      clock.clearTimeout(timer)
+      timer = undefined
+    }
+    const now = clock.now().getTime()
+    refill(now)
+    forgetSpacedChats(now)
+
+    while (queue.length > 0) {
+      const next = nextReady(now)
+      if ('waitMs' in next) {
+        wakeAfter(next.waitMs)
+        return
+      }
+      if (tokens < 1) {
+        wakeAfter(Math.ceil((1 - tokens) * 1000 / messagesPerSecond))
+        return
+      }
+      tokens -= 1
+      const [pending] = queue.splice(next.index, 1)
+      if (perChatIntervalMs > 0) {
+        lastSentAt.set(pending.chatId, now)
+      }
+      pending.send().then(pending.resolve, pending.reject)
+    }
+  }
+
+  function enqueue(chatId: string, send: () => Promise<SendMessageResponse>): Promise<SendMessageResponse> {
+    return new Promise((resolve, reject) => {
+      queue.push({ chatId, send, resolve, reject })
+      pump()
+    })
+  }
+
+  return {
+    sendMessage: (chatId, message) => enqueue(chatId, () => sender.sendMessage(chatId, message)),
+    sendButtons: (params) => enqueue(params.chatId, () => sender.sendButtons(params)),
+    sendListMessage: (params) => enqueue(params.chatId, () => sender.sendListMessage(params)),
+    sendFileByUrl: (params) => enqueue(params.chatId, () => sender.sendFileByUrl(params)),
+    sendFileByUpload: (params) => enqueue(params.chatId, () => sender.sendFileByUpload(params)),
+    pending: () => queue.length
+  }
+}
@@ -0,0 +1,162 @@
+import { randomUUID } from 'crypto'
+import { GreenApiError } from '../errors.js'
+import { createNoopLogger, type Logger } from '../logger.js'
+import type { Clock } from '../scheduler/clock.js'
+import type { FailedMessage, FailedMessageStore, OutboundMessage } from './failed-messages.js'
+import type { GreenApiSender, SendMessageResponse } from './sender.js'
+
+export interface RetryingSenderDeps {
+  sender: GreenApiSender
+  failedMessages: FailedMessageStore
+  clock: Clock
+  logger?: Logger
+  /** Sends per message, including the first. Defaults to 4. */
+  maxAttempts?: number
+  /** Backoff before the first retry, doubled for every retry after it. Defaults to 500. */
+  baseDelayMs?: number
+  /** Upper bound for one backoff; a longer `Retry-After` ends the retries. Defaults to 30000. */
+  maxDelayMs?: number
+  random?: () => number
+}
+
+export interface RetryingSender extends GreenApiSender {
+  listFailed(): Promise<FailedMessage[]>
+  /** Sends a failed message again; resolves to undefined when no such message is stored. */
+  resend(id: string): Promise<SendMessageResponse | undefined>
+}
+
+export function chatIdOf(request: OutboundMessage): string {
+  return request.method === 'sendMessage' ? request.chatId : request.params.chatId
+}
+
+/** Sends a stored outbound message through `sender`. */
+export function sendOutbound(sender: GreenApiSender, request: OutboundMessage): Promise<SendMessageResponse> {
+  switch (request.method) {
+    case 'sendMessage':
+      return sender.sendMessage(request.chatId, request.message)
+    case 'sendButtons':
+      return sender.sendButtons(request.params)
+    case 'sendListMessage':
+      return sender.sendListMessage(request.params)
+    case 'sendFileByUrl':
+      return sender.sendFileByUrl(request.params)
+    case 'sendFileByUpload': {
+      const { fileBase64, ...params } = request.params
+      return sender.sendFileByUpload({ ...params, file: Buffer.from(fileBase64, 'base64') })
+    }
+  }
+}
+
+/** Network errors, 429 and 5xx are worth another try; other 4xx will fail the same way. */
+export function isRetryableSendError(err: unknown): err is GreenApiError {
+  if (!(err instanceof GreenApiError)) {
+    return false
+  }
+  return err.statusCode === undefined || err.statusCode === 429 || err.statusCode >= 500
+}
+
+/**
+ * Wraps a sender so failed sends are retried with exponential backoff and jitter, and
+ * messages that still fail are recorded in `failedMessages` for inspection and resending.
+ */
+export function createRetryingSender(deps: RetryingSenderDeps): RetryingSender {
+  const { sender, failedMessages, clock } = deps
+  const logger = deps.logger ?? createNoopLogger()
+  const maxAttempts = deps.maxAttempts ?? 4
+  const baseDelayMs = deps.baseDelayMs ?? 500
+  const maxDelayMs = deps.maxDelayMs ?? 30000
+  const random = deps.random ?? Math.random
+
+  function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => clock.setTimeout(resolve, ms))
+  }
+
+  /** Half the exponential delay is fixed, the other half random, so retries spread out. */
+  function backoffDelay(failures: number): number {
+    const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (failures - 1))
+    return Math.round(exponential / 2 + random() * exponential / 2)
+  }
+
+  async function deliver(request: OutboundMessage, failedId?: string): Promise<SendMessageResponse> {
+    const chatId = chatIdOf(request)
+    let attempts = 0
+    for (;;) {
+      attempts++
+      try {
+        return await sendOutbound(sender, request)
+      } catch (err) {
+        const delayMs = retryDelay(err, attempts)
+        if (delayMs === undefined) {
+          await recordFailure(request, err, attempts, failedId)
+          throw err
+        }
+        logger.warn({
+          event: 'greenapi_send_retry',
+          method: request.method,
+          chatId,
+          attempt: attempts,
+          delayMs,
+          statusCode: err instanceof GreenApiError ? err.statusCode : undefined
+        })
+        await sleep(delayMs)
+      }
+    }
+  }
+
+  function retryDelay(err: unknown, attempts: number): number | undefined {
+    if (attempts >= maxAttempts || !isRetryableSendError(err)) {
+      return undefined
+    }
+    if (err.retryAfterMs !== undefined) {
+      return err.retryAfterMs <= maxDelayMs ? err.retryAfterMs : undefined
+    }
+    return backoffDelay(attempts)
+  }
+
+  async function recordFailure(request: OutboundMessage, err: unknown, attempts: number, failedId?: string): Promise<void> {
+    const failed: FailedMessage = {
+      id: failedId ?? randomUUID(),
+      chatId: chatIdOf(request),
+      request,
+      attempts,
+      error: err instanceof Error ? err.message : String(err),
+      statusCode: err instanceof GreenApiError ? err.statusCode : undefined,
+      failedAt: clock.now().toISOString()
+    }
+    logger.error({
+      event: 'greenapi_send_failed_permanently',
+      id: failed.id,
+      method: request.method,
+      chatId: failed.chatId,
+      attempts,
+      statusCode: failed.statusCode
+    })
+    try {
+      await failedMessages.add(failed)
+    } catch (storeErr) {
+      logger.error({ event: 'failed_message_store_error', id: failed.id, error: storeErr })
+    }
+  }
+
+  async function resend(id: string): Promise<SendMessageResponse | undefined> {
+    const failed = await failedMessages.get(id)
+    if (!failed) {
+      return undefined
+    }
+    logger.info({ event: 'greenapi_resend_start', id, method: failed.request.method, chatId: failed.chatId })
+    const response = await deliver(failed.request, id)
+    await failedMessages.remove(id)
+    logger.info({ event: 'greenapi_resend_success', id, idMessage: response.idMessage })
+    return response
+  }
+
+  return {
+    sendMessage: (chatId, message) => deliver({ method: 'sendMessage', chatId, message }),
+    sendButtons: (params) => deliver({ method: 'sendButtons', params }),
+    sendListMessage: (params) => deliver({ method: 'sendListMessage', params }),
+    sendFileByUrl: (params) => deliver({ method: 'sendFileByUrl', params }),
+    sendFileByUpload: ({ file, ...params }) => deliver({ method: 'sendFileByUpload', params: { ...params, fileBase64: file.toString('base64') } }),
+    listFailed: () => failedMessages.list(),
+    resend
+  }
+}
@@ -23,9 +23,64 @@ export interface SendButtonsParams {
   footer?: string
 }
 
+export interface ListRow {
+  rowId: string
+  title: string
+  description?: string
+}
+
+export interface ListSection {
+  title?: string
+  rows: ListRow[]
+}
+
+export interface SendListMessageParams {
+  chatId: string
+  message: string
+  /** Label of the button that opens the list. */
+  buttonText: string
+  sections: ListSection[]
+  title?: string
+  footer?: string
+}
+
+export interface SendFileByUrlParams {
+  chatId: string
+  urlFile: string
+  fileName: string
+  caption?: string
+}
+
+export interface SendFileByUploadParams {
+  chatId: string
+  file: Buffer
+  fileName: string
+  caption?: string
+  /** Defaults to application/octet-stream. */
+  mimeType?: string
+}
+
 export interface GreenApiSender {
   sendMessage(chatId: string, message: string): Promise<SendMessageResponse>
   sendButtons(params: SendButtonsParams): Promise<SendMessageResponse>
+  sendListMessage(params: SendListMessageParams): Promise<SendMessageResponse>
+  sendFileByUrl(params: SendFileByUrlParams): Promise<SendMessageResponse>
+  /** For files that have no public URL, such as generated exports. */
+  sendFileByUpload(params: SendFileByUploadParams): Promise<SendMessageResponse>
+}
+
+/**
+ * Parses a `Retry-After` header (delay in seconds or an HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000
+  }
+  const at = Date.parse(value)
+  return Number.isNaN(at) ? undefined : Math.max(0, at - now)
 }
 
 export function createGreenApiSender(
@@ -35,6 +90,15 @@ export function createGreenApiSender(
 ): GreenApiSender {
   const log = logger ?? createNoopLogger()
   const baseUrl = `https://api.green-api.com/waInstance${config.instanceId}`
+  // Uploads go to the separate media host
+  const mediaUrl = `https://media.green-api.com/waInstance${config.instanceId}`
+
+  async function apiError(response: Response, chatId: string): Promise<GreenApiError> {
+    const body = await response.text()
+    log.error({ event: 'greenapi_api_error', chatId, statusCode: response.status, body })
+    const retryAfterMs = response.status === 429 ? parseRetryAfter(response.headers?.get('retry-after')) : undefined
+    return new GreenApiError(`Green API error: ${response.status}`, response.status, { retryAfterMs })
+  }
 
   async function sendMessage(chatId: string, message: string): Promise<SendMessageResponse> {
     const url = `${baseUrl}/sendMessage/${config.token}`
@@ -54,9 +118,7 @@ export function createGreenApiSender(
     }
 
     if (!response.ok) {
-      const body = await response.text()
-      log.error({ event: 'greenapi_api_error', chatId, statusCode: response.status, body })
-      throw new GreenApiError(`Green API error: ${response.status}`, response.status)
+      throw await apiError(response, chatId)
     }
 
     const data = await response.json() as SendMessageResponse
@@ -91,9 +153,7 @@ export function createGreenApiSender(
     }
 
     if (!response.ok) {
-      const body = await response.text()
-      log.error({ event: 'greenapi_api_error', chatId: params.chatId, statusCode: response.status, body })
-      throw new GreenApiError(`Green API error: ${response.status}`, response.status)
+      throw await apiError(response, params.chatId)
     }
 
     const data = await response.json() as SendMessageResponse
@@ -102,7 +162,107 @@ export function createGreenApiSender(
     return data
   }
 
-  return { sendMessage, sendButtons }
+  async function sendListMessage(params: SendListMessageParams): Promise<SendMessageResponse> {
+    const url = `${baseUrl}/sendListMessage/${config.token}`
+
+    log.info({ event: 'greenapi_send_list_start', chatId: params.chatId, rowCount: params.sections.reduce((count, section) => count + section.rows.length, 0) })
+
+    const payload: Record<string, unknown> = {
+      chatId: params.chatId,
+      message: params.message,
+      buttonText: params.buttonText,
+      sections: params.sections
+    }
+    if (params.title) payload.title = params.title
+    if (params.footer) payload.footer = params.footer
+
+    let response: Response
+    try {
+      response = await fetchFunction(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      })
+    } catch (err) {
+      log.error({ event: 'greenapi_network_error', chatId: params.chatId, error: err })
+      throw new GreenApiError('Network error sending list', undefined, { cause: err })
+    }
+
+    if (!response.ok) {
+      throw await apiError(response, params.chatId)
+    }
+
+    const data = await response.json() as SendMessageResponse
+    log.info({ event: 'greenapi_send_list_success', chatId: params.chatId, idMessage: data.idMessage })
+
+    return data
+  }
+
+  async function sendFileByUrl(params: SendFileByUrlParams): Promise<SendMessageResponse> {
+    const url = `${baseUrl}/sendFileByUrl/${config.token}`
+
+    log.info({ event: 'greenapi_send_file_start', chatId: params.chatId, fileName: params.fileName })
+
+    const payload: Record<string, unknown> = {
+      chatId: params.chatId,
+      urlFile: params.urlFile,
+      fileName: params.fileName
+    }
+    if (params.caption) payload.caption = params.caption
+
+    let response: Response
+    try {
+      response = await fetchFunction(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      })
+    } catch (err) {
+      log.error({ event: 'greenapi_network_error', chatId: params.chatId, error: err })
+      throw new GreenApiError('Network error sending file', undefined, { cause: err })
+    }
+
+    if (!response.ok) {
+      throw await apiError(response, params.chatId)
+    }
+
+    const data = await response.json() as SendMessageResponse
+    log.info({ event: 'greenapi_send_file_success', chatId: params.chatId, idMessage: data.idMessage })
+
+    return data
+  }
+
+  async function sendFileByUpload(params: SendFileByUploadParams): Promise<SendMessageResponse> {
+    const url = `${mediaUrl}/sendFileByUpload/${config.token}`
+
+    log.info({ event: 'greenapi_upload_file_start', chatId: params.chatId, fileName: params.fileName, size: params.file.length })
+
+    const form = new FormData()
+    form.append('chatId', params.chatId)
+    form.append('file', new Blob([params.file], { type: params.mimeType ?? 'application/octet-stream' }), params.fileName)
+    form.append('fileName', params.fileName)
+    if (params.caption) form.append('caption', params.caption)
+
+    let response: Response
+    try {
+      // fetch sets the multipart boundary itself, so no Content-Type header here
+      response = await fetchFunction(url, { method: 'POST', body: form })
+    } catch (err) {
+      log.error({ event: 'greenapi_network_error', chatId: params.chatId, error: err })
+      throw new GreenApiError('Network error uploading file', undefined, { cause: err })
+    }
+
+    if (!response.ok) {
+      throw await apiError(response, params.chatId)
+    }
+
+    const data = await response.json() as SendMessageResponse
+    log.info({ event: 'greenapi_upload_file_success', chatId: params.chatId, idMessage: data.idMessage })
+
+    return data
+  }
+
+  return { sendMessage, sendButtons, sendListMessage, sendFileByUrl, sendFileByUpload }
 }
 
 export function createMockSender(logger?: Logger): GreenApiSender {
@@ -138,7 +298,54 @@ export function createMockSender(logger?: Logger): GreenApiSender {
     return { idMessage }
   }
 
-  return { sendMessage, sendButtons }
+  async function sendListMessage(params: SendListMessageParams): Promise<SendMessageResponse> {
+    messageCounter++
+    const idMessage = `mock-list-${messageCounter}`
+
+    log.info({
+      event: 'mock_send_list',
+      chatId: params.chatId,
+      message: params.message,
+      rows: params.sections.flatMap(section => section.rows.map(row => row.title)),
+      idMessage
+    })
+
+    return { idMessage }
+  }
+
+  async function sendFileByUrl(params: SendFileByUrlParams): Promise<SendMessageResponse> {
+    messageCounter++
+    const idMessage = `mock-file-${messageCounter}`
+
+    log.info({
+      event: 'mock_send_file',
+      chatId: params.chatId,
+      urlFile: params.urlFile,
+      fileName: params.fileName,
+      caption: params.caption,
+      idMessage
+    })
+
+    return { idMessage }
+  }
+
+  async function sendFileByUpload(params: SendFileByUploadParams): Promise<SendMessageResponse> {
+    messageCounter++
+    const idMessage = `mock-upload-${messageCounter}`
+
+    log.info({
+      event: 'mock_upload_file',
+      chatId: params.chatId,
+      fileName: params.fileName,
+      size: params.file.length,
+      caption: params.caption,
+      idMessage
+    })
+
+    return { idMessage }
+  }
+
+  return { sendMessage, sendButtons, sendListMessage, sendFileByUrl, sendFileByUpload }
 }
 
 export function createFakeGreenApiSender(logger?: Logger): GreenApiSender {
@@ -178,5 +385,62 @@ export function createFakeGreenApiSender(logger?: Logger): GreenApiSender {
     return { idMessage }
   }
 
-  return { sendMessage, sendButtons }
+  async function sendListMessage(params: SendListMessageParams): Promise<SendMessageResponse> {
+    messageCounter++
+    const idMessage = `fake-greenapi-list-${messageCounter}`
+
+    log.info({
+      event: 'FAKE_GREENAPI_SEND_LIST',
+      mode: 'FAKE GreenAPI',
+      chatId: params.chatId,
+      title: params.title,
+      message: params.message,
+      buttonText: params.buttonText,
+      sections: params.sections.map(section => ({
+        title: section.title,
+        rows: section.rows.map(row => ({ id: row.rowId, title: row.title }))
+      })),
+      footer: params.footer,
+      idMessage
+    })
+
+    return { idMessage }
+  }
+
+  async function sendFileByUrl(params: SendFileByUrlParams): Promise<SendMessageResponse> {
+    messageCounter++
+    const idMessage = `fake-greenapi-file-${messageCounter}`
+
+    log.info({
+      event: 'FAKE_GREENAPI_SEND_FILE_BY_URL',
+      mode: 'FAKE GreenAPI',
+      chatId: params.chatId,
+      urlFile: params.urlFile,
+      fileName: params.fileName,
+      caption: params.caption,
+      idMessage
+    })
+
+    return { idMessage }
+  }
+
+  async function sendFileByUpload(params: SendFileByUploadParams): Promise<SendMessageResponse> {
+    messageCounter++
+    const idMessage = `fake-greenapi-upload-${messageCounter}`
+
+    log.info({
+      event: 'FAKE_GREENAPI_SEND_FILE_BY_UPLOAD',
+      mode: 'FAKE GreenAPI',
+      chatId: params.chatId,
+      fileName: params.fileName,
+      mimeType: params.mimeType,
+      size: params.file.length,
+      caption: params.caption,
+      idMessage
+    })
+
+    return { idMessage }
+  }
+
+  return { sendMessage, sendButtons, sendListMessage, sendFileByUrl, sendFileByUpload }
 }
@@ -1,7 +1,7 @@
 import 'dotenv/config'
 import { createApp } from './app.js'
 import { logger } from './logger.js'
-import { ConfigError } from './errors.js'
+import { ConfigError, FlowDefinitionError } from './errors.js'
 
 async function main() {
   let server, dependencies
@@ -18,6 +18,12 @@ async function main() {
         message: err.message,
         field: err.field
       })
+    } else if (err instanceof FlowDefinitionError) {
+      logger.error({
+        event: 'startup_failed',
+        reason: 'flow_definition_error',
+        problems: err.problems
+      })
     } else {
       logger.error({ event: 'startup_failed', error: err })
     }
@@ -33,6 +39,18 @@ async function main() {
     logger.error({ event: 'server_start_failed', error: err })
     process.exit(1)
   }
+
+  for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.once(signal, async () => {
+      logger.info({ event: 'server_shutdown', signal })
+      try {
+        await server.close()
+      } catch (err) {
+        logger.error({ event: 'server_shutdown_failed', error: err })
+      }
+      process.exit(0)
+    })
+  }
 }
 
 main()
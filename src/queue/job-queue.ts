@@ -0,0 +1,227 @@
+import { randomUUID } from 'crypto'
+import { JobQueueError } from '../errors.js'
+import { createNoopLogger, type Logger } from '../logger.js'
+import type { Clock, TimerHandle } from '../scheduler/clock.js'
+import type { DeadLetterJob, Job, JobQueueStats, JobStore } from './types.js'
+
+export interface JobQueueDeps<T> {
+  name: string
+  store: JobStore<T>
+  worker(payload: T, job: Job<T>): Promise<unknown>
+  clock: Clock
+  logger?: Logger
+  /** Jobs run at the same time. Defaults to 1. */
+  concurrency?: number
+  /** Runs per job before it is dead-lettered. Defaults to 3. */
+  maxAttempts?: number
+  /** Delay before the first retry, doubled for every retry after it. Defaults to 1000. */
+  retryDelayMs?: number
+  /** Errors for which this returns false are dead-lettered without a retry. */
+  isRetryable?(error: unknown): boolean
+}
+
+export interface JobQueue<T> {
+  /** Resolves to false when a job with this id is already queued or running. */
+  enqueue(payload: T, id?: string): Promise<boolean>
+  /** Restores jobs left in the store and starts running jobs. */
+  start(): Promise<void>
+  /**
+   * Stops accepting jobs and waits up to `timeoutMs` for queued and running jobs to
+   * finish. Jobs waiting for a retry stay in the store. Resolves to true when the
+   * queue emptied in time.
+   */
+  drain(timeoutMs: number): Promise<boolean>
+  stats(): JobQueueStats
+  deadLetters(): Promise<DeadLetterJob<T>[]>
+}
+
+export function createJobQueue<T>(deps: JobQueueDeps<T>): JobQueue<T> {
+  const { name, store, worker, clock } = deps
+  const logger = deps.logger ?? createNoopLogger()
+  const concurrency = deps.concurrency ?? 1
+  const maxAttempts = deps.maxAttempts ?? 3
+  const retryDelayMs = deps.retryDelayMs ?? 1000
+  const isRetryable = deps.isRetryable ?? (() => true)
+
+  const ready: Job<T>[] = []
+  const retrying = new Map<string, TimerHandle>()
+  const active = new Set<string>()
+  const idleWaiters: Array<() => void> = []
+  let running = 0
+  let started = false
+  let draining = false
+  const counters = { completed: 0, retried: 0, deadLettered: 0 }
+  const latency = { last: 0, total: 0, max: 0 }
+
+  function now(): number {
+    return clock.now().getTime()
+  }
+
+  function isIdle(): boolean {
+    return running === 0 && ready.length === 0
+  }
+
+  function notifyIdle(): void {
+    if (!isIdle()) {
+      return
+    }
+    for (const resolve of idleWaiters.splice(0)) {
+      resolve()
+    }
+  }
+
+  function pump(): void {
+    while (started && running < concurrency && ready.length > 0) {
+      void runJob(ready.shift()!)
+    }
+  }
+
+  async function storeSafely(operation: string, job: Job<T>, write: () => Promise<void>): Promise<void> {
+    try {
+      await write()
+    } catch (err) {
+      logger.error({ event: 'job_store_error', queue: name, operation, jobId: job.id, error: err })
+    }
+  }
+
+  function recordLatency(job: Job<T>): number {
+    const elapsed = Math.max(0, now() - job.enqueuedAt)
+    latency.last = elapsed
+    latency.total += elapsed
+    latency.max = Math.max(latency.max, elapsed)
+    return elapsed
+  }
+
+  function scheduleRetry(job: Job<T>): void {
+    const delayMs = retryDelayMs * 2 ** (job.attempts - 1)
+    const timer = clock.setTimeout(() => {
+      retrying.delete(job.id)
+      ready.push(job)
+      pump()
+    }, delayMs)
+    retrying.set(job.id, timer)
+    logger.warn({ event: 'job_retry_scheduled', queue: name, jobId: job.id, attempts: job.attempts, delayMs, error: job.lastError })
+  }
+
+  async function deadLetter(job: Job<T>): Promise<void> {
+    counters.deadLettered++
+    logger.error({ event: 'job_dead_lettered', queue: name, jobId: job.id, attempts: job.attempts, error: job.lastError })
+    await storeSafely('dead_letter', job, async () => {
+      await store.addDeadLetter({ ...job, failedAt: now() })
+      await store.remove(job.id)
+    })
+  }
+
+  async function runJob(job: Job<T>): Promise<void> {
+    running++
+    try {
+      await worker(job.payload, job)
+      job.attempts++
+      counters.completed++
+      const latencyMs = recordLatency(job)
+      logger.info({ event: 'job_completed', queue: name, jobId: job.id, attempts: job.attempts, latencyMs })
+      await storeSafely('remove', job, () => store.remove(job.id))
+      active.delete(job.id)
+    } catch (err) {
+      job.attempts++
+      job.lastError = err instanceof Error ? err.message : String(err)
+      if (job.attempts >= maxAttempts || !isRetryable(err)) {
+        await deadLetter(job)
+        active.delete(job.id)
+      } else {
+        counters.retried++
+        await storeSafely('update', job, () => store.update(job))
+        if (draining) {
+          // Left in the store; a persistent backend runs it after the restart
+          logger.warn({ event: 'job_retry_deferred', queue: name, jobId: job.id, attempts: job.attempts })
+          active.delete(job.id)
+        } else {
+          scheduleRetry(job)
+        }
+      }
+    } finally {
+      running--
+      pump()
+      notifyIdle()
+    }
+  }
+
+  async function enqueue(payload: T, id: string = randomUUID()): Promise<boolean> {
+    if (draining) {
+      throw new JobQueueError(`Job queue ${name} is shutting down`)
+    }
+    if (active.has(id)) {
+      logger.info({ event: 'job_duplicate', queue: name, jobId: id })
+      return false
+    }
+    const job: Job<T> = { id, payload, attempts: 0, enqueuedAt: now() }
+    active.add(id)
+    try {
+      await store.add(job)
+    } catch (err) {
+      active.delete(id)
+      throw err
+    }
+    ready.push(job)
+    pump()
+    return true
+  }
+
+  async function start(): Promise<void> {
+    if (started) {
+      return
+    }
+    const restored = (await store.list()).filter(job => !active.has(job.id))
+    for (const job of restored) {
+      active.add(job.id)
+      ready.push(job)
+    }
+    if (restored.length > 0) {
+      logger.info({ event: 'jobs_restored', queue: name, count: restored.length })
+    }
+    started = true
+    pump()
+  }
+
+  async function drain(timeoutMs: number): Promise<boolean> {
+    draining = true
+    for (const [jobId, timer] of retrying) {
+      clock.clearTimeout(timer)
+      active.delete(jobId)
+    }
+    const deferred = retrying.size
+    retrying.clear()
+
+    let timer: TimerHandle | undefined
+    const emptied = isIdle() || await new Promise<boolean>(resolve => {
+      idleWaiters.push(() => resolve(true))
+      timer = clock.setTimeout(() => resolve(false), timeoutMs)
+    })
+    if (timer !== undefined) {
+      clock.clearTimeout(timer)
+    }
+    logger.info({ event: 'job_queue_drained', queue: name, emptied, remaining: ready.length + running, deferred })
+    return emptied
+  }
+
+  function stats(): JobQueueStats {
+    return {
+      depth: ready.length + retrying.size,
+      running,
+      ...counters,
+      latencyMs: {
+        last: latency.last,
+        average: counters.completed === 0 ? 0 : Math.round(latency.total / counters.completed),
+        max: latency.max
+      }
+    }
+  }
+
+  return {
+    enqueue,
+    start,
+    drain,
+    stats,
+    deadLetters: () => store.listDeadLetters()
+  }
+}
@@ -0,0 +1,135 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+import { JobStoreError } from '../errors.js'
+import { createNoopLogger, type Logger } from '../logger.js'
+import type { DeadLetterJob, Job, JobStore } from './types.js'
+
+/** Dead letters beyond this many are dropped, oldest first. */
+export const DEAD_LETTER_LIMIT = 100
+
+interface StoredJobs<T> {
+  jobs: Map<string, Job<T>>
+  deadLetters: DeadLetterJob<T>[]
+}
+
+interface JobFile<T> {
+  jobs: Job<T>[]
+  deadLetters: DeadLetterJob<T>[]
+}
+
+function pushDeadLetter<T>(deadLetters: DeadLetterJob<T>[], job: DeadLetterJob<T>): void {
+  deadLetters.push(job)
+  if (deadLetters.length > DEAD_LETTER_LIMIT) {
+    deadLetters.splice(0, deadLetters.length - DEAD_LETTER_LIMIT)
+  }
+}
+
+export function createInMemoryJobStore<T>(): JobStore<T> {
+  const stored: StoredJobs<T> = { jobs: new Map(), deadLetters: [] }
+
+  return {
+    add: async (job) => { stored.jobs.set(job.id, { ...job }) },
+    update: async (job) => { stored.jobs.set(job.id, { ...job }) },
+    remove: async (jobId) => { stored.jobs.delete(jobId) },
+    list: async () => [...stored.jobs.values()].map(job => ({ ...job })),
+    addDeadLetter: async (job) => pushDeadLetter(stored.deadLetters, { ...job }),
+    listDeadLetters: async () => [...stored.deadLetters]
+  }
+}
+
+export interface FileJobStoreOptions {
+  filePath: string
+  logger?: Logger
+}
+
+/**
+ * Keeps jobs in memory and rewrites a JSON file after every change, the same way the
+ * file session store does: temp file plus rename, one write at a time.
+ */
+export function createFileJobStore<T>(options: FileJobStoreOptions): JobStore<T> {
+  const { filePath } = options
+  const logger = options.logger ?? createNoopLogger()
+  let loading: Promise<StoredJobs<T>> | undefined
+  let writing: Promise<void> = Promise.resolve()
+
+  async function readJobs(): Promise<StoredJobs<T>> {
+    let content: string
+    try {
+      content = await readFile(filePath, 'utf-8')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { jobs: new Map(), deadLetters: [] }
+      }
+      throw new JobStoreError(`Failed to read jobs from ${filePath}`, { cause: err })
+    }
+
+    try {
+      const file = JSON.parse(content) as JobFile<T>
+      logger.info({ event: 'job_file_loaded', filePath, count: file.jobs.length, deadLetters: file.deadLetters.length })
+      return {
+        jobs: new Map(file.jobs.map(job => [job.id, job])),
+        deadLetters: file.deadLetters
+      }
+    } catch (err) {
+      logger.error({ event: 'job_file_corrupt', filePath, error: err })
+      return { jobs: new Map(), deadLetters: [] }
+    }
+  }
+
+  function load(): Promise<StoredJobs<T>> {
+    loading ??= readJobs()
+    return loading
+  }
+
+  async function persist(stored: StoredJobs<T>): Promise<void> {
+    const file: JobFile<T> = { jobs: [...stored.jobs.values()], deadLetters: stored.deadLetters }
+    const content = JSON.stringify(file)
+    const write = writing.then(async () => {
+      const tempPath = `${filePath}.tmp`
+      try {
+        await mkdir(dirname(filePath), { recursive: true })
+        await writeFile(tempPath, content, 'utf-8')
+        await rename(tempPath, filePath)
+      } catch (err) {
+        throw new JobStoreError(`Failed to write jobs to ${filePath}`, { cause: err })
+      }
+    })
+    writing = write.catch(() => {})
+    return write
+  }
+
+  async function save(job: Job<T>): Promise<void> {
+    const stored = await load()
+    stored.jobs.set(job.id, { ...job })
+    await persist(stored)
+  }
+
+  async function remove(jobId: string): Promise<void> {
+    const stored = await load()
+    if (stored.jobs.delete(jobId)) {
+      await persist(stored)
+    }
+  }
+
+  async function list(): Promise<Job<T>[]> {
+    const stored = await load()
+    return [...stored.jobs.values()].map(job => ({ ...job }))
+  }
+
+  async function addDeadLetter(job: DeadLetterJob<T>): Promise<void> {
+    const stored = await load()
+    pushDeadLetter(stored.deadLetters, { ...job })
+    await persist(stored)
+  }
+
+  async function listDeadLetters(): Promise<DeadLetterJob<T>[]> {
+    const stored = await load()
+    return [...stored.deadLetters]
+  }
+
+  async function close(): Promise<void> {
+    await writing
+  }
+
+  return { add: save, update: save, remove, list, addDeadLetter, listDeadLetters, close }
+}
@@ -0,0 +1,39 @@
+export interface Job<T> {
+  id: string
+  payload: T
+  /** Attempts made so far; 0 until the first run finishes. */
+  attempts: number
+  enqueuedAt: number
+  lastError?: string
+}
+
+export interface DeadLetterJob<T> extends Job<T> {
+  failedAt: number
+}
+
+/**
+ * Where queued jobs live between enqueue and completion. A persistent backend lets
+ * jobs accepted just before a restart run once the process is back.
+ */
+export interface JobStore<T> {
+  add(job: Job<T>): Promise<void>
+  update(job: Job<T>): Promise<void>
+  remove(jobId: string): Promise<void>
+  /** Jobs not yet completed or dead-lettered, oldest first. */
+  list(): Promise<Job<T>[]>
+  addDeadLetter(job: DeadLetterJob<T>): Promise<void>
+  /** Most recent dead letters, oldest first. */
+  listDeadLetters(): Promise<DeadLetterJob<T>[]>
+  close?(): Promise<void>
+}
+
+export interface JobQueueStats {
+  /** Jobs waiting to run, including jobs waiting for a retry. */
+  depth: number
+  running: number
+  completed: number
+  retried: number
+  deadLettered: number
+  /** Time from enqueue to completion. */
+  latencyMs: { last: number; average: number; max: number }
+}
@@ -0,0 +1,249 @@
+import { connect as connectTcp, type Socket } from 'net'
+import { connect as connectTls } from 'tls'
+import { RedisError } from '../errors.js'
+import { createNoopLogger, type Logger } from '../logger.js'
+
+export type RedisReply = string | number | null | RedisReply[]
+
+export interface RedisClient {
+  command(args: Array<string | number>): Promise<RedisReply>
+  close(): Promise<void>
+}
+
+export interface RedisClientOptions {
+  /** A command without a reply after this long is rejected and the connection is reopened. */
+  commandTimeoutMs?: number
+}
+
+interface PendingCommand {
+  resolve(reply: RedisReply): void
+  reject(err: Error): void
+}
+
+interface ParsedReply {
+  value: RedisReply | RedisError
+  offset: number
+}
+
+export function encodeCommand(args: Array<string | number>): Buffer {
+  const parts: Buffer[] = [Buffer.from(`*${args.length}\r\n`)]
+  for (const arg of args) {
+    const value = Buffer.from(String(arg), 'utf-8')
+    parts.push(Buffer.from(`$${value.length}\r\n`), value, Buffer.from('\r\n'))
+  }
+  return Buffer.concat(parts)
+}
+
+/** Parses one RESP2 reply starting at `offset`, or returns undefined when the buffer is incomplete. */
+export function parseReply(buffer: Buffer, offset = 0): ParsedReply | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset)
+  if (lineEnd === -1) {
+    return undefined
+  }
+  const type = String.fromCharCode(buffer[offset])
+  const line = buffer.toString('utf-8', offset + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next }
+    case '-':
+      return { value: new RedisError(line), offset: next }
+    case ':':
+      return { value: Number(line), offset: next }
+    case '$': {
+      const length = Number(line)
+      if (length === -1) {
+        return { value: null, offset: next }
+      }
+      if (buffer.length < next + length + 2) {
+        return undefined
+      }
+      return { value: buffer.toString('utf-8', next, next + length), offset: next + length + 2 }
+    }
+    case '*': {
+      const count = Number(line)
+      if (count === -1) {
+        return { value: null, offset: next }
+      }
+      const items: RedisReply[] = []
+      let error: RedisError | undefined
+      let itemOffset = next
+      // An error element (e.g. one command of an EXEC) fails the whole reply, but only once every
+      // element is read, so the next reply starts where it should
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, itemOffset)
+        if (!item) {
+          return undefined
+        }
+        if (item.value instanceof RedisError) {
+          error ??= item.value
+        } else {
+          items.push(item.value)
+        }
+        itemOffset = item.offset
+      }
+      return { value: error ?? items, offset: itemOffset }
+    }
+    default:
+      throw new RedisError(`Unexpected Redis reply type: ${type}`)
+  }
+}
+
+export function createRedisClient(url: string, logger: Logger = createNoopLogger(), options: RedisClientOptions = {}): RedisClient {
+  const parsed = new URL(url)
+  if (parsed.protocol !== 'redis:' && parsed.protocol !== 'rediss:') {
+    throw new RedisError(`Unsupported Redis URL protocol: ${parsed.protocol}`)
+  }
+  const host = parsed.hostname
+  const port = Number(parsed.port || 6379)
+  const useTls = parsed.protocol === 'rediss:'
+  const username = decodeURIComponent(parsed.username)
+  const password = decodeURIComponent(parsed.password)
+  const database = parsed.pathname.length > 1 ? Number(parsed.pathname.slice(1)) : 0
+  const commandTimeoutMs = options.commandTimeoutMs ?? 5000
+
+  let socket: Socket | undefined
+  let connecting: Promise<Socket> | undefined
+  // The connection `pending` and `buffer` belong to; events from one already reset are ignored
+  let active: Socket | undefined
+  let buffer = Buffer.alloc(0)
+  const pending: PendingCommand[] = []
+
+  function failPending(err: Error): void {
+    for (const command of pending.splice(0)) {
+      command.reject(err)
+    }
+  }
+
+  /**
+   * Replies are matched to commands by order only, so once one is lost or unreadable the rest
+   * would go to the wrong callers: every pending command fails and the next one reconnects.
+   */
+  function resetConnection(target: Socket, err: Error): void {
+    if (socket === target) {
+      socket = undefined
+    }
+    if (active === target) {
+      active = undefined
+      buffer = Buffer.alloc(0)
+      failPending(err)
+    }
+    target.destroy()
+  }
+
+  function onData(target: Socket, chunk: Buffer): void {
+    buffer = buffer.length === 0 ? chunk : Buffer.concat([buffer, chunk])
+    try {
+      let reply = parseReply(buffer)
+      while (reply) {
+        buffer = buffer.subarray(reply.offset)
+        const command = pending.shift()
+        if (reply.value instanceof RedisError) {
+          command?.reject(reply.value)
+        } else {
+          command?.resolve(reply.value)
+        }
+        reply = buffer.length > 0 ? parseReply(buffer) : undefined
+      }
+    } catch (err) {
+      logger.error({ event: 'redis_protocol_error', host, port, error: err })
+      resetConnection(target, err instanceof RedisError ? err : new RedisError('Invalid Redis reply', { cause: err }))
+    }
+  }
+
+  function send(target: Socket, args: Array<string | number>): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const index = pending.indexOf(command)
+        if (index === -1) {
+          return
+        }
+        pending.splice(index, 1)
+        logger.error({ event: 'redis_command_timeout', host, port, command: String(args[0]), timeoutMs: commandTimeoutMs })
+        reject(new RedisError(`Redis command ${args[0]} timed out after ${commandTimeoutMs}ms`))
+        resetConnection(target, new RedisError('Redis connection reset after a command timed out'))
+      }, commandTimeoutMs)
+      timer.unref()
+      const command: PendingCommand = {
+        resolve: (reply) => {
+          clearTimeout(timer)
+          resolve(reply)
+        },
+        reject: (err) => {
+          clearTimeout(timer)
+          reject(err)
+        }
+      }
+      pending.push(command)
+      target.write(encodeCommand(args))
+    })
+  }
+
+  function openSocket(): Promise<Socket> {
+    return new Promise((resolve, reject) => {
+      const connection = useTls
+        ? connectTls({ host, port, servername: host })
+        : connectTcp({ host, port })
+      const readyEvent = useTls ? 'secureConnect' : 'connect'
+      active = connection
+
+      connection.once(readyEvent, () => resolve(connection))
+      connection.once('error', (err) => reject(new RedisError(`Failed to connect to Redis at ${host}:${port}`, { cause: err })))
+      connection.on('data', (chunk: Buffer) => onData(connection, chunk))
+      connection.on('close', () => resetConnection(connection, new RedisError('Redis connection closed')))
+    })
+  }
+
+  async function ensureConnected(): Promise<Socket> {
+    if (socket) {
+      return socket
+    }
+    if (!connecting) {
+      connecting = (async () => {
+        const connection = await openSocket()
+        connection.on('error', (err) => {
+          logger.error({ event: 'redis_connection_error', host, port, error: err })
+        })
+        try {
+          if (password) {
+            await send(connection, username ? ['AUTH', username, password] : ['AUTH', password])
+          }
+          if (database) {
+            await send(connection, ['SELECT', database])
+          }
+        } catch (err) {
+          connection.destroy()
+          throw err
+        }
+        logger.info({ event: 'redis_connected', host, port, database })
+        socket = connection
+        return connection
+      })().finally(() => {
+        connecting = undefined
+      })
+    }
+    return connecting
+  }
+
+  async function command(args: Array<string | number>): Promise<RedisReply> {
+    const connection = await ensureConnected()
+    return send(connection, args)
+  }
+
+  async function close(): Promise<void> {
+    const connection = socket
+    if (!connection) {
+      return
+    }
+    try {
+      await send(connection, ['QUIT'])
+    } catch {
+      // Connection already gone
+    }
+    connection.destroy()
+    socket = undefined
+  }
+
+  return { command, close }
+}
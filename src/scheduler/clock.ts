@@ -0,0 +1,37 @@
+export type TimerHandle = unknown
+
+export interface Clock {
+  now(): Date
+  setTimeout(callback: () => void, delayMs: number): TimerHandle
+  clearTimeout(handle: TimerHandle): void
+}
+
+export function createSystemClock(): Clock {
+  return {
+    now: () => new Date(),
+    setTimeout: (callback, delayMs) => {
+      const timer = setTimeout(callback, delayMs)
+      timer.unref()
+      return timer
+    },
+    clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>)
+  }
+}
+
+export function parseTimeOfDay(value: string): { hour: number; minute: number } {
+  const [hour, minute] = value.split(':').map(Number)
+  return { hour, minute }
+}
+
+/**
+ * Milliseconds from `now` until the next local `hour:minute`.
+ * If that time has already passed today, it targets tomorrow.
+ */
+export function msUntilTimeOfDay(now: Date, hour: number, minute: number): number {
+  const next = new Date(now)
+  next.setHours(hour, minute, 0, 0)
+  if (next.getTime() <= now.getTime()) {
+    next.setDate(next.getDate() + 1)
+  }
+  return next.getTime() - now.getTime()
+}
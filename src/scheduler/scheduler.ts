@@ -0,0 +1,104 @@
+import { createNoopLogger, type Logger } from '../logger.js'
+import { msUntilTimeOfDay, parseTimeOfDay, type Clock, type TimerHandle } from './clock.js'
+
+export interface ScheduledTask {
+  name: string
+  run(): Promise<unknown>
+}
+
+export interface SchedulerDeps {
+  clock: Clock
+  logger?: Logger
+}
+
+export interface Scheduler {
+  /** Runs the task every `intervalMs`, measured from the end of the previous run. */
+  every(task: ScheduledTask, intervalMs: number): void
+  /** Runs the task once a day at `time` (`HH:MM`, server local time). */
+  dailyAt(task: ScheduledTask, time: string): void
+  start(): void
+  stop(): void
+  isRunning(): boolean
+}
+
+interface Job {
+  task: ScheduledTask
+  nextDelay(): number
+  timer?: TimerHandle
+}
+
+export function createScheduler(deps: SchedulerDeps): Scheduler {
+  const { clock } = deps
+  const logger = deps.logger ?? createNoopLogger()
+  const jobs: Job[] = []
+  let running = false
+
+  function scheduleNext(job: Job): void {
+    if (!running || job.timer !== undefined) {
+      return
+    }
+    const delayMs = job.nextDelay()
+    job.timer = clock.setTimeout(() => {
+      void runJob(job)
+    }, delayMs)
+  }
+
+  async function runJob(job: Job): Promise<void> {
+    job.timer = undefined
+    logger.info({ event: 'scheduler_task_start', task: job.task.name })
+    try {
+      await job.task.run()
+      logger.info({ event: 'scheduler_task_success', task: job.task.name })
+    } catch (err) {
+      logger.error({ event: 'scheduler_task_error', task: job.task.name, error: err })
+    }
+    scheduleNext(job)
+  }
+
+  function addJob(job: Job): void {
+    jobs.push(job)
+    scheduleNext(job)
+  }
+
+  function every(task: ScheduledTask, intervalMs: number): void {
+    addJob({ task, nextDelay: () => intervalMs })
+  }
+
+  function dailyAt(task: ScheduledTask, time: string): void {
+    const { hour, minute } = parseTimeOfDay(time)
+    addJob({ task, nextDelay: () => msUntilTimeOfDay(clock.now(), hour, minute) })
+  }
+
+  function start(): void {
+    if (running) {
+      return
+    }
+    running = true
+    for (const job of jobs) {
+      scheduleNext(job)
+    }
+    logger.info({ event: 'scheduler_started', tasks: jobs.map(job => job.task.name) })
+  }
+
+  function stop(): void {
+    if (!running) {
+      return
+    }
+    running = false
+    for (const job of jobs) {
+      if (job.timer !== undefined) {
+        clock.clearTimeout(job.timer)
+        job.timer = undefined
+      }
+    }
+    logger.info({ event: 'scheduler_stopped' })
+  }
+
+  return {
+    every,
+    dailyAt,
+    start,
+    stop,
+    isRunning: () => running
+  }
+}
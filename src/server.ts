@@ -1,9 +1,54 @@
-import Fastify from 'fastify'
+import Fastify, { type FastifyReply } from 'fastify'
 import type { Config } from './config.js'
 import { createNoopLogger, type Logger } from './logger.js'
+import { JobQueueError, WebhookError, WebhookSignatureError } from './errors.js'
 import type { WebhookHandler } from './webhook/handler.js'
+import { createBearerTokenCheck, type WebhookAuth } from './webhook/auth.js'
+import type { RetryingSender } from './greenapi/retry.js'
+import type { MessageStatusTracker } from './greenapi/message-status.js'
+import type { JobQueue } from './queue/job-queue.js'
+import type { OrderWebhookHandler } from './woocommerce/order-webhook.js'
+import type { ChannelHandler } from './channels/handler.js'
+import type { WebChat } from './webchat/chat.js'
+import type { WebChatFile, WebChatFileStore } from './webchat/files.js'
+import { WEB_CHAT_PAGE } from './webchat/page.js'
 
-export function createServer(config: Config, logger: Logger | undefined, webhookHandler: WebhookHandler) {
+export interface ServerOptions {
+  orderWebhookHandler?: OrderWebhookHandler
+  webhookAuth?: WebhookAuth
+  /** When set, POST /webhook acknowledges after validation and a worker processes the message. */
+  webhookQueue?: JobQueue<unknown>
+  /** Enables the /admin routes, authenticated with `Authorization: Bearer <token>`. */
+  admin?: { token: string; sender: RetryingSender; messageStatus?: MessageStatusTracker }
+  /**
+   * Enables POST /telegram/webhook; with `secretToken`, updates must carry it in `X-Telegram-Bot-Api-Secret-Token`.
+   * Images users send are served from `files` on GET /telegram/files/:id.
+   */
+  telegram?: { handler: ChannelHandler; secretToken?: string; files: WebChatFileStore }
+  /** Enables the browser chat on /chat for WEB_CHAT_USERS. */
+  webChat?: WebChat
+}
+
+// Base64 images up to WEB_CHAT_MAX_IMAGE_BYTES, plus the JSON around them
+const WEB_CHAT_BODY_LIMIT = 8 * 1024 * 1024
+
+function sendStoredFile(reply: FastifyReply, file: WebChatFile | undefined) {
+  if (!file) {
+    return reply.status(404).send({ ok: false, error: 'File not found' })
+  }
+  return reply
+    .type(file.mimeType ?? 'application/octet-stream')
+    .header('content-disposition', `inline; filename="${file.fileName.replace(/[^\w.-]/g, '_')}"`)
+    .send(file.data)
+}
+
+export function createServer(
+  config: Config,
+  logger: Logger | undefined,
+  webhookHandler: WebhookHandler,
+  options: ServerOptions = {}
+) {
+  const { orderWebhookHandler, webhookAuth, webhookQueue, admin, telegram, webChat } = options
   const log = logger ?? createNoopLogger()
   const server = Fastify({
     logger: logger ? {
@@ -12,22 +57,185 @@ export function createServer(config: Config, logger: Logger | undefined, webhook
         level: (label) => ({ level: label })
       },
       timestamp: () => `,"time":"${new Date().toISOString()}"`
-    } : false
+    } : false,
+    trustProxy: config.trustProxy
   })
 
   server.get('/health', async () => {
-    return { status: 'ok', timestamp: new Date().toISOString() }
+    return {
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      ...(webhookQueue ? { queue: webhookQueue.stats() } : {}),
+      ...(webhookAuth?.enabled ? { webhookAuth: { rejections: webhookAuth.rejections() } } : {})
+    }
   })
 
-  server.post('/webhook', async (request, reply) => {
+  server.post('/webhook', {
+    // onRequest runs before the body is parsed, so rejected callers never reach parsePayload
+    onRequest: async (request, reply) => {
+      if (!webhookAuth?.enabled) {
+        return
+      }
+      const result = webhookAuth.verify({ authorization: request.headers.authorization, ip: request.ip })
+      if (!result.ok) {
+        return reply.status(401).send({ ok: false, error: 'Unauthorized' })
+      }
+    }
+  }, async (request, reply) => {
     try {
-      const result = await webhookHandler.handle(request.body)
+      const payload = webhookHandler.parsePayload(request.body)
+      if (webhookQueue && webhookHandler.isFlowMessage(payload)) {
+        const queued = await webhookQueue.enqueue(request.body, payload.idMessage)
+        return { ok: true, queued: true, duplicate: !queued }
+      }
+      const result = await webhookHandler.handle(payload)
       return { ok: true, ...result }
     } catch (err) {
+      if (err instanceof JobQueueError) {
+        // Green API retries non-2xx deliveries, so the message is picked up after the restart
+        return reply.status(503).send({ ok: false, error: 'Shutting down' })
+      }
       log.error({ event: 'webhook_error', error: err })
       return reply.status(200).send({ ok: false, error: 'Processing failed' })
     }
   })
 
+  if (orderWebhookHandler) {
+    // Signature is computed over the exact bytes WooCommerce sent, so this route keeps the raw body
+    server.register(async (instance) => {
+      instance.removeAllContentTypeParsers()
+      instance.addContentTypeParser('*', { parseAs: 'buffer' }, (_request, body, done) => {
+        done(null, body)
+      })
+
+      instance.post('/woocommerce/webhook', async (request, reply) => {
+        const rawBody = Buffer.isBuffer(request.body) ? request.body : Buffer.alloc(0)
+        try {
+          const result = await orderWebhookHandler.handle({
+            rawBody,
+            signature: request.headers['x-wc-webhook-signature'] as string | undefined,
+            topic: request.headers['x-wc-webhook-topic'] as string | undefined,
+            deliveryId: request.headers['x-wc-webhook-delivery-id'] as string | undefined
+          })
+          return { ok: true, ...result }
+        } catch (err) {
+          if (err instanceof WebhookSignatureError) {
+            return reply.status(401).send({ ok: false, error: 'Invalid signature' })
+          }
+          if (err instanceof WebhookError) {
+            return reply.status(400).send({ ok: false, error: 'Invalid payload' })
+          }
+          log.error({ event: 'order_webhook_error', error: err })
+          return reply.status(500).send({ ok: false, error: 'Processing failed' })
+        }
+      })
+    })
+  }
+
+  if (telegram) {
+    const checkSecret = telegram.secretToken ? createBearerTokenCheck(telegram.secretToken) : undefined
+    server.post('/telegram/webhook', {
+      onRequest: async (request, reply) => {
+        if (!checkSecret) {
+          return
+        }
+        const result = checkSecret(request.headers['x-telegram-bot-api-secret-token'] as string | undefined)
+        if (result !== 'ok') {
+          log.warn({ event: 'telegram_webhook_rejected', reason: result, ip: request.ip })
+          return reply.status(401).send({ ok: false, error: 'Unauthorized' })
+        }
+      }
+    }, async (request, reply) => {
+      try {
+        const result = await telegram.handler.handle({ baseUrl: `${request.protocol}://${request.host}`, update: request.body })
+        return { ok: true, ...result }
+      } catch (err) {
+        // Telegram redelivers on non-2xx, which would not fix a bad update or a failed reply
+        log.error({ event: 'telegram_webhook_error', error: err })
+        return reply.status(200).send({ ok: false, error: err instanceof WebhookError ? 'Invalid payload' : 'Processing failed' })
+      }
+    })
+
+    // No token, like /chat/files: WooCommerce fetches product images from here
+    server.get<{ Params: { id: string } }>('/telegram/files/:id', async (request, reply) => {
+      return sendStoredFile(reply, telegram.files.get(request.params.id))
+    })
+  }
+
+  if (webChat) {
+    server.get('/chat', async (_request, reply) => {
+      return reply.type('text/html; charset=utf-8').send(WEB_CHAT_PAGE)
+    })
+
+    // No token: uploaded images are fetched from here by WooCommerce, and the ids are unguessable
+    server.get<{ Params: { id: string } }>('/chat/files/:id', async (request, reply) => {
+      return sendStoredFile(reply, webChat.files.get(request.params.id))
+    })
+
+    server.get('/chat/session', async (request, reply) => {
+      const user = webChat.authenticate(request.headers.authorization)
+      if (!user) {
+        log.warn({ event: 'webchat_auth_rejected', ip: request.ip, url: request.url })
+        return reply.status(401).send({ ok: false, error: 'Unauthorized' })
+      }
+      return { ok: true, userId: user.id, role: user.role }
+    })
+
+    server.post('/chat/messages', { bodyLimit: WEB_CHAT_BODY_LIMIT }, async (request, reply) => {
+      const user = webChat.authenticate(request.headers.authorization)
+      if (!user) {
+        log.warn({ event: 'webchat_auth_rejected', ip: request.ip, url: request.url })
+        return reply.status(401).send({ ok: false, error: 'Unauthorized' })
+      }
+      try {
+        const result = await webChat.send(user, request.body, `${request.protocol}://${request.host}`)
+        return { ok: true, ...result }
+      } catch (err) {
+        if (err instanceof WebhookError) {
+          return reply.status(400).send({ ok: false, error: err.message })
+        }
+        log.error({ event: 'webchat_error', userId: user.id, error: err })
+        return reply.status(500).send({ ok: false, error: 'Processing failed' })
+      }
+    })
+  }
+
+  if (admin) {
+    const checkToken = createBearerTokenCheck(admin.token)
+    server.register(async (instance) => {
+      instance.addHook('onRequest', async (request, reply) => {
+        const result = checkToken(request.headers.authorization)
+        if (result !== 'ok') {
+          log.warn({ event: 'admin_auth_rejected', reason: result, ip: request.ip, url: request.url })
+          return reply.status(401).send({ ok: false, error: 'Unauthorized' })
+        }
+      })
+
+      instance.get('/admin/failed-messages', async () => {
+        return { ok: true, messages: await admin.sender.listFailed() }
+      })
+
+      instance.post<{ Params: { id: string } }>('/admin/failed-messages/:id/resend', async (request, reply) => {
+        try {
+          const response = await admin.sender.resend(request.params.id)
+          if (!response) {
+            return reply.status(404).send({ ok: false, error: 'Failed message not found' })
+          }
+          return { ok: true, idMessage: response.idMessage }
+        } catch (err) {
+          log.error({ event: 'admin_resend_error', id: request.params.id, error: err })
+          return reply.status(502).send({ ok: false, error: 'Resend failed' })
+        }
+      })
+
+      const { messageStatus } = admin
+      if (messageStatus) {
+        instance.get<{ Params: { chatId: string } }>('/admin/chats/:chatId/messages', async (request) => {
+          return { ok: true, messages: await messageStatus.history(request.params.chatId) }
+        })
+      }
+    })
+  }
+
   return server
 }
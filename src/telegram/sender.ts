@@ -0,0 +1,162 @@
+import { TelegramError } from '../errors.js'
+import { createNoopLogger, type Logger } from '../logger.js'
+
+export interface TelegramConfig {
+  botToken: string
+  /** Defaults to https://api.telegram.org; a local Bot API server can be used instead. */
+  apiUrl?: string
+}
+
+export interface TelegramMessageResponse {
+  messageId: number
+}
+
+export interface InlineKeyboardButton {
+  text: string
+  /** Sent back in the callback query when the button is tapped, 1-64 bytes. */
+  callback_data: string
+}
+
+export interface TelegramSendMessageParams {
+  chatId: string
+  text: string
+  /** Inline keyboard, one array per row. */
+  buttons?: InlineKeyboardButton[][]
+}
+
+/** A file Telegram fetches from a public URL, or bytes uploaded with the request. */
+export type TelegramFile =
+  | { url: string }
+  | { data: Buffer; fileName: string; mimeType?: string }
+
+export interface TelegramSendFileParams {
+  chatId: string
+  file: TelegramFile
+  caption?: string
+}
+
+/** A file a user sent, downloaded through the Bot API. */
+export interface TelegramDownload {
+  data: Buffer
+  /** Path Telegram stores the file under, e.g. `photos/file_1.jpg`. */
+  filePath: string
+}
+
+export interface TelegramSender {
+  sendMessage(params: TelegramSendMessageParams): Promise<TelegramMessageResponse>
+  sendPhoto(params: TelegramSendFileParams): Promise<TelegramMessageResponse>
+  sendDocument(params: TelegramSendFileParams): Promise<TelegramMessageResponse>
+  /** Stops the loading indicator on the button the user tapped. */
+  answerCallbackQuery(callbackQueryId: string): Promise<void>
+  /** Downloads a file a user sent. The download URL contains the bot token, so it never leaves the sender. */
+  downloadFile(fileId: string): Promise<TelegramDownload>
+}
+
+interface BotApiResponse<T> {
+  ok: boolean
+  result?: T
+  error_code?: number
+  description?: string
+  parameters?: { retry_after?: number }
+}
+
+export function createTelegramSender(
+  config: TelegramConfig,
+  logger?: Logger,
+  fetchFunction: typeof fetch = fetch
+): TelegramSender {
+  const log = logger ?? createNoopLogger()
+  const apiUrl = config.apiUrl ?? 'https://api.telegram.org'
+  const baseUrl = `${apiUrl}/bot${config.botToken}`
+
+  async function call<T>(method: string, body: Record<string, unknown> | FormData, chatId?: string): Promise<T> {
+    let response: Response
+    try {
+      response = body instanceof FormData
+        // fetch sets the multipart boundary itself, so no Content-Type header here
+        ? await fetchFunction(`${baseUrl}/${method}`, { method: 'POST', body })
+        : await fetchFunction(`${baseUrl}/${method}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body)
+        })
+    } catch (err) {
+      log.error({ event: 'telegram_network_error', method, chatId, error: err })
+      throw new TelegramError(`Network error calling ${method}`, undefined, { cause: err })
+    }
+
+    const data = await response.json().catch(() => undefined) as BotApiResponse<T> | undefined
+    if (!response.ok || !data?.ok) {
+      log.error({ event: 'telegram_api_error', method, chatId, statusCode: response.status, description: data?.description })
+      const retryAfter = data?.parameters?.retry_after
+      throw new TelegramError(`Telegram API error: ${response.status}`, response.status, {
+        retryAfterMs: retryAfter === undefined ? undefined : retryAfter * 1000
+      })
+    }
+    return data.result as T
+  }
+
+  async function sendMessage(params: TelegramSendMessageParams): Promise<TelegramMessageResponse> {
+    log.info({ event: 'telegram_send_start', chatId: params.chatId, buttonCount: params.buttons?.flat().length ?? 0 })
+    const payload: Record<string, unknown> = { chat_id: params.chatId, text: params.text }
+    if (params.buttons) {
+      payload.reply_markup = { inline_keyboard: params.buttons }
+    }
+    const message = await call<{ message_id: number }>('sendMessage', payload, params.chatId)
+    log.info({ event: 'telegram_send_success', chatId: params.chatId, messageId: message.message_id })
+    return { messageId: message.message_id }
+  }
+
+  async function sendFile(method: 'sendPhoto' | 'sendDocument', field: 'photo' | 'document', params: TelegramSendFileParams): Promise<TelegramMessageResponse> {
+    const { chatId, file, caption } = params
+    log.info({ event: 'telegram_send_file_start', method, chatId, upload: 'data' in file })
+
+    let body: Record<string, unknown> | FormData
+    if ('url' in file) {
+      body = { chat_id: chatId, [field]: file.url }
+      if (caption) body.caption = caption
+    } else {
+      body = new FormData()
+      body.append('chat_id', chatId)
+      body.append(field, new Blob([file.data], { type: file.mimeType ?? 'application/octet-stream' }), file.fileName)
+      if (caption) body.append('caption', caption)
+    }
+
+    const message = await call<{ message_id: number }>(method, body, chatId)
+    log.info({ event: 'telegram_send_file_success', method, chatId, messageId: message.message_id })
+    return { messageId: message.message_id }
+  }
+
+  async function answerCallbackQuery(callbackQueryId: string): Promise<void> {
+    await call<boolean>('answerCallbackQuery', { callback_query_id: callbackQueryId })
+  }
+
+  async function downloadFile(fileId: string): Promise<TelegramDownload> {
+    const file = await call<{ file_path?: string }>('getFile', { file_id: fileId })
+    if (!file.file_path) {
+      // Files over 20 MB cannot be downloaded through the Bot API
+      throw new TelegramError(`File ${fileId} cannot be downloaded`)
+    }
+
+    let response: Response
+    try {
+      response = await fetchFunction(`${apiUrl}/file/bot${config.botToken}/${file.file_path}`)
+    } catch (err) {
+      log.error({ event: 'telegram_network_error', method: 'downloadFile', fileId, error: err })
+      throw new TelegramError(`Network error downloading file ${fileId}`, undefined, { cause: err })
+    }
+    if (!response.ok) {
+      log.error({ event: 'telegram_download_error', fileId, statusCode: response.status })
+      throw new TelegramError(`Telegram file download error: ${response.status}`, response.status)
+    }
+    return { data: Buffer.from(await response.arrayBuffer()), filePath: file.file_path }
+  }
+
+  return {
+    sendMessage,
+    sendPhoto: (params) => sendFile('sendPhoto', 'photo', params),
+    sendDocument: (params) => sendFile('sendDocument', 'document', params),
+    answerCallbackQuery,
+    downloadFile
+  }
+}
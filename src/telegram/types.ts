@@ -0,0 +1,57 @@
+import { z } from 'zod'
+
+export const telegramUserSchema = z.object({
+  id: z.number(),
+  is_bot: z.boolean().optional(),
+  first_name: z.string().optional(),
+  username: z.string().optional()
+})
+
+export const telegramChatSchema = z.object({
+  id: z.number(),
+  type: z.string()
+})
+
+export const telegramPhotoSizeSchema = z.object({
+  file_id: z.string(),
+  width: z.number(),
+  height: z.number(),
+  file_size: z.number().optional()
+})
+
+export const telegramMessageSchema = z.object({
+  message_id: z.number(),
+  from: telegramUserSchema.optional(),
+  chat: telegramChatSchema,
+  date: z.number(),
+  text: z.string().optional(),
+  caption: z.string().optional(),
+  // One entry per size, smallest first
+  photo: z.array(telegramPhotoSizeSchema).optional(),
+  // Photos sent "as a file" arrive uncompressed as documents
+  document: z.object({
+    file_id: z.string(),
+    file_name: z.string().optional(),
+    mime_type: z.string().optional()
+  }).optional()
+})
+
+/** Tap on an inline keyboard button; `data` is the button's callback_data. */
+export const telegramCallbackQuerySchema = z.object({
+  id: z.string(),
+  from: telegramUserSchema,
+  message: telegramMessageSchema.optional(),
+  data: z.string().optional()
+})
+
+/** Bot API Update; only the fields the bot reads are listed, the rest are stripped. */
+export const telegramUpdateSchema = z.object({
+  update_id: z.number(),
+  message: telegramMessageSchema.optional(),
+  callback_query: telegramCallbackQuerySchema.optional()
+})
+
+export type TelegramUser = z.infer<typeof telegramUserSchema>
+export type TelegramMessage = z.infer<typeof telegramMessageSchema>
+export type TelegramCallbackQuery = z.infer<typeof telegramCallbackQuerySchema>
+export type TelegramUpdate = z.infer<typeof telegramUpdateSchema>
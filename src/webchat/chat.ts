@@ -0,0 +1,61 @@
+import { createNoopLogger, type Logger } from '../logger.js'
+import type { FlowController } from '../conversation/flow-controller.js'
+import type { AccessControl, Role } from '../auth/access-control.js'
+import { createBearerTokenCheck } from '../webhook/auth.js'
+import type { ProcessedMessageStore } from '../webhook/dedup.js'
+import { createChannelHandler } from '../channels/handler.js'
+import { createWebChatChannel, webChatId, webChatMessageId } from '../channels/webchat.js'
+import { createWebChatFileStore, type WebChatFileStore } from './files.js'
+import type { WebChatReply, WebChatRequest, WebChatUser } from './types.js'
+
+export interface WebChatDeps {
+  users: WebChatUser[]
+  flowController: FlowController
+  files?: WebChatFileStore
+  processedMessages?: ProcessedMessageStore
+  logger?: Logger
+}
+
+export interface WebChatResponse {
+  handled: boolean
+  replies: WebChatReply[]
+}
+
+/**
+ * The browser chat behind /chat. Users sign in with their WEB_CHAT_USERS token, and their role
+ * comes from the same entry rather than ALLOWED_USERS.
+ */
+export function createWebChat(deps: WebChatDeps) {
+  const { users, flowController, processedMessages } = deps
+  const logger = deps.logger ?? createNoopLogger()
+  const files = deps.files ?? createWebChatFileStore()
+  const tokenChecks = users.map(user => ({ user, check: createBearerTokenCheck(user.token) }))
+  const roles = new Map<string, Role>(users.map(user => [webChatId(user.id), user.role]))
+
+  // Only signed-in users get this far, so every web chat id has a role
+  const accessControl: AccessControl = {
+    enabled: true,
+    resolveRole: chatId => roles.get(chatId)
+  }
+  const channel = createWebChatChannel({ files, logger })
+  const handler = createChannelHandler({ channel, flowController, logger, accessControl, processedMessages })
+
+  /** The user whose token is in the `Authorization` header, if any. */
+  function authenticate(authorization: string | undefined): WebChatUser | undefined {
+    // Every token is checked, so the time taken does not tell which user matched
+    const matches = tokenChecks.filter(({ check }) => check(authorization) === 'ok')
+    return matches[0]?.user
+  }
+
+  /** Runs one message from the page through the flow and returns what the bot replied. */
+  async function send(user: WebChatUser, body: unknown, baseUrl: string): Promise<WebChatResponse> {
+    const result = await handler.handle({ userId: user.id, baseUrl, body })
+    // handle only resolves for bodies that passed webChatRequestSchema
+    const { id } = body as WebChatRequest
+    return { handled: result.handled, replies: channel.repliesTo(webChatMessageId(user.id, id)) }
+  }
+
+  return { authenticate, send, files }
+}
+
+export type WebChat = ReturnType<typeof createWebChat>
@@ -0,0 +1,61 @@
+import { randomUUID } from 'crypto'
+import { createSystemClock, type Clock } from '../scheduler/clock.js'
+
+export interface WebChatFile {
+  data: Buffer
+  fileName: string
+  mimeType?: string
+}
+
+export interface WebChatFileStoreDeps {
+  ttlMs?: number
+  maxFiles?: number
+  clock?: Clock
+}
+
+export interface WebChatFileStore {
+  /** Keeps the file and returns its id for GET /chat/files/:id. */
+  save(file: WebChatFile): string
+  get(id: string): WebChatFile | undefined
+}
+
+/**
+ * Files going either way in web chats: uploaded images, which WooCommerce downloads by URL when a
+ * product is saved, and files the flow sends. Ids are random UUIDs, so the URLs need no token.
+ * The Telegram channel keeps its own store for the same reason: Telegram download URLs carry the bot token.
+ */
+export function createWebChatFileStore(deps: WebChatFileStoreDeps = {}): WebChatFileStore {
+  const ttlMs = deps.ttlMs ?? 3600000
+  const maxFiles = deps.maxFiles ?? 100
+  const clock = deps.clock ?? createSystemClock()
+  // Insertion order is age order, so the first entries are the oldest
+  const files = new Map<string, WebChatFile & { expiresAt: number }>()
+
+  function evictExpired(now: number): void {
+    for (const [id, file] of files) {
+      if (file.expiresAt > now) {
+        break
+      }
+      files.delete(id)
+    }
+  }
+
+  function save(file: WebChatFile): string {
+    const now = clock.now().getTime()
+    evictExpired(now)
+    while (files.size >= maxFiles) {
+      files.delete(files.keys().next().value!)
+    }
+    const id = randomUUID()
+    files.set(id, { ...file, expiresAt: now + ttlMs })
+    return id
+  }
+
+  function get(id: string): WebChatFile | undefined {
+    evictExpired(clock.now().getTime())
+    const file = files.get(id)
+    return file && { data: file.data, fileName: file.fileName, mimeType: file.mimeType }
+  }
+
+  return { save, get }
+}
@@ -0,0 +1,180 @@
+/**
+ * The chat page served on GET /chat: one self-contained file, so there is nothing to build or
+ * copy next to dist. Bot text is only ever set with textContent.
+ */
+export const WEB_CHAT_PAGE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Shop chat</title>
+<style>
+  body { margin: 0; font-family: system-ui, sans-serif; background: #f0f2f5; }
+  main { max-width: 720px; margin: 0 auto; height: 100vh; display: flex; flex-direction: column; }
+  header { padding: 12px 16px; background: #075e54; color: #fff; display: flex; justify-content: space-between; }
+  header button { background: none; border: 1px solid #fff; color: #fff; border-radius: 4px; cursor: pointer; }
+  #log { flex: 1; overflow-y: auto; padding: 16px; display: flex; flex-direction: column; gap: 8px; }
+  .bubble { max-width: 80%; padding: 8px 12px; border-radius: 8px; white-space: pre-wrap; background: #fff; align-self: flex-start; }
+  .bubble.me { background: #dcf8c6; align-self: flex-end; }
+  .bubble.error { background: #fde2e1; }
+  .bubble img { max-width: 240px; display: block; }
+  .options { display: flex; flex-direction: column; gap: 4px; margin-top: 8px; }
+  .options button { padding: 6px; border: 1px solid #075e54; background: #fff; color: #075e54; border-radius: 4px; cursor: pointer; text-align: left; }
+  .options small { display: block; color: #667781; }
+  form { display: flex; gap: 8px; padding: 12px; background: #fff; }
+  form input[type=text], form input[type=password] { flex: 1; padding: 8px; }
+  [hidden] { display: none !important; }
+</style>
+</head>
+<body>
+<main>
+  <header><strong>Shop chat</strong><span><span id="user"></span> <button id="logout" hidden>Sign out</button></span></header>
+  <div id="log"></div>
+  <form id="login">
+    <input type="password" id="token" placeholder="Access token" autocomplete="current-password" required>
+    <button>Sign in</button>
+  </form>
+  <form id="compose" hidden>
+    <input type="text" id="text" placeholder="Type a message" autocomplete="off">
+    <label><input type="file" id="image" accept="image/jpeg,image/png,image/webp,image/gif" hidden><button type="button" id="attach">Image</button></label>
+    <button>Send</button>
+  </form>
+</main>
+<script>
+  const log = document.getElementById('log')
+  const login = document.getElementById('login')
+  const compose = document.getElementById('compose')
+  const textInput = document.getElementById('text')
+  const imageInput = document.getElementById('image')
+  let token = sessionStorage.getItem('webChatToken')
+
+  function bubble(className) {
+    const div = document.createElement('div')
+    div.className = 'bubble ' + className
+    log.appendChild(div)
+    log.scrollTop = log.scrollHeight
+    return div
+  }
+
+  function say(text, className) {
+    bubble(className || '').textContent = text
+  }
+
+  function showReply(reply) {
+    const div = bubble('')
+    if (reply.type === 'file') {
+      if (reply.mimeType && reply.mimeType.startsWith('image/')) {
+        const img = document.createElement('img')
+        img.src = reply.url
+        div.appendChild(img)
+      }
+      const link = document.createElement('a')
+      link.href = reply.url
+      link.target = '_blank'
+      link.textContent = reply.fileName
+      div.appendChild(link)
+      if (reply.caption) div.appendChild(document.createTextNode('\\n' + reply.caption))
+      return
+    }
+    div.appendChild(document.createTextNode(reply.text))
+    if (reply.type !== 'buttons') return
+    const options = document.createElement('div')
+    options.className = 'options'
+    for (const option of reply.buttons) {
+      const button = document.createElement('button')
+      button.textContent = option.label
+      if (option.description) {
+        const small = document.createElement('small')
+        small.textContent = option.description
+        button.appendChild(small)
+      }
+      // Like a tapped WhatsApp button, the flow gets the option id
+      button.onclick = () => send({ text: option.id }, option.label)
+      options.appendChild(button)
+    }
+    div.appendChild(options)
+  }
+
+  async function request(method, path, body) {
+    const response = await fetch(path, {
+      method,
+      headers: { authorization: 'Bearer ' + token, 'content-type': 'application/json' },
+      body: body && JSON.stringify(body)
+    })
+    const data = await response.json().catch(() => ({}))
+    if (response.status === 401) {
+      signOut()
+      throw new Error('Sign in again')
+    }
+    if (!response.ok || !data.ok) throw new Error(data.error || 'Request failed')
+    return data
+  }
+
+  async function send(message, shown) {
+    say(shown, 'me')
+    const id = Date.now().toString(36) + Math.random().toString(36).slice(2)
+    try {
+      const data = await request('POST', '/chat/messages', Object.assign({ id }, message))
+      if (!data.handled) say('(no reply)', 'error')
+      data.replies.forEach(showReply)
+    } catch (err) {
+      say(err.message, 'error')
+    }
+  }
+
+  async function signIn() {
+    try {
+      const data = await request('GET', '/chat/session')
+      document.getElementById('user').textContent = data.userId + ' (' + data.role + ')'
+      login.hidden = true
+      compose.hidden = false
+      document.getElementById('logout').hidden = false
+      textInput.focus()
+    } catch (err) {
+      say(err.message, 'error')
+    }
+  }
+
+  function signOut() {
+    token = null
+    sessionStorage.removeItem('webChatToken')
+    login.hidden = false
+    compose.hidden = true
+    document.getElementById('logout').hidden = true
+    document.getElementById('user').textContent = ''
+  }
+
+  login.onsubmit = event => {
+    event.preventDefault()
+    token = document.getElementById('token').value
+    sessionStorage.setItem('webChatToken', token)
+    signIn()
+  }
+
+  compose.onsubmit = event => {
+    event.preventDefault()
+    const text = textInput.value.trim()
+    if (!text) return
+    textInput.value = ''
+    send({ text }, text)
+  }
+
+  document.getElementById('attach').onclick = () => imageInput.click()
+  imageInput.onchange = () => {
+    const file = imageInput.files[0]
+    imageInput.value = ''
+    if (!file) return
+    const reader = new FileReader()
+    reader.onload = () => {
+      const data = String(reader.result).split(',')[1]
+      send({ image: { data, mimeType: file.type, fileName: file.name } }, '[image] ' + file.name)
+    }
+    reader.readAsDataURL(file)
+  }
+  document.getElementById('logout').onclick = signOut
+
+  if (token) signIn()
+</script>
+</body>
+</html>
+`
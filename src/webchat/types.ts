@@ -0,0 +1,40 @@
+import { z } from 'zod'
+import type { Role } from '../auth/access-control.js'
+
+/** A browser user from WEB_CHAT_USERS, signed in with `Authorization: Bearer <token>`. */
+export interface WebChatUser {
+  id: string
+  role: Role
+  token: string
+}
+
+export const WEB_CHAT_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'] as const
+
+/** Decoded size limit for uploaded images. */
+export const WEB_CHAT_MAX_IMAGE_BYTES = 5 * 1024 * 1024
+
+/** Body of POST /chat/messages: typed text (or a clicked button's id) or a base64 image. */
+export const webChatRequestSchema = z.object({
+  /** Generated by the page; a retried request keeps its id and is not processed twice. */
+  id: z.string().min(1).max(100),
+  text: z.string().min(1).max(4096).optional(),
+  image: z.object({
+    data: z.string().min(1),
+    mimeType: z.enum(WEB_CHAT_IMAGE_TYPES),
+    fileName: z.string().max(200).optional()
+  }).optional()
+}).refine(body => (body.text === undefined) !== (body.image === undefined), 'Send either text or an image')
+
+export type WebChatRequest = z.infer<typeof webChatRequestSchema>
+
+export interface WebChatButton {
+  /** Sent back as the message text when clicked, like a tapped WhatsApp button. */
+  id: string
+  label: string
+  description?: string
+}
+
+export type WebChatReply =
+  | { type: 'text'; text: string }
+  | { type: 'buttons'; text: string; buttons: WebChatButton[] }
+  | { type: 'file'; fileName: string; url: string; mimeType?: string; caption?: string }
@@ -0,0 +1,129 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import { BlockList, isIP } from 'net'
+import { createNoopLogger, type Logger } from '../logger.js'
+
+export type WebhookAuthRejection = 'missing_token' | 'invalid_token' | 'ip_not_allowed'
+
+export interface WebhookAuthRequest {
+  authorization?: string
+  ip: string
+}
+
+export type WebhookAuthResult =
+  | { ok: true }
+  | { ok: false; reason: WebhookAuthRejection }
+
+export interface WebhookAuthDeps {
+  token?: string
+  allowedIpRanges?: string[]
+  logger?: Logger
+}
+
+export interface WebhookAuth {
+  enabled: boolean
+  verify(request: WebhookAuthRequest): WebhookAuthResult
+  rejections(): Record<WebhookAuthRejection, number>
+}
+
+/** Accepts `1.2.3.4`, `1.2.3.0/24`, `2001:db8::1` and `2001:db8::/32`. */
+export function isValidIpRange(range: string): boolean {
+  const [address, prefix] = range.split('/')
+  const version = isIP(address)
+  if (version === 0) {
+    return false
+  }
+  if (prefix === undefined) {
+    return true
+  }
+  const bits = Number(prefix)
+  return /^\d+$/.test(prefix) && bits <= (version === 4 ? 32 : 128)
+}
+
+function buildBlockList(ranges: string[]): BlockList {
+  const list = new BlockList()
+  for (const range of ranges) {
+    const [address, prefix] = range.split('/')
+    const type = isIP(address) === 6 ? 'ipv6' : 'ipv4'
+    if (prefix === undefined) {
+      list.addAddress(address, type)
+    } else {
+      list.addSubnet(address, Number(prefix), type)
+    }
+  }
+  return list
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest()
+}
+
+/** Green API sends the instance's webhookUrlToken as `Authorization: Bearer <token>`. */
+function extractToken(authorization: string | undefined): string | undefined {
+  if (!authorization) {
+    return undefined
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(authorization.trim())
+  return match ? match[1] : authorization.trim()
+}
+
+export type BearerTokenCheck = (authorization: string | undefined) => 'ok' | 'missing_token' | 'invalid_token'
+
+/** Compares `Authorization` headers against `token` in constant time. */
+export function createBearerTokenCheck(token: string): BearerTokenCheck {
+  const expectedDigest = digest(token)
+  return (authorization) => {
+    const received = extractToken(authorization)
+    if (!received) {
+      return 'missing_token'
+    }
+    return timingSafeEqual(digest(received), expectedDigest) ? 'ok' : 'invalid_token'
+  }
+}
+
+function normalizeIp(ip: string): string {
+  // IPv4 clients on a dual-stack socket show up as ::ffff:1.2.3.4
+  return ip.startsWith('::ffff:') && isIP(ip.slice(7)) === 4 ? ip.slice(7) : ip
+}
+
+export function createWebhookAuth(deps: WebhookAuthDeps): WebhookAuth {
+  const logger = deps.logger ?? createNoopLogger()
+  const checkToken = deps.token ? createBearerTokenCheck(deps.token) : undefined
+  const allowedIpRanges = deps.allowedIpRanges ?? []
+  const allowedIps = allowedIpRanges.length > 0 ? buildBlockList(allowedIpRanges) : undefined
+  const counts: Record<WebhookAuthRejection, number> = { missing_token: 0, invalid_token: 0, ip_not_allowed: 0 }
+
+  function reject(reason: WebhookAuthRejection, ip: string): WebhookAuthResult {
+    counts[reason]++
+    const total = counts.missing_token + counts.invalid_token + counts.ip_not_allowed
+    logger.warn({ event: 'webhook_auth_rejected', reason, ip, rejections: total })
+    return { ok: false, reason }
+  }
+
+  function isIpAllowed(ip: string): boolean {
+    if (!allowedIps) {
+      return true
+    }
+    const address = normalizeIp(ip)
+    const version = isIP(address)
+    return version !== 0 && allowedIps.check(address, version === 6 ? 'ipv6' : 'ipv4')
+  }
+
+  function verify(request: WebhookAuthRequest): WebhookAuthResult {
+    if (!isIpAllowed(request.ip)) {
+      return reject('ip_not_allowed', request.ip)
+    }
+    if (checkToken) {
+      const tokenResult = checkToken(request.authorization)
+      if (tokenResult !== 'ok') {
+        return reject(tokenResult, request.ip)
+      }
+    }
+    return { ok: true }
+  }
+
+  return {
+    enabled: checkToken !== undefined || allowedIps !== undefined,
+    verify,
+    rejections: () => ({ ...counts })
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Runs tasks for the same chat one at a time, in the order they were queued. Tasks for
+ * different chats run concurrently.
+ */
+export interface ChatQueue {
+  run<T>(chatId: string, task: () => Promise<T>): Promise<T>
+  /** Tasks queued or running for this chat. */
+  size(chatId: string): number
+}
+
+export function createChatQueue(): ChatQueue {
+  const tails = new Map<string, { promise: Promise<unknown>; size: number }>()
+
+  function run<T>(chatId: string, task: () => Promise<T>): Promise<T> {
+    const previous = tails.get(chatId)
+    // A failed task must not block the chat, so the next one waits for settlement only
+    const result = (previous?.promise ?? Promise.resolve()).catch(() => undefined).then(task)
+    const tail = { promise: result, size: (previous?.size ?? 0) + 1 }
+    tails.set(chatId, tail)
+
+    const release = () => {
+      const current = tails.get(chatId)
+      if (!current) {
+        return
+      }
+      current.size--
+      if (current.promise === result) {
+        tails.delete(chatId)
+      }
+    }
+    result.then(release, release)
+    return result
+  }
+
+  function size(chatId: string): number {
+    return tails.get(chatId)?.size ?? 0
+  }
+
+  return { run, size }
+}
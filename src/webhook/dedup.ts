@@ -0,0 +1,78 @@
+import { createNoopLogger, type Logger } from '../logger.js'
+import type { RedisClient } from '../redis/client.js'
+import type { WebhookHandlerResult } from './handler.js'
+
+/** Remembers the result of every processed `idMessage` so Green API retries are not re-run. */
+export interface ProcessedMessageStore {
+  get(idMessage: string): Promise<WebhookHandlerResult | undefined>
+  set(idMessage: string, result: WebhookHandlerResult): Promise<void>
+  close?(): Promise<void>
+}
+
+export function createInMemoryProcessedMessageStore(ttlMs: number): ProcessedMessageStore {
+  // Every entry lives for the same TTL, so Map insertion order is also expiry order
+  const entries = new Map<string, { result: WebhookHandlerResult; expiresAt: number }>()
+
+  function prune(now: number): void {
+    for (const [idMessage, entry] of entries) {
+      if (entry.expiresAt > now) {
+        break
+      }
+      entries.delete(idMessage)
+    }
+  }
+
+  async function get(idMessage: string): Promise<WebhookHandlerResult | undefined> {
+    const entry = entries.get(idMessage)
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return undefined
+    }
+    return entry.result
+  }
+
+  async function set(idMessage: string, result: WebhookHandlerResult): Promise<void> {
+    const now = Date.now()
+    prune(now)
+    entries.delete(idMessage)
+    entries.set(idMessage, { result, expiresAt: now + ttlMs })
+  }
+
+  return { get, set }
+}
+
+export interface RedisProcessedMessageStoreOptions {
+  client: RedisClient
+  ttlMs: number
+  keyPrefix?: string
+  logger?: Logger
+}
+
+/**
+ * Stores each result under `<keyPrefix><idMessage>` with a PX expiry. The client is
+ * usually shared with the session store, which owns closing it.
+ */
+export function createRedisProcessedMessageStore(options: RedisProcessedMessageStoreOptions): ProcessedMessageStore {
+  const { client, ttlMs } = options
+  const keyPrefix = options.keyPrefix ?? 'processed:'
+  const logger = options.logger ?? createNoopLogger()
+
+  async function get(idMessage: string): Promise<WebhookHandlerResult | undefined> {
+    const key = `${keyPrefix}${idMessage}`
+    const value = await client.command(['GET', key])
+    if (typeof value !== 'string') {
+      return undefined
+    }
+    try {
+      return JSON.parse(value) as WebhookHandlerResult
+    } catch (err) {
+      logger.error({ event: 'redis_processed_message_corrupt', key, error: err })
+      return undefined
+    }
+  }
+
+  async function set(idMessage: string, result: WebhookHandlerResult): Promise<void> {
+    await client.command(['SET', `${keyPrefix}${idMessage}`, JSON.stringify(result), 'PX', ttlMs])
+  }
+
+  return { get, set }
+}
@@ -3,26 +3,59 @@ import { createNoopLogger, type Logger } from '../logger.js'
 import type { GreenApiSender } from '../greenapi/sender.js'
 import type { FlowController } from '../conversation/flow-controller.js'
 import type { WebhookForwarder } from './forwarder.js'
-import { incomingMessageSchema, extractMessageContent, type IncomingMessage, type ExtractedMessage } from './types.js'
+import type { AccessControl } from '../auth/access-control.js'
+import type { ProcessedMessageStore } from './dedup.js'
+import type { ChatQueue } from './chat-queue.js'
+import type { MessageStatusTracker } from '../greenapi/message-status.js'
+import { createChannelHandler } from '../channels/handler.js'
+import { createGreenApiChannel, toInboundMessage } from '../channels/greenapi.js'
+import {
+  incomingMessageSchema,
+  outgoingMessageStatusSchema,
+  extractMessageContent,
+  type IncomingMessage,
+  type OutgoingMessageStatus,
+  type WebhookPayload
+} from './types.js'
 
 export interface WebhookHandlerDeps {
   flowController: FlowController
   sender: GreenApiSender
   logger?: Logger
   forwarder?: WebhookForwarder
+  accessControl?: AccessControl
+  processedMessages?: ProcessedMessageStore
+  chatQueue?: ChatQueue
+  /** Receives delivery reports; without it they are ignored like other webhook types. */
+  messageStatus?: MessageStatusTracker
 }
 
 export interface WebhookHandlerResult {
   handled: boolean
-  action?: 'flow_processed' | 'ignored_unsupported' | 'ignored_webhook_type'
+  action?: 'flow_processed' | 'ignored_unsupported' | 'ignored_webhook_type' | 'status_recorded'
 }
 
 export function createWebhookHandler(deps: WebhookHandlerDeps) {
-  const { flowController, sender, forwarder } = deps
+  const { forwarder, processedMessages, messageStatus } = deps
   const logger = deps.logger ?? createNoopLogger()
+  // Deduplication stays here: it also covers the webhook types the channel ignores
+  const messageHandler = createChannelHandler({
+    channel: createGreenApiChannel(deps.sender),
+    flowController: deps.flowController,
+    logger,
+    accessControl: deps.accessControl,
+    chatQueue: deps.chatQueue
+  })
+  // Replays that arrive while the original delivery is still being processed share its result
+  const inFlight = new Map<string, Promise<WebhookHandlerResult>>()
+
+  function isStatusUpdate(payload: WebhookPayload): payload is OutgoingMessageStatus {
+    return payload.typeWebhook === 'outgoingMessageStatus'
+  }
 
-  function parsePayload(body: unknown): IncomingMessage {
-    const result = incomingMessageSchema.safeParse(body)
+  function parsePayload(body: unknown): WebhookPayload {
+    const isStatus = (body as { typeWebhook?: unknown } | null)?.typeWebhook === 'outgoingMessageStatus'
+    const result = (isStatus ? outgoingMessageStatusSchema : incomingMessageSchema).safeParse(body)
     if (!result.success) {
       const field = result.error.errors[0]?.path.join('.') ?? 'unknown'
       logger.error({ event: 'webhook_parse_error', error: result.error.message, field })
@@ -33,7 +66,64 @@ export function createWebhookHandler(deps: WebhookHandlerDeps) {
 
   async function handle(body: unknown): Promise<WebhookHandlerResult> {
     const payload = parsePayload(body)
+    // Every status of a message shares its idMessage, so status updates skip deduplication
+    if (isStatusUpdate(payload)) {
+      return processStatusUpdate(payload)
+    }
+    if (!processedMessages) {
+      return processPayload(payload, body)
+    }
+
+    const { idMessage } = payload
+    const pending = inFlight.get(idMessage)
+    if (pending) {
+      logger.info({ event: 'duplicate_webhook_ignored', idMessage, chatId: payload.senderData.chatId, inFlight: true })
+      return pending
+    }
+
+    const processing = processOnce(processedMessages, payload, body)
+    inFlight.set(idMessage, processing)
+    try {
+      return await processing
+    } finally {
+      inFlight.delete(idMessage)
+    }
+  }
 
+  async function processOnce(store: ProcessedMessageStore, payload: IncomingMessage, body: unknown): Promise<WebhookHandlerResult> {
+    const { idMessage } = payload
+    const cached = await store.get(idMessage).catch(err => {
+      logger.error({ event: 'dedup_store_error', operation: 'get', idMessage, error: err })
+      return undefined
+    })
+    if (cached) {
+      logger.info({ event: 'duplicate_webhook_ignored', idMessage, chatId: payload.senderData.chatId, inFlight: false })
+      return cached
+    }
+
+    const result = await processPayload(payload, body)
+    await store.set(idMessage, result).catch(err => {
+      logger.error({ event: 'dedup_store_error', operation: 'set', idMessage, error: err })
+    })
+    return result
+  }
+
+  async function processStatusUpdate(payload: OutgoingMessageStatus): Promise<WebhookHandlerResult> {
+    if (!messageStatus) {
+      logger.warn({ event: 'ignored_webhook_type', typeWebhook: payload.typeWebhook })
+      return { handled: false, action: 'ignored_webhook_type' }
+    }
+    await messageStatus.recordStatus({
+      idMessage: payload.idMessage,
+      chatId: payload.chatId,
+      status: payload.status,
+      description: payload.description,
+      at: payload.timestamp === undefined ? undefined : new Date(payload.timestamp * 1000)
+    })
+    return { handled: true, action: 'status_recorded' }
+  }
+
+  async function processPayload(payload: IncomingMessage, body: unknown): Promise<WebhookHandlerResult> {
     const extractedMessage = extractMessageContent(payload)
 
     logger.info({
@@ -46,12 +136,19 @@ export function createWebhookHandler(deps: WebhookHandlerDeps) {
       extractedContent: extractedMessage?.type === 'image' ? '[image]' : extractedMessage?.content
     })
 
+    // Green API's confirmation that a message sent through the API went out
+    if (payload.typeWebhook === 'outgoingAPIMessageReceived' && messageStatus) {
+      await messageStatus.recordStatus({ idMessage: payload.idMessage, chatId: payload.senderData.chatId, status: 'sent' })
+      return { handled: true, action: 'status_recorded' }
+    }
+
     if (payload.typeWebhook !== 'incomingMessageReceived') {
       logger.warn({ event: 'ignored_webhook_type', typeWebhook: payload.typeWebhook })
       return { handled: false, action: 'ignored_webhook_type' }
     }
 
-    if (extractedMessage === null) {
+    const inbound = toInboundMessage(payload)
+    if (inbound === null) {
       logger.warn({
         event: 'ignored_unsupported',
         typeMessage: payload.messageData.typeMessage,
@@ -60,38 +157,19 @@ export function createWebhookHandler(deps: WebhookHandlerDeps) {
       return { handled: false, action: 'ignored_unsupported' }
     }
 
-    const chatId = payload.senderData.chatId
-    const result = await flowController.process(chatId, extractedMessage)
-
-    if (!result.handled) {
-      logger.info({ event: 'flow_not_handled', chatId })
-      if (forwarder) {
-        await forwarder.forward(body)
-      }
-      return { handled: false, action: 'flow_processed' }
-    }
-
-    if (result.preMessage) {
-      await sender.sendMessage(chatId, result.preMessage)
-    }
-
-    if (result.buttons) {
-      await sender.sendButtons({
-        chatId,
-        body: result.buttons.body,
-        buttons: result.buttons.options,
-        header: result.buttons.header,
-        footer: result.buttons.footer
-      })
-    } else if (result.response) {
-      await sender.sendMessage(chatId, result.response)
+    const result = await messageHandler.process(inbound)
+    if (!result.handled && forwarder) {
+      await forwarder.forward(body)
     }
+    return result
+  }
 
-    logger.info({ event: 'flow_processed', chatId, handled: result.handled })
-    return { handled: true, action: 'flow_processed' }
+  /** True for messages the flow processes; everything else is ignored by `handle`. */
+  function isFlowMessage(payload: WebhookPayload): boolean {
+    return !isStatusUpdate(payload) && toInboundMessage(payload) !== null
   }
 
-  return { handle, parsePayload }
+  return { handle, parsePayload, isFlowMessage }
 }
 
 export type WebhookHandler = ReturnType<typeof createWebhookHandler>
@@ -39,12 +39,36 @@ export const incomingMessageSchema = z.object({
       selectedIndex: z.number().optional(),
       stanzaId: z.string().optional()
     }).optional(),
+    listResponseMessage: z.object({
+      // rowId of the selected row
+      singleSelectReply: z.string().optional(),
+      title: z.string().optional(),
+      listType: z.number().optional(),
+      stanzaId: z.string().optional()
+    }).optional(),
     fileMessageData: fileMessageDataSchema.optional()
   }),
   idMessage: z.string()
 })
 
+/** Delivery report for a message the instance sent; needs "outgoing webhooks" enabled on the instance. */
+export const outgoingMessageStatusSchema = z.object({
+  typeWebhook: z.literal('outgoingMessageStatus'),
+  instanceData: z.object({
+    idInstance: z.number(),
+    wid: z.string()
+  }),
+  chatId: z.string(),
+  idMessage: z.string(),
+  status: z.enum(['sent', 'delivered', 'read', 'failed', 'noAccount', 'notInGroup', 'yellowCard']),
+  description: z.string().optional(),
+  timestamp: z.number().optional(),
+  sendByApi: z.boolean().optional()
+})
+
 export type IncomingMessage = z.infer<typeof incomingMessageSchema>
+export type OutgoingMessageStatus = z.infer<typeof outgoingMessageStatusSchema>
+export type WebhookPayload = IncomingMessage | OutgoingMessageStatus
 export type FileMessageData = z.infer<typeof fileMessageDataSchema>
 
 export interface ExtractedMessage {
@@ -83,6 +107,13 @@ export function extractMessageContent(payload: IncomingMessage): ExtractedMessag
     return { type: 'text', content }
   }
 
+  if (typeMessage === 'listResponseMessage') {
+    const data = payload.messageData.listResponseMessage
+    const content = data?.singleSelectReply ?? data?.title ?? null
+    if (!content) return null
+    return { type: 'text', content }
+  }
+
   if (typeMessage === 'imageMessage') {
     const fileData = payload.messageData.fileMessageData
     if (!fileData?.downloadUrl) return null
@@ -1,6 +1,6 @@
 import { WooCommerceError, type WooCommerceErrorCode } from '../errors.js'
 import { createNoopLogger, type Logger } from '../logger.js'
-import type { WooCommerceConfig, WooCommerceClient, WooProduct, CreateProductInput } from './types.js'
+import type { WooCommerceConfig, WooCommerceClient, WooProduct, WooProductCategory, WooProductPage, ProductSearchFilters, CreateProductInput, UpdateProductInput, WooOrder, OrderListFilters } from './types.js'
 
 interface WooApiErrorResponse {
   code?: string
@@ -24,24 +24,28 @@ export function createWooCommerceClient(
   }
 
   function parseErrorCode(statusCode: number, responseBody: string): WooCommerceErrorCode {
+    let parsed: WooApiErrorResponse = {}
+    try {
+      parsed = (JSON.parse(responseBody) as WooApiErrorResponse | null) ?? {}
+    } catch {
+      // ignore parse errors
+    }
+
     if (statusCode === 401) return 'unauthorized'
     if (statusCode === 403) return 'forbidden'
     if (statusCode === 404) return 'not_found'
+    if (statusCode === 410) return 'already_trashed'
+    if (parsed.code === 'woocommerce_rest_trash_not_supported') return 'trash_not_supported'
     if (statusCode >= 500) return 'server_error'
 
-    try {
-      const parsed = JSON.parse(responseBody) as WooApiErrorResponse
-      if (parsed.code === 'product_invalid_sku' || parsed.message?.includes('SKU')) {
-        return 'duplicate_sku'
-      }
-      if (parsed.code === 'woocommerce_product_image_upload_error') {
-        return 'image_upload_error'
-      }
-      if (parsed.code === 'rest_invalid_param' || parsed.code === 'woocommerce_rest_invalid_product') {
-        return 'invalid_data'
-      }
-    } catch {
-      // ignore parse errors
+    if (parsed.code === 'product_invalid_sku' || parsed.message?.includes('SKU')) {
+      return 'duplicate_sku'
+    }
+    if (parsed.code === 'woocommerce_product_image_upload_error') {
+      return 'image_upload_error'
+    }
+    if (parsed.code === 'rest_invalid_param' || parsed.code === 'woocommerce_rest_invalid_product') {
+      return 'invalid_data'
     }
 
     if (statusCode === 400) return 'invalid_data'
@@ -62,10 +66,17 @@ export function createWooCommerceClient(
     return new WooCommerceError(userMessage, statusCode, errorCode)
   }
 
-  async function getProducts(perPage = 100): Promise<WooProduct[]> {
-    const url = `${config.storeUrl}/wp-json/wc/v3/products?per_page=${perPage}`
+  function parseCountHeader(response: Response, name: string, fallback: number): number {
+    const value = response.headers.get(name)
+    if (value === null) return fallback
+    const parsed = parseInt(value, 10)
+    return Number.isNaN(parsed) ? fallback : parsed
+  }
+
+  async function getProducts(perPage = 100, page = 1): Promise<WooProductPage> {
+    const url = `${config.storeUrl}/wp-json/wc/v3/products?per_page=${perPage}&page=${page}`
 
-    log.info({ event: 'woocommerce_get_products_start', perPage })
+    log.info({ event: 'woocommerce_get_products_start', perPage, page })
 
     let response: Response
     try {
@@ -101,9 +112,112 @@ export function createWooCommerceClient(
       throw new WooCommerceError('Failed to parse WooCommerce response', undefined, 'unknown', { cause: err })
     }
 
-    log.info({ event: 'woocommerce_get_products_success', productCount: products.length })
+    const total = parseCountHeader(response, 'X-WP-Total', products.length)
+    const totalPages = parseCountHeader(response, 'X-WP-TotalPages', total > 0 ? 1 : 0)
+
+    log.info({ event: 'woocommerce_get_products_success', productCount: products.length, page, total, totalPages })
+
+    return { products, page, perPage, total, totalPages }
+  }
+
+  async function searchProducts(filters: ProductSearchFilters, perPage = 20): Promise<WooProductPage> {
+    const params = new URLSearchParams({ per_page: String(perPage) })
+    if (filters.search) {
+      params.set('search', filters.search)
+      params.set('orderby', 'relevance')
+    }
+    if (filters.sku) params.set('sku', filters.sku)
+    if (filters.category !== undefined) params.set('category', String(filters.category))
+    if (filters.status) params.set('status', filters.status)
+
+    const url = `${config.storeUrl}/wp-json/wc/v3/products?${params.toString()}`
+
+    log.info({ event: 'woocommerce_search_products_start', filters, perPage })
+
+    let response: Response
+    try {
+      response = await fetchFunction(url, {
+        method: 'GET',
+        headers: {
+          'Authorization': buildAuthHeader(),
+          'Content-Type': 'application/json'
+        }
+      })
+    } catch (err) {
+      log.error({ event: 'woocommerce_network_error', error: err })
+      throw new WooCommerceError('Network error searching products', undefined, 'network_error', { cause: err })
+    }
+
+    if (!response.ok) {
+      let body: string
+      try {
+        body = await response.text()
+      } catch (err) {
+        log.error({ event: 'woocommerce_response_read_error', error: err })
+        body = 'Failed to read response body'
+      }
+      log.error({ event: 'woocommerce_api_error', statusCode: response.status, body })
+      throw buildApiError(response.status, body, 'Searching products')
+    }
+
+    let products: WooProduct[]
+    try {
+      products = await response.json() as WooProduct[]
+    } catch (err) {
+      log.error({ event: 'woocommerce_json_parse_error', error: err })
+      throw new WooCommerceError('Failed to parse WooCommerce response', undefined, 'unknown', { cause: err })
+    }
+
+    const total = parseCountHeader(response, 'X-WP-Total', products.length)
+    const totalPages = parseCountHeader(response, 'X-WP-TotalPages', total > 0 ? 1 : 0)
+
+    log.info({ event: 'woocommerce_search_products_success', productCount: products.length, total })
+
+    return { products, page: 1, perPage, total, totalPages }
+  }
+
+  async function getProduct(id: number): Promise<WooProduct> {
+    const url = `${config.storeUrl}/wp-json/wc/v3/products/${id}`
+
+    log.info({ event: 'woocommerce_get_product_start', productId: id })
+
+    let response: Response
+    try {
+      response = await fetchFunction(url, {
+        method: 'GET',
+        headers: {
+          'Authorization': buildAuthHeader(),
+          'Content-Type': 'application/json'
+        }
+      })
+    } catch (err) {
+      log.error({ event: 'woocommerce_network_error', error: err })
+      throw new WooCommerceError('Network error fetching product', undefined, 'network_error', { cause: err })
+    }
+
+    if (!response.ok) {
+      let body: string
+      try {
+        body = await response.text()
+      } catch (err) {
+        log.error({ event: 'woocommerce_response_read_error', error: err })
+        body = 'Failed to read response body'
+      }
+      log.error({ event: 'woocommerce_api_error', statusCode: response.status, body })
+      throw buildApiError(response.status, body, 'Fetching product')
+    }
+
+    let product: WooProduct
+    try {
+      product = await response.json() as WooProduct
+    } catch (err) {
+      log.error({ event: 'woocommerce_json_parse_error', error: err })
+      throw new WooCommerceError('Failed to parse WooCommerce response', undefined, 'unknown', { cause: err })
+    }
+
+    log.info({ event: 'woocommerce_get_product_success', productId: product.id, sku: product.sku })
 
-    return products
+    return product
   }
 
   async function getProductBySku(sku: string): Promise<WooProduct | null> {
@@ -154,6 +268,60 @@ export function createWooCommerceClient(
     return products[0]
   }
 
+  async function findCategory(nameOrSlug: string): Promise<WooProductCategory | null> {
+    const url = `${config.storeUrl}/wp-json/wc/v3/products/categories?search=${encodeURIComponent(nameOrSlug)}&per_page=100`
+
+    log.info({ event: 'woocommerce_find_category_start', category: nameOrSlug })
+
+    let response: Response
+    try {
+      response = await fetchFunction(url, {
+        method: 'GET',
+        headers: {
+          'Authorization': buildAuthHeader(),
+          'Content-Type': 'application/json'
+        }
+      })
+    } catch (err) {
+      log.error({ event: 'woocommerce_network_error', error: err })
+      throw new WooCommerceError('Network error fetching categories', undefined, 'network_error', { cause: err })
+    }
+
+    if (!response.ok) {
+      let body: string
+      try {
+        body = await response.text()
+      } catch (err) {
+        log.error({ event: 'woocommerce_response_read_error', error: err })
+        body = 'Failed to read response body'
+      }
+      log.error({ event: 'woocommerce_api_error', statusCode: response.status, body })
+      throw buildApiError(response.status, body, 'Fetching categories')
+    }
+
+    let categories: WooProductCategory[]
+    try {
+      categories = await response.json() as WooProductCategory[]
+    } catch (err) {
+      log.error({ event: 'woocommerce_json_parse_error', error: err })
+      throw new WooCommerceError('Failed to parse WooCommerce response', undefined, 'unknown', { cause: err })
+    }
+
+    // `search` matches parts of names too ("Mug" finds "Mugs" and "Travel Mugs"), so an exact
+    // name or slug wins, and a partial match only counts when it is the only one
+    const wanted = nameOrSlug.toLowerCase()
+    const category = categories.find(candidate => candidate.name.toLowerCase() === wanted || candidate.slug === wanted)
+      ?? (categories.length === 1 ? categories[0] : undefined)
+
+    if (!category) {
+      log.info({ event: 'woocommerce_find_category_not_found', category: nameOrSlug, candidates: categories.length })
+      return null
+    }
+
+    log.info({ event: 'woocommerce_find_category_success', category: nameOrSlug, categoryId: category.id })
+    return category
+  }
+
   async function createProduct(input: CreateProductInput): Promise<WooProduct> {
     const url = `${config.storeUrl}/wp-json/wc/v3/products`
 
@@ -213,5 +381,250 @@ export function createWooCommerceClient(
     return product
   }
 
-  return { getProducts, getProductBySku, createProduct }
+  async function updateProduct(id: number, input: UpdateProductInput): Promise<WooProduct> {
+    const url = `${config.storeUrl}/wp-json/wc/v3/products/${id}`
+
+    const body: Record<string, unknown> = {}
+    if (input.regular_price !== undefined) {
+      body.regular_price = input.regular_price
+    }
+    if (input.stock_quantity !== undefined) {
+      body.manage_stock = true
+      body.stock_quantity = input.stock_quantity
+    }
+
+    log.info({ event: 'woocommerce_update_product_start', productId: id, fields: Object.keys(input) })
+
+    let response: Response
+    try {
+      response = await fetchFunction(url, {
+        method: 'PUT',
+        headers: {
+          'Authorization': buildAuthHeader(),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      })
+    } catch (err) {
+      log.error({ event: 'woocommerce_network_error', error: err })
+      throw new WooCommerceError('Network error updating product', undefined, 'network_error', { cause: err })
+    }
+
+    if (!response.ok) {
+      let responseBody: string
+      try {
+        responseBody = await response.text()
+      } catch (err) {
+        log.error({ event: 'woocommerce_response_read_error', error: err })
+        responseBody = 'Failed to read response body'
+      }
+      log.error({ event: 'woocommerce_api_error', statusCode: response.status, body: responseBody })
+      throw buildApiError(response.status, responseBody, 'Updating product')
+    }
+
+    let product: WooProduct
+    try {
+      product = await response.json() as WooProduct
+    } catch (err) {
+      log.error({ event: 'woocommerce_json_parse_error', error: err })
+      throw new WooCommerceError('Failed to parse WooCommerce response', undefined, 'unknown', { cause: err })
+    }
+
+    log.info({ event: 'woocommerce_update_product_success', productId: product.id, price: product.regular_price, stock: product.stock_quantity })
+
+    return product
+  }
+
+  async function deleteProduct(id: number, force = false): Promise<WooProduct> {
+    const url = `${config.storeUrl}/wp-json/wc/v3/products/${id}?force=${force}`
+
+    log.info({ event: 'woocommerce_delete_product_start', productId: id, force })
+
+    let response: Response
+    try {
+      response = await fetchFunction(url, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': buildAuthHeader()
+        }
+      })
+    } catch (err) {
+      log.error({ event: 'woocommerce_network_error', error: err })
+      throw new WooCommerceError('Network error deleting product', undefined, 'network_error', { cause: err })
+    }
+
+    if (!response.ok) {
+      let responseBody: string
+      try {
+        responseBody = await response.text()
+      } catch (err) {
+        log.error({ event: 'woocommerce_response_read_error', error: err })
+        responseBody = 'Failed to read response body'
+      }
+      log.error({ event: 'woocommerce_api_error', statusCode: response.status, body: responseBody })
+      throw buildApiError(response.status, responseBody, 'Deleting product')
+    }
+
+    let product: WooProduct
+    try {
+      product = await response.json() as WooProduct
+    } catch (err) {
+      log.error({ event: 'woocommerce_json_parse_error', error: err })
+      throw new WooCommerceError('Failed to parse WooCommerce response', undefined, 'unknown', { cause: err })
+    }
+
+    log.info({ event: 'woocommerce_delete_product_success', productId: product.id, force, status: product.status })
+
+    return product
+  }
+
+  async function getOrders(filters: OrderListFilters = {}, perPage = 10): Promise<WooOrder[]> {
+    const params = new URLSearchParams({ per_page: String(perPage), orderby: 'date', order: 'desc' })
+    if (filters.status) params.set('status', filters.status)
+
+    const url = `${config.storeUrl}/wp-json/wc/v3/orders?${params.toString()}`
+
+    log.info({ event: 'woocommerce_get_orders_start', filters, perPage })
+
+    let response: Response
+    try {
+      response = await fetchFunction(url, {
+        method: 'GET',
+        headers: {
+          'Authorization': buildAuthHeader(),
+          'Content-Type': 'application/json'
+        }
+      })
+    } catch (err) {
+      log.error({ event: 'woocommerce_network_error', error: err })
+      throw new WooCommerceError('Network error fetching orders', undefined, 'network_error', { cause: err })
+    }
+
+    if (!response.ok) {
+      let body: string
+      try {
+        body = await response.text()
+      } catch (err) {
+        log.error({ event: 'woocommerce_response_read_error', error: err })
+        body = 'Failed to read response body'
+      }
+      log.error({ event: 'woocommerce_api_error', statusCode: response.status, body })
+      throw buildApiError(response.status, body, 'Fetching orders')
+    }
+
+    let orders: WooOrder[]
+    try {
+      orders = await response.json() as WooOrder[]
+    } catch (err) {
+      log.error({ event: 'woocommerce_json_parse_error', error: err })
+      throw new WooCommerceError('Failed to parse WooCommerce response', undefined, 'unknown', { cause: err })
+    }
+
+    log.info({ event: 'woocommerce_get_orders_success', orderCount: orders.length })
+
+    return orders
+  }
+
+  async function getOrder(id: number): Promise<WooOrder> {
+    const url = `${config.storeUrl}/wp-json/wc/v3/orders/${id}`
+
+    log.info({ event: 'woocommerce_get_order_start', orderId: id })
+
+    let response: Response
+    try {
+      response = await fetchFunction(url, {
+        method: 'GET',
+        headers: {
+          'Authorization': buildAuthHeader(),
+          'Content-Type': 'application/json'
+        }
+      })
+    } catch (err) {
+      log.error({ event: 'woocommerce_network_error', error: err })
+      throw new WooCommerceError('Network error fetching order', undefined, 'network_error', { cause: err })
+    }
+
+    if (!response.ok) {
+      let body: string
+      try {
+        body = await response.text()
+      } catch (err) {
+        log.error({ event: 'woocommerce_response_read_error', error: err })
+        body = 'Failed to read response body'
+      }
+      log.error({ event: 'woocommerce_api_error', statusCode: response.status, body })
+      throw buildApiError(response.status, body, 'Fetching order')
+    }
+
+    let order: WooOrder
+    try {
+      order = await response.json() as WooOrder
+    } catch (err) {
+      log.error({ event: 'woocommerce_json_parse_error', error: err })
+      throw new WooCommerceError('Failed to parse WooCommerce response', undefined, 'unknown', { cause: err })
+    }
+
+    log.info({ event: 'woocommerce_get_order_success', orderId: order.id, status: order.status })
+
+    return order
+  }
+
+  async function updateOrderStatus(id: number, status: string): Promise<WooOrder> {
+    const url = `${config.storeUrl}/wp-json/wc/v3/orders/${id}`
+
+    log.info({ event: 'woocommerce_update_order_status_start', orderId: id, status })
+
+    let response: Response
+    try {
+      response = await fetchFunction(url, {
+        method: 'PUT',
+        headers: {
+          'Authorization': buildAuthHeader(),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ status })
+      })
+    } catch (err) {
+      log.error({ event: 'woocommerce_network_error', error: err })
+      throw new WooCommerceError('Network error updating order', undefined, 'network_error', { cause: err })
+    }
+
+    if (!response.ok) {
+      let responseBody: string
+      try {
+        responseBody = await response.text()
+      } catch (err) {
+        log.error({ event: 'woocommerce_response_read_error', error: err })
+        responseBody = 'Failed to read response body'
+      }
+      log.error({ event: 'woocommerce_api_error', statusCode: response.status, body: responseBody })
+      throw buildApiError(response.status, responseBody, 'Updating order')
+    }
+
+    let order: WooOrder
+    try {
+      order = await response.json() as WooOrder
+    } catch (err) {
+      log.error({ event: 'woocommerce_json_parse_error', error: err })
+      throw new WooCommerceError('Failed to parse WooCommerce response', undefined, 'unknown', { cause: err })
+    }
+
+    log.info({ event: 'woocommerce_update_order_status_success', orderId: order.id, status: order.status })
+
+    return order
+  }
+
+  return {
+    getProducts,
+    searchProducts,
+    getProduct,
+    getProductBySku,
+    findCategory,
+    createProduct,
+    updateProduct,
+    deleteProduct,
+    getOrders,
+    getOrder,
+    updateOrderStatus
+  }
 }
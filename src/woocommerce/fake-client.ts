@@ -0,0 +1,244 @@
+import { WooCommerceError } from '../errors.js'
+import { createNoopLogger, type Logger } from '../logger.js'
+import { createSystemClock, type Clock } from '../scheduler/clock.js'
+import type {
+  CreateProductInput,
+  OrderListFilters,
+  ProductSearchFilters,
+  UpdateProductInput,
+  WooCommerceClient,
+  WooOrder,
+  WooProduct,
+  WooProductPage
+} from './types.js'
+
+export interface FakeWooCommerceOptions {
+  /** Defaults to a few demo products, one of them low on stock. */
+  products?: WooProduct[]
+  /** Defaults to two demo orders. */
+  orders?: WooOrder[]
+  /** Base of the permalinks of created products. */
+  storeUrl?: string
+  clock?: Clock
+  logger?: Logger
+}
+
+const DEMO_STORE_URL = 'https://demo-shop.example'
+
+const DEMO_CATEGORY_IDS: Record<string, number> = { Kitchen: 1, Home: 2 }
+
+function demoProduct(id: number, name: string, sku: string, price: string, stock: number, category: string): WooProduct {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-')
+  return {
+    id,
+    name,
+    slug,
+    permalink: `${DEMO_STORE_URL}/product/${slug}/`,
+    price,
+    regular_price: price,
+    sale_price: '',
+    stock_status: stock > 0 ? 'instock' : 'outofstock',
+    stock_quantity: stock,
+    low_stock_amount: null,
+    status: 'publish',
+    description: '',
+    short_description: `${name} from the demo shop`,
+    sku,
+    date_created: '2026-01-05T09:00:00',
+    categories: [{ id: DEMO_CATEGORY_IDS[category], name: category, slug: category.toLowerCase() }],
+    images: []
+  }
+}
+
+export const DEMO_PRODUCTS: readonly WooProduct[] = [
+  demoProduct(101, 'Ceramic Mug', 'MUG-01', '12.50', 24, 'Kitchen'),
+  demoProduct(102, 'Linen Tea Towel', 'TOWEL-01', '9.00', 3, 'Kitchen'),
+  demoProduct(103, 'Beeswax Candle', 'CANDLE-01', '15.00', 0, 'Home'),
+  demoProduct(104, 'Oak Serving Board', 'BOARD-01', '39.90', 8, 'Kitchen')
+]
+
+export const DEMO_ORDERS: readonly WooOrder[] = [
+  {
+    id: 501,
+    number: '501',
+    status: 'processing',
+    currency: 'USD',
+    total: '34.00',
+    date_created: '2026-01-06T14:12:00',
+    billing: { first_name: 'Noa', last_name: 'Levi', email: 'noa@example.com' },
+    line_items: [{ id: 1, name: 'Ceramic Mug', quantity: 2, total: '25.00', sku: 'MUG-01' }, { id: 2, name: 'Linen Tea Towel', quantity: 1, total: '9.00', sku: 'TOWEL-01' }]
+  },
+  {
+    id: 500,
+    number: '500',
+    status: 'pending',
+    currency: 'USD',
+    total: '39.90',
+    date_created: '2026-01-05T18:40:00',
+    billing: { first_name: 'Sam', last_name: 'Cohen' },
+    line_items: [{ id: 3, name: 'Oak Serving Board', quantity: 1, total: '39.90', sku: 'BOARD-01' }]
+  }
+]
+
+/**
+ * In-memory WooCommerceClient for trying flows without a store. Errors carry the same
+ * codes as the real client (`not_found`, `duplicate_sku`, `already_trashed`).
+ */
+export function createFakeWooCommerceClient(options: FakeWooCommerceOptions = {}): WooCommerceClient {
+  const storeUrl = options.storeUrl ?? DEMO_STORE_URL
+  const clock = options.clock ?? createSystemClock()
+  const logger = options.logger ?? createNoopLogger()
+  // Copies, so the flow never holds a reference into the store
+  const products = new Map((options.products ?? DEMO_PRODUCTS).map(product => [product.id, structuredClone(product)]))
+  const orders = new Map((options.orders ?? DEMO_ORDERS).map(order => [order.id, structuredClone(order)]))
+
+  function notFound(what: string, id: number): WooCommerceError {
+    return new WooCommerceError(`Invalid ${what} ID ${id}`, 404, 'not_found')
+  }
+
+  function findProduct(id: number): WooProduct {
+    const product = products.get(id)
+    if (!product) {
+      throw notFound('product', id)
+    }
+    return product
+  }
+
+  function findOrder(id: number): WooOrder {
+    const order = orders.get(id)
+    if (!order) {
+      throw notFound('order', id)
+    }
+    return order
+  }
+
+  function page(items: WooProduct[], perPage: number, pageNumber: number): WooProductPage {
+    const start = (pageNumber - 1) * perPage
+    return {
+      products: items.slice(start, start + perPage).map(product => structuredClone(product)),
+      page: pageNumber,
+      perPage,
+      total: items.length,
+      totalPages: Math.ceil(items.length / perPage)
+    }
+  }
+
+  /** Newest first, without trashed products, like the REST API's default listing. */
+  function listed(): WooProduct[] {
+    return [...products.values()].filter(product => product.status !== 'trash').sort((a, b) => b.id - a.id)
+  }
+
+  function matches(product: WooProduct, filters: ProductSearchFilters): boolean {
+    if (filters.search) {
+      const search = filters.search.toLowerCase()
+      if (!product.name.toLowerCase().includes(search) && !product.sku.toLowerCase().includes(search)) {
+        return false
+      }
+    }
+    if (filters.sku && product.sku !== filters.sku) return false
+    if (filters.status && product.status !== filters.status) return false
+    if (filters.category !== undefined && !product.categories?.some(category => category.id === filters.category)) {
+      return false
+    }
+    return true
+  }
+
+  function stockStatus(quantity: number | null): string {
+    return quantity === null || quantity > 0 ? 'instock' : 'outofstock'
+  }
+
+  return {
+    getProducts: async (perPage = 100, pageNumber = 1) => page(listed(), perPage, pageNumber),
+
+    searchProducts: async (filters, perPage = 20) => page(listed().filter(product => matches(product, filters)), perPage, 1),
+
+    getProduct: async (id) => structuredClone(findProduct(id)),
+
+    getProductBySku: async (sku) => {
+      const product = [...products.values()].find(candidate => candidate.sku === sku)
+      return product ? structuredClone(product) : null
+    },
+
+    findCategory: async (nameOrSlug) => {
+      const wanted = nameOrSlug.toLowerCase()
+      const category = [...products.values()]
+        .flatMap(product => product.categories ?? [])
+        .find(candidate => candidate.name.toLowerCase() === wanted || candidate.slug === wanted)
+      return category ? structuredClone(category) : null
+    },
+
+    createProduct: async (input: CreateProductInput) => {
+      if (input.sku && [...products.values()].some(product => product.sku === input.sku)) {
+        throw new WooCommerceError('Invalid or duplicated SKU.', 400, 'duplicate_sku')
+      }
+      const id = Math.max(0, ...products.keys()) + 1
+      const slug = input.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')
+      const product: WooProduct = {
+        id,
+        name: input.name,
+        slug,
+        permalink: `${storeUrl}/product/${slug}/`,
+        price: input.regular_price,
+        regular_price: input.regular_price,
+        sale_price: '',
+        stock_status: stockStatus(input.stock_quantity),
+        stock_quantity: input.stock_quantity,
+        low_stock_amount: null,
+        status: 'publish',
+        description: input.description ?? '',
+        short_description: '',
+        sku: input.sku ?? '',
+        date_created: clock.now().toISOString().slice(0, 19),
+        categories: [],
+        images: (input.images ?? []).map((image, index) => ({ id: id * 100 + index, src: image.src, name: image.name ?? '', alt: image.alt ?? '' }))
+      }
+      products.set(id, product)
+      logger.info({ event: 'fake_woocommerce_product_created', productId: id, name: input.name })
+      return structuredClone(product)
+    },
+
+    updateProduct: async (id, input: UpdateProductInput) => {
+      const product = findProduct(id)
+      if (input.regular_price !== undefined) {
+        product.regular_price = input.regular_price
+        product.price = product.sale_price || input.regular_price
+      }
+      if (input.stock_quantity !== undefined) {
+        product.stock_quantity = input.stock_quantity
+        product.stock_status = stockStatus(input.stock_quantity)
+      }
+      logger.info({ event: 'fake_woocommerce_product_updated', productId: id })
+      return structuredClone(product)
+    },
+
+    deleteProduct: async (id, force = false) => {
+      const product = findProduct(id)
+      if (force) {
+        products.delete(id)
+        return structuredClone(product)
+      }
+      if (product.status === 'trash') {
+        throw new WooCommerceError('The product has already been deleted.', 410, 'already_trashed')
+      }
+      product.status = 'trash'
+      logger.info({ event: 'fake_woocommerce_product_trashed', productId: id })
+      return structuredClone(product)
+    },
+
+    getOrders: async (filters: OrderListFilters = {}, perPage = 10) =>
+      [...orders.values()]
+        .filter(order => !filters.status || order.status === filters.status)
+        .sort((a, b) => b.date_created.localeCompare(a.date_created))
+        .slice(0, perPage)
+        .map(order => structuredClone(order)),
+
+    getOrder: async (id) => structuredClone(findOrder(id)),
+
+    updateOrderStatus: async (id, status) => {
+      const order = findOrder(id)
+      order.status = status
+      logger.info({ event: 'fake_woocommerce_order_updated', orderId: id, status })
+      return structuredClone(order)
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { z } from 'zod'
+import { WebhookError, WebhookSignatureError } from '../errors.js'
+import { createNoopLogger, type Logger } from '../logger.js'
+import type { GreenApiSender } from '../greenapi/sender.js'
+import type { ProcessedMessageStore } from '../webhook/dedup.js'
+import type { WooOrder } from './types.js'
+
+export const orderWebhookPayloadSchema = z.object({
+  id: z.number(),
+  number: z.coerce.string(),
+  status: z.string(),
+  currency: z.string(),
+  total: z.string(),
+  date_created: z.string(),
+  billing: z.object({
+    first_name: z.string(),
+    last_name: z.string(),
+    email: z.string().optional(),
+    phone: z.string().optional()
+  }),
+  line_items: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    quantity: z.number(),
+    total: z.string(),
+    sku: z.string().optional()
+  })),
+  customer_note: z.string().optional()
+})
+
+export type OrderWebhookTopic = 'order.created' | 'order.updated'
+
+export interface OrderWebhookRequest {
+  rawBody: Buffer
+  signature?: string
+  topic?: string
+  /** `X-WC-Webhook-Delivery-ID`, kept when WooCommerce redelivers after a timeout. */
+  deliveryId?: string
+}
+
+export interface OrderWebhookResult {
+  /** `accepted`: owners are notified after the response, so WooCommerce is answered within its timeout. */
+  action: 'accepted' | 'duplicate' | 'ping' | 'ignored_topic'
+}
+
+export interface OrderWebhookHandlerDeps {
+  secret: string
+  ownerChatIds: string[]
+  sender: GreenApiSender
+  messages: Record<string, string>
+  logger?: Logger
+  /** Remembers delivery ids, so a redelivered order does not notify the owners twice. */
+  processedMessages?: ProcessedMessageStore
+}
+
+export interface OrderWebhookHandler {
+  verifySignature(rawBody: Buffer, signature: string | undefined): boolean
+  handle(request: OrderWebhookRequest): Promise<OrderWebhookResult>
+  /** Resolves once the notifications of every accepted delivery have been sent. */
+  drain(): Promise<void>
+}
+
+const TOPIC_MESSAGE_KEYS: Record<OrderWebhookTopic, string> = {
+  'order.created': 'order_notification_created',
+  'order.updated': 'order_notification_updated'
+}
+
+function isOrderTopic(topic: string | undefined): topic is OrderWebhookTopic {
+  return topic === 'order.created' || topic === 'order.updated'
+}
+
+export function createOrderWebhookHandler(deps: OrderWebhookHandlerDeps): OrderWebhookHandler {
+  const { secret, ownerChatIds, sender, messages, processedMessages } = deps
+  const logger = deps.logger ?? createNoopLogger()
+  const notifying = new Set<Promise<void>>()
+  // Redeliveries that arrive while the store lookup of the first one is still pending
+  const accepting = new Set<string>()
+
+  function getMessage(key: string): string {
+    return messages[key] ?? `[Missing message: ${key}]`
+  }
+
+  function verifySignature(rawBody: Buffer, signature: string | undefined): boolean {
+    if (!signature) {
+      return false
+    }
+    const expected = Buffer.from(createHmac('sha256', secret).update(rawBody).digest('base64'))
+    const received = Buffer.from(signature)
+    return received.length === expected.length && timingSafeEqual(received, expected)
+  }
+
+  function parseOrder(rawBody: Buffer): WooOrder {
+    let body: unknown
+    try {
+      body = JSON.parse(rawBody.toString('utf-8'))
+    } catch {
+      throw new WebhookError('Order webhook body is not valid JSON')
+    }
+
+    const result = orderWebhookPayloadSchema.safeParse(body)
+    if (!result.success) {
+      const field = result.error.errors[0]?.path.join('.') ?? 'unknown'
+      logger.error({ event: 'order_webhook_parse_error', error: result.error.message, field })
+      throw new WebhookError(`Invalid order webhook payload: ${result.error.message}`, field)
+    }
+    return result.data
+  }
+
+  function formatOrderSummary(order: WooOrder, topic: OrderWebhookTopic): string {
+    const customer = `${order.billing.first_name} ${order.billing.last_name}`.trim() || '-'
+    const items = order.line_items
+      .map(item => `• ${item.quantity} × ${item.name} - ${item.total}`)
+      .join('\n')
+
+    return getMessage(TOPIC_MESSAGE_KEYS[topic])
+      .replace('{number}', order.number)
+      .replace('{customer}', customer)
+      .replace('{total}', order.total)
+      .replace('{currency}', order.currency)
+      .replace('{status}', order.status)
+      .replace('{items}', items || '-')
+  }
+
+  async function isDuplicate(deliveryId: string | undefined): Promise<boolean> {
+    if (!deliveryId || !processedMessages) {
+      return false
+    }
+    // Channels share the store, so the key carries where the id comes from
+    const key = `woocommerce:${deliveryId}`
+    if (accepting.has(key)) {
+      return true
+    }
+    accepting.add(key)
+    try {
+      const seen = await processedMessages.get(key).catch(err => {
+        logger.error({ event: 'dedup_store_error', operation: 'get', idMessage: key, error: err })
+        return undefined
+      })
+      if (seen) {
+        return true
+      }
+      await processedMessages.set(key, { handled: true }).catch(err => {
+        logger.error({ event: 'dedup_store_error', operation: 'set', idMessage: key, error: err })
+      })
+      return false
+    } finally {
+      accepting.delete(key)
+    }
+  }
+
+  async function notifyOwners(order: WooOrder, summary: string): Promise<void> {
+    let notified = 0
+    for (const chatId of ownerChatIds) {
+      try {
+        await sender.sendMessage(chatId, summary)
+        notified++
+      } catch (err) {
+        logger.error({ event: 'order_notification_send_error', chatId, orderId: order.id, error: err })
+      }
+    }
+    logger.info({ event: 'order_notification_sent', orderId: order.id, notified })
+  }
+
+  async function handle(request: OrderWebhookRequest): Promise<OrderWebhookResult> {
+    const { rawBody, signature, topic, deliveryId } = request
+
+    if (!topic && rawBody.toString('utf-8').startsWith('webhook_id=')) {
+      logger.info({ event: 'order_webhook_ping' })
+      return { action: 'ping' }
+    }
+
+    if (!verifySignature(rawBody, signature)) {
+      logger.warn({ event: 'order_webhook_invalid_signature', topic })
+      throw new WebhookSignatureError('Invalid X-WC-Webhook-Signature')
+    }
+
+    if (!isOrderTopic(topic)) {
+      logger.info({ event: 'order_webhook_ignored_topic', topic })
+      return { action: 'ignored_topic' }
+    }
+
+    const order = parseOrder(rawBody)
+    if (await isDuplicate(deliveryId)) {
+      logger.info({ event: 'order_webhook_duplicate', topic, orderId: order.id, deliveryId })
+      return { action: 'duplicate' }
+    }
+
+    logger.info({ event: 'order_webhook_received', topic, orderId: order.id, status: order.status, deliveryId, owners: ownerChatIds.length })
+
+    // Sends go through rate limiting and retries, which can outlast WooCommerce's timeout
+    const notification = notifyOwners(order, formatOrderSummary(order, topic))
+    notifying.add(notification)
+    void notification.finally(() => notifying.delete(notification))
+    return { action: 'accepted' }
+  }
+
+  async function drain(): Promise<void> {
+    await Promise.all(notifying)
+  }
+
+  return { verifySignature, handle, drain }
+}
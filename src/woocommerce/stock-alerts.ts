@@ -0,0 +1,156 @@
+import { createNoopLogger, type Logger } from '../logger.js'
+import type { GreenApiSender } from '../greenapi/sender.js'
+import type { Clock } from '../scheduler/clock.js'
+import type { WooCommerceClient, WooProduct } from './types.js'
+
+const PRODUCTS_PAGE_SIZE = 100
+
+export interface StockAlertServiceDeps {
+  wooCommerce: WooCommerceClient
+  sender: GreenApiSender
+  messages: Record<string, string>
+  ownerChatIds: string[]
+  lowStockThreshold: number
+  clock: Clock
+  logger?: Logger
+}
+
+export interface LowStockCheckResult {
+  lowStock: number
+  alerted: number
+  notified: number
+}
+
+export interface DailyDigestResult {
+  lowStock: number
+  outOfStock: number
+  addedToday: number
+  notified: number
+}
+
+export interface StockAlertService {
+  checkLowStock(): Promise<LowStockCheckResult>
+  sendDailyDigest(): Promise<DailyDigestResult>
+}
+
+function isOutOfStock(product: WooProduct): boolean {
+  return product.stock_status === 'outofstock' || (product.stock_quantity !== null && product.stock_quantity <= 0)
+}
+
+function formatLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export function createStockAlertService(deps: StockAlertServiceDeps): StockAlertService {
+  const { wooCommerce, sender, messages, ownerChatIds, lowStockThreshold, clock } = deps
+  const logger = deps.logger ?? createNoopLogger()
+
+  // Products already reported as low; cleared once they are restocked so they alert again next time.
+  const alertedProductIds = new Set<number>()
+
+  function getMessage(key: string): string {
+    return messages[key] ?? `[Missing message: ${key}]`
+  }
+
+  function thresholdFor(product: WooProduct): number {
+    return product.low_stock_amount ?? lowStockThreshold
+  }
+
+  /** Stock is managed and at or below the product's own low stock amount, or the global threshold. */
+  function isLowStock(product: WooProduct): boolean {
+    return product.stock_quantity !== null && product.stock_quantity <= thresholdFor(product)
+  }
+
+  async function fetchAllProducts(): Promise<WooProduct[]> {
+    const products: WooProduct[] = []
+    let page = 1
+    let totalPages = 1
+    do {
+      const result = await wooCommerce.getProducts(PRODUCTS_PAGE_SIZE, page)
+      products.push(...result.products)
+      totalPages = result.totalPages
+      page++
+    } while (page <= totalPages)
+    return products
+  }
+
+  function formatStockLine(product: WooProduct): string {
+    const sku = product.sku ? ` (${product.sku})` : ''
+    if (isOutOfStock(product)) {
+      return getMessage('stock_line_out').replace('{name}', product.name).replace('{sku}', sku)
+    }
+    return getMessage('stock_line_low')
+      .replace('{name}', product.name)
+      .replace('{sku}', sku)
+      .replace('{stock}', String(product.stock_quantity))
+      .replace('{threshold}', String(thresholdFor(product)))
+  }
+
+  function formatList(lines: string[]): string {
+    return lines.length > 0 ? lines.join('\n') : getMessage('stock_digest_none')
+  }
+
+  async function notifyOwners(text: string, event: string): Promise<number> {
+    let notified = 0
+    for (const chatId of ownerChatIds) {
+      try {
+        await sender.sendMessage(chatId, text)
+        notified++
+      } catch (err) {
+        logger.error({ event, chatId, error: err })
+      }
+    }
+    return notified
+  }
+
+  async function checkLowStock(): Promise<LowStockCheckResult> {
+    const products = await fetchAllProducts()
+    const lowStock = products.filter(isLowStock)
+    const newlyLow = lowStock.filter(product => !alertedProductIds.has(product.id))
+
+    alertedProductIds.clear()
+    for (const product of lowStock) {
+      alertedProductIds.add(product.id)
+    }
+
+    logger.info({ event: 'low_stock_check', products: products.length, lowStock: lowStock.length, newlyLow: newlyLow.length })
+
+    if (newlyLow.length === 0) {
+      return { lowStock: lowStock.length, alerted: 0, notified: 0 }
+    }
+
+    const text = getMessage('low_stock_alert')
+      .replace('{count}', String(newlyLow.length))
+      .replace('{items}', newlyLow.map(formatStockLine).join('\n'))
+    const notified = await notifyOwners(text, 'low_stock_alert_send_error')
+
+    logger.info({ event: 'low_stock_alert_sent', alerted: newlyLow.length, notified })
+    return { lowStock: lowStock.length, alerted: newlyLow.length, notified }
+  }
+
+  async function sendDailyDigest(): Promise<DailyDigestResult> {
+    const products = await fetchAllProducts()
+    const today = formatLocalDate(clock.now())
+
+    const outOfStock = products.filter(isOutOfStock)
+    const lowStock = products.filter(product => isLowStock(product) && !isOutOfStock(product))
+    const addedToday = products.filter(product => product.date_created?.startsWith(today))
+
+    const text = getMessage('stock_digest')
+      .replace('{date}', today)
+      .replace('{lowCount}', String(lowStock.length))
+      .replace('{lowStock}', formatList(lowStock.map(formatStockLine)))
+      .replace('{outCount}', String(outOfStock.length))
+      .replace('{outOfStock}', formatList(outOfStock.map(formatStockLine)))
+      .replace('{addedCount}', String(addedToday.length))
+      .replace('{addedToday}', formatList(addedToday.map(product => `• ${product.name}`)))
+    const notified = await notifyOwners(text, 'stock_digest_send_error')
+
+    logger.info({ event: 'stock_digest_sent', lowStock: lowStock.length, outOfStock: outOfStock.length, addedToday: addedToday.length, notified })
+    return { lowStock: lowStock.length, outOfStock: outOfStock.length, addedToday: addedToday.length, notified }
+  }
+
+  return { checkLowStock, sendDailyDigest }
+}
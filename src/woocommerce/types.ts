@@ -4,6 +4,19 @@ export interface WooCommerceConfig {
   consumerSecret: string
 }
 
+export interface WooProductCategory {
+  id: number
+  name: string
+  slug: string
+}
+
+export interface WooProductImage {
+  id: number
+  src: string
+  name: string
+  alt: string
+}
+
 export interface WooProduct {
   id: number
   name: string
@@ -14,10 +27,22 @@ export interface WooProduct {
   sale_price: string
   stock_status: string
   stock_quantity: number | null
+  low_stock_amount?: number | null
   status: string
   description: string
   short_description: string
   sku: string
+  date_created?: string
+  categories?: WooProductCategory[]
+  images?: WooProductImage[]
+}
+
+export interface WooProductPage {
+  products: WooProduct[]
+  page: number
+  perPage: number
+  total: number
+  totalPages: number
 }
 
 export interface ProductImage {
@@ -35,8 +60,61 @@ export interface CreateProductInput {
   images?: ProductImage[]
 }
 
+export interface UpdateProductInput {
+  regular_price?: string
+  stock_quantity?: number
+}
+
+export interface ProductSearchFilters {
+  search?: string
+  sku?: string
+  /** Category ID; the REST API does not filter by name, so look names up with findCategory. */
+  category?: number
+  status?: string
+}
+
+export interface WooOrderBilling {
+  first_name: string
+  last_name: string
+  email?: string
+  phone?: string
+}
+
+export interface WooOrderLineItem {
+  id: number
+  name: string
+  quantity: number
+  total: string
+  sku?: string
+}
+
+export interface WooOrder {
+  id: number
+  number: string
+  status: string
+  currency: string
+  total: string
+  date_created: string
+  billing: WooOrderBilling
+  line_items: WooOrderLineItem[]
+  customer_note?: string
+}
+
+export interface OrderListFilters {
+  status?: string
+}
+
 export interface WooCommerceClient {
-  getProducts(perPage?: number): Promise<WooProduct[]>
+  getProducts(perPage?: number, page?: number): Promise<WooProductPage>
+  searchProducts(filters: ProductSearchFilters, perPage?: number): Promise<WooProductPage>
+  getProduct(id: number): Promise<WooProduct>
   getProductBySku(sku: string): Promise<WooProduct | null>
+  /** Product category with this name or slug (case-insensitive), or null when there is none. */
+  findCategory(nameOrSlug: string): Promise<WooProductCategory | null>
   createProduct(input: CreateProductInput): Promise<WooProduct>
+  updateProduct(id: number, input: UpdateProductInput): Promise<WooProduct>
+  deleteProduct(id: number, force?: boolean): Promise<WooProduct>
+  getOrders(filters?: OrderListFilters, perPage?: number): Promise<WooOrder[]>
+  getOrder(id: number): Promise<WooOrder>
+  updateOrderStatus(id: number, status: string): Promise<WooOrder>
 }
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
 import type { FastifyInstance } from 'fastify'
 import { createApp, type App } from '../../src/app.js'
 
@@ -6,6 +6,7 @@ describe('E2E: Webhook Flow', () => {
   let app: App
   let server: FastifyInstance
   let chatCounter = 0
+  let messageCounter = 0
 
   beforeAll(async () => {
     process.env.MOCK_MODE = 'true'
@@ -15,6 +16,7 @@ describe('E2E: Webhook Flow', () => {
     process.env.WOOCOMMERCE_STORE_URL = 'https://test-store.com'
     process.env.WOOCOMMERCE_CONSUMER_KEY = 'ck_test_key'
     process.env.WOOCOMMERCE_CONSUMER_SECRET = 'cs_test_secret'
+    process.env.WEBHOOK_MODE = 'sync'
 
     app = createApp()
     server = app.server
@@ -35,7 +37,7 @@ describe('E2E: Webhook Flow', () => {
         typeMessage: 'textMessage',
         textMessageData: { textMessage: text }
       },
-      idMessage: `MSG-${Date.now()}-${chatCounter}`
+      idMessage: `MSG-${Date.now()}-${++messageCounter}`
     }
   }
 
@@ -190,3 +192,82 @@ describe('E2E: Webhook Flow', () => {
     })
   })
 })
+
+describe('E2E: Queued webhook processing', () => {
+  let app: App
+  let server: FastifyInstance
+
+  beforeAll(async () => {
+    process.env.MOCK_MODE = 'true'
+    process.env.TRIGGER_CODE = 'test-shop'
+    process.env.GREEN_API_INSTANCE_ID = 'test-instance'
+    process.env.GREEN_API_TOKEN = 'test-token'
+    process.env.WOOCOMMERCE_STORE_URL = 'https://test-store.com'
+    process.env.WOOCOMMERCE_CONSUMER_KEY = 'ck_test_key'
+    process.env.WOOCOMMERCE_CONSUMER_SECRET = 'cs_test_secret'
+    process.env.WEBHOOK_MODE = 'queue'
+
+    app = createApp()
+    server = app.server
+    await server.ready()
+  })
+
+  afterAll(async () => {
+    await server.close()
+    delete process.env.WEBHOOK_MODE
+  })
+
+  function createWebhookPayload(text: string, idMessage: string) {
+    return {
+      typeWebhook: 'incomingMessageReceived',
+      instanceData: { idInstance: 123, wid: 'bot@c.us' },
+      senderData: { chatId: 'queued-user@c.us', sender: 'queued-user@c.us' },
+      messageData: {
+        typeMessage: 'textMessage',
+        textMessageData: { textMessage: text }
+      },
+      idMessage
+    }
+  }
+
+  it('should acknowledge immediately and process the message in the background', async () => {
+    const queue = app.dependencies.webhookQueue!
+
+    const response = await server.inject({
+      method: 'POST',
+      url: '/webhook',
+      payload: createWebhookPayload('test-shop', 'QUEUED-1')
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.json()).toEqual({ ok: true, queued: true, duplicate: false })
+    await vi.waitFor(() => expect(queue.stats().completed).toBe(1))
+    const session = await app.dependencies.memory.get('queued-user@c.us')
+    expect(session?.currentStep).toBe('awaiting_intent')
+  })
+
+  it('should not run the flow again for a replayed delivery', async () => {
+    const queue = app.dependencies.webhookQueue!
+    const process = vi.spyOn(app.dependencies.flowController, 'process')
+
+    await server.inject({ method: 'POST', url: '/webhook', payload: createWebhookPayload('not a choice', 'QUEUED-2') })
+    await vi.waitFor(() => expect(queue.stats().completed).toBe(2))
+    await server.inject({ method: 'POST', url: '/webhook', payload: createWebhookPayload('not a choice', 'QUEUED-2') })
+    await vi.waitFor(() => expect(queue.stats().completed).toBe(3))
+
+    expect(process).toHaveBeenCalledTimes(1)
+    process.mockRestore()
+  })
+
+  it('should report queue depth and latency on the health check', async () => {
+    const response = await server.inject({ method: 'GET', url: '/health' })
+
+    expect(response.json().queue).toMatchObject({
+      depth: 0,
+      running: 0,
+      completed: 3,
+      deadLettered: 0,
+      latencyMs: { last: expect.any(Number), average: expect.any(Number), max: expect.any(Number) }
+    })
+  })
+})
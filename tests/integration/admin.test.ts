@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { FastifyInstance } from 'fastify'
+import { createServer } from '../../src/server.js'
+import { loadConfig } from '../../src/config.js'
+import { createWebhookHandler } from '../../src/webhook/handler.js'
+import { createGreenApiSender } from '../../src/greenapi/sender.js'
+import { createRetryingSender, type RetryingSender } from '../../src/greenapi/retry.js'
+import { createInMemoryFailedMessageStore } from '../../src/greenapi/failed-messages.js'
+import { createSystemClock } from '../../src/scheduler/clock.js'
+import { createInMemoryMessageStatusStore, createMessageStatusTracker, type MessageStatusTracker } from '../../src/greenapi/message-status.js'
+import { createOutgoingStatusPayload } from '../mocks/greenapi.js'
+
+function loadTestConfig() {
+  return loadConfig({
+    GREEN_API_INSTANCE_ID: 'test-instance',
+    GREEN_API_TOKEN: 'test-token',
+    WOOCOMMERCE_STORE_URL: 'https://test-store.com',
+    WOOCOMMERCE_CONSUMER_KEY: 'ck_test',
+    WOOCOMMERCE_CONSUMER_SECRET: 'cs_test'
+  })
+}
+
+describe('Integration: admin failed-message routes', () => {
+  const adminToken = 'admin-token-0123456789'
+  let server: FastifyInstance
+  let sender: RetryingSender
+  let mockFetch: ReturnType<typeof vi.fn>
+
+  beforeEach(async () => {
+    const config = loadTestConfig()
+    mockFetch = vi.fn()
+    sender = createRetryingSender({
+      sender: createGreenApiSender(config.greenApi, undefined, mockFetch as unknown as typeof fetch),
+      failedMessages: createInMemoryFailedMessageStore(),
+      clock: createSystemClock(),
+      maxAttempts: 1
+    })
+    const webhookHandler = createWebhookHandler({ flowController: { process: vi.fn() }, sender })
+    server = createServer(config, undefined, webhookHandler, { admin: { token: adminToken, sender } })
+    await server.ready()
+  })
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  async function failOneMessage(): Promise<string> {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 400, text: async () => 'bad', headers: new Headers() })
+    await sender.sendMessage('123@c.us', 'Your product was created').catch(() => {})
+    return (await sender.listFailed())[0].id
+  }
+
+  it('should reject requests without the admin token', async () => {
+    const response = await server.inject({ method: 'GET', url: '/admin/failed-messages' })
+
+    expect(response.statusCode).toBe(401)
+  })
+
+  it('should list failed messages', async () => {
+    const id = await failOneMessage()
+
+    const response = await server.inject({
+      method: 'GET',
+      url: '/admin/failed-messages',
+      headers: { authorization: `Bearer ${adminToken}` }
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.json()).toEqual({
+      ok: true,
+      messages: [expect.objectContaining({ id, chatId: '123@c.us', attempts: 1, statusCode: 400 })]
+    })
+  })
+
+  it('should resend a failed message', async () => {
+    const id = await failOneMessage()
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ idMessage: 'resent-1' }) })
+
+    const response = await server.inject({
+      method: 'POST',
+      url: `/admin/failed-messages/${id}/resend`,
+      headers: { authorization: `Bearer ${adminToken}` }
+    })
+
+    expect(response.json()).toEqual({ ok: true, idMessage: 'resent-1' })
+    expect(await sender.listFailed()).toEqual([])
+  })
+
+  it('should answer 404 for unknown messages and 502 when the resend fails', async () => {
+    const headers = { authorization: `Bearer ${adminToken}` }
+    const missing = await server.inject({ method: 'POST', url: '/admin/failed-messages/missing/resend', headers })
+    expect(missing.statusCode).toBe(404)
+
+    const id = await failOneMessage()
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 400, text: async () => 'bad', headers: new Headers() })
+    const failed = await server.inject({ method: 'POST', url: `/admin/failed-messages/${id}/resend`, headers })
+    expect(failed.statusCode).toBe(502)
+  })
+})
+
+describe('Integration: admin message status route', () => {
+  const adminToken = 'admin-token-0123456789'
+  let server: FastifyInstance
+  let sender: RetryingSender
+  let messageStatus: MessageStatusTracker
+
+  beforeEach(async () => {
+    const config = loadTestConfig()
+    const mockFetch = vi.fn().mockResolvedValue({ ok: true, json: async () => ({ idMessage: 'reply-1' }) })
+    sender = createRetryingSender({
+      sender: createGreenApiSender(config.greenApi, undefined, mockFetch as unknown as typeof fetch),
+      failedMessages: createInMemoryFailedMessageStore(),
+      clock: createSystemClock(),
+      maxAttempts: 1
+    })
+    messageStatus = createMessageStatusTracker({
+      store: createInMemoryMessageStatusStore(100),
+      clock: createSystemClock(),
+      messages: {}
+    })
+    const webhookHandler = createWebhookHandler({ flowController: { process: vi.fn() }, sender, messageStatus })
+    server = createServer(config, undefined, webhookHandler, { admin: { token: adminToken, sender, messageStatus } })
+    await server.ready()
+  })
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  it('should show the statuses reported for a chat\'s messages', async () => {
+    await messageStatus.track(sender, { kind: 'reply' }).sendMessage('987654321@c.us', 'Hello')
+
+    const webhook = await server.inject({ method: 'POST', url: '/webhook', payload: createOutgoingStatusPayload('reply-1', 'read') })
+    expect(webhook.json()).toEqual(expect.objectContaining({ ok: true, action: 'status_recorded' }))
+
+    const response = await server.inject({
+      method: 'GET',
+      url: '/admin/chats/987654321@c.us/messages',
+      headers: { authorization: `Bearer ${adminToken}` }
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.json()).toEqual({
+      ok: true,
+      messages: [{
+        idMessage: 'reply-1',
+        chatId: '987654321@c.us',
+        kind: 'reply',
+        statuses: [
+          { status: 'pending', at: expect.any(String) },
+          { status: 'read', at: '2026-03-02T10:00:00.000Z' }
+        ]
+      }]
+    })
+  })
+})
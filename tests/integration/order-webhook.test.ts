@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import type { FastifyInstance } from 'fastify'
+import { createServer } from '../../src/server.js'
+import { loadConfig } from '../../src/config.js'
+import { createWebhookHandler } from '../../src/webhook/handler.js'
+import { createInMemoryProcessedMessageStore } from '../../src/webhook/dedup.js'
+import { createOrderWebhookHandler, type OrderWebhookHandler } from '../../src/woocommerce/order-webhook.js'
+import { createMockSender } from '../mocks/greenapi.js'
+import { createFakeWooCommerceWebhookSender, type FakeWooCommerceWebhookSender } from './woocommerce-webhook-sender.js'
+import { createSampleOrder } from './woocommerce-server.js'
+
+describe('Integration: WooCommerce order webhook', () => {
+  const secret = 'wc-webhook-secret'
+  const owners = ['owner@c.us', 'manager@c.us']
+  let server: FastifyInstance
+  let sender: ReturnType<typeof createMockSender>
+  let orderWebhookHandler: OrderWebhookHandler
+  let wooCommerce: FakeWooCommerceWebhookSender
+
+  beforeAll(async () => {
+    const config = loadConfig({
+      GREEN_API_INSTANCE_ID: 'test-instance',
+      GREEN_API_TOKEN: 'test-token',
+      WOOCOMMERCE_STORE_URL: 'https://test-store.com',
+      WOOCOMMERCE_CONSUMER_KEY: 'ck_test',
+      WOOCOMMERCE_CONSUMER_SECRET: 'cs_test',
+      WOOCOMMERCE_WEBHOOK_SECRET: secret,
+      OWNER_CHAT_IDS: owners.join(', ')
+    })
+    sender = createMockSender()
+
+    const webhookHandler = createWebhookHandler({ flowController: { process: vi.fn() }, sender })
+    orderWebhookHandler = createOrderWebhookHandler({
+      secret: config.wooCommerceWebhookSecret!,
+      ownerChatIds: config.ownerChatIds,
+      sender,
+      messages: {
+        order_notification_created: 'New order #{number} from {customer}: {total} {currency} ({status})\n{items}',
+        order_notification_updated: 'Order #{number} is now {status}'
+      },
+      processedMessages: createInMemoryProcessedMessageStore(60000)
+    })
+
+    server = createServer(config, undefined, webhookHandler, { orderWebhookHandler })
+    const address = await server.listen({ port: 0, host: '127.0.0.1' })
+    wooCommerce = createFakeWooCommerceWebhookSender({ url: `${address}/woocommerce/webhook`, secret })
+  })
+
+  afterAll(async () => {
+    await server.close()
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should notify every owner about a new order', async () => {
+    const response = await wooCommerce.sendOrder('order.created', createSampleOrder())
+    await orderWebhookHandler.drain()
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ ok: true, action: 'accepted' })
+    expect(sender.sendMessage).toHaveBeenCalledTimes(2)
+    expect(sender.sendMessage).toHaveBeenCalledWith(
+      'owner@c.us',
+      'New order #501 from Dana Levi: 42.00 EUR (processing)\n• 2 × Blue Mug - 20.00\n• 1 × Teapot - 22.00'
+    )
+    expect(sender.sendMessage).toHaveBeenCalledWith('manager@c.us', expect.stringContaining('New order #501'))
+  })
+
+  it('should notify owners about order status updates', async () => {
+    const response = await wooCommerce.sendOrder('order.updated', createSampleOrder({ status: 'completed' }))
+    await orderWebhookHandler.drain()
+
+    expect(response.status).toBe(200)
+    expect(sender.sendMessage).toHaveBeenCalledWith('owner@c.us', 'Order #501 is now completed')
+  })
+
+  it('should answer before the owners are notified', async () => {
+    let finishSend!: () => void
+    sender.sendMessage.mockImplementationOnce(() => new Promise(resolve => { finishSend = () => resolve('sent-1') }))
+
+    const response = await wooCommerce.sendOrder('order.created', createSampleOrder())
+
+    expect(response.status).toBe(200)
+    expect(sender.sendMessage).toHaveBeenCalledTimes(1)
+    finishSend()
+    await orderWebhookHandler.drain()
+    expect(sender.sendMessage).toHaveBeenCalledTimes(2)
+  })
+
+  it('should notify the owners once when WooCommerce redelivers', async () => {
+    await wooCommerce.sendOrder('order.created', createSampleOrder(), { deliveryId: 'delivery-9' })
+    const redelivery = await wooCommerce.sendOrder('order.created', createSampleOrder(), { deliveryId: 'delivery-9' })
+    await orderWebhookHandler.drain()
+
+    expect(await redelivery.json()).toEqual({ ok: true, action: 'duplicate' })
+    expect(sender.sendMessage).toHaveBeenCalledTimes(2)
+  })
+
+  it('should reject deliveries with a wrong signature', async () => {
+    const response = await wooCommerce.sendOrder('order.created', createSampleOrder(), { signature: 'forged' })
+
+    expect(response.status).toBe(401)
+    expect(await response.json()).toEqual({ ok: false, error: 'Invalid signature' })
+    expect(sender.sendMessage).not.toHaveBeenCalled()
+  })
+
+  it('should acknowledge the ping WooCommerce sends when the webhook is created', async () => {
+    const response = await wooCommerce.sendPing()
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ ok: true, action: 'ping' })
+    expect(sender.sendMessage).not.toHaveBeenCalled()
+  })
+
+  it('should acknowledge but ignore non-order topics', async () => {
+    const response = await wooCommerce.sendOrder('product.updated', createSampleOrder())
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ ok: true, action: 'ignored_topic' })
+    expect(sender.sendMessage).not.toHaveBeenCalled()
+  })
+
+  it('should keep the inbound chat webhook parsing JSON', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/webhook',
+      payload: { typeWebhook: 'outgoingMessageStatus' }
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.json().ok).toBe(false)
+  })
+})
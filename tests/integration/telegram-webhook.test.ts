@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import type { FastifyInstance } from 'fastify'
+import { createServer } from '../../src/server.js'
+import { loadConfig } from '../../src/config.js'
+import { createChannelHandler } from '../../src/channels/handler.js'
+import { createTelegramChannel } from '../../src/channels/telegram.js'
+import { createInMemoryProcessedMessageStore } from '../../src/webhook/dedup.js'
+import { createWebChatFileStore } from '../../src/webchat/files.js'
+import type { WebhookHandler } from '../../src/webhook/handler.js'
+import {
+  createMockTelegramSender,
+  createTelegramCallbackUpdate,
+  createTelegramPhotoUpdate,
+  createTelegramTextUpdate
+} from '../mocks/telegram.js'
+
+describe('Integration: Telegram webhook', () => {
+  const secretToken = 'telegram-secret_123'
+  let server: FastifyInstance
+  let sender: ReturnType<typeof createMockTelegramSender>
+  let flowController: { process: ReturnType<typeof vi.fn> }
+
+  beforeAll(async () => {
+    const config = loadConfig({
+      GREEN_API_INSTANCE_ID: 'test-instance',
+      GREEN_API_TOKEN: 'test-token',
+      WOOCOMMERCE_STORE_URL: 'https://test-store.com',
+      WOOCOMMERCE_CONSUMER_KEY: 'ck_test',
+      WOOCOMMERCE_CONSUMER_SECRET: 'cs_test',
+      TELEGRAM_BOT_TOKEN: '123:ABC',
+      TELEGRAM_WEBHOOK_SECRET: secretToken
+    })
+    sender = createMockTelegramSender()
+    flowController = { process: vi.fn() }
+    const files = createWebChatFileStore()
+    const handler = createChannelHandler({
+      channel: createTelegramChannel({ sender, files }),
+      flowController,
+      processedMessages: createInMemoryProcessedMessageStore(60000)
+    })
+    server = createServer(config, undefined, { handle: vi.fn() } as unknown as WebhookHandler, {
+      telegram: { handler, secretToken: config.telegramWebhookSecret, files }
+    })
+    await server.ready()
+  })
+
+  afterAll(async () => {
+    await server.close()
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    flowController.process.mockResolvedValue({
+      handled: true,
+      buttons: { body: 'What would you like to do?', options: [{ buttonId: 'list', buttonText: 'List Products' }] }
+    })
+  })
+
+  function post(payload: unknown, secret = secretToken) {
+    return server.inject({
+      method: 'POST',
+      url: '/telegram/webhook',
+      headers: { host: 'bot.example.com', ...(secret ? { 'x-telegram-bot-api-secret-token': secret } : {}) },
+      payload: payload as object
+    })
+  }
+
+  it('should reject updates without the secret token', async () => {
+    const missing = await post(createTelegramTextUpdate('menu', 1), '')
+    const wrong = await post(createTelegramTextUpdate('menu', 2), 'not-the-secret')
+
+    expect(missing.statusCode).toBe(401)
+    expect(wrong.statusCode).toBe(401)
+    expect(flowController.process).not.toHaveBeenCalled()
+  })
+
+  it('should run the flow and answer with an inline keyboard', async () => {
+    const response = await post(createTelegramTextUpdate('menu', 3))
+
+    expect(response.json()).toEqual({ ok: true, handled: true, action: 'flow_processed' })
+    expect(flowController.process).toHaveBeenCalledWith('tg:555000111', { type: 'text', content: 'menu' }, { role: 'owner' })
+    expect(sender.sendMessage).toHaveBeenCalledWith({
+      chatId: '555000111',
+      text: 'What would you like to do?',
+      buttons: [[{ text: 'List Products', callback_data: 'list' }]]
+    })
+  })
+
+  it('should feed button taps to the flow as the option id', async () => {
+    await post(createTelegramCallbackUpdate('list', 4))
+
+    expect(flowController.process).toHaveBeenCalledWith('tg:555000111', { type: 'text', content: 'list' }, { role: 'owner' })
+    expect(sender.answerCallbackQuery).toHaveBeenCalledWith('cb-1')
+  })
+
+  it('should process a redelivered update once', async () => {
+    await post(createTelegramTextUpdate('menu', 5))
+    await post(createTelegramTextUpdate('menu', 5))
+
+    expect(flowController.process).toHaveBeenCalledTimes(1)
+  })
+
+  it('should serve photos from a URL without the bot token', async () => {
+    await post(createTelegramPhotoUpdate(6))
+
+    const [, message] = flowController.process.mock.calls[0]
+    expect(message.content).toMatch(/^http:\/\/bot\.example\.com\/telegram\/files\//)
+    expect(message.content).not.toContain('123:ABC')
+    const file = await server.inject({ method: 'GET', url: new URL(message.content).pathname })
+    expect(file.statusCode).toBe(200)
+    expect(file.headers['content-type']).toBe('image/jpeg')
+    expect(file.rawPayload).toEqual(Buffer.from('large-bytes'))
+    expect((await server.inject({ method: 'GET', url: '/telegram/files/unknown' })).statusCode).toBe(404)
+  })
+
+  it('should download a redelivered photo once', async () => {
+    await post(createTelegramPhotoUpdate(7))
+    await post(createTelegramPhotoUpdate(7))
+
+    expect(sender.downloadFile).toHaveBeenCalledTimes(1)
+    expect(flowController.process).toHaveBeenCalledTimes(1)
+  })
+
+  it('should answer 200 with ok false for malformed updates so Telegram does not redeliver them', async () => {
+    const response = await post({ message: { text: 'no update id' } })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.json()).toEqual({ ok: false, error: 'Invalid payload' })
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import type { FastifyInstance } from 'fastify'
+import { createServer } from '../../src/server.js'
+import { loadConfig } from '../../src/config.js'
+import { createWebChat } from '../../src/webchat/chat.js'
+import { createInMemoryProcessedMessageStore } from '../../src/webhook/dedup.js'
+import type { WebhookHandler } from '../../src/webhook/handler.js'
+
+describe('Integration: web chat', () => {
+  const token = 'dana-token-0123456789'
+  let server: FastifyInstance
+  let flowController: { process: ReturnType<typeof vi.fn> }
+
+  beforeAll(async () => {
+    const config = loadConfig({
+      GREEN_API_INSTANCE_ID: 'test-instance',
+      GREEN_API_TOKEN: 'test-token',
+      WOOCOMMERCE_STORE_URL: 'https://test-store.com',
+      WOOCOMMERCE_CONSUMER_KEY: 'ck_test',
+      WOOCOMMERCE_CONSUMER_SECRET: 'cs_test',
+      WEB_CHAT_USERS: `dana:staff:${token}`
+    })
+    flowController = { process: vi.fn() }
+    const webChat = createWebChat({
+      users: config.webChatUsers,
+      flowController,
+      processedMessages: createInMemoryProcessedMessageStore(60000)
+    })
+    server = createServer(config, undefined, { handle: vi.fn() } as unknown as WebhookHandler, { webChat })
+    await server.ready()
+  })
+
+  afterAll(async () => {
+    await server.close()
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    flowController.process.mockResolvedValue({
+      handled: true,
+      buttons: { body: 'What would you like to do?', options: [{ buttonId: 'list', buttonText: 'List Products' }] }
+    })
+  })
+
+  function post(payload: unknown, authorization = `Bearer ${token}`) {
+    return server.inject({
+      method: 'POST',
+      url: '/chat/messages',
+      headers: { authorization, host: 'bot.example.com' },
+      payload: payload as object
+    })
+  }
+
+  it('should serve the chat page without a token', async () => {
+    const response = await server.inject({ method: 'GET', url: '/chat' })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.headers['content-type']).toContain('text/html')
+    expect(response.body).toContain('/chat/messages')
+  })
+
+  it('should reject requests without a valid token', async () => {
+    const message = await post({ id: 'm0', text: 'menu' }, 'Bearer wrong-token-0123456789')
+    const session = await server.inject({ method: 'GET', url: '/chat/session' })
+
+    expect(message.statusCode).toBe(401)
+    expect(session.statusCode).toBe(401)
+    expect(flowController.process).not.toHaveBeenCalled()
+  })
+
+  it('should tell the page who is signed in', async () => {
+    const response = await server.inject({ method: 'GET', url: '/chat/session', headers: { authorization: `Bearer ${token}` } })
+
+    expect(response.json()).toEqual({ ok: true, userId: 'dana', role: 'staff' })
+  })
+
+  it('should run the flow and return the buttons', async () => {
+    const response = await post({ id: 'm1', text: 'menu' })
+
+    expect(response.json()).toEqual({
+      ok: true,
+      handled: true,
+      replies: [{ type: 'buttons', text: 'What would you like to do?', buttons: [{ id: 'list', label: 'List Products' }] }]
+    })
+    expect(flowController.process).toHaveBeenCalledWith('web:dana', { type: 'text', content: 'menu' }, { role: 'staff' })
+  })
+
+  it('should not run the flow twice for a retried message and answer it with the same replies', async () => {
+    const original = await post({ id: 'm2', text: 'list' })
+    const retried = await post({ id: 'm2', text: 'list' })
+
+    expect(retried.json()).toEqual(original.json())
+    expect(retried.json().replies).toHaveLength(1)
+    expect(flowController.process).toHaveBeenCalledTimes(1)
+  })
+
+  it('should serve uploaded images at the URL the flow receives', async () => {
+    await post({ id: 'm3', image: { data: Buffer.from('png-bytes').toString('base64'), mimeType: 'image/png', fileName: 'mug.png' } })
+
+    const [, message] = flowController.process.mock.calls[0]
+    expect(message.content).toMatch(/^http:\/\/bot\.example\.com\/chat\/files\//)
+    const file = await server.inject({ method: 'GET', url: new URL(message.content).pathname })
+    expect(file.statusCode).toBe(200)
+    expect(file.headers['content-type']).toBe('image/png')
+    expect(file.rawPayload).toEqual(Buffer.from('png-bytes'))
+  })
+
+  it('should answer 400 for invalid messages and 404 for unknown files', async () => {
+    const invalid = await post({ id: 'm4' })
+    const missing = await server.inject({ method: 'GET', url: '/chat/files/unknown' })
+
+    expect(invalid.statusCode).toBe(400)
+    expect(invalid.json()).toEqual({ ok: false, error: 'Invalid web chat message: Send either text or an image' })
+    expect(missing.statusCode).toBe(404)
+  })
+
+  it('should answer 500 when the flow fails', async () => {
+    flowController.process.mockRejectedValueOnce(new Error('Store unreachable'))
+
+    const response = await post({ id: 'm5', text: 'list' })
+
+    expect(response.statusCode).toBe(500)
+    expect(response.json()).toEqual({ ok: false, error: 'Processing failed' })
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest'
+import type { FastifyInstance } from 'fastify'
+import { createServer } from '../../src/server.js'
+import { loadConfig } from '../../src/config.js'
+import { createWebhookAuth } from '../../src/webhook/auth.js'
+import type { WebhookHandler } from '../../src/webhook/handler.js'
+import { createValidWebhookPayload } from '../mocks/greenapi.js'
+
+describe('Integration: webhook authentication', () => {
+  const token = 'green-api-webhook-token'
+  let server: FastifyInstance
+  let webhookHandler: { handle: ReturnType<typeof vi.fn>; parsePayload: ReturnType<typeof vi.fn> }
+
+  beforeAll(async () => {
+    const config = loadConfig({
+      GREEN_API_INSTANCE_ID: 'test-instance',
+      GREEN_API_TOKEN: 'test-token',
+      WOOCOMMERCE_STORE_URL: 'https://test-store.com',
+      WOOCOMMERCE_CONSUMER_KEY: 'ck_test',
+      WOOCOMMERCE_CONSUMER_SECRET: 'cs_test',
+      GREEN_API_WEBHOOK_TOKEN: token,
+      WEBHOOK_ALLOWED_IPS: '127.0.0.0/8'
+    })
+    webhookHandler = {
+      handle: vi.fn().mockResolvedValue({ handled: true, action: 'flow_processed' }),
+      parsePayload: vi.fn()
+    }
+    const webhookAuth = createWebhookAuth({ token: config.webhookToken, allowedIpRanges: config.webhookAllowedIps })
+
+    server = createServer(config, undefined, webhookHandler as unknown as WebhookHandler, { webhookAuth })
+    await server.ready()
+  })
+
+  afterAll(async () => {
+    await server.close()
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should process webhooks carrying the configured token', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/webhook',
+      headers: { authorization: `Bearer ${token}` },
+      payload: createValidWebhookPayload()
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(webhookHandler.handle).toHaveBeenCalledOnce()
+  })
+
+  it('should reject webhooks without a token with 401', async () => {
+    const response = await server.inject({ method: 'POST', url: '/webhook', payload: createValidWebhookPayload() })
+
+    expect(response.statusCode).toBe(401)
+    expect(response.json()).toEqual({ ok: false, error: 'Unauthorized' })
+    expect(webhookHandler.handle).not.toHaveBeenCalled()
+  })
+
+  it('should reject a wrong token before the body is parsed', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/webhook',
+      headers: { authorization: 'Bearer wrong', 'content-type': 'application/json' },
+      payload: '{not json'
+    })
+
+    expect(response.statusCode).toBe(401)
+    expect(response.body).not.toContain(token)
+    expect(webhookHandler.handle).not.toHaveBeenCalled()
+  })
+
+  it('should reject callers outside the allowed IP ranges', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/webhook',
+      remoteAddress: '203.0.113.7',
+      headers: { authorization: `Bearer ${token}` },
+      payload: createValidWebhookPayload()
+    })
+
+    expect(response.statusCode).toBe(401)
+    expect(webhookHandler.handle).not.toHaveBeenCalled()
+  })
+
+  it('should leave the health check open', async () => {
+    const response = await server.inject({ method: 'GET', url: '/health', remoteAddress: '203.0.113.7' })
+
+    expect(response.statusCode).toBe(200)
+  })
+
+  it('should report rejection counts on GET /health', async () => {
+    const before = (await server.inject({ method: 'GET', url: '/health' })).json().webhookAuth.rejections
+
+    await server.inject({ method: 'POST', url: '/webhook', payload: createValidWebhookPayload() })
+    await server.inject({ method: 'POST', url: '/webhook', headers: { authorization: 'Bearer wrong' }, payload: createValidWebhookPayload() })
+
+    const after = (await server.inject({ method: 'GET', url: '/health' })).json().webhookAuth.rejections
+    expect(after).toEqual({
+      missing_token: before.missing_token + 1,
+      invalid_token: before.invalid_token + 1,
+      ip_not_allowed: before.ip_not_allowed
+    })
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { FastifyInstance } from 'fastify'
+import { createServer } from '../../src/server.js'
+import { loadConfig } from '../../src/config.js'
+import { createWebhookHandler } from '../../src/webhook/handler.js'
+import { createJobQueue, type JobQueue } from '../../src/queue/job-queue.js'
+import { createInMemoryJobStore } from '../../src/queue/job-store.js'
+import { createSystemClock } from '../../src/scheduler/clock.js'
+import type { FlowController } from '../../src/conversation/flow-controller.js'
+import { createMockSender, createOutgoingStatusPayload, createValidWebhookPayload } from '../mocks/greenapi.js'
+
+describe('Integration: queued webhook processing', () => {
+  let server: FastifyInstance
+  let queue: JobQueue<unknown>
+  let flowController: FlowController
+  let sender: ReturnType<typeof createMockSender>
+
+  beforeEach(async () => {
+    const config = loadConfig({
+      GREEN_API_INSTANCE_ID: 'test-instance',
+      GREEN_API_TOKEN: 'test-token',
+      WOOCOMMERCE_STORE_URL: 'https://test-store.com',
+      WOOCOMMERCE_CONSUMER_KEY: 'ck_test',
+      WOOCOMMERCE_CONSUMER_SECRET: 'cs_test'
+    })
+    sender = createMockSender()
+    flowController = { process: vi.fn().mockResolvedValue({ handled: true, response: 'Welcome!' }) }
+    const webhookHandler = createWebhookHandler({ flowController, sender })
+    queue = createJobQueue<unknown>({
+      name: 'webhook',
+      store: createInMemoryJobStore(),
+      worker: body => webhookHandler.handle(body),
+      clock: createSystemClock()
+    })
+    server = createServer(config, undefined, webhookHandler, { webhookQueue: queue })
+    await queue.start()
+    await server.ready()
+  })
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  it('should acknowledge before the flow has finished', async () => {
+    let finish: () => void = () => {}
+    vi.mocked(flowController.process).mockReturnValue(new Promise(resolve => {
+      finish = () => resolve({ handled: true, response: 'Welcome!' })
+    }))
+
+    const response = await server.inject({ method: 'POST', url: '/webhook', payload: createValidWebhookPayload('test-shop') })
+
+    expect(response.json()).toEqual({ ok: true, queued: true, duplicate: false })
+    expect(sender.sendMessage).not.toHaveBeenCalled()
+
+    finish()
+    await vi.waitFor(() => expect(sender.sendMessage).toHaveBeenCalledWith('987654321@c.us', 'Welcome!'))
+  })
+
+  it('should report a duplicate while the same idMessage is still queued', async () => {
+    vi.mocked(flowController.process).mockReturnValue(new Promise(() => {}))
+    await server.inject({ method: 'POST', url: '/webhook', payload: createValidWebhookPayload('test-shop') })
+
+    const response = await server.inject({ method: 'POST', url: '/webhook', payload: createValidWebhookPayload('test-shop') })
+
+    expect(response.json()).toEqual({ ok: true, queued: true, duplicate: true })
+    expect(flowController.process).toHaveBeenCalledTimes(1)
+  })
+
+  it('should answer status webhooks directly without queueing them', async () => {
+    const response = await server.inject({
+      method: 'POST',
+      url: '/webhook',
+      payload: createOutgoingStatusPayload('sent-msg-1')
+    })
+
+    expect(response.json()).toEqual({ ok: true, handled: false, action: 'ignored_webhook_type' })
+    expect(queue.stats().completed).toBe(0)
+  })
+
+  it('should answer 503 while the queue drains so Green API redelivers later', async () => {
+    await queue.drain(0)
+
+    const response = await server.inject({ method: 'POST', url: '/webhook', payload: createValidWebhookPayload('test-shop') })
+
+    expect(response.statusCode).toBe(503)
+    expect(flowController.process).not.toHaveBeenCalled()
+  })
+})
@@ -1,12 +1,14 @@
 import Fastify, { type FastifyInstance } from 'fastify'
-import type { WooProduct } from '../../src/woocommerce/types.js'
+import type { WooProduct, WooOrder } from '../../src/woocommerce/types.js'
 
 export interface MockWooCommerceServer {
   server: FastifyInstance
   url: string
   port: number
   products: WooProduct[]
+  orders: WooOrder[]
   setProducts(products: WooProduct[]): void
+  setOrders(orders: WooOrder[]): void
   setAuthCredentials(consumerKey: string, consumerSecret: string): void
   start(): Promise<void>
   stop(): Promise<void>
@@ -16,6 +18,7 @@ export interface MockWooCommerceServer {
 export function createMockWooCommerceServer(port = 0): MockWooCommerceServer {
   const server = Fastify({ logger: false })
   let products: WooProduct[] = []
+  let orders: WooOrder[] = []
   let expectedConsumerKey = 'ck_test'
   let expectedConsumerSecret = 'cs_test'
   const requestLog: Array<{ method: string; url: string; headers: Record<string, string> }> = []
@@ -54,10 +57,53 @@ export function createMockWooCommerceServer(port = 0): MockWooCommerceServer {
       return reply.status(200).send(matchingProduct ? [matchingProduct] : [])
     }
 
+    let matchingProducts = products
+    if (query.search) {
+      const search = query.search.toLowerCase()
+      matchingProducts = matchingProducts.filter(p => p.name.toLowerCase().includes(search))
+    }
+    if (query.status && query.status !== 'any') {
+      matchingProducts = matchingProducts.filter(p => p.status === query.status)
+    }
+
     const perPage = Number(query.per_page) || 10
-    const pagedProducts = products.slice(0, perPage)
+    const page = Number(query.page) || 1
+    const pagedProducts = matchingProducts.slice((page - 1) * perPage, page * perPage)
+
+    return reply
+      .header('X-WP-Total', String(matchingProducts.length))
+      .header('X-WP-TotalPages', String(Math.ceil(matchingProducts.length / perPage)))
+      .status(200)
+      .send(pagedProducts)
+  })
+
+  server.get('/wp-json/wc/v3/products/:id', async (request, reply) => {
+    requestLog.push({
+      method: 'GET',
+      url: request.url,
+      headers: request.headers as Record<string, string>
+    })
+
+    const authHeader = request.headers.authorization
+    if (!verifyAuth(authHeader)) {
+      return reply.status(401).send({
+        code: 'woocommerce_rest_cannot_view',
+        message: 'Sorry, you cannot view this resource.',
+        data: { status: 401 }
+      })
+    }
+
+    const { id } = request.params as { id: string }
+    const product = products.find(p => p.id === Number(id))
+    if (!product) {
+      return reply.status(404).send({
+        code: 'woocommerce_rest_product_invalid_id',
+        message: 'Invalid ID.',
+        data: { status: 404 }
+      })
+    }
 
-    return reply.status(200).send(pagedProducts)
+    return reply.status(200).send(product)
   })
 
   let nextProductId = 1000
@@ -113,6 +159,190 @@ export function createMockWooCommerceServer(port = 0): MockWooCommerceServer {
     return reply.status(201).send(newProduct)
   })
 
+  server.put('/wp-json/wc/v3/products/:id', async (request, reply) => {
+    requestLog.push({
+      method: 'PUT',
+      url: request.url,
+      headers: request.headers as Record<string, string>
+    })
+
+    const authHeader = request.headers.authorization
+    if (!verifyAuth(authHeader)) {
+      return reply.status(401).send({
+        code: 'woocommerce_rest_cannot_edit',
+        message: 'Sorry, you are not allowed to edit this resource.',
+        data: { status: 401 }
+      })
+    }
+
+    const { id } = request.params as { id: string }
+    const product = products.find(p => p.id === Number(id))
+    if (!product) {
+      return reply.status(404).send({
+        code: 'woocommerce_rest_product_invalid_id',
+        message: 'Invalid ID.',
+        data: { status: 404 }
+      })
+    }
+
+    const body = request.body as Record<string, unknown>
+
+    if (body.regular_price !== undefined) {
+      product.regular_price = String(body.regular_price)
+      product.price = product.sale_price || product.regular_price
+    }
+    if (body.stock_quantity !== undefined) {
+      product.stock_quantity = Number(body.stock_quantity)
+      product.stock_status = product.stock_quantity > 0 ? 'instock' : 'outofstock'
+    }
+
+    return reply.status(200).send(product)
+  })
+
+  server.delete('/wp-json/wc/v3/products/:id', async (request, reply) => {
+    requestLog.push({
+      method: 'DELETE',
+      url: request.url,
+      headers: request.headers as Record<string, string>
+    })
+
+    const authHeader = request.headers.authorization
+    if (!verifyAuth(authHeader)) {
+      return reply.status(401).send({
+        code: 'woocommerce_rest_cannot_delete',
+        message: 'Sorry, you are not allowed to delete this resource.',
+        data: { status: 401 }
+      })
+    }
+
+    const { id } = request.params as { id: string }
+    const query = request.query as Record<string, string>
+    const index = products.findIndex(p => p.id === Number(id))
+    if (index === -1) {
+      return reply.status(404).send({
+        code: 'woocommerce_rest_product_invalid_id',
+        message: 'Invalid ID.',
+        data: { status: 404 }
+      })
+    }
+
+    const product = products[index]
+
+    if (query.force === 'true') {
+      products.splice(index, 1)
+      return reply.status(200).send(product)
+    }
+
+    if (product.status === 'trash') {
+      return reply.status(410).send({
+        code: 'woocommerce_rest_already_trashed',
+        message: 'The product has already been deleted.',
+        data: { status: 410 }
+      })
+    }
+
+    product.status = 'trash'
+    return reply.status(200).send(product)
+  })
+
+  server.get('/wp-json/wc/v3/orders', async (request, reply) => {
+    requestLog.push({
+      method: 'GET',
+      url: request.url,
+      headers: request.headers as Record<string, string>
+    })
+
+    const authHeader = request.headers.authorization
+    if (!verifyAuth(authHeader)) {
+      return reply.status(401).send({
+        code: 'woocommerce_rest_cannot_view',
+        message: 'Sorry, you cannot list resources.',
+        data: { status: 401 }
+      })
+    }
+
+    const query = request.query as Record<string, string>
+    const matchingOrders = query.status ? orders.filter(o => o.status === query.status) : orders
+    const sortedOrders = [...matchingOrders].sort((a, b) => b.date_created.localeCompare(a.date_created))
+    const perPage = Number(query.per_page) || 10
+
+    return reply
+      .header('X-WP-Total', String(matchingOrders.length))
+      .status(200)
+      .send(sortedOrders.slice(0, perPage))
+  })
+
+  server.get('/wp-json/wc/v3/orders/:id', async (request, reply) => {
+    requestLog.push({
+      method: 'GET',
+      url: request.url,
+      headers: request.headers as Record<string, string>
+    })
+
+    const authHeader = request.headers.authorization
+    if (!verifyAuth(authHeader)) {
+      return reply.status(401).send({
+        code: 'woocommerce_rest_cannot_view',
+        message: 'Sorry, you cannot view this resource.',
+        data: { status: 401 }
+      })
+    }
+
+    const { id } = request.params as { id: string }
+    const order = orders.find(o => o.id === Number(id))
+    if (!order) {
+      return reply.status(404).send({
+        code: 'woocommerce_rest_shop_order_invalid_id',
+        message: 'Invalid ID.',
+        data: { status: 404 }
+      })
+    }
+
+    return reply.status(200).send(order)
+  })
+
+  server.put('/wp-json/wc/v3/orders/:id', async (request, reply) => {
+    requestLog.push({
+      method: 'PUT',
+      url: request.url,
+      headers: request.headers as Record<string, string>
+    })
+
+    const authHeader = request.headers.authorization
+    if (!verifyAuth(authHeader)) {
+      return reply.status(401).send({
+        code: 'woocommerce_rest_cannot_edit',
+        message: 'Sorry, you are not allowed to edit this resource.',
+        data: { status: 401 }
+      })
+    }
+
+    const { id } = request.params as { id: string }
+    const order = orders.find(o => o.id === Number(id))
+    if (!order) {
+      return reply.status(404).send({
+        code: 'woocommerce_rest_shop_order_invalid_id',
+        message: 'Invalid ID.',
+        data: { status: 404 }
+      })
+    }
+
+    const body = request.body as Record<string, unknown>
+    const validStatuses = ['pending', 'processing', 'on-hold', 'completed', 'cancelled', 'refunded', 'failed']
+    if (body.status !== undefined) {
+      if (!validStatuses.includes(String(body.status))) {
+        return reply.status(400).send({
+          code: 'rest_invalid_param',
+          message: 'Invalid parameter(s): status',
+          data: { status: 400 }
+        })
+      }
+      order.status = String(body.status)
+    }
+
+    return reply.status(200).send(order)
+  })
+
   return {
     server,
     get url() {
@@ -122,9 +352,13 @@ export function createMockWooCommerceServer(port = 0): MockWooCommerceServer {
       return actualPort
     },
     products,
+    orders,
     setProducts(newProducts: WooProduct[]) {
       products = newProducts
     },
+    setOrders(newOrders: WooOrder[]) {
+      orders = newOrders
+    },
     setAuthCredentials(consumerKey: string, consumerSecret: string) {
       expectedConsumerKey = consumerKey
       expectedConsumerSecret = consumerSecret
@@ -160,3 +394,20 @@ export function createSampleProduct(overrides: Partial<WooProduct> = {}): WooPro
     ...overrides
   }
 }
+
+export function createSampleOrder(overrides: Partial<WooOrder> = {}): WooOrder {
+  return {
+    id: 501,
+    number: '501',
+    status: 'processing',
+    currency: 'EUR',
+    total: '42.00',
+    date_created: '2026-10-19T09:30:00',
+    billing: { first_name: 'Dana', last_name: 'Levi', email: 'dana@example.com', phone: '+972500000000' },
+    line_items: [
+      { id: 1, name: 'Blue Mug', quantity: 2, total: '20.00', sku: 'MUG-BLUE' },
+      { id: 2, name: 'Teapot', quantity: 1, total: '22.00', sku: 'POT-1' }
+    ],
+    ...overrides
+  }
+}
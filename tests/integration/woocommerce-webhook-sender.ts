@@ -0,0 +1,51 @@
+import { createHmac } from 'crypto'
+import type { WooOrder } from '../../src/woocommerce/types.js'
+
+export interface SendOrderOptions {
+  signature?: string
+  /** Reuse an id to simulate a redelivery; every send gets a new one otherwise. */
+  deliveryId?: string
+}
+
+export interface FakeWooCommerceWebhookSender {
+  sendOrder(topic: string, order: WooOrder, options?: SendOrderOptions): Promise<Response>
+  sendPing(webhookId?: number): Promise<Response>
+}
+
+export function createFakeWooCommerceWebhookSender(config: { url: string; secret: string }): FakeWooCommerceWebhookSender {
+  let deliveries = 0
+
+  function sign(body: string): string {
+    return createHmac('sha256', config.secret).update(body).digest('base64')
+  }
+
+  async function sendOrder(topic: string, order: WooOrder, options: SendOrderOptions = {}): Promise<Response> {
+    const body = JSON.stringify(order)
+    const [resource, event] = topic.split('.')
+    return fetch(config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'WooCommerce/9.0.0 Hookshot (WordPress/6.5)',
+        'X-WC-Webhook-Source': 'https://test-store.com/',
+        'X-WC-Webhook-Topic': topic,
+        'X-WC-Webhook-Resource': resource,
+        'X-WC-Webhook-Event': event,
+        'X-WC-Webhook-Signature': options.signature ?? sign(body),
+        'X-WC-Webhook-ID': '1',
+        'X-WC-Webhook-Delivery-ID': options.deliveryId ?? String(++deliveries)
+      },
+      body
+    })
+  }
+
+  async function sendPing(webhookId = 1): Promise<Response> {
+    return fetch(config.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: `webhook_id=${webhookId}`
+    })
+  }
+
+  return { sendOrder, sendPing }
+}
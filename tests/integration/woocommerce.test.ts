@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
 import { createWooCommerceClient } from '../../src/woocommerce/client.js'
 import { WooCommerceError } from '../../src/errors.js'
-import { createMockWooCommerceServer, createSampleProduct, type MockWooCommerceServer } from './woocommerce-server.js'
+import { createMockWooCommerceServer, createSampleProduct, createSampleOrder, type MockWooCommerceServer } from './woocommerce-server.js'
 import type { WooCommerceConfig } from '../../src/woocommerce/types.js'
 
 describe('Integration: WooCommerce Client', () => {
@@ -31,6 +31,7 @@ describe('Integration: WooCommerce Client', () => {
 
   beforeEach(() => {
     mockServer.setProducts([])
+    mockServer.setOrders([])
   })
 
   describe('getProducts - successful requests', () => {
@@ -43,7 +44,7 @@ describe('Integration: WooCommerce Client', () => {
       mockServer.setProducts(sampleProducts)
 
       const client = createWooCommerceClient(config, mockLogger)
-      const products = await client.getProducts()
+      const { products } = await client.getProducts()
 
       expect(products).toHaveLength(3)
       expect(products[0].name).toBe('Product One')
@@ -55,7 +56,7 @@ describe('Integration: WooCommerce Client', () => {
       mockServer.setProducts([])
 
       const client = createWooCommerceClient(config, mockLogger)
-      const products = await client.getProducts()
+      const { products } = await client.getProducts()
 
       expect(products).toEqual([])
       expect(products).toHaveLength(0)
@@ -69,7 +70,7 @@ describe('Integration: WooCommerce Client', () => {
       mockServer.setProducts(manyProducts)
 
       const client = createWooCommerceClient(config, mockLogger)
-      const products = await client.getProducts(10)
+      const { products } = await client.getProducts(10)
 
       expect(products).toHaveLength(10)
       expect(products[0].name).toBe('Product 1')
@@ -111,7 +112,7 @@ describe('Integration: WooCommerce Client', () => {
       mockServer.setProducts([detailedProduct])
 
       const client = createWooCommerceClient(config, mockLogger)
-      const products = await client.getProducts()
+      const { products } = await client.getProducts()
 
       expect(products).toHaveLength(1)
       const product = products[0]
@@ -190,7 +191,7 @@ describe('Integration: WooCommerce Client', () => {
       const client = createWooCommerceClient(config, mockLogger)
       
       await expect(client.getProducts()).resolves.not.toThrow()
-      const products = await client.getProducts()
+      const { products } = await client.getProducts()
       expect(products).toEqual([])
     })
 
@@ -212,14 +213,14 @@ describe('Integration: WooCommerce Client', () => {
 
       const client = createWooCommerceClient(config, mockLogger)
       
-      const emptyResult = await client.getProducts()
+      const { products: emptyResult } = await client.getProducts()
       expect(emptyResult).toHaveLength(0)
 
       mockServer.setProducts([
         createSampleProduct({ id: 1, name: 'New Product' })
       ])
 
-      const populatedResult = await client.getProducts()
+      const { products: populatedResult } = await client.getProducts()
       expect(populatedResult).toHaveLength(1)
       expect(populatedResult[0].name).toBe('New Product')
     })
@@ -234,14 +235,14 @@ describe('Integration: WooCommerce Client', () => {
 
       const client = createWooCommerceClient(config, mockLogger)
 
-      const firstCall = await client.getProducts()
+      const { products: firstCall } = await client.getProducts()
       expect(firstCall).toHaveLength(2)
 
       mockServer.setProducts([
         createSampleProduct({ id: 3, name: 'Third' })
       ])
 
-      const secondCall = await client.getProducts()
+      const { products: secondCall } = await client.getProducts()
       expect(secondCall).toHaveLength(1)
       expect(secondCall[0].name).toBe('Third')
     })
@@ -367,4 +368,208 @@ describe('Integration: WooCommerce Client', () => {
       await expect(client.getProductBySku('ANY-SKU')).rejects.toThrow(/Network error/)
     })
   })
+
+  describe('updateProduct', () => {
+    it('should update price and stock on the mock server', async () => {
+      mockServer.setProducts([createSampleProduct({ id: 7, sale_price: '', regular_price: '10.00', stock_quantity: 5 })])
+
+      const client = createWooCommerceClient(config, mockLogger)
+      const product = await client.updateProduct(7, { regular_price: '12.50', stock_quantity: 0 })
+
+      expect(product.id).toBe(7)
+      expect(product.regular_price).toBe('12.50')
+      expect(product.stock_quantity).toBe(0)
+      expect(product.stock_status).toBe('outofstock')
+
+      const lastRequest = mockServer.getRequestLog().at(-1)
+      expect(lastRequest?.method).toBe('PUT')
+      expect(lastRequest?.url).toBe('/wp-json/wc/v3/products/7')
+    })
+
+    it('should throw not_found WooCommerceError for unknown product id', async () => {
+      const client = createWooCommerceClient(config, mockLogger)
+
+      try {
+        await client.updateProduct(404, { stock_quantity: 1 })
+        expect.fail('Should have thrown')
+      } catch (err) {
+        expect(err).toBeInstanceOf(WooCommerceError)
+        expect((err as WooCommerceError).errorCode).toBe('not_found')
+      }
+    })
+  })
+
+  describe('deleteProduct', () => {
+    it('should move product to trash by default', async () => {
+      mockServer.setProducts([createSampleProduct({ id: 8 })])
+
+      const client = createWooCommerceClient(config, mockLogger)
+      const product = await client.deleteProduct(8)
+
+      expect(product.status).toBe('trash')
+      const lastRequest = mockServer.getRequestLog().at(-1)
+      expect(lastRequest?.method).toBe('DELETE')
+      expect(lastRequest?.url).toBe('/wp-json/wc/v3/products/8?force=false')
+    })
+
+    it('should throw already_trashed WooCommerceError when trashing twice', async () => {
+      mockServer.setProducts([createSampleProduct({ id: 8, status: 'trash' })])
+
+      const client = createWooCommerceClient(config, mockLogger)
+
+      try {
+        await client.deleteProduct(8)
+        expect.fail('Should have thrown')
+      } catch (err) {
+        expect(err).toBeInstanceOf(WooCommerceError)
+        expect((err as WooCommerceError).errorCode).toBe('already_trashed')
+        expect((err as WooCommerceError).statusCode).toBe(410)
+      }
+    })
+
+    it('should permanently delete product when forced', async () => {
+      mockServer.setProducts([createSampleProduct({ id: 8 }), createSampleProduct({ id: 9 })])
+
+      const client = createWooCommerceClient(config, mockLogger)
+      await client.deleteProduct(8, true)
+      const { products: remaining } = await client.getProducts()
+
+      expect(remaining.map(p => p.id)).toEqual([9])
+    })
+  })
+
+  describe('getProducts - pagination', () => {
+    it('should return requested page with total headers', async () => {
+      const manyProducts = Array.from({ length: 45 }, (_, i) =>
+        createSampleProduct({ id: i + 1, name: `Product ${i + 1}`, sku: `PROD-${i + 1}` })
+      )
+      mockServer.setProducts(manyProducts)
+
+      const client = createWooCommerceClient(config, mockLogger)
+      const result = await client.getProducts(20, 3)
+
+      expect(result.page).toBe(3)
+      expect(result.total).toBe(45)
+      expect(result.totalPages).toBe(3)
+      expect(result.products).toHaveLength(5)
+      expect(result.products[0].name).toBe('Product 41')
+    })
+  })
+
+  describe('searchProducts', () => {
+    it('should return products whose name matches the search term', async () => {
+      mockServer.setProducts([
+        createSampleProduct({ id: 1, name: 'Blue Mug', sku: 'MUG-BLUE' }),
+        createSampleProduct({ id: 2, name: 'Red Mug', sku: 'MUG-RED' }),
+        createSampleProduct({ id: 3, name: 'Teapot', sku: 'POT-1' })
+      ])
+
+      const client = createWooCommerceClient(config, mockLogger)
+      const result = await client.searchProducts({ search: 'mug' })
+
+      expect(result.total).toBe(2)
+      expect(result.products.map(p => p.name)).toEqual(['Blue Mug', 'Red Mug'])
+    })
+
+    it('should filter by status', async () => {
+      mockServer.setProducts([
+        createSampleProduct({ id: 1, name: 'Blue Mug', status: 'publish' }),
+        createSampleProduct({ id: 2, name: 'Red Mug', status: 'draft' })
+      ])
+
+      const client = createWooCommerceClient(config, mockLogger)
+      const result = await client.searchProducts({ search: 'mug', status: 'draft' })
+
+      expect(result.products.map(p => p.id)).toEqual([2])
+    })
+
+    it('should find product by exact SKU', async () => {
+      mockServer.setProducts([
+        createSampleProduct({ id: 1, name: 'Blue Mug', sku: 'MUG-BLUE' }),
+        createSampleProduct({ id: 2, name: 'Red Mug', sku: 'MUG-RED' })
+      ])
+
+      const client = createWooCommerceClient(config, mockLogger)
+      const result = await client.searchProducts({ sku: 'MUG-RED' })
+
+      expect(result.products.map(p => p.id)).toEqual([2])
+    })
+  })
+
+  describe('getProduct', () => {
+    it('should fetch a single product with categories and images', async () => {
+      mockServer.setProducts([
+        createSampleProduct({
+          id: 5,
+          name: 'Blue Mug',
+          categories: [{ id: 15, name: 'Mugs', slug: 'mugs' }],
+          images: [{ id: 9, src: 'https://test-store.com/uploads/blue-mug.jpg', name: 'blue-mug', alt: '' }]
+        })
+      ])
+
+      const client = createWooCommerceClient(config, mockLogger)
+      const product = await client.getProduct(5)
+
+      expect(product.name).toBe('Blue Mug')
+      expect(product.categories?.[0].name).toBe('Mugs')
+      expect(product.images?.[0].src).toBe('https://test-store.com/uploads/blue-mug.jpg')
+    })
+
+    it('should throw not_found WooCommerceError for unknown product id', async () => {
+      const client = createWooCommerceClient(config, mockLogger)
+
+      await expect(client.getProduct(404)).rejects.toMatchObject({ errorCode: 'not_found' })
+    })
+  })
+
+  describe('orders', () => {
+    it('should list most recent orders first and filter by status', async () => {
+      mockServer.setOrders([
+        createSampleOrder({ id: 1, number: '1', status: 'completed', date_created: '2026-10-17T10:00:00' }),
+        createSampleOrder({ id: 2, number: '2', status: 'processing', date_created: '2026-10-19T10:00:00' }),
+        createSampleOrder({ id: 3, number: '3', status: 'processing', date_created: '2026-10-18T10:00:00' })
+      ])
+
+      const client = createWooCommerceClient(config, mockLogger)
+      const allOrders = await client.getOrders()
+      const processing = await client.getOrders({ status: 'processing' })
+
+      expect(allOrders.map(o => o.id)).toEqual([2, 3, 1])
+      expect(processing.map(o => o.id)).toEqual([2, 3])
+    })
+
+    it('should fetch a single order', async () => {
+      mockServer.setOrders([createSampleOrder({ id: 77, number: '77' })])
+
+      const client = createWooCommerceClient(config, mockLogger)
+      const order = await client.getOrder(77)
+
+      expect(order.number).toBe('77')
+      expect(order.line_items).toHaveLength(2)
+    })
+
+    it('should update order status on the mock server', async () => {
+      mockServer.setOrders([createSampleOrder({ id: 8, status: 'processing' })])
+
+      const client = createWooCommerceClient(config, mockLogger)
+      const updated = await client.updateOrderStatus(8, 'completed')
+
+      expect(updated.status).toBe('completed')
+      expect((await client.getOrder(8)).status).toBe('completed')
+    })
+
+    it('should throw invalid_data WooCommerceError for unknown status', async () => {
+      mockServer.setOrders([createSampleOrder({ id: 8 })])
+
+      const client = createWooCommerceClient(config, mockLogger)
+
+      await expect(client.updateOrderStatus(8, 'shipped')).rejects.toMatchObject({ errorCode: 'invalid_data' })
+    })
+
+    it('should throw not_found WooCommerceError for unknown order id', async () => {
+      const client = createWooCommerceClient(config, mockLogger)
+
+      await expect(client.getOrder(404)).rejects.toMatchObject({ errorCode: 'not_found' })
+    })
+  })
 })
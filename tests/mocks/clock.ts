@@ -0,0 +1,47 @@
+import type { Clock, TimerHandle } from '../../src/scheduler/clock.js'
+
+interface PendingTimer {
+  at: number
+  callback: () => void
+}
+
+export function createManualClock(start: Date): Clock & {
+  advance(ms: number): Promise<void>
+  pendingTimers(): number
+} {
+  let current = start.getTime()
+  let nextId = 1
+  const timers = new Map<number, PendingTimer>()
+
+  function nextDueTimer(until: number): [number, PendingTimer] | undefined {
+    return [...timers.entries()]
+      .filter(([, timer]) => timer.at <= until)
+      .sort((a, b) => a[1].at - b[1].at)[0]
+  }
+
+  return {
+    now: () => new Date(current),
+    setTimeout(callback: () => void, delayMs: number): TimerHandle {
+      const id = nextId++
+      timers.set(id, { at: current + delayMs, callback })
+      return id
+    },
+    clearTimeout(handle: TimerHandle): void {
+      timers.delete(handle as number)
+    },
+    pendingTimers: () => timers.size,
+    async advance(ms: number): Promise<void> {
+      const target = current + ms
+      let due = nextDueTimer(target)
+      while (due) {
+        const [id, timer] = due
+        timers.delete(id)
+        current = timer.at
+        timer.callback()
+        await new Promise(resolve => setImmediate(resolve))
+        due = nextDueTimer(target)
+      }
+      current = target
+    }
+  }
+}
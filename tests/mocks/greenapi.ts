@@ -4,10 +4,16 @@ import type { GreenApiSender } from '../../src/greenapi/sender.js'
 export function createMockSender(): GreenApiSender & { 
   sendMessage: ReturnType<typeof vi.fn>
   sendButtons: ReturnType<typeof vi.fn>
+  sendListMessage: ReturnType<typeof vi.fn>
+  sendFileByUrl: ReturnType<typeof vi.fn>
+  sendFileByUpload: ReturnType<typeof vi.fn>
 } {
   return {
     sendMessage: vi.fn().mockResolvedValue({ idMessage: 'mock-msg-id' }),
-    sendButtons: vi.fn().mockResolvedValue({ idMessage: 'mock-btn-id' })
+    sendButtons: vi.fn().mockResolvedValue({ idMessage: 'mock-btn-id' }),
+    sendListMessage: vi.fn().mockResolvedValue({ idMessage: 'mock-list-id' }),
+    sendFileByUrl: vi.fn().mockResolvedValue({ idMessage: 'mock-file-id' }),
+    sendFileByUpload: vi.fn().mockResolvedValue({ idMessage: 'mock-upload-id' })
   }
 }
 
@@ -98,3 +104,33 @@ export function createTemplateButtonReplyPayload(buttonId: string, buttonText?:
     idMessage: 'ABC123'
   }
 }
+
+export function createListResponsePayload(rowId: string, title = 'Row Title') {
+  return {
+    typeWebhook: 'incomingMessageReceived',
+    instanceData: { idInstance: 123, wid: '123456789@c.us' },
+    senderData: { chatId: '987654321@c.us', sender: '987654321@c.us' },
+    messageData: {
+      typeMessage: 'listResponseMessage',
+      listResponseMessage: {
+        singleSelectReply: rowId,
+        title,
+        listType: 1,
+        stanzaId: 'original-msg-id'
+      }
+    },
+    idMessage: 'ABC123'
+  }
+}
+
+export function createOutgoingStatusPayload(idMessage: string, status = 'delivered', chatId = '987654321@c.us') {
+  return {
+    typeWebhook: 'outgoingMessageStatus',
+    instanceData: { idInstance: 123, wid: '123456789@c.us' },
+    chatId,
+    idMessage,
+    status,
+    timestamp: 1772445600,
+    sendByApi: true
+  }
+}
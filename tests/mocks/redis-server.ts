@@ -0,0 +1,124 @@
+import { createServer, type Server, type Socket, type AddressInfo } from 'net'
+import { parseReply, type RedisReply } from '../../src/redis/client.js'
+
+interface StoredValue {
+  value: string
+  expiresAt?: number
+}
+
+export interface FakeRedisServer {
+  url: string
+  store: Map<string, StoredValue>
+  commands: string[][]
+  close(): Promise<void>
+}
+
+function encodeReply(reply: RedisReply | Error): Buffer {
+  if (reply instanceof Error) return Buffer.from(`-${reply.message}\r\n`)
+  if (reply === null) return Buffer.from('$-1\r\n')
+  if (typeof reply === 'number') return Buffer.from(`:${reply}\r\n`)
+  if (Array.isArray(reply)) {
+    return Buffer.concat([Buffer.from(`*${reply.length}\r\n`), ...reply.map(item => encodeReply(item))])
+  }
+  if (reply === 'OK' || reply === 'PONG') return Buffer.from(`+${reply}\r\n`)
+  const value = Buffer.from(reply, 'utf-8')
+  return Buffer.concat([Buffer.from(`$${value.length}\r\n`), value, Buffer.from('\r\n')])
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
+  return new RegExp(`^${escaped}$`)
+}
+
+/**
+ * Minimal in-process RESP server covering the commands the bot uses
+ * (GET / SET [PX] / DEL / SCAN / PING / AUTH / SELECT / QUIT).
+ */
+export async function startFakeRedisServer(options: { password?: string } = {}): Promise<FakeRedisServer> {
+  const store = new Map<string, StoredValue>()
+  const commands: string[][] = []
+
+  function read(key: string): StoredValue | undefined {
+    const entry = store.get(key)
+    if (entry?.expiresAt !== undefined && Date.now() >= entry.expiresAt) {
+      store.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  function execute(args: string[], authenticated: boolean): RedisReply | Error {
+    const [name, ...rest] = args
+    const command = name.toUpperCase()
+    if (options.password && !authenticated && command !== 'AUTH') {
+      return new Error('NOAUTH Authentication required.')
+    }
+    switch (command) {
+      case 'PING':
+        return 'PONG'
+      case 'AUTH':
+        return rest[rest.length - 1] === options.password ? 'OK' : new Error('WRONGPASS invalid username-password pair')
+      case 'SELECT':
+      case 'QUIT':
+        return 'OK'
+      case 'GET':
+        return read(rest[0])?.value ?? null
+      case 'SET': {
+        const pxIndex = rest.findIndex(arg => arg.toUpperCase() === 'PX')
+        const expiresAt = pxIndex === -1 ? undefined : Date.now() + Number(rest[pxIndex + 1])
+        store.set(rest[0], { value: rest[1], expiresAt })
+        return 'OK'
+      }
+      case 'DEL':
+        return rest.filter(key => store.delete(key)).length
+      case 'SCAN': {
+        const matchIndex = rest.findIndex(arg => arg.toUpperCase() === 'MATCH')
+        const pattern = globToRegExp(matchIndex === -1 ? '*' : rest[matchIndex + 1])
+        return ['0', [...store.keys()].filter(key => pattern.test(key) && read(key))]
+      }
+      default:
+        return new Error(`ERR unknown command '${name}'`)
+    }
+  }
+
+  const sockets = new Set<Socket>()
+  const server: Server = createServer((socket) => {
+    sockets.add(socket)
+    socket.on('close', () => sockets.delete(socket))
+    let buffer = Buffer.alloc(0)
+    let authenticated = false
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk])
+      let parsed = parseReply(buffer)
+      while (parsed) {
+        buffer = buffer.subarray(parsed.offset)
+        const args = (parsed.value as string[]).map(String)
+        commands.push(args)
+        const reply = execute(args, authenticated)
+        if (args[0].toUpperCase() === 'AUTH' && reply === 'OK') {
+          authenticated = true
+        }
+        socket.write(encodeReply(reply))
+        if (args[0].toUpperCase() === 'QUIT') {
+          socket.end()
+          return
+        }
+        parsed = buffer.length > 0 ? parseReply(buffer) : undefined
+      }
+    })
+    socket.on('error', () => {})
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `redis://127.0.0.1:${port}`,
+    store,
+    commands,
+    close: () => new Promise(resolve => {
+      for (const socket of sockets) socket.destroy()
+      server.close(() => resolve())
+    })
+  }
+}
@@ -0,0 +1,56 @@
+import { vi } from 'vitest'
+import type { TelegramSender } from '../../src/telegram/sender.js'
+
+export function createMockTelegramSender(): TelegramSender & {
+  sendMessage: ReturnType<typeof vi.fn>
+  sendPhoto: ReturnType<typeof vi.fn>
+  sendDocument: ReturnType<typeof vi.fn>
+  answerCallbackQuery: ReturnType<typeof vi.fn>
+  downloadFile: ReturnType<typeof vi.fn>
+} {
+  return {
+    sendMessage: vi.fn().mockResolvedValue({ messageId: 1 }),
+    sendPhoto: vi.fn().mockResolvedValue({ messageId: 2 }),
+    sendDocument: vi.fn().mockResolvedValue({ messageId: 3 }),
+    answerCallbackQuery: vi.fn().mockResolvedValue(undefined),
+    downloadFile: vi.fn(async (fileId: string) => ({ data: Buffer.from(`${fileId}-bytes`), filePath: `photos/${fileId}.jpg` }))
+  }
+}
+
+const chat = { id: 555000111, type: 'private' }
+const from = { id: 555000111, is_bot: false, first_name: 'Dana' }
+
+export function createTelegramTextUpdate(text: string, updateId = 1001) {
+  return {
+    update_id: updateId,
+    message: { message_id: 10, from, chat, date: 1772445600, text }
+  }
+}
+
+export function createTelegramPhotoUpdate(updateId = 1001) {
+  return {
+    update_id: updateId,
+    message: {
+      message_id: 11,
+      from,
+      chat,
+      date: 1772445600,
+      photo: [
+        { file_id: 'small', width: 90, height: 90 },
+        { file_id: 'large', width: 1280, height: 1280 }
+      ]
+    }
+  }
+}
+
+export function createTelegramCallbackUpdate(data: string, updateId = 1001) {
+  return {
+    update_id: updateId,
+    callback_query: {
+      id: 'cb-1',
+      from,
+      message: { message_id: 12, from: { id: 999, is_bot: true }, chat, date: 1772445600, text: 'What would you like to do?' },
+      data
+    }
+  }
+}
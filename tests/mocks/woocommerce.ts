@@ -1,14 +1,25 @@
 import { vi } from 'vitest'
-import type { WooCommerceClient, WooProduct } from '../../src/woocommerce/types.js'
+import type { WooCommerceClient, WooProduct, WooOrder } from '../../src/woocommerce/types.js'
 
 export function createMockWooCommerceClient(): WooCommerceClient & {
   getProducts: ReturnType<typeof vi.fn>
+  searchProducts: ReturnType<typeof vi.fn>
+  getProduct: ReturnType<typeof vi.fn>
   getProductBySku: ReturnType<typeof vi.fn>
+  findCategory: ReturnType<typeof vi.fn>
   createProduct: ReturnType<typeof vi.fn>
+  updateProduct: ReturnType<typeof vi.fn>
+  deleteProduct: ReturnType<typeof vi.fn>
+  getOrders: ReturnType<typeof vi.fn>
+  getOrder: ReturnType<typeof vi.fn>
+  updateOrderStatus: ReturnType<typeof vi.fn>
 } {
   return {
-    getProducts: vi.fn().mockResolvedValue([]),
+    getProducts: vi.fn().mockResolvedValue({ products: [], page: 1, perPage: 100, total: 0, totalPages: 0 }),
+    searchProducts: vi.fn().mockResolvedValue({ products: [], page: 1, perPage: 20, total: 0, totalPages: 0 }),
+    getProduct: vi.fn().mockImplementation(async (id) => createMockProduct({ id })),
     getProductBySku: vi.fn().mockResolvedValue(null),
+    findCategory: vi.fn().mockResolvedValue(null),
     createProduct: vi.fn().mockImplementation(async (input) => {
       const slug = input.name.toLowerCase().replace(/\s+/g, '-')
       return {
@@ -26,7 +37,19 @@ export function createMockWooCommerceClient(): WooCommerceClient & {
         short_description: '',
         sku: input.sku || 'MOCK-SKU'
       }
-    })
+    }),
+    updateProduct: vi.fn().mockImplementation(async (id, input) => createMockProduct({
+      id,
+      ...(input.regular_price !== undefined && { price: input.regular_price, regular_price: input.regular_price }),
+      ...(input.stock_quantity !== undefined && { stock_quantity: input.stock_quantity })
+    })),
+    deleteProduct: vi.fn().mockImplementation(async (id, force) => createMockProduct({
+      id,
+      status: force ? 'publish' : 'trash'
+    })),
+    getOrders: vi.fn().mockResolvedValue([]),
+    getOrder: vi.fn().mockImplementation(async (id) => createMockOrder({ id, number: String(id) })),
+    updateOrderStatus: vi.fn().mockImplementation(async (id, status) => createMockOrder({ id, number: String(id), status }))
   }
 }
 
@@ -48,3 +71,20 @@ export function createMockProduct(overrides: Partial<WooProduct> = {}): WooProdu
     ...overrides
   }
 }
+
+export function createMockOrder(overrides: Partial<WooOrder> = {}): WooOrder {
+  return {
+    id: 501,
+    number: '501',
+    status: 'processing',
+    currency: 'EUR',
+    total: '42.00',
+    date_created: '2026-10-19T09:30:00',
+    billing: { first_name: 'Dana', last_name: 'Levi' },
+    line_items: [
+      { id: 1, name: 'Blue Mug', quantity: 2, total: '20.00' },
+      { id: 2, name: 'Teapot', quantity: 1, total: '22.00' }
+    ],
+    ...overrides
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { createAccessControl, normalizeUserId } from '../../src/auth/access-control.js'
+import { createMockLogger } from '../mocks/greenapi.js'
+
+describe('AccessControl', () => {
+  describe('normalizeUserId', () => {
+    it('should reduce chat IDs and phone formats to the same ID', () => {
+      expect(normalizeUserId('972501234567@c.us')).toBe('972501234567')
+      expect(normalizeUserId('+972 50-123-4567')).toBe('972501234567')
+      expect(normalizeUserId('972501234567')).toBe('972501234567')
+    })
+
+    it('should keep the channel prefix of Telegram ids', () => {
+      expect(normalizeUserId('tg:555000111')).toBe('tg:555000111')
+    })
+  })
+
+  it('should allow everyone as owner when no users are configured', () => {
+    const accessControl = createAccessControl({ users: [], ownerChatIds: ['111@c.us'] })
+
+    expect(accessControl.enabled).toBe(false)
+    expect(accessControl.resolveRole('999@c.us')).toBe('owner')
+  })
+
+  it('should resolve configured roles by chat ID', () => {
+    const accessControl = createAccessControl({
+      users: [
+        { id: '+972 50-111-1111', role: 'staff' },
+        { id: '972502222222', role: 'viewer' }
+      ]
+    })
+
+    expect(accessControl.enabled).toBe(true)
+    expect(accessControl.resolveRole('972501111111@c.us')).toBe('staff')
+    expect(accessControl.resolveRole('972502222222@c.us')).toBe('viewer')
+  })
+
+  it('should treat owner chat IDs as owners unless listed with another role', () => {
+    const accessControl = createAccessControl({
+      users: [{ id: '222', role: 'viewer' }],
+      ownerChatIds: ['111@c.us', '222@c.us']
+    })
+
+    expect(accessControl.resolveRole('111@c.us')).toBe('owner')
+    expect(accessControl.resolveRole('222@c.us')).toBe('viewer')
+  })
+
+  it('should check the individual sender in group chats', () => {
+    const accessControl = createAccessControl({ users: [{ id: '111', role: 'staff' }] })
+
+    expect(accessControl.resolveRole('120363000000@g.us', '111@c.us')).toBe('staff')
+  })
+
+  it('should not let a Telegram id match a WhatsApp number with the same digits', () => {
+    const accessControl = createAccessControl({
+      users: [
+        { id: '555000111', role: 'owner' },
+        { id: 'tg:555000111', role: 'viewer' }
+      ]
+    })
+
+    expect(accessControl.resolveRole('555000111@c.us')).toBe('owner')
+    expect(accessControl.resolveRole('tg:555000111', 'tg:555000111')).toBe('viewer')
+    expect(accessControl.resolveRole('tg:777')).toBeUndefined()
+  })
+
+  it('should return undefined and log unknown senders', () => {
+    const logger = createMockLogger()
+    const accessControl = createAccessControl({ users: [{ id: '111', role: 'staff' }], logger })
+
+    expect(accessControl.resolveRole('999@c.us', '999@c.us')).toBeUndefined()
+    expect(logger.info).toHaveBeenCalledWith({ event: 'access_unknown_user', chatId: '999@c.us', sender: '999@c.us' })
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createChannelHandler } from '../../src/channels/handler.js'
+import type { ChannelAdapter, InboundMessage } from '../../src/channels/types.js'
+import { createAccessControl } from '../../src/auth/access-control.js'
+import { createInMemoryProcessedMessageStore } from '../../src/webhook/dedup.js'
+import { WebhookReplyError } from '../../src/errors.js'
+import { createMockLogger } from '../mocks/greenapi.js'
+
+describe('ChannelHandler', () => {
+  const inbound: InboundMessage = { id: '7', chatId: 'chat-1', senderId: 'user-1', message: { type: 'text', content: 'hi' } }
+  let channel: ChannelAdapter & { receive: ReturnType<typeof vi.fn>; sendReply: ReturnType<typeof vi.fn> }
+  let flowController: { process: ReturnType<typeof vi.fn> }
+
+  beforeEach(() => {
+    channel = {
+      name: 'test',
+      receive: vi.fn().mockResolvedValue(inbound),
+      sendReply: vi.fn().mockResolvedValue(undefined)
+    }
+    flowController = { process: vi.fn().mockResolvedValue({ handled: true, response: 'Hello' }) }
+  })
+
+  it('should run the flow and send the reply through the channel', async () => {
+    const handler = createChannelHandler({ channel, flowController, logger: createMockLogger() })
+
+    const result = await handler.handle({})
+
+    expect(result).toEqual({ handled: true, action: 'flow_processed' })
+    expect(flowController.process).toHaveBeenCalledWith('chat-1', inbound.message, { role: 'owner' })
+    expect(channel.sendReply).toHaveBeenCalledWith('chat-1', { handled: true, response: 'Hello' }, '7')
+  })
+
+  it('should ignore updates the channel has nothing for', async () => {
+    channel.receive.mockResolvedValue(null)
+    const handler = createChannelHandler({ channel, flowController })
+
+    expect(await handler.handle({})).toEqual({ handled: false, action: 'ignored_unsupported' })
+    expect(flowController.process).not.toHaveBeenCalled()
+  })
+
+  it('should resolve the role from the sender', async () => {
+    const accessControl = createAccessControl({ users: [{ id: 'user-1', role: 'viewer' }] })
+    const handler = createChannelHandler({ channel, flowController, accessControl })
+
+    await handler.handle({})
+
+    expect(flowController.process).toHaveBeenCalledWith('chat-1', inbound.message, { role: 'viewer' })
+  })
+
+  it('should not send anything when the flow does not handle the message', async () => {
+    flowController.process.mockResolvedValue({ handled: false })
+    const handler = createChannelHandler({ channel, flowController })
+
+    expect(await handler.handle({})).toEqual({ handled: false, action: 'flow_processed' })
+    expect(channel.sendReply).not.toHaveBeenCalled()
+  })
+
+  it('should process a redelivered update once, keyed by channel', async () => {
+    const processedMessages = createInMemoryProcessedMessageStore(60000)
+    await processedMessages.set('7', { handled: false, action: 'ignored_webhook_type' })
+    const handler = createChannelHandler({ channel, flowController, processedMessages })
+
+    await handler.handle({})
+    const replay = await handler.handle({})
+
+    expect(flowController.process).toHaveBeenCalledTimes(1)
+    expect(replay).toEqual({ handled: true, action: 'flow_processed' })
+    expect(await processedMessages.get('test:7')).toEqual({ handled: true, action: 'flow_processed' })
+  })
+
+  it('should wrap reply failures in WebhookReplyError', async () => {
+    channel.sendReply.mockRejectedValue(new Error('Bot was blocked by the user'))
+    const handler = createChannelHandler({ channel, flowController })
+
+    await expect(handler.handle({})).rejects.toThrow(WebhookReplyError)
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { createChatQueue } from '../../src/webhook/chat-queue.js'
+
+function deferred<T = void>() {
+  let resolve: (value: T) => void = () => {}
+  let reject: (error: Error) => void = () => {}
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+function flush() {
+  return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+describe('ChatQueue', () => {
+  it('should run tasks for the same chat one at a time in arrival order', async () => {
+    const queue = createChatQueue()
+    const events: string[] = []
+    const first = deferred()
+
+    const a = queue.run('chat1', async () => {
+      events.push('a:start')
+      await first.promise
+      events.push('a:end')
+      return 'a'
+    })
+    const b = queue.run('chat1', async () => {
+      events.push('b:start')
+      return 'b'
+    })
+
+    await flush()
+    expect(events).toEqual(['a:start'])
+    expect(queue.size('chat1')).toBe(2)
+
+    first.resolve()
+
+    expect(await Promise.all([a, b])).toEqual(['a', 'b'])
+    expect(events).toEqual(['a:start', 'a:end', 'b:start'])
+  })
+
+  it('should run tasks for different chats concurrently', async () => {
+    const queue = createChatQueue()
+    const blocker = deferred()
+    const events: string[] = []
+
+    const a = queue.run('chat1', async () => {
+      await blocker.promise
+      events.push('chat1')
+    })
+    await queue.run('chat2', async () => {
+      events.push('chat2')
+    })
+
+    expect(events).toEqual(['chat2'])
+    blocker.resolve()
+    await a
+    expect(events).toEqual(['chat2', 'chat1'])
+  })
+
+  it('should keep processing the chat after a task fails', async () => {
+    const queue = createChatQueue()
+
+    const failing = queue.run('chat1', async () => {
+      throw new Error('boom')
+    })
+    const next = queue.run('chat1', async () => 'next')
+
+    await expect(failing).rejects.toThrow('boom')
+    expect(await next).toBe('next')
+  })
+
+  it('should forget chats once their queue drains', async () => {
+    const queue = createChatQueue()
+
+    await Promise.all([
+      queue.run('chat1', async () => undefined),
+      queue.run('chat1', async () => undefined)
+    ])
+
+    expect(queue.size('chat1')).toBe(0)
+  })
+})
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { PassThrough } from 'node:stream'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { renderFlowResult } from '../../src/cli/render.js'
+import { createRepl } from '../../src/cli/repl.js'
+import { loadFlow } from '../../src/app.js'
+import { loadMessages } from '../../src/messages.js'
+import { createFlowController } from '../../src/conversation/flow-controller.js'
+import { createInMemoryManager } from '../../src/conversation/memory.js'
+import { createFakeWooCommerceClient } from '../../src/woocommerce/fake-client.js'
+
+describe('renderFlowResult', () => {
+  it('should number buttons and keep the pre-message separate', () => {
+    const rendered = renderFlowResult({
+      handled: true,
+      preMessage: 'Welcome!',
+      buttons: {
+        header: 'Shop',
+        body: 'What next?',
+        options: [{ buttonId: 'list', buttonText: 'List Products' }, { buttonId: 'add', buttonText: 'Add Product' }]
+      }
+    })
+
+    expect(rendered).toEqual({
+      messages: ['Welcome!', 'Shop\n\nWhat next?\n\n  1) List Products\n  2) Add Product'],
+      options: ['list', 'add']
+    })
+  })
+
+  it('should number list rows across sections', () => {
+    const rendered = renderFlowResult({
+      handled: true,
+      list: {
+        body: 'Pick one',
+        buttonText: 'Menu',
+        sections: [
+          { title: 'Products', rows: [{ rowId: 'list', title: 'List Products' }] },
+          { title: 'Orders', rows: [{ rowId: 'orders', title: 'Orders', description: 'Last 10' }] }
+        ]
+      }
+    })
+
+    expect(rendered.messages).toEqual(['Pick one\n\n[Menu]\n\nProducts:\n  1) List Products\n\nOrders:\n  2) Orders - Last 10'])
+    expect(rendered.options).toEqual(['list', 'orders'])
+  })
+
+  it('should show files before the text', () => {
+    const rendered = renderFlowResult({
+      handled: true,
+      media: { type: 'upload', data: Buffer.from('id\n'), fileName: 'products.csv', mimeType: 'text/csv', caption: 'Export' },
+      response: 'Done'
+    })
+
+    expect(rendered.messages).toEqual(['[file] products.csv (3 bytes, text/csv)\nExport', 'Done'])
+    expect(rendered.options).toEqual([])
+  })
+})
+
+describe('Repl', () => {
+  let output: PassThrough
+  let written: string
+
+  beforeEach(() => {
+    output = new PassThrough()
+    written = ''
+    output.on('data', chunk => { written += chunk.toString() })
+  })
+
+  function createTestRepl(flowController = { process: vi.fn().mockResolvedValue({ handled: true, response: 'ok' }) }) {
+    return { flowController, repl: createRepl({ flowController, input: new PassThrough(), output, chatId: 'chat-1' }) }
+  }
+
+  it('should send a menu number as the id of the option it stands for', async () => {
+    const { flowController, repl } = createTestRepl()
+    flowController.process.mockResolvedValueOnce({
+      handled: true,
+      buttons: { body: 'Pick', options: [{ buttonId: 'list', buttonText: 'List' }, { buttonId: 'add', buttonText: 'Add' }] }
+    })
+
+    await repl.handleLine('menu')
+    await repl.handleLine('2')
+    await repl.handleLine('2')
+
+    expect(flowController.process.mock.calls.map(([, message]) => message.content)).toEqual(['menu', 'add', '2'])
+  })
+
+  it('should switch the simulated chat and role', async () => {
+    const { flowController, repl } = createTestRepl()
+
+    await repl.handleLine('/chat other@c.us')
+    await repl.handleLine('/role viewer')
+    await repl.handleLine('hi')
+
+    expect(flowController.process).toHaveBeenCalledWith('other@c.us', { type: 'text', content: 'hi' }, { role: 'viewer' })
+    expect(written).toContain('Chat: other@c.us')
+  })
+
+  it('should reject unknown roles', async () => {
+    const { repl } = createTestRepl()
+
+    await repl.handleLine('/role admin')
+
+    expect(written).toContain('Unknown role "admin"')
+  })
+
+  it('should stop on /quit', async () => {
+    const { repl } = createTestRepl()
+
+    expect(await repl.handleLine('/quit')).toBe(false)
+    expect(await repl.handleLine('/help')).toBe(true)
+  })
+
+  it('should print flow errors and keep going', async () => {
+    const { flowController, repl } = createTestRepl()
+    flowController.process.mockRejectedValueOnce(new Error('Store unreachable'))
+
+    expect(await repl.handleLine('list')).toBe(true)
+    expect(written).toContain('Error: Store unreachable')
+  })
+
+  describe('/image', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'cli-test-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should send a local image as an image message', async () => {
+      const { flowController, repl } = createTestRepl()
+      const path = join(dir, 'mug.png')
+      writeFileSync(path, 'png')
+
+      await repl.handleLine(`/image ${path}`)
+
+      expect(flowController.process).toHaveBeenCalledWith(
+        'chat-1',
+        { type: 'image', content: pathToFileURL(path).href, mimeType: 'image/png' },
+        { role: 'owner' }
+      )
+    })
+
+    it('should refuse missing files and files that are not images', async () => {
+      const { flowController, repl } = createTestRepl()
+
+      await repl.handleLine(`/image ${join(dir, 'missing.jpg')}`)
+      await repl.handleLine('/image notes.txt')
+
+      expect(flowController.process).not.toHaveBeenCalled()
+      expect(written).toContain('File not found')
+      expect(written).toContain('Not an image: notes.txt')
+    })
+  })
+
+  it('should walk the inventory flow against the fake store', async () => {
+    const messages = loadMessages()
+    const flowController = createFlowController({
+      memory: createInMemoryManager(60000),
+      flow: loadFlow(messages),
+      messages,
+      wooCommerce: createFakeWooCommerceClient()
+    })
+    const repl = createRepl({ flowController, input: new PassThrough(), output, chatId: 'chat-1' })
+
+    await repl.handleLine('hello')
+    await repl.handleLine('1')
+
+    expect(written).toContain('1) List Products')
+    expect(written).toContain('Ceramic Mug')
+  })
+})
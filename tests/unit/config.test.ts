@@ -0,0 +1,249 @@
+import { describe, it, expect } from 'vitest'
+import { loadConfig } from '../../src/config.js'
+import { ConfigError } from '../../src/errors.js'
+
+describe('loadConfig', () => {
+  const requiredEnv = {
+    GREEN_API_INSTANCE_ID: 'test-instance',
+    GREEN_API_TOKEN: 'test-token',
+    WOOCOMMERCE_STORE_URL: 'https://test-store.com',
+    WOOCOMMERCE_CONSUMER_KEY: 'ck_test',
+    WOOCOMMERCE_CONSUMER_SECRET: 'cs_test'
+  }
+
+  describe('stock alerts', () => {
+    it('should default to a threshold of 5, hourly checks and no digest', () => {
+      const config = loadConfig(requiredEnv)
+
+      expect(config.lowStockThreshold).toBe(5)
+      expect(config.stockCheckIntervalMs).toBe(3600000)
+      expect(config.dailyDigestTime).toBeUndefined()
+    })
+
+    it('should read thresholds and schedule from env', () => {
+      const config = loadConfig({
+        ...requiredEnv,
+        LOW_STOCK_THRESHOLD: '3',
+        STOCK_CHECK_INTERVAL_MS: '0',
+        DAILY_DIGEST_TIME: '08:30'
+      })
+
+      expect(config.lowStockThreshold).toBe(3)
+      expect(config.stockCheckIntervalMs).toBe(0)
+      expect(config.dailyDigestTime).toBe('08:30')
+    })
+
+    it('should reject digest times that are not HH:MM', () => {
+      expect(() => loadConfig({ ...requiredEnv, DAILY_DIGEST_TIME: '8am' })).toThrow(ConfigError)
+      expect(() => loadConfig({ ...requiredEnv, DAILY_DIGEST_TIME: '24:00' })).toThrow(ConfigError)
+    })
+
+    it('should reject negative thresholds', () => {
+      expect(() => loadConfig({ ...requiredEnv, LOW_STOCK_THRESHOLD: '-1' })).toThrow(ConfigError)
+    })
+  })
+
+  describe('session store', () => {
+    it('should default to the in-memory store', () => {
+      const config = loadConfig(requiredEnv)
+
+      expect(config.sessionStore).toBe('memory')
+      expect(config.sessionFilePath).toBe('data/sessions.json')
+    })
+
+    it('should accept file and redis stores', () => {
+      expect(loadConfig({ ...requiredEnv, SESSION_STORE: 'file', SESSION_FILE_PATH: '/data/s.json' }).sessionFilePath).toBe('/data/s.json')
+      expect(loadConfig({ ...requiredEnv, SESSION_STORE: 'redis', REDIS_URL: 'redis://localhost:6379' }).redisUrl).toBe('redis://localhost:6379')
+    })
+
+    it('should require REDIS_URL for the redis store', () => {
+      expect(() => loadConfig({ ...requiredEnv, SESSION_STORE: 'redis' })).toThrow('REDIS_URL is required when SESSION_STORE=redis')
+    })
+
+    it('should reject unknown stores', () => {
+      expect(() => loadConfig({ ...requiredEnv, SESSION_STORE: 'sqlite' })).toThrow(ConfigError)
+    })
+  })
+
+  describe('allowed users', () => {
+    it('should parse phone:role entries, defaulting to staff', () => {
+      const config = loadConfig({ ...requiredEnv, ALLOWED_USERS: '972501111111:owner, 972502222222:viewer, 972503333333' })
+
+      expect(config.allowedUsers).toEqual([
+        { id: '972501111111', role: 'owner' },
+        { id: '972502222222', role: 'viewer' },
+        { id: '972503333333', role: 'staff' }
+      ])
+    })
+
+    it('should keep the tg: prefix of Telegram user ids', () => {
+      const config = loadConfig({ ...requiredEnv, ALLOWED_USERS: 'tg:555000111:owner, tg:555000222' })
+
+      expect(config.allowedUsers).toEqual([
+        { id: 'tg:555000111', role: 'owner' },
+        { id: 'tg:555000222', role: 'staff' }
+      ])
+    })
+
+    it('should default to no users', () => {
+      expect(loadConfig(requiredEnv).allowedUsers).toEqual([])
+    })
+
+    it('should reject unknown roles', () => {
+      expect(() => loadConfig({ ...requiredEnv, ALLOWED_USERS: '972501111111:admin' })).toThrow('Unknown role "admin"')
+    })
+  })
+  describe('webhook authentication', () => {
+    it('should default to no token, no IP ranges and no proxy trust', () => {
+      const config = loadConfig(requiredEnv)
+
+      expect(config.webhookToken).toBeUndefined()
+      expect(config.webhookAllowedIps).toEqual([])
+      expect(config.trustProxy).toBe(false)
+    })
+
+    it('should parse the token, IP ranges and proxy trust', () => {
+      const config = loadConfig({
+        ...requiredEnv,
+        GREEN_API_WEBHOOK_TOKEN: 'hook-token',
+        WEBHOOK_ALLOWED_IPS: '10.0.0.0/8, 2001:db8::/32',
+        TRUST_PROXY: 'true'
+      })
+
+      expect(config.webhookToken).toBe('hook-token')
+      expect(config.webhookAllowedIps).toEqual(['10.0.0.0/8', '2001:db8::/32'])
+      expect(config.trustProxy).toBe(true)
+    })
+
+    it('should treat an empty webhook token as unset', () => {
+      expect(loadConfig({ ...requiredEnv, GREEN_API_WEBHOOK_TOKEN: '' }).webhookToken).toBeUndefined()
+    })
+
+    it('should reject malformed IP ranges', () => {
+      expect(() => loadConfig({ ...requiredEnv, WEBHOOK_ALLOWED_IPS: '10.0.0.0/40' })).toThrow('WEBHOOK_ALLOWED_IPS')
+    })
+  })
+  describe('order webhooks', () => {
+    it('should treat an empty WooCommerce webhook secret as unset', () => {
+      expect(loadConfig(requiredEnv).wooCommerceWebhookSecret).toBeUndefined()
+      expect(loadConfig({ ...requiredEnv, WOOCOMMERCE_WEBHOOK_SECRET: '' }).wooCommerceWebhookSecret).toBeUndefined()
+      expect(loadConfig({ ...requiredEnv, WOOCOMMERCE_WEBHOOK_SECRET: 'wc-secret' }).wooCommerceWebhookSecret).toBe('wc-secret')
+    })
+  })
+
+  describe('webhook deduplication', () => {
+    it('should remember processed messages for a day by default', () => {
+      expect(loadConfig(requiredEnv).webhookDedupTtlMs).toBe(86400000)
+    })
+
+    it('should accept 0 to disable deduplication', () => {
+      expect(loadConfig({ ...requiredEnv, WEBHOOK_DEDUP_TTL_MS: '0' }).webhookDedupTtlMs).toBe(0)
+    })
+  })
+  describe('webhook queue', () => {
+    it('should queue webhooks in memory by default', () => {
+      const config = loadConfig(requiredEnv)
+
+      expect(config.webhookMode).toBe('queue')
+      expect(config.jobStore).toBe('memory')
+      expect(config.jobFilePath).toBe('data/jobs.json')
+      expect(config.jobConcurrency).toBe(4)
+      expect(config.jobMaxAttempts).toBe(3)
+      expect(config.jobRetryDelayMs).toBe(1000)
+      expect(config.jobDrainTimeoutMs).toBe(10000)
+    })
+
+    it('should accept sync mode and a file store', () => {
+      const config = loadConfig({ ...requiredEnv, WEBHOOK_MODE: 'sync', JOB_STORE: 'file', JOB_FILE_PATH: '/var/data/jobs.json' })
+
+      expect(config.webhookMode).toBe('sync')
+      expect(config.jobStore).toBe('file')
+      expect(config.jobFilePath).toBe('/var/data/jobs.json')
+    })
+
+    it('should reject unknown modes', () => {
+      expect(() => loadConfig({ ...requiredEnv, WEBHOOK_MODE: 'async' })).toThrow(ConfigError)
+    })
+  })
+  describe('outbound retries', () => {
+    it('should default to 4 attempts and a file dead-letter log', () => {
+      const config = loadConfig(requiredEnv)
+
+      expect(config.sendMaxAttempts).toBe(4)
+      expect(config.sendRatePerSecond).toBe(2)
+      expect(config.sendBurst).toBe(5)
+      expect(config.sendChatIntervalMs).toBe(300)
+      expect(config.sendRetryBaseDelayMs).toBe(500)
+      expect(config.sendRetryMaxDelayMs).toBe(30000)
+      expect(config.failedMessagesStore).toBe('file')
+      expect(config.failedMessagesFilePath).toBe('data/failed-messages.jsonl')
+      expect(config.adminToken).toBeUndefined()
+    })
+
+    it('should treat an empty admin token as unset', () => {
+      expect(loadConfig({ ...requiredEnv, ADMIN_TOKEN: '' }).adminToken).toBeUndefined()
+    })
+
+    it('should reject short admin tokens', () => {
+      expect(() => loadConfig({ ...requiredEnv, ADMIN_TOKEN: 'short' })).toThrow('ADMIN_TOKEN must be at least 16 characters')
+    })
+  })
+
+  describe('delivery status', () => {
+    it('should track 1000 messages and resend failed alerts once by default', () => {
+      const config = loadConfig(requiredEnv)
+
+      expect(config.messageStatusLimit).toBe(1000)
+      expect(config.deliveryRetries).toBe(1)
+      expect(config.deliveryFallbackChatIds).toEqual([])
+    })
+
+    it('should parse the fallback chats', () => {
+      const config = loadConfig({ ...requiredEnv, DELIVERY_RETRIES: '0', DELIVERY_FALLBACK_CHAT_IDS: '111@c.us, 222@c.us' })
+
+      expect(config.deliveryRetries).toBe(0)
+      expect(config.deliveryFallbackChatIds).toEqual(['111@c.us', '222@c.us'])
+    })
+  })
+
+  describe('telegram', () => {
+    it('should leave the Telegram channel off by default', () => {
+      const config = loadConfig(requiredEnv)
+
+      expect(config.telegramBotToken).toBeUndefined()
+      expect(config.telegramWebhookSecret).toBeUndefined()
+    })
+
+    it('should treat empty Telegram settings as unset', () => {
+      const config = loadConfig({ ...requiredEnv, TELEGRAM_BOT_TOKEN: '', TELEGRAM_WEBHOOK_SECRET: '' })
+
+      expect(config.telegramBotToken).toBeUndefined()
+      expect(config.telegramWebhookSecret).toBeUndefined()
+    })
+
+    it('should reject secret tokens with characters Telegram does not allow', () => {
+      expect(() => loadConfig({ ...requiredEnv, TELEGRAM_BOT_TOKEN: '123:ABC', TELEGRAM_WEBHOOK_SECRET: 'has spaces' }))
+        .toThrow('TELEGRAM_WEBHOOK_SECRET may only contain')
+    })
+  })
+
+  describe('web chat', () => {
+    it('should leave the web chat off by default', () => {
+      expect(loadConfig(requiredEnv).webChatUsers).toEqual([])
+    })
+
+    it('should parse id:role:token entries', () => {
+      const config = loadConfig({ ...requiredEnv, WEB_CHAT_USERS: 'dana:owner:0123456789abcdef, sam:viewer:fedcba9876543210:x' })
+
+      expect(config.webChatUsers).toEqual([
+        { id: 'dana', role: 'owner', token: '0123456789abcdef' },
+        { id: 'sam', role: 'viewer', token: 'fedcba9876543210:x' }
+      ])
+    })
+
+    it('should reject unknown roles and short tokens', () => {
+      expect(() => loadConfig({ ...requiredEnv, WEB_CHAT_USERS: 'dana:admin:0123456789abcdef' })).toThrow('Unknown role "admin" for dana in WEB_CHAT_USERS')
+      expect(() => loadConfig({ ...requiredEnv, WEB_CHAT_USERS: 'dana:owner:short' })).toThrow('Token for dana in WEB_CHAT_USERS must be at least 16 characters')
+    })
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+import { createInMemoryProcessedMessageStore, createRedisProcessedMessageStore, type ProcessedMessageStore } from '../../src/webhook/dedup.js'
+import { createRedisClient, type RedisClient } from '../../src/redis/client.js'
+import { startFakeRedisServer, type FakeRedisServer } from '../mocks/redis-server.js'
+
+const TTL_MS = 60000
+
+let redis: FakeRedisServer
+let openClients: RedisClient[] = []
+
+beforeAll(async () => {
+  redis = await startFakeRedisServer()
+})
+
+afterAll(async () => {
+  await redis.close()
+})
+
+afterEach(async () => {
+  await Promise.all(openClients.map(client => client.close()))
+  openClients = []
+})
+
+const backends: Array<{ name: string; create: () => ProcessedMessageStore }> = [
+  {
+    name: 'InMemoryProcessedMessageStore',
+    create: () => createInMemoryProcessedMessageStore(TTL_MS)
+  },
+  {
+    name: 'RedisProcessedMessageStore',
+    create: () => {
+      const client = createRedisClient(redis.url)
+      openClients.push(client)
+      return createRedisProcessedMessageStore({ client, ttlMs: TTL_MS, keyPrefix: `test-${openClients.length}:` })
+    }
+  }
+]
+
+describe.each(backends)('$name', ({ create }) => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should return undefined for unknown messages', async () => {
+    const store = create()
+
+    expect(await store.get('MSG-1')).toBeUndefined()
+  })
+
+  it('should return the stored result', async () => {
+    const store = create()
+
+    await store.set('MSG-1', { handled: true, action: 'flow_processed' })
+
+    expect(await store.get('MSG-1')).toEqual({ handled: true, action: 'flow_processed' })
+    expect(await store.get('MSG-2')).toBeUndefined()
+  })
+
+  it('should forget results once the TTL has passed', async () => {
+    const store = create()
+
+    await store.set('MSG-1', { handled: false, action: 'ignored_unsupported' })
+    vi.advanceTimersByTime(TTL_MS + 1)
+
+    expect(await store.get('MSG-1')).toBeUndefined()
+  })
+})
+
+describe('RedisProcessedMessageStore storage', () => {
+  it('should store results under the key prefix with a PX expiry', async () => {
+    const client = createRedisClient(redis.url)
+    openClients.push(client)
+    const store = createRedisProcessedMessageStore({ client, ttlMs: TTL_MS, keyPrefix: 'storage:' })
+
+    await store.set('MSG-1', { handled: true, action: 'flow_processed' })
+
+    expect(JSON.parse(redis.store.get('storage:MSG-1')!.value)).toEqual({ handled: true, action: 'flow_processed' })
+    expect(redis.commands).toContainEqual(['SET', 'storage:MSG-1', expect.any(String), 'PX', String(TTL_MS)])
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  createFileFailedMessageStore,
+  createInMemoryFailedMessageStore,
+  type FailedMessage,
+  type FailedMessageStore
+} from '../../src/greenapi/failed-messages.js'
+
+let tempDir: string
+let nextFile = 0
+
+beforeAll(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'failed-messages-'))
+})
+
+afterAll(async () => {
+  await rm(tempDir, { recursive: true, force: true })
+})
+
+function failedMessage(id: string, attempts = 4): FailedMessage {
+  return {
+    id,
+    chatId: '123@c.us',
+    request: { method: 'sendMessage', chatId: '123@c.us', message: `Message ${id}` },
+    attempts,
+    error: 'Green API error: 503',
+    statusCode: 503,
+    failedAt: '2026-03-02T10:00:00.000Z'
+  }
+}
+
+const backends: Array<{ name: string; create: () => FailedMessageStore }> = [
+  { name: 'InMemoryFailedMessageStore', create: () => createInMemoryFailedMessageStore() },
+  { name: 'FileFailedMessageStore', create: () => createFileFailedMessageStore({ filePath: join(tempDir, `failed-${nextFile++}.jsonl`) }) }
+]
+
+describe.each(backends)('$name', ({ create }) => {
+  it('should list added messages oldest first', async () => {
+    const store = create()
+
+    await store.add(failedMessage('a'))
+    await store.add(failedMessage('b'))
+
+    expect((await store.list()).map(message => message.id)).toEqual(['a', 'b'])
+    expect(await store.get('a')).toEqual(failedMessage('a'))
+  })
+
+  it('should replace a message added again under the same id', async () => {
+    const store = create()
+
+    await store.add(failedMessage('a', 4))
+    await store.add(failedMessage('a', 2))
+
+    expect(await store.list()).toEqual([failedMessage('a', 2)])
+  })
+
+  it('should remove messages', async () => {
+    const store = create()
+    await store.add(failedMessage('a'))
+
+    await store.remove('a')
+
+    expect(await store.list()).toEqual([])
+    expect(await store.get('a')).toBeUndefined()
+  })
+})
+
+describe('FileFailedMessageStore log', () => {
+  it('should replay the log written by a previous process', async () => {
+    const filePath = join(tempDir, 'restart.jsonl')
+    const first = createFileFailedMessageStore({ filePath })
+    await first.add(failedMessage('a'))
+    await first.add(failedMessage('b'))
+    await first.remove('a')
+    await first.close?.()
+
+    const lines = (await readFile(filePath, 'utf-8')).trim().split('\n').map(line => JSON.parse(line))
+    expect(lines.map(line => line.type)).toEqual(['failed', 'failed', 'resent'])
+
+    expect(await createFileFailedMessageStore({ filePath }).list()).toEqual([failedMessage('b')])
+  })
+
+  it('should skip corrupt lines', async () => {
+    const filePath = join(tempDir, 'corrupt.jsonl')
+    await writeFile(filePath, `{not json\n${JSON.stringify({ type: 'failed', message: failedMessage('a') })}\n`, 'utf-8')
+
+    expect(await createFileFailedMessageStore({ filePath }).list()).toEqual([failedMessage('a')])
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createFakeWooCommerceClient, DEMO_PRODUCTS } from '../../src/woocommerce/fake-client.js'
+import type { WooCommerceClient } from '../../src/woocommerce/types.js'
+import { WooCommerceError } from '../../src/errors.js'
+import { createManualClock } from '../mocks/clock.js'
+
+describe('FakeWooCommerceClient', () => {
+  let client: WooCommerceClient
+
+  beforeEach(() => {
+    client = createFakeWooCommerceClient({ clock: createManualClock(new Date('2026-03-02T10:00:00Z')) })
+  })
+
+  it('should page through the demo products, newest first', async () => {
+    const first = await client.getProducts(3, 1)
+    const second = await client.getProducts(3, 2)
+
+    expect(first.total).toBe(DEMO_PRODUCTS.length)
+    expect(first.totalPages).toBe(2)
+    expect(first.products.map(product => product.id)).toEqual([104, 103, 102])
+    expect(second.products.map(product => product.id)).toEqual([101])
+  })
+
+  it('should search by name or SKU', async () => {
+    expect((await client.searchProducts({ search: 'mug' })).products.map(product => product.sku)).toEqual(['MUG-01'])
+    expect((await client.searchProducts({ search: 'towel-01' })).products.map(product => product.name)).toEqual(['Linen Tea Towel'])
+    expect(await client.getProductBySku('BOARD-01')).toMatchObject({ id: 104 })
+    expect(await client.getProductBySku('NOPE')).toBeNull()
+  })
+
+  it('should find categories by name or slug and filter by their ID', async () => {
+    const home = await client.findCategory('home')
+
+    expect(home).toEqual({ id: 2, name: 'Home', slug: 'home' })
+    expect((await client.searchProducts({ category: home!.id })).products.map(product => product.sku)).toEqual(['CANDLE-01'])
+    expect(await client.findCategory('Garden')).toBeNull()
+  })
+
+  it('should create products and reject duplicate SKUs', async () => {
+    const created = await client.createProduct({ name: 'Clay Vase', regular_price: '30', stock_quantity: 2, sku: 'VASE-01' })
+
+    expect(created).toMatchObject({ id: 105, permalink: 'https://demo-shop.example/product/clay-vase/', date_created: '2026-03-02T10:00:00' })
+    expect(await client.getProduct(105)).toEqual(created)
+    await expect(client.createProduct({ name: 'Other', regular_price: '1', stock_quantity: 1, sku: 'VASE-01' }))
+      .rejects.toMatchObject({ errorCode: 'duplicate_sku' })
+  })
+
+  it('should update price and stock', async () => {
+    const updated = await client.updateProduct(103, { regular_price: '18.00', stock_quantity: 5 })
+
+    expect(updated).toMatchObject({ price: '18.00', stock_quantity: 5, stock_status: 'instock' })
+  })
+
+  it('should trash a product once and hide it from listings', async () => {
+    await client.deleteProduct(101)
+
+    expect((await client.getProducts()).products.map(product => product.id)).not.toContain(101)
+    await expect(client.deleteProduct(101)).rejects.toMatchObject({ errorCode: 'already_trashed', statusCode: 410 })
+  })
+
+  it('should throw not_found for unknown ids', async () => {
+    const error = await client.getProduct(999).catch(err => err)
+
+    expect(error).toBeInstanceOf(WooCommerceError)
+    expect(error.errorCode).toBe('not_found')
+  })
+
+  it('should list and update orders', async () => {
+    expect((await client.getOrders()).map(order => order.number)).toEqual(['501', '500'])
+    expect((await client.getOrders({ status: 'pending' })).map(order => order.number)).toEqual(['500'])
+
+    await client.updateOrderStatus(500, 'completed')
+
+    expect((await client.getOrder(500)).status).toBe('completed')
+  })
+
+  it('should not share state with returned objects', async () => {
+    const product = await client.getProduct(101)
+    product.name = 'Changed'
+
+    expect((await client.getProduct(101)).name).toBe('Ceramic Mug')
+  })
+})
@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { createFlowController, type MessageInput } from '../../src/conversation/flow-controller.js'
-import type { FlowDefinition, MemoryManager, Session } from '../../src/conversation/types.js'
-import type { WooCommerceClient, WooProduct } from '../../src/woocommerce/types.js'
+import type { ChoiceStep, FlowDefinition, MemoryManager, Session } from '../../src/conversation/types.js'
+import type { WooCommerceClient, WooProduct, WooOrder, ProductSearchFilters } from '../../src/woocommerce/types.js'
+import { WooCommerceError } from '../../src/errors.js'
 
 function textMsg(content: string): MessageInput {
   return { type: 'text', content }
@@ -18,10 +19,23 @@ describe('FlowController', () => {
     error: vi.fn()
   } as any
 
+  function createProductPage(products: WooProduct[], page = 1, totalPages = 1, total = products.length) {
+    return { products, page, perPage: 20, total, totalPages }
+  }
+
   function createMockWooCommerce(products: WooProduct[] = []): WooCommerceClient {
     return {
-      getProducts: vi.fn().mockResolvedValue(products),
+      getProducts: vi.fn().mockResolvedValue(createProductPage(products)),
+      searchProducts: vi.fn().mockImplementation(async (filters: ProductSearchFilters) =>
+        createProductPage(products.filter(p => !filters.search || p.name.toLowerCase().includes(filters.search.toLowerCase())))
+      ),
+      getProduct: vi.fn().mockImplementation(async (id: number) => {
+        const product = products.find(p => p.id === id)
+        if (!product) throw new WooCommerceError('Invalid ID.', 404, 'not_found')
+        return product
+      }),
       getProductBySku: vi.fn().mockResolvedValue(null),
+      findCategory: vi.fn().mockResolvedValue(null),
       createProduct: vi.fn().mockImplementation(async (input) => {
         const slug = input.name.toLowerCase().replace(/\s+/g, '-')
         return {
@@ -39,7 +53,12 @@ describe('FlowController', () => {
           short_description: '',
           sku: input.sku || 'test-sku'
         }
-      })
+      }),
+      updateProduct: vi.fn(),
+      deleteProduct: vi.fn(),
+      getOrders: vi.fn().mockResolvedValue([]),
+      getOrder: vi.fn(),
+      updateOrderStatus: vi.fn()
     }
   }
 
@@ -55,7 +74,7 @@ describe('FlowController', () => {
       },
       awaiting_intent: {
         type: 'choice',
-        responseType: 'text',
+        responseType: 'buttons',
         messageKey: 'intent_prompt',
         options: [
           { id: 'list', label: 'List Products', aliases: ['1', 'list'] },
@@ -112,18 +131,25 @@ describe('FlowController', () => {
     validation_error_stock: 'Stock must be a whole number (e.g., 10)'
   }
 
-  function createMockMemory(): MemoryManager & { sessions: Map<string, Session> } {
+  function createMockMemory(): MemoryManager & { sessions: Map<string, Session>; expired: Map<string, Session> } {
     const sessions = new Map<string, Session>()
+    const expired = new Map<string, Session>()
     return {
       sessions,
-      get: vi.fn((chatId: string) => sessions.get(chatId)),
-      set: vi.fn((chatId: string, session: Session) => {
+      expired,
+      get: vi.fn(async (chatId: string) => sessions.get(chatId)),
+      set: vi.fn(async (chatId: string, session: Session) => {
         sessions.set(chatId, session)
       }),
-      delete: vi.fn((chatId: string) => {
+      delete: vi.fn(async (chatId: string) => {
         sessions.delete(chatId)
       }),
-      cleanup: vi.fn(),
+      cleanup: vi.fn(async () => []),
+      takeExpired: vi.fn(async (chatId: string) => {
+        const session = expired.get(chatId)
+        expired.delete(chatId)
+        return session
+      }),
       createSession: vi.fn((chatId: string, initialStep: string) => ({
         chatId,
         currentStep: initialStep,
@@ -209,6 +235,400 @@ describe('FlowController', () => {
     })
   })
 
+  describe('access control', () => {
+    const restrictedFlow: FlowDefinition = {
+      ...testFlow,
+      steps: {
+        ...testFlow.steps,
+        awaiting_intent: {
+          type: 'choice',
+          responseType: 'buttons',
+          messageKey: 'intent_prompt',
+          options: [
+            { id: 'list', label: 'List Products', aliases: ['1', 'list'] },
+            { id: 'add', label: 'Add New Product', aliases: ['2', 'add'], roles: ['owner', 'staff'] },
+            { id: 'secret', label: 'Secret', aliases: ['3', 'secret'] }
+          ],
+          transitions: {
+            list: { nextStep: 'list_products' },
+            add: { nextStep: 'add_product' },
+            secret: { nextStep: 'owner_only' }
+          },
+          onInvalid: { messageKey: 'invalid_choice', nextStep: 'awaiting_intent' }
+        },
+        add_product: {
+          ...testFlow.steps.add_product,
+          roles: ['owner', 'staff']
+        },
+        owner_only: {
+          type: 'input',
+          roles: ['owner'],
+          messageKey: 'add_product_prompt',
+          contextKey: 'productInput',
+          nextStep: 'awaiting_intent'
+        }
+      }
+    }
+
+    const accessMessages = {
+      ...testMessages,
+      access_denied: 'Not allowed.',
+      access_denied_unknown_user: 'Unknown number.'
+    }
+
+    function createRestrictedController(memory: ReturnType<typeof createMockMemory>, logger = mockLogger) {
+      return createFlowController({
+        memory,
+        flow: restrictedFlow,
+        messages: accessMessages,
+        triggerCode: 'start',
+        logger,
+        wooCommerce: createMockWooCommerce([])
+      })
+    }
+
+    function startAt(memory: ReturnType<typeof createMockMemory>, step: string) {
+      const session = memory.createSession('chat123', step)
+      memory.sessions.set('chat123', session)
+      return session
+    }
+
+    it('should answer unknown senders who send the trigger with access_denied_unknown_user', async () => {
+      const memory = createMockMemory()
+      const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+
+      const result = await createRestrictedController(memory, logger).process('chat123', textMsg('start'), {})
+
+      expect(result).toEqual({ handled: true, response: 'Unknown number.' })
+      expect(memory.createSession).not.toHaveBeenCalled()
+      expect(logger.warn).toHaveBeenCalledWith({ event: 'access_denied', chatId: 'chat123', reason: 'unknown_user' })
+    })
+
+    it('should leave other messages from unknown senders unhandled', async () => {
+      const memory = createMockMemory()
+
+      const result = await createRestrictedController(memory).process('chat123', textMsg('hello'), {})
+
+      expect(result.handled).toBe(false)
+    })
+
+    it('should drop the session of a sender who is no longer allowed', async () => {
+      const memory = createMockMemory()
+      startAt(memory, 'awaiting_intent')
+
+      const result = await createRestrictedController(memory).process('chat123', textMsg('1'), {})
+
+      expect(result.handled).toBe(false)
+      expect(memory.sessions.has('chat123')).toBe(false)
+    })
+
+    it('should let viewers use options without roles', async () => {
+      const memory = createMockMemory()
+      startAt(memory, 'awaiting_intent')
+
+      await createRestrictedController(memory).process('chat123', textMsg('list'), { role: 'viewer' })
+
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('awaiting_intent')
+    })
+
+    it('should deny options that do not list the role and keep the user on the step', async () => {
+      const memory = createMockMemory()
+      startAt(memory, 'awaiting_intent')
+      const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+
+      const result = await createRestrictedController(memory, logger).process('chat123', textMsg('add'), { role: 'viewer' })
+
+      expect(result.buttons?.header).toBe('Not allowed.')
+      expect(result.buttons?.body).toBe('Choose: 1 or 2')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('awaiting_intent')
+      expect(logger.warn).toHaveBeenCalledWith({
+        event: 'access_denied',
+        chatId: 'chat123',
+        role: 'viewer',
+        step: 'awaiting_intent',
+        option: 'add'
+      })
+    })
+
+    it('should allow staff into options restricted to owner and staff', async () => {
+      const memory = createMockMemory()
+      startAt(memory, 'awaiting_intent')
+
+      const result = await createRestrictedController(memory).process('chat123', textMsg('add'), { role: 'staff' })
+
+      expect(result.response).toContain('add a new product')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('add_product')
+    })
+
+    it('should deny transitions into steps that do not list the role', async () => {
+      const memory = createMockMemory()
+      startAt(memory, 'awaiting_intent')
+
+      const result = await createRestrictedController(memory).process('chat123', textMsg('secret'), { role: 'staff' })
+
+      expect(result.buttons?.header).toBe('Not allowed.')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('awaiting_intent')
+    })
+
+    it('should only show the options the role can use', async () => {
+      const memory = createMockMemory()
+
+      const viewer = await createRestrictedController(memory).process('chat123', textMsg('start'), { role: 'viewer' })
+      memory.sessions.clear()
+      const owner = await createRestrictedController(memory).process('chat123', textMsg('start'), { role: 'owner' })
+
+      expect(viewer.buttons?.options.map(option => option.buttonId)).toEqual(['list'])
+      expect(owner.buttons?.options.map(option => option.buttonId)).toEqual(['list', 'add', 'secret'])
+    })
+
+    it('should number a text menu by the options the role can see', async () => {
+      const memory = createMockMemory()
+      const wooCommerce = createMockWooCommerce([])
+      const textFlow: FlowDefinition = {
+        ...restrictedFlow,
+        steps: {
+          ...restrictedFlow.steps,
+          awaiting_intent: {
+            ...(restrictedFlow.steps.awaiting_intent as ChoiceStep),
+            responseType: 'text',
+            options: [
+              { id: 'add', label: 'Add New Product', aliases: ['add'], roles: ['owner', 'staff'] },
+              { id: 'secret', label: 'Secret', aliases: ['secret'] },
+              { id: 'list', label: 'List Products', aliases: ['list'] }
+            ]
+          }
+        }
+      }
+      const controller = createFlowController({
+        memory,
+        flow: textFlow,
+        messages: accessMessages,
+        triggerCode: 'start',
+        logger: mockLogger,
+        wooCommerce
+      })
+
+      const prompt = await controller.process('chat123', textMsg('start'), { role: 'viewer' })
+      await controller.process('chat123', textMsg('1'), { role: 'viewer' })
+
+      expect(prompt.response).toContain('1. List Products')
+      expect(prompt.response).not.toContain('Add New Product')
+      expect(prompt.response).not.toContain('Secret')
+      expect(wooCommerce.getProducts).toHaveBeenCalled()
+    })
+
+    it('should move users out of a step their role no longer covers', async () => {
+      const memory = createMockMemory()
+      const session = startAt(memory, 'add_product')
+      session.context.productInput = { name: 'Widget' }
+
+      const result = await createRestrictedController(memory).process('chat123', textMsg('Price: 10'), { role: 'viewer' })
+
+      expect(result.buttons?.header).toBe('Not allowed.')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('awaiting_intent')
+      expect(memory.sessions.get('chat123')?.context.productInput).toBeUndefined()
+    })
+  })
+
+  describe('session expiry', () => {
+    function createExpiredMemory(step = 'awaiting_product_image') {
+      const memory = createMockMemory()
+      memory.expired.set('chat123', {
+        chatId: 'chat123',
+        currentStep: step,
+        context: {},
+        createdAt: Date.now() - 600000,
+        updatedAt: Date.now() - 400000,
+        expiresAt: Date.now() - 100000
+      })
+      return memory
+    }
+
+    const expiryMessages = {
+      ...testMessages,
+      session_expired: 'Session expired. Send the trigger code to start again.',
+      session_expired_restarted: 'Previous session expired, starting over.'
+    }
+
+    it('should send session_expired when a lapsed user writes something other than the trigger', async () => {
+      const memory = createExpiredMemory()
+      const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+      const controller = createFlowController({
+        memory,
+        flow: testFlow,
+        messages: expiryMessages,
+        triggerCode: 'start',
+        logger
+      })
+
+      const result = await controller.process('chat123', textMsg('skip'))
+
+      expect(result).toEqual({ handled: true, response: 'Session expired. Send the trigger code to start again.' })
+      expect(memory.createSession).not.toHaveBeenCalled()
+      expect(logger.info).toHaveBeenCalledWith(expect.objectContaining({
+        event: 'session_expired_notice',
+        chatId: 'chat123',
+        step: 'awaiting_product_image'
+      }))
+    })
+
+    it('should only send the notice once', async () => {
+      const memory = createExpiredMemory()
+      const controller = createFlowController({
+        memory,
+        flow: testFlow,
+        messages: expiryMessages,
+        triggerCode: 'start',
+        logger: mockLogger
+      })
+
+      await controller.process('chat123', textMsg('skip'))
+      const second = await controller.process('chat123', textMsg('skip'))
+
+      expect(second.handled).toBe(false)
+    })
+
+    it('should restart normally when the lapsed user sends the trigger', async () => {
+      const memory = createExpiredMemory()
+      const controller = createFlowController({
+        memory,
+        flow: testFlow,
+        messages: expiryMessages,
+        triggerCode: 'start',
+        logger: mockLogger
+      })
+
+      const result = await controller.process('chat123', textMsg('start'))
+
+      expect(result.buttons?.header).toBe('Welcome!')
+      expect(result.preMessage).toBeUndefined()
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('awaiting_intent')
+    })
+
+    it('should lead the welcome with a restart notice when no trigger code is set', async () => {
+      const memory = createExpiredMemory()
+      const controller = createFlowController({
+        memory,
+        flow: testFlow,
+        messages: expiryMessages,
+        logger: mockLogger
+      })
+
+      const result = await controller.process('chat123', textMsg('Price: 10'))
+
+      expect(result.preMessage).toBe('Previous session expired, starting over.')
+      expect(result.buttons?.header).toBe('Welcome!')
+    })
+  })
+
+  describe('choice response types', () => {
+    function createControllerWith(responseType: ChoiceStep['responseType'], sections?: [string, string]) {
+      const memory = createMockMemory()
+      const intentStep = testFlow.steps.awaiting_intent as ChoiceStep
+      const flow: FlowDefinition = {
+        ...testFlow,
+        steps: {
+          ...testFlow.steps,
+          awaiting_intent: {
+            ...intentStep,
+            responseType,
+            options: intentStep.options.map((option, i) => ({ ...option, section: sections?.[i] }))
+          }
+        }
+      }
+      const controller = createFlowController({
+        memory,
+        flow,
+        messages: { ...testMessages, choice_list_button: 'Menu' },
+        triggerCode: 'test-shop',
+        logger: mockLogger
+      })
+      return { memory, controller }
+    }
+
+    it('should render text steps as a numbered menu', async () => {
+      const { controller } = createControllerWith('text')
+
+      const result = await controller.process('chat123', textMsg('test-shop'))
+
+      expect(result.buttons).toBeUndefined()
+      expect(result.response).toBe('Welcome!\n\nChoose: 1 or 2\n\n1. List Products\n2. Add New Product')
+    })
+
+    it('should put the invalid-choice message above a text menu', async () => {
+      const { memory, controller } = createControllerWith('text')
+      memory.sessions.set('chat123', memory.createSession('chat123', 'awaiting_intent'))
+
+      const result = await controller.process('chat123', textMsg('nope'))
+
+      expect(result.response).toBe('Invalid choice\n\nChoose: 1 or 2\n\n1. List Products\n2. Add New Product')
+    })
+
+    it('should render list steps as a list message grouped by section', async () => {
+      const { controller } = createControllerWith('list', ['Browse', 'Edit'])
+
+      const result = await controller.process('chat123', textMsg('test-shop'))
+
+      expect(result.buttons).toBeUndefined()
+      expect(result.list).toEqual({
+        body: 'Choose: 1 or 2',
+        buttonText: 'Menu',
+        header: 'Welcome!',
+        sections: [
+          { title: 'Browse', rows: [{ rowId: 'list', title: 'List Products' }] },
+          { title: 'Edit', rows: [{ rowId: 'add', title: 'Add New Product' }] }
+        ]
+      })
+    })
+
+    it('should put options without a section in one untitled section', async () => {
+      const { controller } = createControllerWith('list')
+
+      const result = await controller.process('chat123', textMsg('test-shop'))
+
+      expect(result.list?.sections).toEqual([
+        { title: undefined, rows: [{ rowId: 'list', title: 'List Products' }, { rowId: 'add', title: 'Add New Product' }] }
+      ])
+    })
+
+    it('should number list rows in the grouped order they are shown in', async () => {
+      const memory = createMockMemory()
+      const intentStep = testFlow.steps.awaiting_intent as ChoiceStep
+      // Eleven rows do not fit one list message, so they go out as a numbered menu
+      const options = Array.from({ length: 11 }, (_, i) => ({ id: `o${i + 1}`, label: `Option ${i + 1}`, aliases: [], section: i % 2 === 0 ? 'Odd' : 'Even' }))
+      const flow: FlowDefinition = {
+        ...testFlow,
+        steps: {
+          ...testFlow.steps,
+          awaiting_intent: {
+            ...intentStep,
+            responseType: 'list',
+            options,
+            transitions: Object.fromEntries(options.map(option => [option.id, { nextStep: option.id === 'o2' ? 'add_product' : 'awaiting_intent' }]))
+          }
+        }
+      }
+      const controller = createFlowController({ memory, flow, messages: testMessages, triggerCode: 'test-shop', logger: mockLogger })
+
+      const result = await controller.process('chat123', textMsg('test-shop'))
+      const shown = result.list!.sections.flatMap(section => section.rows.map(row => row.rowId))
+      await controller.process('chat123', textMsg('7'))
+
+      expect(result.list?.sections.map(section => section.title)).toEqual(['Odd', 'Even'])
+      expect(shown).toEqual(['o1', 'o3', 'o5', 'o7', 'o9', 'o11', 'o2', 'o4', 'o6', 'o8', 'o10'])
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('add_product')
+    })
+
+    it('should map a selected list row back to its option', async () => {
+      const { memory, controller } = createControllerWith('list')
+      memory.sessions.set('chat123', memory.createSession('chat123', 'awaiting_intent'))
+
+      await controller.process('chat123', textMsg('add'))
+
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('add_product')
+    })
+  })
+
   describe('choice step', () => {
     it('should show not configured when wooCommerce not provided', async () => {
       const memory = createMockMemory()
@@ -256,7 +676,7 @@ describe('FlowController', () => {
       expect(result.preMessage).toContain('Product A')
       expect(result.preMessage).toContain('Product B')
       expect(result.buttons).toBeDefined()
-      expect(wooCommerce.getProducts).toHaveBeenCalledWith(20)
+      expect(wooCommerce.getProducts).toHaveBeenCalledWith(20, 1)
     })
 
     it('should transition on valid alias', async () => {
@@ -333,6 +753,77 @@ describe('FlowController', () => {
       const updatedSession = memory.sessions.get('chat123')
       expect(updatedSession?.currentStep).toBe('awaiting_intent')
     })
+
+    it('should accept the option number from a numbered menu', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'awaiting_intent')
+      memory.sessions.set('chat123', session)
+      const intentStep = testFlow.steps.awaiting_intent as ChoiceStep
+      const flow: FlowDefinition = {
+        ...testFlow,
+        steps: {
+          ...testFlow.steps,
+          awaiting_intent: {
+            ...intentStep,
+            responseType: 'text',
+            options: intentStep.options.map(option => ({ ...option, aliases: [option.id] }))
+          }
+        }
+      }
+
+      const controller = createFlowController({
+        memory,
+        flow,
+        messages: testMessages,
+        logger: mockLogger
+      })
+
+      await controller.process('chat123', textMsg('2'))
+
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('add_product')
+    })
+
+    it('should not accept option numbers on steps sent as buttons', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'awaiting_intent'))
+      const intentStep = testFlow.steps.awaiting_intent as ChoiceStep
+      const flow: FlowDefinition = {
+        ...testFlow,
+        steps: {
+          ...testFlow.steps,
+          awaiting_intent: { ...intentStep, options: intentStep.options.map(option => ({ ...option, aliases: [option.id] })) }
+        }
+      }
+      const controller = createFlowController({
+        memory,
+        flow,
+        messages: testMessages,
+        logger: mockLogger
+      })
+
+      const result = await controller.process('chat123', textMsg('2'))
+
+      expect(result.buttons?.header).toBe('Invalid choice')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('awaiting_intent')
+    })
+
+    it('should treat an option number past the last option as invalid', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'awaiting_intent')
+      memory.sessions.set('chat123', session)
+
+      const controller = createFlowController({
+        memory,
+        flow: testFlow,
+        messages: testMessages,
+        logger: mockLogger
+      })
+
+      const result = await controller.process('chat123', textMsg('3'))
+
+      expect(result.buttons?.header).toBe('Invalid choice')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('awaiting_intent')
+    })
   })
 
   describe('action step', () => {
@@ -705,10 +1196,18 @@ describe('FlowController', () => {
       const { WooCommerceError } = await import('../../src/errors.js')
       const mockWooWithError: WooCommerceClient = {
         getProducts: vi.fn(),
+        searchProducts: vi.fn(),
+        getProduct: vi.fn(),
         getProductBySku: vi.fn(),
+        findCategory: vi.fn(),
         createProduct: vi.fn().mockRejectedValue(
           new WooCommerceError('Error getting remote image', 400, 'image_upload_error')
-        )
+        ),
+        updateProduct: vi.fn(),
+        deleteProduct: vi.fn(),
+        getOrders: vi.fn(),
+        getOrder: vi.fn(),
+        updateOrderStatus: vi.fn()
       }
 
       const controller = createFlowController({
@@ -727,4 +1226,1131 @@ describe('FlowController', () => {
       expect(result.preMessage).toContain('Could not upload the product image')
     })
   })
+
+  describe('update product flow', () => {
+    const testFlowWithUpdate: FlowDefinition = {
+      ...testFlow,
+      steps: {
+        ...testFlow.steps,
+        update_product_select: {
+          type: 'input',
+          messageKey: 'update_product_select_prompt',
+          contextKey: 'productSelection',
+          nextStep: 'update_product_fields',
+          cancelMessageKey: 'update_product_cancelled'
+        },
+        update_product_fields: {
+          type: 'input',
+          messageKey: 'update_product_fields_prompt',
+          contextKey: 'productUpdateInput',
+          nextStep: 'process_update_product',
+          cancelMessageKey: 'update_product_cancelled'
+        },
+        process_update_product: {
+          type: 'action',
+          action: 'updateProduct',
+          nextStep: 'awaiting_intent'
+        }
+      }
+    }
+
+    const testMessagesWithUpdate = {
+      ...testMessages,
+      product_select_not_found: 'No product matches "{query}".',
+      product_select_multiple: 'Several products match "{query}":\n\n{products}',
+      product_select_error: 'Could not look up the product.',
+      update_product_select_prompt: 'Which product would you like to update?',
+      product_selected: 'Selected "{name}" (SKU: {sku})\nCurrent price: {price}\nCurrent stock: {stock}',
+      update_product_fields_prompt: 'Send the new values.',
+      update_product_no_fields: 'Please send at least one field to update.',
+      update_product_success: 'Product "{name}" updated!\n\n{changes}\n\n{permalink}',
+      update_product_error: 'Failed to update product.',
+      update_product_cancelled: 'Product update cancelled.',
+      error_not_found: 'The store or resource was not found.'
+    }
+
+    const productA: WooProduct = { id: 1, name: 'Blue Mug', slug: 'blue-mug', permalink: 'https://test-store.com/product/blue-mug/', price: '10.00', regular_price: '10.00', sale_price: '', stock_status: 'instock', stock_quantity: 5, status: 'publish', description: '', short_description: '', sku: 'MUG-BLUE' }
+    const productB: WooProduct = { id: 2, name: 'Red Mug', slug: 'red-mug', permalink: 'https://test-store.com/product/red-mug/', price: '12.00', regular_price: '12.00', sale_price: '', stock_status: 'instock', stock_quantity: 3, status: 'publish', description: '', short_description: '', sku: 'MUG-RED' }
+
+    function createUpdateController(memory: ReturnType<typeof createMockMemory>, wooCommerce: WooCommerceClient) {
+      return createFlowController({
+        memory,
+        flow: testFlowWithUpdate,
+        messages: testMessagesWithUpdate,
+        logger: mockLogger,
+        wooCommerce
+      })
+    }
+
+    it('should select product by number from the last list', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'awaiting_intent')
+      memory.sessions.set('chat123', session)
+      const wooCommerce = createMockWooCommerce([productA, productB])
+      const controller = createUpdateController(memory, wooCommerce)
+
+      await controller.process('chat123', textMsg('list'))
+      memory.sessions.get('chat123')!.currentStep = 'update_product_select'
+
+      const result = await controller.process('chat123', textMsg('2'))
+
+      expect(result.response).toContain('Selected "Red Mug" (SKU: MUG-RED)')
+      expect(result.response).toContain('Current price: 12.00')
+      expect(result.response).toContain('Send the new values.')
+      const updatedSession = memory.sessions.get('chat123')
+      expect(updatedSession?.currentStep).toBe('update_product_fields')
+      expect(updatedSession?.context.selectedProduct).toMatchObject({ id: 2, name: 'Red Mug' })
+    })
+
+    it('should select product by SKU', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'update_product_select'))
+      const wooCommerce = createMockWooCommerce()
+      vi.mocked(wooCommerce.getProductBySku).mockResolvedValue(productA)
+      const controller = createUpdateController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('MUG-BLUE'))
+
+      expect(wooCommerce.getProductBySku).toHaveBeenCalledWith('MUG-BLUE')
+      expect(result.response).toContain('Selected "Blue Mug"')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('update_product_fields')
+    })
+
+    it('should ask to pick a number when name search matches several products', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'update_product_select'))
+      const wooCommerce = createMockWooCommerce([productA, productB])
+      const controller = createUpdateController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('mug'))
+
+      expect(wooCommerce.searchProducts).toHaveBeenCalledWith({ search: 'mug' }, 20)
+      expect(result.response).toContain('Several products match "mug"')
+      expect(result.response).toContain('1. Blue Mug (SKU: MUG-BLUE)')
+      expect(result.response).toContain('2. Red Mug (SKU: MUG-RED)')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('update_product_select')
+
+      const pickResult = await controller.process('chat123', textMsg('1'))
+
+      expect(pickResult.response).toContain('Selected "Blue Mug"')
+    })
+
+    it('should report when no product matches', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'update_product_select'))
+      const wooCommerce = createMockWooCommerce([productA])
+      const controller = createUpdateController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('teapot'))
+
+      expect(result.response).toBe('No product matches "teapot".')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('update_product_select')
+    })
+
+    it('should show lookup error when WooCommerce fails during selection', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'update_product_select'))
+      const { WooCommerceError } = await import('../../src/errors.js')
+      const wooCommerce = createMockWooCommerce()
+      vi.mocked(wooCommerce.getProductBySku).mockRejectedValue(new WooCommerceError('Not found', 404, 'not_found'))
+      const controller = createUpdateController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('MUG-BLUE'))
+
+      expect(result.response).toContain('Could not look up the product.')
+      expect(result.response).toContain('The store or resource was not found.')
+    })
+
+    it('should update price and stock and show old and new values', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'update_product_fields')
+      session.context.selectedProduct = { id: 1, name: 'Blue Mug', sku: 'MUG-BLUE', price: '10.00', stock: 5, permalink: productA.permalink }
+      memory.sessions.set('chat123', session)
+      const wooCommerce = createMockWooCommerce()
+      vi.mocked(wooCommerce.updateProduct).mockResolvedValue({ ...productA, price: '14.50', regular_price: '14.50', stock_quantity: 20 })
+      const controller = createUpdateController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('Price: 14.50\nStock: 20'))
+
+      expect(wooCommerce.updateProduct).toHaveBeenCalledWith(1, { regular_price: '14.5', stock_quantity: 20 })
+      expect(result.preMessage).toContain('Product "Blue Mug" updated!')
+      expect(result.preMessage).toContain('Price: 10.00 → 14.50')
+      expect(result.preMessage).toContain('Stock: 5 → 20')
+      expect(result.preMessage).toContain(productA.permalink)
+      expect(result.buttons?.body).toBe('Choose: 1 or 2')
+      const updatedSession = memory.sessions.get('chat123')
+      expect(updatedSession?.currentStep).toBe('awaiting_intent')
+      expect(updatedSession?.context.selectedProduct).toBeUndefined()
+    })
+
+    it('should update only stock when price is not provided', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'update_product_fields')
+      session.context.selectedProduct = { id: 1, name: 'Blue Mug', sku: 'MUG-BLUE', price: '10.00', stock: 5, permalink: productA.permalink }
+      memory.sessions.set('chat123', session)
+      const wooCommerce = createMockWooCommerce()
+      vi.mocked(wooCommerce.updateProduct).mockResolvedValue({ ...productA, stock_quantity: 0 })
+      const controller = createUpdateController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('Stock: 0'))
+
+      expect(wooCommerce.updateProduct).toHaveBeenCalledWith(1, { stock_quantity: 0 })
+      expect(result.preMessage).toContain('Stock: 5 → 0')
+      expect(result.preMessage).not.toContain('Price:')
+    })
+
+    it('should reject invalid values and stay on the fields step', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'update_product_fields')
+      session.context.selectedProduct = { id: 1, name: 'Blue Mug', sku: 'MUG-BLUE', price: '10.00', stock: 5, permalink: productA.permalink }
+      memory.sessions.set('chat123', session)
+      const wooCommerce = createMockWooCommerce()
+      const controller = createUpdateController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('Price: abc'))
+
+      expect(result.response).toContain('Price must be a valid number')
+      expect(wooCommerce.updateProduct).not.toHaveBeenCalled()
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('update_product_fields')
+    })
+
+    it('should ask for fields when none were provided', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'update_product_fields')
+      session.context.selectedProduct = { id: 1, name: 'Blue Mug', sku: 'MUG-BLUE', price: '10.00', stock: 5, permalink: productA.permalink }
+      memory.sessions.set('chat123', session)
+      const controller = createUpdateController(memory, createMockWooCommerce())
+
+      const result = await controller.process('chat123', textMsg('hello'))
+
+      expect(result.response).toBe('Please send at least one field to update.')
+    })
+
+    it('should show error message when update fails', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'update_product_fields')
+      session.context.selectedProduct = { id: 1, name: 'Blue Mug', sku: 'MUG-BLUE', price: '10.00', stock: 5, permalink: productA.permalink }
+      memory.sessions.set('chat123', session)
+      const { WooCommerceError } = await import('../../src/errors.js')
+      const wooCommerce = createMockWooCommerce()
+      vi.mocked(wooCommerce.updateProduct).mockRejectedValue(new WooCommerceError('Invalid ID.', 404, 'not_found'))
+      const controller = createUpdateController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('Stock: 3'))
+
+      expect(result.preMessage).toContain('Failed to update product.')
+      expect(result.preMessage).toContain('The store or resource was not found.')
+    })
+
+    it('should cancel update with its own message when stop is sent', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'update_product_fields')
+      session.context.selectedProduct = { id: 1, name: 'Blue Mug', sku: 'MUG-BLUE', price: '10.00', stock: 5, permalink: productA.permalink }
+      memory.sessions.set('chat123', session)
+      const controller = createUpdateController(memory, createMockWooCommerce())
+
+      const result = await controller.process('chat123', textMsg('stop'))
+
+      expect(result.buttons?.header).toBe('Product update cancelled.')
+      const updatedSession = memory.sessions.get('chat123')
+      expect(updatedSession?.currentStep).toBe('awaiting_intent')
+      expect(updatedSession?.context.selectedProduct).toBeUndefined()
+    })
+  })
+
+  describe('remove product flow', () => {
+    const testFlowWithRemove: FlowDefinition = {
+      ...testFlow,
+      steps: {
+        ...testFlow.steps,
+        remove_product_select: {
+          type: 'input',
+          messageKey: 'remove_product_select_prompt',
+          contextKey: 'productSelection',
+          nextStep: 'remove_product_confirm',
+          cancelMessageKey: 'remove_product_cancelled'
+        },
+        remove_product_confirm: {
+          type: 'choice',
+          responseType: 'buttons',
+          messageKey: 'remove_product_confirm_prompt',
+          options: [
+            { id: 'yes', label: 'Move to Trash', aliases: ['yes'] },
+            { id: 'force', label: 'Delete Permanently', aliases: ['force'] },
+            { id: 'no', label: 'Keep Product', aliases: ['no'] }
+          ],
+          transitions: {
+            yes: { nextStep: 'process_remove_product' },
+            force: { nextStep: 'process_force_remove_product' },
+            no: { nextStep: 'awaiting_intent', messageKey: 'remove_product_cancelled' }
+          },
+          onInvalid: { messageKey: 'remove_product_confirm_invalid', nextStep: 'remove_product_confirm' },
+          confirm: true
+        },
+        process_remove_product: {
+          type: 'action',
+          action: 'removeProduct',
+          nextStep: 'awaiting_intent'
+        },
+        process_force_remove_product: {
+          type: 'action',
+          action: 'forceRemoveProduct',
+          nextStep: 'awaiting_intent'
+        }
+      }
+    }
+
+    const testMessagesWithRemove = {
+      ...testMessages,
+      product_selected: 'Selected "{name}" (SKU: {sku})\nCurrent price: {price}\nCurrent stock: {stock}',
+      remove_product_select_prompt: 'Which product would you like to remove?',
+      remove_product_confirm_prompt: 'Remove this product?',
+      remove_product_confirm_invalid: 'Please reply with yes, force or no.',
+      remove_product_trashed: 'Product "{name}" moved to trash.',
+      remove_product_deleted: 'Product "{name}" permanently deleted.',
+      remove_product_error: 'Failed to remove product.',
+      remove_product_cancelled: 'Product removal cancelled.',
+      error_already_trashed: 'This product is already in the trash.'
+    }
+
+    const selectedProduct = { id: 7, name: 'Old Lamp', sku: 'LAMP-1', price: '30.00', stock: 2, permalink: 'https://test-store.com/product/old-lamp/' }
+    const lampProduct: WooProduct = { id: 7, name: 'Old Lamp', slug: 'old-lamp', permalink: selectedProduct.permalink, price: '30.00', regular_price: '30.00', sale_price: '', stock_status: 'instock', stock_quantity: 2, status: 'trash', description: '', short_description: '', sku: 'LAMP-1' }
+
+    function createRemoveController(memory: ReturnType<typeof createMockMemory>, wooCommerce: WooCommerceClient) {
+      return createFlowController({
+        memory,
+        flow: testFlowWithRemove,
+        messages: testMessagesWithRemove,
+        logger: mockLogger,
+        wooCommerce
+      })
+    }
+
+    it('should show product details and ask for confirmation after selection', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'remove_product_select'))
+      const wooCommerce = createMockWooCommerce()
+      vi.mocked(wooCommerce.getProductBySku).mockResolvedValue(lampProduct)
+      const controller = createRemoveController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('LAMP-1'))
+
+      expect(result.preMessage).toContain('Selected "Old Lamp" (SKU: LAMP-1)')
+      expect(result.preMessage).toContain('Current price: 30.00')
+      expect(result.preMessage).toContain('Current stock: 2')
+      expect(result.buttons?.header).toBeUndefined()
+      expect(result.buttons?.body).toBe('Remove this product?')
+      expect(result.buttons?.options.map(o => o.buttonId)).toEqual(['yes', 'force', 'no'])
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('remove_product_confirm')
+      expect(wooCommerce.deleteProduct).not.toHaveBeenCalled()
+    })
+
+    it('should move product to trash on yes', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'remove_product_confirm')
+      session.context.selectedProduct = selectedProduct
+      memory.sessions.set('chat123', session)
+      const wooCommerce = createMockWooCommerce()
+      vi.mocked(wooCommerce.deleteProduct).mockResolvedValue(lampProduct)
+      const controller = createRemoveController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('yes'))
+
+      expect(wooCommerce.deleteProduct).toHaveBeenCalledWith(7, false)
+      expect(result.preMessage).toBe('Product "Old Lamp" moved to trash.')
+      expect(result.buttons?.body).toBe('Choose: 1 or 2')
+      const updatedSession = memory.sessions.get('chat123')
+      expect(updatedSession?.currentStep).toBe('awaiting_intent')
+      expect(updatedSession?.context.selectedProduct).toBeUndefined()
+    })
+
+    it('should permanently delete product on force', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'remove_product_confirm')
+      session.context.selectedProduct = selectedProduct
+      memory.sessions.set('chat123', session)
+      const wooCommerce = createMockWooCommerce()
+      vi.mocked(wooCommerce.deleteProduct).mockResolvedValue(lampProduct)
+      const controller = createRemoveController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('force'))
+
+      expect(wooCommerce.deleteProduct).toHaveBeenCalledWith(7, true)
+      expect(result.preMessage).toBe('Product "Old Lamp" permanently deleted.')
+    })
+
+    it('should keep product and return to menu on no', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'remove_product_confirm')
+      session.context.selectedProduct = selectedProduct
+      memory.sessions.set('chat123', session)
+      const wooCommerce = createMockWooCommerce()
+      const controller = createRemoveController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('no'))
+
+      expect(wooCommerce.deleteProduct).not.toHaveBeenCalled()
+      expect(result.buttons?.header).toBe('Product removal cancelled.')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('awaiting_intent')
+    })
+
+    it('should re-ask confirmation on unrecognized reply', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'remove_product_confirm')
+      session.context.selectedProduct = selectedProduct
+      memory.sessions.set('chat123', session)
+      const wooCommerce = createMockWooCommerce()
+      const controller = createRemoveController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('maybe'))
+
+      expect(wooCommerce.deleteProduct).not.toHaveBeenCalled()
+      expect(result.buttons?.header).toBe('Please reply with yes, force or no.')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('remove_product_confirm')
+    })
+
+    it('should not take a number as a pick on the confirm buttons', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'remove_product_confirm')
+      session.context.selectedProduct = selectedProduct
+      memory.sessions.set('chat123', session)
+      const wooCommerce = createMockWooCommerce()
+      const controller = createRemoveController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('2'))
+
+      expect(wooCommerce.deleteProduct).not.toHaveBeenCalled()
+      expect(result.buttons?.header).toBe('Please reply with yes, force or no.')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('remove_product_confirm')
+    })
+
+    it('should map already trashed error to its own message', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'remove_product_confirm')
+      session.context.selectedProduct = selectedProduct
+      memory.sessions.set('chat123', session)
+      const { WooCommerceError } = await import('../../src/errors.js')
+      const wooCommerce = createMockWooCommerce()
+      vi.mocked(wooCommerce.deleteProduct).mockRejectedValue(
+        new WooCommerceError('The product has already been deleted.', 410, 'already_trashed')
+      )
+      const controller = createRemoveController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('yes'))
+
+      expect(result.preMessage).toContain('Failed to remove product.')
+      expect(result.preMessage).toContain('This product is already in the trash.')
+    })
+  })
+
+  describe('product list pagination', () => {
+    const testFlowWithBrowse: FlowDefinition = {
+      ...testFlow,
+      steps: {
+        ...testFlow.steps,
+        list_products: {
+          type: 'action',
+          action: 'listProducts',
+          nextStep: 'browse_products'
+        },
+        browse_products: {
+          type: 'choice',
+          responseType: 'buttons',
+          messageKey: 'browse_products_prompt',
+          options: [
+            { id: 'next', label: 'Next', aliases: ['next', 'more'] },
+            { id: 'previous', label: 'Previous', aliases: ['previous'] },
+            { id: 'menu', label: 'Back to menu', aliases: ['menu'] }
+          ],
+          transitions: {
+            next: { nextStep: 'list_products_next' },
+            previous: { nextStep: 'list_products_previous' },
+            menu: { nextStep: 'awaiting_intent' }
+          },
+          onInvalid: { messageKey: 'browse_products_invalid', nextStep: 'browse_products' }
+        },
+        list_products_next: {
+          type: 'action',
+          action: 'nextProductsPage',
+          nextStep: 'browse_products'
+        },
+        list_products_previous: {
+          type: 'action',
+          action: 'previousProductsPage',
+          nextStep: 'browse_products'
+        }
+      }
+    }
+
+    const testMessagesWithBrowse = {
+      ...testMessages,
+      list_products_page_info: 'Page {page} of {total_pages}',
+      list_products_first_page: 'Already on the first page.',
+      list_products_last_page: 'Already on the last page.',
+      browse_products_prompt: 'Browse products',
+      browse_products_invalid: 'Reply next, previous or menu.'
+    }
+
+    function createNamedProducts(start: number, count: number): WooProduct[] {
+      return Array.from({ length: count }, (_, i) => ({
+        id: start + i, name: `Product ${start + i}`, slug: `p-${start + i}`, permalink: `https://test-store.com/product/p-${start + i}/`,
+        price: '10.00', regular_price: '10.00', sale_price: '', stock_status: 'instock', stock_quantity: 1,
+        status: 'publish', description: '', short_description: '', sku: `SKU-${start + i}`
+      }))
+    }
+
+    function createPagedWooCommerce(): WooCommerceClient {
+      const wooCommerce = createMockWooCommerce()
+      vi.mocked(wooCommerce.getProducts).mockImplementation(async (_perPage, page = 1) =>
+        createProductPage(createNamedProducts((page - 1) * 20 + 1, page < 3 ? 20 : 5), page, 3, 45)
+      )
+      return wooCommerce
+    }
+
+    function createBrowseController(memory: ReturnType<typeof createMockMemory>, wooCommerce: WooCommerceClient) {
+      return createFlowController({
+        memory,
+        flow: testFlowWithBrowse,
+        messages: testMessagesWithBrowse,
+        logger: mockLogger,
+        wooCommerce
+      })
+    }
+
+    it('should show first page with page info and browse buttons', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'awaiting_intent'))
+      const wooCommerce = createPagedWooCommerce()
+      const controller = createBrowseController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('list'))
+
+      expect(result.preMessage).toContain('Products (45)')
+      expect(result.preMessage).toContain('Page 1 of 3')
+      expect(result.preMessage).toContain('1. Product 1 ')
+      expect(result.buttons?.options.map(o => o.buttonId)).toEqual(['next', 'previous', 'menu'])
+      const updatedSession = memory.sessions.get('chat123')
+      expect(updatedSession?.currentStep).toBe('browse_products')
+      expect(updatedSession?.context.productPagination).toEqual({ page: 1, totalPages: 3 })
+    })
+
+    it('should not show page info when everything fits on one page', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'awaiting_intent'))
+      const controller = createBrowseController(memory, createMockWooCommerce(createNamedProducts(1, 2)))
+
+      const result = await controller.process('chat123', textMsg('list'))
+
+      expect(result.preMessage).toContain('Products (2)')
+      expect(result.preMessage).not.toContain('Page ')
+    })
+
+    it('should fetch next and previous pages and remember current page', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'awaiting_intent'))
+      const wooCommerce = createPagedWooCommerce()
+      const controller = createBrowseController(memory, wooCommerce)
+
+      await controller.process('chat123', textMsg('list'))
+      const nextResult = await controller.process('chat123', textMsg('next'))
+
+      expect(wooCommerce.getProducts).toHaveBeenLastCalledWith(20, 2)
+      expect(nextResult.preMessage).toContain('Page 2 of 3')
+      expect(nextResult.preMessage).toContain('Product 21')
+      expect(memory.sessions.get('chat123')?.context.productPagination).toEqual({ page: 2, totalPages: 3 })
+
+      const previousResult = await controller.process('chat123', textMsg('previous'))
+
+      expect(wooCommerce.getProducts).toHaveBeenLastCalledWith(20, 1)
+      expect(previousResult.preMessage).toContain('Page 1 of 3')
+    })
+
+    it('should not fetch beyond the last page', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'browse_products')
+      session.context.productPagination = { page: 3, totalPages: 3 }
+      memory.sessions.set('chat123', session)
+      const wooCommerce = createPagedWooCommerce()
+      const controller = createBrowseController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('more'))
+
+      expect(wooCommerce.getProducts).not.toHaveBeenCalled()
+      expect(result.preMessage).toBe('Already on the last page.')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('browse_products')
+    })
+
+    it('should not fetch before the first page', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'browse_products')
+      session.context.productPagination = { page: 1, totalPages: 3 }
+      memory.sessions.set('chat123', session)
+      const wooCommerce = createPagedWooCommerce()
+      const controller = createBrowseController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('previous'))
+
+      expect(wooCommerce.getProducts).not.toHaveBeenCalled()
+      expect(result.preMessage).toBe('Already on the first page.')
+    })
+
+    it('should return to the intent menu on menu', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'browse_products')
+      session.context.productPagination = { page: 2, totalPages: 3 }
+      memory.sessions.set('chat123', session)
+      const controller = createBrowseController(memory, createPagedWooCommerce())
+
+      const result = await controller.process('chat123', textMsg('menu'))
+
+      expect(result.buttons?.body).toBe('Choose: 1 or 2')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('awaiting_intent')
+    })
+  })
+
+  describe('product search flow', () => {
+    const testFlowWithSearch: FlowDefinition = {
+      ...testFlow,
+      steps: {
+        ...testFlow.steps,
+        search_products: {
+          type: 'input',
+          messageKey: 'search_products_prompt',
+          contextKey: 'productSearch',
+          nextStep: 'search_products_select',
+          cancelMessageKey: 'search_products_cancelled'
+        },
+        search_products_select: {
+          type: 'input',
+          messageKey: 'search_products_select_prompt',
+          contextKey: 'productSelection',
+          nextStep: 'view_product',
+          cancelMessageKey: 'search_products_cancelled'
+        },
+        view_product: {
+          type: 'action',
+          action: 'viewProduct',
+          nextStep: 'product_detail'
+        },
+        product_detail: {
+          type: 'choice',
+          responseType: 'buttons',
+          messageKey: 'product_detail_prompt',
+          options: [
+            { id: 'update', label: 'Update Product', aliases: ['update'] },
+            { id: 'remove', label: 'Remove Product', aliases: ['remove'] },
+            { id: 'menu', label: 'Back to menu', aliases: ['menu'] }
+          ],
+          transitions: {
+            update: { nextStep: 'update_product_fields' },
+            remove: { nextStep: 'awaiting_intent' },
+            menu: { nextStep: 'awaiting_intent' }
+          },
+          onInvalid: { messageKey: 'product_detail_invalid', nextStep: 'product_detail' }
+        },
+        update_product_fields: {
+          type: 'input',
+          messageKey: 'update_product_fields_prompt',
+          contextKey: 'productUpdateInput',
+          nextStep: 'awaiting_intent'
+        }
+      }
+    }
+
+    const testMessagesWithSearch = {
+      ...testMessages,
+      search_products_prompt: 'What are you looking for?',
+      search_products_results: 'Results for "{query}" ({total}):',
+      search_products_no_results: 'No products match "{query}".',
+      search_products_error: 'Could not search products.',
+      search_products_select_prompt: 'Reply with the number of a product.',
+      search_products_cancelled: 'Product search cancelled.',
+      search_products_unknown_category: 'No category called "{category}".',
+      product_selected: 'Selected "{name}" (SKU: {sku})',
+      product_detail_prompt: 'What would you like to do?',
+      product_detail_invalid: 'Reply update, remove or menu.',
+      update_product_fields_prompt: 'Send the new values.',
+      product_card: '{name}\nSKU: {sku}\nPrice: {price}\nStock: {stock}\nCategories: {categories}\n{description}\n{permalink}',
+      product_card_sale_price: '{sale_price} (regular {regular_price})',
+      view_product_error: 'Could not load the product details.',
+      error_server: 'The store server is having issues.',
+      error_not_found: 'The store or resource was not found.'
+    }
+
+    const mugs: WooProduct[] = [
+      { id: 1, name: 'Blue Mug', slug: 'blue-mug', permalink: 'https://test-store.com/product/blue-mug/', price: '10.00', regular_price: '10.00', sale_price: '', stock_status: 'instock', stock_quantity: 5, status: 'publish', description: '', short_description: '', sku: 'MUG-BLUE' },
+      { id: 2, name: 'Red Mug', slug: 'red-mug', permalink: 'https://test-store.com/product/red-mug/', price: '12.00', regular_price: '12.00', sale_price: '', stock_status: 'outofstock', stock_quantity: 0, status: 'publish', description: '', short_description: '', sku: 'MUG-RED' }
+    ]
+
+    function createSearchController(memory: ReturnType<typeof createMockMemory>, wooCommerce: WooCommerceClient) {
+      return createFlowController({
+        memory,
+        flow: testFlowWithSearch,
+        messages: testMessagesWithSearch,
+        logger: mockLogger,
+        wooCommerce
+      })
+    }
+
+    it('should search by free text and list results like the product list', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'search_products'))
+      const wooCommerce = createMockWooCommerce(mugs)
+      const controller = createSearchController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('mug'))
+
+      expect(wooCommerce.searchProducts).toHaveBeenCalledWith({ search: 'mug' }, 20)
+      expect(result.response).toContain('Results for "mug" (2):')
+      expect(result.response).toContain('1. Blue Mug - 10.00 (instock)')
+      expect(result.response).toContain('2. Red Mug - 12.00 (outofstock)')
+      expect(result.response).toContain('Reply with the number of a product.')
+      const updatedSession = memory.sessions.get('chat123')
+      expect(updatedSession?.currentStep).toBe('search_products_select')
+      expect(updatedSession?.context.productList).toHaveLength(2)
+    })
+
+    it('should pass SKU, category and status filters', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'search_products'))
+      const wooCommerce = createMockWooCommerce(mugs)
+      const controller = createSearchController(memory, wooCommerce)
+
+      await controller.process('chat123', textMsg('SKU: MUG-RED\nCategory: 15\nStatus: Draft'))
+
+      expect(wooCommerce.searchProducts).toHaveBeenCalledWith({ sku: 'MUG-RED', category: 15, status: 'draft' }, 20)
+      expect(wooCommerce.findCategory).not.toHaveBeenCalled()
+    })
+
+    it('should look up a category name and search by its ID', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'search_products'))
+      const wooCommerce = createMockWooCommerce(mugs)
+      vi.mocked(wooCommerce.findCategory).mockResolvedValue({ id: 15, name: 'Mugs', slug: 'mugs' })
+      const controller = createSearchController(memory, wooCommerce)
+
+      await controller.process('chat123', textMsg('Category: Mugs'))
+
+      expect(wooCommerce.findCategory).toHaveBeenCalledWith('Mugs')
+      expect(wooCommerce.searchProducts).toHaveBeenCalledWith({ category: 15 }, 20)
+    })
+
+    it('should report an unknown category without searching', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'search_products'))
+      const wooCommerce = createMockWooCommerce(mugs)
+      const controller = createSearchController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('Name: red\nCategory: Teapots'))
+
+      expect(result.response).toBe('No category called "Teapots".')
+      expect(wooCommerce.searchProducts).not.toHaveBeenCalled()
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('search_products')
+    })
+
+    it('should treat the Name field as the search term', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'search_products'))
+      const wooCommerce = createMockWooCommerce(mugs)
+      const controller = createSearchController(memory, wooCommerce)
+
+      await controller.process('chat123', textMsg('Name: red\nCategory: 15'))
+
+      expect(wooCommerce.searchProducts).toHaveBeenCalledWith({ search: 'red', category: 15 }, 20)
+    })
+
+    it('should stay on the search step when nothing matches', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'search_products'))
+      const controller = createSearchController(memory, createMockWooCommerce(mugs))
+
+      const result = await controller.process('chat123', textMsg('teapot'))
+
+      expect(result.response).toBe('No products match "teapot".')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('search_products')
+    })
+
+    it('should show search error when WooCommerce fails', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'search_products'))
+      const { WooCommerceError } = await import('../../src/errors.js')
+      const wooCommerce = createMockWooCommerce()
+      vi.mocked(wooCommerce.searchProducts).mockRejectedValue(new WooCommerceError('Server error', 500, 'server_error'))
+      const controller = createSearchController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('mug'))
+
+      expect(result.response).toContain('Could not search products.')
+      expect(result.response).toContain('The store server is having issues.')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('search_products')
+    })
+
+    it('should open the product detail view when a result is selected', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'search_products'))
+      const wooCommerce = createMockWooCommerce(mugs)
+      const controller = createSearchController(memory, wooCommerce)
+
+      await controller.process('chat123', textMsg('mug'))
+      const result = await controller.process('chat123', textMsg('2'))
+
+      expect(wooCommerce.getProduct).toHaveBeenCalledWith(2)
+      expect(result.preMessage).toContain('Red Mug\nSKU: MUG-RED')
+      expect(result.preMessage).not.toContain('Selected')
+      expect(result.buttons?.body).toBe('What would you like to do?')
+      expect(result.buttons?.options.map(o => o.buttonId)).toEqual(['update', 'remove', 'menu'])
+      const updatedSession = memory.sessions.get('chat123')
+      expect(updatedSession?.currentStep).toBe('product_detail')
+      expect(updatedSession?.context.selectedProduct).toMatchObject({ id: 2, name: 'Red Mug' })
+    })
+
+    it('should show full attributes and send the featured image', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'search_products_select')
+      session.context.productList = [{ id: 3, name: 'Green Mug', sku: 'MUG-GREEN', price: '15.00', stock: 8, permalink: '' }]
+      memory.sessions.set('chat123', session)
+      const greenMug: WooProduct = {
+        ...mugs[0],
+        id: 3,
+        name: 'Green Mug',
+        sku: 'MUG-GREEN',
+        price: '12.00',
+        regular_price: '15.00',
+        sale_price: '12.00',
+        stock_quantity: 8,
+        short_description: '<p>Glazed <strong>stoneware</strong> mug</p>',
+        permalink: 'https://test-store.com/product/green-mug/',
+        categories: [{ id: 15, name: 'Mugs', slug: 'mugs' }, { id: 16, name: 'Kitchen', slug: 'kitchen' }],
+        images: [{ id: 9, src: 'https://test-store.com/uploads/green-mug.jpg?v=2', name: 'green-mug', alt: '' }]
+      }
+      const controller = createSearchController(memory, createMockWooCommerce([greenMug]))
+
+      const result = await controller.process('chat123', textMsg('1'))
+
+      expect(result.preMessage).toContain('Price: 12.00 (regular 15.00)')
+      expect(result.preMessage).toContain('Stock: instock (8)')
+      expect(result.preMessage).toContain('Categories: Mugs, Kitchen')
+      expect(result.preMessage).toContain('Glazed stoneware mug')
+      expect(result.preMessage).toContain('https://test-store.com/product/green-mug/')
+      expect(result.media).toEqual({
+        type: 'url',
+        url: 'https://test-store.com/uploads/green-mug.jpg?v=2',
+        fileName: 'green-mug.jpg',
+        caption: 'Green Mug'
+      })
+      expect(memory.sessions.get('chat123')?.context.selectedProduct).toMatchObject({ id: 3, price: '15.00', permalink: greenMug.permalink })
+    })
+
+    it('should not send an image when the product has none', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'search_products'))
+      const controller = createSearchController(memory, createMockWooCommerce(mugs))
+
+      await controller.process('chat123', textMsg('mug'))
+      const result = await controller.process('chat123', textMsg('1'))
+
+      expect(result.media).toBeUndefined()
+      expect(result.preMessage).toContain('Categories: -')
+    })
+
+    it('should show load error and still offer product actions when fetching fails', async () => {
+      const memory = createMockMemory()
+      const session = memory.createSession('chat123', 'search_products_select')
+      session.context.productList = [{ id: 99, name: 'Ghost Mug', sku: 'MUG-GHOST', price: '1.00', stock: 0, permalink: '' }]
+      memory.sessions.set('chat123', session)
+      const controller = createSearchController(memory, createMockWooCommerce(mugs))
+
+      const result = await controller.process('chat123', textMsg('1'))
+
+      expect(result.preMessage).toContain('Could not load the product details.')
+      expect(result.preMessage).toContain('The store or resource was not found.')
+      expect(result.buttons?.options.map(o => o.buttonId)).toEqual(['update', 'remove', 'menu'])
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('product_detail')
+    })
+
+    it('should chain into the update flow from the detail view', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'search_products'))
+      const controller = createSearchController(memory, createMockWooCommerce(mugs))
+
+      await controller.process('chat123', textMsg('mug'))
+      await controller.process('chat123', textMsg('1'))
+      const result = await controller.process('chat123', textMsg('update'))
+
+      expect(result.response).toBe('Send the new values.')
+      const updatedSession = memory.sessions.get('chat123')
+      expect(updatedSession?.currentStep).toBe('update_product_fields')
+      expect(updatedSession?.context.selectedProduct).toMatchObject({ id: 1, name: 'Blue Mug' })
+    })
+
+    it('should cancel search with its own message when stop is sent', async () => {
+      const memory = createMockMemory()
+      memory.sessions.set('chat123', memory.createSession('chat123', 'search_products'))
+      const controller = createSearchController(memory, createMockWooCommerce(mugs))
+
+      const result = await controller.process('chat123', textMsg('stop'))
+
+      expect(result.buttons?.header).toBe('Product search cancelled.')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('awaiting_intent')
+    })
+  })
+
+  describe('orders flow', () => {
+    const testFlowWithOrders: FlowDefinition = {
+      ...testFlow,
+      steps: {
+        ...testFlow.steps,
+        list_orders: {
+          type: 'action',
+          action: 'listOrders',
+          nextStep: 'browse_orders'
+        },
+        browse_orders: {
+          type: 'input',
+          messageKey: 'browse_orders_prompt',
+          contextKey: 'orderSelection',
+          nextStep: 'order_status_select',
+          cancelMessageKey: 'orders_closed'
+        },
+        order_status_select: {
+          type: 'input',
+          messageKey: 'order_status_prompt',
+          contextKey: 'orderStatusInput',
+          nextStep: 'order_status_confirm',
+          cancelMessageKey: 'order_status_cancelled'
+        },
+        order_status_confirm: {
+          type: 'choice',
+          responseType: 'buttons',
+          messageKey: 'order_status_confirm_prompt',
+          options: [
+            { id: 'yes', label: 'Change Status', aliases: ['yes'] },
+            { id: 'no', label: 'Keep Status', aliases: ['no'] }
+          ],
+          transitions: {
+            yes: { nextStep: 'process_order_status' },
+            no: { nextStep: 'awaiting_intent', messageKey: 'order_status_cancelled' }
+          },
+          onInvalid: { messageKey: 'order_status_confirm_invalid', nextStep: 'order_status_confirm' }
+        },
+        process_order_status: {
+          type: 'action',
+          action: 'updateOrderStatus',
+          nextStep: 'awaiting_intent'
+        }
+      }
+    }
+
+    const testMessagesWithOrders = {
+      ...testMessages,
+      orders_list_header: 'Recent orders ({count}):',
+      orders_list_header_filtered: 'Recent {status} orders ({count}):',
+      orders_none: 'No orders yet.',
+      orders_none_filtered: 'No {status} orders.',
+      orders_list_error: 'Could not fetch orders.',
+      browse_orders_prompt: 'Pick an order or filter by status.',
+      orders_closed: 'Closed orders.',
+      order_select_not_found: '"{query}" is not an order.',
+      order_select_error: 'Could not load the order.',
+      order_detail: 'Order #{number}\n{customer}\n{total} {currency}\n{status}\n{date}\n{items}',
+      order_status_prompt: 'Which status?',
+      order_status_invalid: 'Invalid status.',
+      order_status_same: 'Already {status}.',
+      order_status_confirm_header: 'Change order #{number} from {from} to {to}?',
+      order_status_confirm_prompt: 'Confirm the status change.',
+      order_status_confirm_invalid: 'Reply yes or no.',
+      order_status_updated: 'Order #{number} is now {status}.',
+      order_status_error: 'Failed to update the order status.',
+      order_status_cancelled: 'Order status unchanged.',
+      error_not_found: 'The store or resource was not found.'
+    }
+
+    function createOrder(overrides: Partial<WooOrder> = {}): WooOrder {
+      return {
+        id: 501,
+        number: '501',
+        status: 'processing',
+        currency: 'EUR',
+        total: '42.00',
+        date_created: '2026-10-19T09:30:00',
+        billing: { first_name: 'Dana', last_name: 'Levi' },
+        line_items: [{ id: 1, name: 'Blue Mug', quantity: 2, total: '20.00' }],
+        ...overrides
+      }
+    }
+
+    const orders = [
+      createOrder({ id: 502, number: '502', status: 'pending', total: '15.00', billing: { first_name: 'Avi', last_name: 'Cohen' } }),
+      createOrder()
+    ]
+
+    function createOrdersWooCommerce(): WooCommerceClient {
+      const wooCommerce = createMockWooCommerce()
+      vi.mocked(wooCommerce.getOrders).mockImplementation(async (filters = {}) =>
+        orders.filter(o => !filters.status || o.status === filters.status)
+      )
+      vi.mocked(wooCommerce.getOrder).mockImplementation(async (id) => {
+        const order = orders.find(o => o.id === id)
+        if (!order) throw new WooCommerceError('Invalid ID.', 404, 'not_found')
+        return order
+      })
+      vi.mocked(wooCommerce.updateOrderStatus).mockImplementation(async (id, status) =>
+        ({ ...orders.find(o => o.id === id)!, status })
+      )
+      return wooCommerce
+    }
+
+    function createOrdersController(memory: ReturnType<typeof createMockMemory>, wooCommerce: WooCommerceClient) {
+      return createFlowController({
+        memory,
+        flow: testFlowWithOrders,
+        messages: testMessagesWithOrders,
+        logger: mockLogger,
+        wooCommerce
+      })
+    }
+
+    function startAt(memory: ReturnType<typeof createMockMemory>, step: string) {
+      const session = memory.createSession('chat123', step)
+      memory.sessions.set('chat123', session)
+      return session
+    }
+
+    it('should list recent orders with number, customer, total and status', async () => {
+      const memory = createMockMemory()
+      startAt(memory, 'list_orders')
+      const wooCommerce = createOrdersWooCommerce()
+      const controller = createOrdersController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('list'))
+
+      expect(wooCommerce.getOrders).toHaveBeenCalledWith({ status: undefined }, 10)
+      expect(result.response).toContain('Recent orders (2):')
+      expect(result.response).toContain('1. #502 Avi Cohen - 15.00 EUR (pending)')
+      expect(result.response).toContain('2. #501 Dana Levi - 42.00 EUR (processing)')
+      expect(result.response).toContain('Pick an order or filter by status.')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('browse_orders')
+    })
+
+    it('should filter the list by status', async () => {
+      const memory = createMockMemory()
+      startAt(memory, 'browse_orders')
+      const wooCommerce = createOrdersWooCommerce()
+      const controller = createOrdersController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('On Hold'))
+
+      expect(wooCommerce.getOrders).toHaveBeenCalledWith({ status: 'on-hold' }, 10)
+      expect(result.response).toContain('No on-hold orders.')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('browse_orders')
+
+      const pendingResult = await controller.process('chat123', textMsg('pending'))
+
+      expect(pendingResult.response).toContain('Recent pending orders (1):')
+    })
+
+    it('should open an order by list number and ask for the new status', async () => {
+      const memory = createMockMemory()
+      startAt(memory, 'list_orders')
+      const wooCommerce = createOrdersWooCommerce()
+      const controller = createOrdersController(memory, wooCommerce)
+
+      await controller.process('chat123', textMsg('list'))
+      const result = await controller.process('chat123', textMsg('2'))
+
+      expect(wooCommerce.getOrder).toHaveBeenCalledWith(501)
+      expect(result.response).toContain('Order #501\nDana Levi\n42.00 EUR\nprocessing\n2026-10-19 09:30')
+      expect(result.response).toContain('• 2 × Blue Mug - 20.00')
+      expect(result.response).toContain('Which status?')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('order_status_select')
+    })
+
+    it('should open an order by #number', async () => {
+      const memory = createMockMemory()
+      startAt(memory, 'browse_orders')
+      const wooCommerce = createOrdersWooCommerce()
+      const controller = createOrdersController(memory, wooCommerce)
+
+      await controller.process('chat123', textMsg('#502'))
+
+      expect(wooCommerce.getOrder).toHaveBeenCalledWith(502)
+    })
+
+    it('should report unknown order ids', async () => {
+      const memory = createMockMemory()
+      startAt(memory, 'browse_orders')
+      const controller = createOrdersController(memory, createOrdersWooCommerce())
+
+      const result = await controller.process('chat123', textMsg('#999'))
+
+      expect(result.response).toContain('Could not load the order.')
+      expect(result.response).toContain('The store or resource was not found.')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('browse_orders')
+    })
+
+    it('should confirm and apply the status change', async () => {
+      const memory = createMockMemory()
+      startAt(memory, 'browse_orders')
+      const wooCommerce = createOrdersWooCommerce()
+      const controller = createOrdersController(memory, wooCommerce)
+
+      await controller.process('chat123', textMsg('#501'))
+      const confirmResult = await controller.process('chat123', textMsg('complete'))
+
+      expect(confirmResult.preMessage).toBe('Change order #501 from processing to completed?')
+      expect(confirmResult.buttons?.options.map(o => o.buttonId)).toEqual(['yes', 'no'])
+      expect(wooCommerce.updateOrderStatus).not.toHaveBeenCalled()
+
+      const result = await controller.process('chat123', textMsg('yes'))
+
+      expect(wooCommerce.updateOrderStatus).toHaveBeenCalledWith(501, 'completed')
+      expect(result.preMessage).toBe('Order #501 is now completed.')
+      const updatedSession = memory.sessions.get('chat123')
+      expect(updatedSession?.currentStep).toBe('awaiting_intent')
+      expect(updatedSession?.context.selectedOrder).toBeUndefined()
+    })
+
+    it('should not change the status when the owner declines', async () => {
+      const memory = createMockMemory()
+      startAt(memory, 'browse_orders')
+      const wooCommerce = createOrdersWooCommerce()
+      const controller = createOrdersController(memory, wooCommerce)
+
+      await controller.process('chat123', textMsg('#501'))
+      await controller.process('chat123', textMsg('cancelled'))
+      const result = await controller.process('chat123', textMsg('no'))
+
+      expect(wooCommerce.updateOrderStatus).not.toHaveBeenCalled()
+      expect(result.buttons?.header).toBe('Order status unchanged.')
+    })
+
+    it('should reject statuses outside processing, completed, on-hold and cancelled', async () => {
+      const memory = createMockMemory()
+      const session = startAt(memory, 'order_status_select')
+      session.context.selectedOrder = { id: 501, number: '501', customer: 'Dana Levi', total: '42.00', currency: 'EUR', status: 'processing' }
+      const controller = createOrdersController(memory, createOrdersWooCommerce())
+
+      const invalid = await controller.process('chat123', textMsg('refunded'))
+      const same = await controller.process('chat123', textMsg('processing'))
+
+      expect(invalid.response).toBe('Invalid status.')
+      expect(same.response).toBe('Already processing.')
+      expect(memory.sessions.get('chat123')?.currentStep).toBe('order_status_select')
+    })
+
+    it('should show error when the status update fails', async () => {
+      const memory = createMockMemory()
+      const session = startAt(memory, 'order_status_confirm')
+      session.context.selectedOrder = { id: 501, number: '501', customer: 'Dana Levi', total: '42.00', currency: 'EUR', status: 'processing' }
+      session.context.orderStatusUpdate = 'completed'
+      const wooCommerce = createOrdersWooCommerce()
+      vi.mocked(wooCommerce.updateOrderStatus).mockRejectedValue(new WooCommerceError('Invalid ID.', 404, 'not_found'))
+      const controller = createOrdersController(memory, wooCommerce)
+
+      const result = await controller.process('chat123', textMsg('yes'))
+
+      expect(result.preMessage).toContain('Failed to update the order status.')
+      expect(result.preMessage).toContain('The store or resource was not found.')
+    })
+  })
 })
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { validateFlow } from '../../src/conversation/flow-schema.js'
+import { loadFlow } from '../../src/app.js'
+import { loadMessages } from '../../src/messages.js'
+import { FlowDefinitionError } from '../../src/errors.js'
+
+const messages = {
+  welcome: 'Welcome!',
+  intent_prompt: 'What would you like to do?',
+  invalid_choice: 'Please pick an option.',
+  ask_name: 'Product name?',
+  goodbye: 'Bye!'
+}
+
+function createFlow() {
+  return {
+    id: 'test',
+    initialStep: 'awaiting_trigger',
+    sessionTimeoutMs: 300000,
+    steps: {
+      awaiting_trigger: { type: 'trigger', onMatch: { nextStep: 'awaiting_intent', messageKey: 'welcome' }, onNoMatch: { handled: false } },
+      awaiting_intent: {
+        type: 'choice',
+        responseType: 'buttons',
+        messageKey: 'intent_prompt',
+        options: [
+          { id: 'add', label: 'Add Product', aliases: ['add'] },
+          { id: 'done', label: 'Done', aliases: [], roles: ['owner', 'staff'] }
+        ],
+        transitions: { add: { nextStep: 'awaiting_name' }, done: { nextStep: 'finished' } },
+        onInvalid: { messageKey: 'invalid_choice', nextStep: 'awaiting_intent' }
+      },
+      awaiting_name: { type: 'input', messageKey: 'ask_name', contextKey: 'name', nextStep: 'create_product' },
+      create_product: { type: 'action', action: 'addProduct', nextStep: 'awaiting_intent' },
+      finished: { type: 'terminal', messageKey: 'goodbye' }
+    }
+  }
+}
+
+function problemsOf(definition: unknown, withMessages: Record<string, string> = messages): string[] {
+  try {
+    validateFlow(definition, withMessages)
+  } catch (err) {
+    if (err instanceof FlowDefinitionError) {
+      return err.problems
+    }
+    throw err
+  }
+  return []
+}
+
+describe('validateFlow', () => {
+  let flow: ReturnType<typeof createFlow> & { steps: Record<string, any> }
+
+  beforeEach(() => {
+    flow = createFlow()
+  })
+
+  it('should accept a valid flow', () => {
+    expect(validateFlow(flow, messages)).toEqual(flow)
+  })
+
+  it('should accept the shipped inventory flow', () => {
+    const shipped = loadFlow(loadMessages())
+
+    expect(shipped.steps[shipped.initialStep].type).toBe('trigger')
+  })
+
+  it('should report schema problems with their path', () => {
+    flow.steps.awaiting_intent.responseType = 'carousel'
+    flow.steps.awaiting_name.cancelMessagekey = 'cancelled'
+    flow.steps.create_product.type = 'webhook'
+
+    expect(problemsOf(flow)).toEqual([
+      expect.stringMatching(/^steps\.awaiting_intent\.responseType: Invalid enum value/),
+      "steps.awaiting_name: Unrecognized key(s) in object: 'cancelMessagekey'",
+      expect.stringMatching(/^steps\.create_product\.type: Invalid discriminator value/)
+    ])
+  })
+
+  it('should report every unknown step target', () => {
+    flow.steps.awaiting_intent.transitions.add.nextStep = 'awaiting_nmae'
+    flow.steps.awaiting_intent.onInvalid.nextStep = 'nowhere'
+    flow.steps.create_product.nextStep = 'awaiting_intnet'
+
+    expect(problemsOf(flow)).toEqual([
+      'steps.awaiting_intent.transitions.add.nextStep: unknown step "awaiting_nmae"',
+      'steps.awaiting_intent.onInvalid.nextStep: unknown step "nowhere"',
+      'steps.create_product.nextStep: unknown step "awaiting_intnet"',
+      'steps.awaiting_name: unreachable from initialStep "awaiting_trigger"',
+      'steps.create_product: unreachable from initialStep "awaiting_trigger"'
+    ])
+  })
+
+  it('should require a transition for every option and an option for every transition', () => {
+    flow.steps.awaiting_intent.transitions = { add: { nextStep: 'awaiting_name' }, remove: { nextStep: 'finished' } }
+
+    expect(problemsOf(flow)).toEqual([
+      'steps.awaiting_intent.transitions: no transition for option "done"',
+      'steps.awaiting_intent.transitions.remove: no option with this id'
+    ])
+  })
+
+  it('should require the initial step to be a trigger', () => {
+    flow.initialStep = 'awaiting_intent'
+    delete flow.steps.awaiting_trigger
+
+    expect(problemsOf(flow)).toEqual(['initialStep: "awaiting_intent" is a choice step, not a trigger'])
+  })
+
+  it('should report message keys missing from the messages', () => {
+    const { welcome: _welcome, goodbye: _goodbye, ...partial } = messages
+
+    expect(problemsOf(flow, partial)).toEqual([
+      'steps.awaiting_trigger.onMatch.messageKey: unknown message key "welcome"',
+      'steps.finished.messageKey: unknown message key "goodbye"'
+    ])
+  })
+
+  it('should refuse confirm steps sent as a numbered menu', () => {
+    flow.steps.awaiting_intent.confirm = true
+    flow.steps.awaiting_intent.responseType = 'text'
+
+    expect(problemsOf(flow)).toEqual([
+      'steps.awaiting_intent.confirm: confirm steps refuse menu numbers, so they cannot be sent as a numbered menu'
+    ])
+  })
+
+  it('should report unreachable steps', () => {
+    flow.steps.orphan = { type: 'terminal' }
+
+    expect(problemsOf(flow)).toEqual(['steps.orphan: unreachable from initialStep "awaiting_trigger"'])
+  })
+
+  it('should list every problem in the error message', () => {
+    flow.steps.create_product.nextStep = 'missing'
+
+    expect(() => validateFlow(flow, messages)).toThrow(
+      'Flow definition is invalid:\n  - steps.create_product.nextStep: unknown step "missing"'
+    )
+  })
+})
+
+describe('loadFlow', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'flow-test-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should validate the file it loads', () => {
+    const path = join(dir, 'flow.json')
+    writeFileSync(path, JSON.stringify({ ...createFlow(), initialStep: 'start' }))
+
+    expect(() => loadFlow(messages, path)).toThrow('initialStep: unknown step "start"')
+  })
+
+  it('should report JSON syntax errors as flow problems', () => {
+    const path = join(dir, 'flow.json')
+    writeFileSync(path, '{ "id": ')
+
+    expect(() => loadFlow(messages, path)).toThrow(FlowDefinitionError)
+    expect(() => loadFlow(messages, path)).toThrow(`${path} is invalid`)
+  })
+})
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createJobQueue, type JobQueueDeps } from '../../src/queue/job-queue.js'
+import { createInMemoryJobStore } from '../../src/queue/job-store.js'
+import type { JobStore } from '../../src/queue/types.js'
+import { JobQueueError } from '../../src/errors.js'
+import { createManualClock } from '../mocks/clock.js'
+import { createMockLogger } from '../mocks/greenapi.js'
+
+function deferred() {
+  let resolve: () => void = () => {}
+  const promise = new Promise<void>(res => { resolve = res })
+  return { promise, resolve }
+}
+
+function flush() {
+  return new Promise(resolve => setImmediate(resolve))
+}
+
+describe('JobQueue', () => {
+  let clock: ReturnType<typeof createManualClock>
+  let logger: ReturnType<typeof createMockLogger>
+  let store: JobStore<string>
+
+  beforeEach(() => {
+    clock = createManualClock(new Date('2026-03-02T10:00:00Z'))
+    logger = createMockLogger()
+    store = createInMemoryJobStore<string>()
+  })
+
+  function createQueue(overrides: Partial<JobQueueDeps<string>> = {}) {
+    return createJobQueue<string>({
+      name: 'test',
+      store,
+      worker: vi.fn().mockResolvedValue(undefined),
+      clock,
+      logger,
+      ...overrides
+    })
+  }
+
+  it('should run enqueued jobs in order and remove them from the store', async () => {
+    const seen: string[] = []
+    const queue = createQueue({ worker: async payload => { seen.push(payload) } })
+    await queue.start()
+
+    await queue.enqueue('a')
+    await queue.enqueue('b')
+    await flush()
+
+    expect(seen).toEqual(['a', 'b'])
+    expect(await store.list()).toEqual([])
+    expect(queue.stats()).toMatchObject({ depth: 0, running: 0, completed: 2 })
+  })
+
+  it('should not run jobs before start', async () => {
+    const worker = vi.fn().mockResolvedValue(undefined)
+    const queue = createQueue({ worker })
+
+    await queue.enqueue('a')
+    await flush()
+
+    expect(worker).not.toHaveBeenCalled()
+    expect(queue.stats().depth).toBe(1)
+  })
+
+  it('should ignore a job whose id is already queued', async () => {
+    const queue = createQueue()
+
+    expect(await queue.enqueue('a', 'MSG-1')).toBe(true)
+    expect(await queue.enqueue('a', 'MSG-1')).toBe(false)
+    expect(queue.stats().depth).toBe(1)
+  })
+
+  it('should limit the number of jobs running at once', async () => {
+    const gate = deferred()
+    const worker = vi.fn().mockImplementation(() => gate.promise)
+    const queue = createQueue({ worker, concurrency: 2 })
+    await queue.start()
+
+    await queue.enqueue('a')
+    await queue.enqueue('b')
+    await queue.enqueue('c')
+
+    expect(worker).toHaveBeenCalledTimes(2)
+    expect(queue.stats()).toMatchObject({ depth: 1, running: 2 })
+
+    gate.resolve()
+    await flush()
+    expect(worker).toHaveBeenCalledTimes(3)
+  })
+
+  it('should retry failed jobs with exponential backoff', async () => {
+    const worker = vi.fn()
+      .mockRejectedValueOnce(new Error('store timeout'))
+      .mockRejectedValueOnce(new Error('store timeout'))
+      .mockResolvedValueOnce(undefined)
+    const queue = createQueue({ worker, maxAttempts: 3, retryDelayMs: 1000 })
+    await queue.start()
+
+    await queue.enqueue('a')
+    await flush()
+    expect(worker).toHaveBeenCalledTimes(1)
+    expect(queue.stats()).toMatchObject({ depth: 1, retried: 1 })
+    expect((await store.list())[0]).toMatchObject({ attempts: 1, lastError: 'store timeout' })
+
+    await clock.advance(1000)
+    expect(worker).toHaveBeenCalledTimes(2)
+
+    await clock.advance(1999)
+    expect(worker).toHaveBeenCalledTimes(2)
+    await clock.advance(1)
+    expect(worker).toHaveBeenCalledTimes(3)
+    expect(queue.stats()).toMatchObject({ depth: 0, completed: 1, retried: 2 })
+  })
+
+  it('should dead-letter jobs that used up their attempts', async () => {
+    const worker = vi.fn().mockRejectedValue(new Error('store down'))
+    const queue = createQueue({ worker, maxAttempts: 2, retryDelayMs: 10 })
+    await queue.start()
+
+    await queue.enqueue('a', 'MSG-1')
+    await flush()
+    await clock.advance(10)
+
+    expect(worker).toHaveBeenCalledTimes(2)
+    expect(await queue.deadLetters()).toEqual([
+      expect.objectContaining({ id: 'MSG-1', payload: 'a', attempts: 2, lastError: 'store down', failedAt: expect.any(Number) })
+    ])
+    expect(await store.list()).toEqual([])
+    expect(queue.stats().deadLettered).toBe(1)
+    expect(logger.error).toHaveBeenCalledWith(expect.objectContaining({ event: 'job_dead_lettered', jobId: 'MSG-1', attempts: 2 }))
+  })
+
+  it('should dead-letter non-retryable errors straight away', async () => {
+    const worker = vi.fn().mockRejectedValue(new TypeError('bad payload'))
+    const queue = createQueue({ worker, isRetryable: err => !(err instanceof TypeError) })
+    await queue.start()
+
+    await queue.enqueue('a')
+    await flush()
+
+    expect(worker).toHaveBeenCalledTimes(1)
+    expect(queue.stats()).toMatchObject({ deadLettered: 1, retried: 0 })
+  })
+
+  it('should restore jobs left in the store on start', async () => {
+    await store.add({ id: 'left-over', payload: 'a', attempts: 1, enqueuedAt: 0 })
+    const worker = vi.fn().mockResolvedValue(undefined)
+    const queue = createQueue({ worker })
+
+    await queue.start()
+    await flush()
+
+    expect(worker).toHaveBeenCalledWith('a', expect.objectContaining({ id: 'left-over' }))
+    expect(logger.info).toHaveBeenCalledWith({ event: 'jobs_restored', queue: 'test', count: 1 })
+  })
+
+  it('should measure latency from enqueue to completion', async () => {
+    const gate = deferred()
+    const queue = createQueue({ worker: () => gate.promise })
+    await queue.start()
+
+    await queue.enqueue('a')
+    await clock.advance(250)
+    gate.resolve()
+    await flush()
+
+    expect(queue.stats().latencyMs).toEqual({ last: 250, average: 250, max: 250 })
+  })
+
+  describe('drain', () => {
+    it('should wait for running and queued jobs, then refuse new ones', async () => {
+      const gate = deferred()
+      const seen: string[] = []
+      const queue = createQueue({ worker: async payload => { await gate.promise; seen.push(payload) } })
+      await queue.start()
+      await queue.enqueue('a')
+      await queue.enqueue('b')
+
+      const drained = queue.drain(5000)
+      await expect(queue.enqueue('c')).rejects.toThrow(JobQueueError)
+      gate.resolve()
+
+      expect(await drained).toBe(true)
+      expect(seen).toEqual(['a', 'b'])
+    })
+
+    it('should give up after the timeout', async () => {
+      const queue = createQueue({ worker: () => new Promise(() => {}) })
+      await queue.start()
+      await queue.enqueue('a')
+
+      const drained = queue.drain(5000)
+      await clock.advance(5000)
+
+      expect(await drained).toBe(false)
+      expect(logger.info).toHaveBeenCalledWith(expect.objectContaining({ event: 'job_queue_drained', emptied: false, remaining: 1 }))
+    })
+
+    it('should leave jobs waiting for a retry in the store', async () => {
+      const queue = createQueue({ worker: vi.fn().mockRejectedValue(new Error('store timeout')) })
+      await queue.start()
+      await queue.enqueue('a', 'MSG-1')
+      await flush()
+
+      expect(await queue.drain(5000)).toBe(true)
+      expect(clock.pendingTimers()).toBe(0)
+      expect(await store.list()).toEqual([expect.objectContaining({ id: 'MSG-1', attempts: 1 })])
+    })
+  })
+})
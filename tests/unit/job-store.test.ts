@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createFileJobStore, createInMemoryJobStore, DEAD_LETTER_LIMIT } from '../../src/queue/job-store.js'
+import type { Job, JobStore } from '../../src/queue/types.js'
+
+let tempDir: string
+let nextFile = 0
+
+beforeAll(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'jobs-'))
+})
+
+afterAll(async () => {
+  await rm(tempDir, { recursive: true, force: true })
+})
+
+function job(id: string, payload = `payload-${id}`): Job<string> {
+  return { id, payload, attempts: 0, enqueuedAt: 1000 }
+}
+
+const backends: Array<{ name: string; create: () => JobStore<string> }> = [
+  { name: 'InMemoryJobStore', create: () => createInMemoryJobStore<string>() },
+  { name: 'FileJobStore', create: () => createFileJobStore<string>({ filePath: join(tempDir, `jobs-${nextFile++}.json`) }) }
+]
+
+describe.each(backends)('$name', ({ create }) => {
+  it('should list added jobs oldest first', async () => {
+    const store = create()
+
+    await store.add(job('a'))
+    await store.add(job('b'))
+
+    expect((await store.list()).map(j => j.id)).toEqual(['a', 'b'])
+  })
+
+  it('should update and remove jobs', async () => {
+    const store = create()
+    await store.add(job('a'))
+
+    await store.update({ ...job('a'), attempts: 2, lastError: 'timeout' })
+    expect(await store.list()).toEqual([{ ...job('a'), attempts: 2, lastError: 'timeout' }])
+
+    await store.remove('a')
+    expect(await store.list()).toEqual([])
+  })
+
+  it('should keep only the most recent dead letters', async () => {
+    const store = create()
+
+    for (let i = 0; i < DEAD_LETTER_LIMIT + 2; i++) {
+      await store.addDeadLetter({ ...job(`dead-${i}`), failedAt: 2000 })
+    }
+
+    const deadLetters = await store.listDeadLetters()
+    expect(deadLetters).toHaveLength(DEAD_LETTER_LIMIT)
+    expect(deadLetters[0].id).toBe('dead-2')
+  })
+})
+
+describe('FileJobStore persistence', () => {
+  it('should restore jobs and dead letters written by a previous process', async () => {
+    const filePath = join(tempDir, 'restart.json')
+    const first = createFileJobStore<string>({ filePath })
+    await first.add(job('a'))
+    await first.addDeadLetter({ ...job('b'), failedAt: 2000 })
+    await first.close?.()
+
+    const second = createFileJobStore<string>({ filePath })
+
+    expect(await second.list()).toEqual([job('a')])
+    expect(await second.listDeadLetters()).toEqual([{ ...job('b'), failedAt: 2000 }])
+  })
+
+  it('should write the file atomically as JSON', async () => {
+    const filePath = join(tempDir, 'nested', 'jobs.json')
+    const store = createFileJobStore<string>({ filePath })
+
+    await store.add(job('a'))
+
+    expect(JSON.parse(await readFile(filePath, 'utf-8'))).toEqual({ jobs: [job('a')], deadLetters: [] })
+  })
+
+  it('should start empty when the file is corrupt', async () => {
+    const filePath = join(tempDir, 'corrupt.json')
+    await writeFile(filePath, '{not json', 'utf-8')
+
+    expect(await createFileJobStore<string>({ filePath }).list()).toEqual([])
+  })
+})
@@ -0,0 +1,275 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createLayoutSender, formatNumberedMenu, splitText, truncate, GREEN_API_LIMITS, type MessageLimits } from '../../src/greenapi/layout.js'
+import { createMockSender } from '../mocks/greenapi.js'
+import { createGreenApiChannel } from '../../src/channels/greenapi.js'
+import { createFlowController } from '../../src/conversation/flow-controller.js'
+import { createInMemoryManager } from '../../src/conversation/memory.js'
+import { createFakeWooCommerceClient, DEMO_PRODUCTS } from '../../src/woocommerce/fake-client.js'
+import { loadFlow } from '../../src/app.js'
+import { loadMessages } from '../../src/messages.js'
+
+const smallLimits: MessageLimits = {
+  ...GREEN_API_LIMITS,
+  textLength: 20,
+  buttonBodyLength: 20,
+  buttonTextLength: 10,
+  headerLength: 8,
+  footerLength: 8,
+  captionLength: 20
+}
+
+describe('truncate', () => {
+  it('should leave text within the limit unchanged', () => {
+    expect(truncate('Update', 10)).toBe('Update')
+  })
+
+  it('should cut long text and end it with an ellipsis', () => {
+    const result = truncate('Update Product Details', 10)
+
+    expect(result).toBe('Update Pr…')
+    expect(result.length).toBe(10)
+  })
+})
+
+describe('splitText', () => {
+  it('should return short text as a single message', () => {
+    expect(splitText('Hello', 20)).toEqual(['Hello'])
+  })
+
+  it('should split on line boundaries', () => {
+    const text = ['1. Product A', '2. Product B', '3. Product C'].join('\n')
+
+    expect(splitText(text, 26)).toEqual(['1. Product A\n2. Product B', '3. Product C'])
+  })
+
+  it('should split a single long line at spaces', () => {
+    const chunks = splitText('alpha beta gamma delta epsilon', 12)
+
+    expect(chunks).toEqual(['alpha beta', 'gamma delta', 'epsilon'])
+  })
+
+  it('should hard split a word longer than the limit', () => {
+    expect(splitText('x'.repeat(25), 10)).toEqual(['x'.repeat(10), 'x'.repeat(10), 'x'.repeat(5)])
+  })
+
+  it('should not send blank messages for empty lines at a boundary', () => {
+    const chunks = splitText(`${'a'.repeat(10)}\n\n${'b'.repeat(10)}`, 10)
+
+    expect(chunks).toEqual(['a'.repeat(10), 'b'.repeat(10)])
+  })
+
+  it('should keep every chunk within the limit', () => {
+    const lines = Array.from({ length: 50 }, (_, i) => `${i + 1}. Product ${i + 1} - $${i}.99 (stock: ${i})`)
+
+    const chunks = splitText(lines.join('\n'), 100)
+
+    expect(chunks.every(chunk => chunk.length <= 100)).toBe(true)
+    expect(chunks.join('\n')).toBe(lines.join('\n'))
+  })
+})
+
+describe('formatNumberedMenu', () => {
+  it('should number options after the body', () => {
+    const menu = formatNumberedMenu({
+      header: 'Invalid choice',
+      body: 'What would you like to do?',
+      labels: ['List Products', 'Add New Product']
+    })
+
+    expect(menu).toBe('Invalid choice\n\nWhat would you like to do?\n\n1. List Products\n2. Add New Product')
+  })
+})
+
+describe('LayoutSender', () => {
+  let inner: ReturnType<typeof createMockSender>
+
+  beforeEach(() => {
+    inner = createMockSender()
+  })
+
+  it('should send long text as several messages in order', async () => {
+    const sender = createLayoutSender(inner, smallLimits)
+
+    const response = await sender.sendMessage('chat', 'first line\nsecond line\nthird line')
+
+    expect(inner.sendMessage.mock.calls).toEqual([
+      ['chat', 'first line'],
+      ['chat', 'second line'],
+      ['chat', 'third line']
+    ])
+    expect(response).toEqual({ idMessage: 'mock-msg-id' })
+  })
+
+  it('should truncate button labels and footer', async () => {
+    const sender = createLayoutSender(inner, smallLimits)
+
+    await sender.sendButtons({
+      chatId: 'chat',
+      body: 'Pick one',
+      header: 'Product',
+      footer: 'Reply with a choice',
+      buttons: [{ buttonId: 'update', buttonText: 'Update Product' }]
+    })
+
+    expect(inner.sendButtons).toHaveBeenCalledWith({
+      chatId: 'chat',
+      body: 'Pick one',
+      header: 'Product',
+      footer: 'Reply w…',
+      buttons: [{ buttonId: 'update', buttonText: 'Update Pr…' }]
+    })
+  })
+
+  it('should move a header that is too long into the body', async () => {
+    const sender = createLayoutSender(inner, { ...smallLimits, buttonBodyLength: 100 })
+
+    await sender.sendButtons({
+      chatId: 'chat',
+      body: 'Pick one',
+      header: 'Product actions',
+      buttons: [{ buttonId: 'update', buttonText: 'Update' }]
+    })
+    await sender.sendListMessage({
+      chatId: 'chat',
+      message: 'Pick one',
+      title: 'Product actions',
+      buttonText: 'Menu',
+      sections: [{ rows: [{ rowId: 'update', title: 'Update' }] }]
+    })
+
+    expect(inner.sendButtons).toHaveBeenCalledWith(expect.objectContaining({ header: undefined, body: 'Product actions\n\nPick one' }))
+    expect(inner.sendListMessage).toHaveBeenCalledWith(expect.objectContaining({ title: undefined, message: 'Product actions\n\nPick one' }))
+  })
+
+  it('should deliver the whole product summary in the remove confirmation', async () => {
+    const messages = loadMessages()
+    const product = { ...DEMO_PRODUCTS[0], name: 'Blue Ceramic Coffee Mug Large', sku: 'MUG-BLUE-L', regular_price: '24.90', price: '24.90', stock_quantity: 7 }
+    const flowController = createFlowController({
+      memory: createInMemoryManager(60000),
+      flow: loadFlow(messages),
+      messages,
+      wooCommerce: createFakeWooCommerceClient({ products: [product] })
+    })
+    const channel = createGreenApiChannel(createLayoutSender(inner))
+
+    for (const text of ['hello', 'remove', 'MUG-BLUE-L']) {
+      await channel.sendReply('chat', await flowController.process('chat', { type: 'text', content: text }))
+    }
+
+    const delivered = [
+      ...inner.sendMessage.mock.calls.map(([, text]) => text),
+      ...inner.sendButtons.mock.calls.map(([params]) => `${params.header ?? ''}\n${params.body}`)
+    ].join('\n')
+    expect(delivered).toContain('Selected "Blue Ceramic Coffee Mug Large" (SKU: MUG-BLUE-L)')
+    expect(delivered).toContain('24.90')
+    expect(delivered).toContain('Current stock: 7')
+    for (const [params] of inner.sendButtons.mock.calls) {
+      expect(params.header?.length ?? 0).toBeLessThanOrEqual(GREEN_API_LIMITS.headerLength)
+    }
+  })
+
+  it('should send the part of a long body that does not fit as text first', async () => {
+    const sender = createLayoutSender(inner, smallLimits)
+
+    await sender.sendButtons({
+      chatId: 'chat',
+      body: '1. Product A\n2. Product B\nChoose:',
+      buttons: [{ buttonId: 'next', buttonText: 'Next' }]
+    })
+
+    expect(inner.sendMessage).toHaveBeenCalledWith('chat', '1. Product A')
+    expect(inner.sendButtons).toHaveBeenCalledWith(expect.objectContaining({ body: '2. Product B\nChoose:' }))
+  })
+
+  it('should fall back to a numbered text menu when there are too many options', async () => {
+    const sender = createLayoutSender(inner)
+
+    await sender.sendButtons({
+      chatId: 'chat',
+      body: 'What would you like to do?',
+      buttons: ['List', 'Add', 'Update', 'Delete'].map(label => ({ buttonId: label.toLowerCase(), buttonText: label }))
+    })
+
+    expect(inner.sendButtons).not.toHaveBeenCalled()
+    expect(inner.sendMessage).toHaveBeenCalledWith('chat', 'What would you like to do?\n\n1. List\n2. Add\n3. Update\n4. Delete')
+  })
+
+  it('should keep full labels in the numbered menu', async () => {
+    const sender = createLayoutSender(inner, { ...smallLimits, textLength: 4096 })
+
+    await sender.sendButtons({
+      chatId: 'chat',
+      body: 'Choose',
+      buttons: ['Search Products', 'Low Stock Report', 'Recent Orders', 'Add New Product']
+        .map((label, i) => ({ buttonId: String(i), buttonText: label }))
+    })
+
+    expect(inner.sendMessage.mock.calls[0][1]).toContain('2. Low Stock Report')
+  })
+
+  it('should truncate list rows, section titles and the list button', async () => {
+    const sender = createLayoutSender(inner)
+
+    await sender.sendListMessage({
+      chatId: 'chat',
+      message: 'What would you like to do?',
+      buttonText: 'Open the full shop menu',
+      sections: [{
+        title: 'Products and inventory tools',
+        rows: [{ rowId: 'list', title: 'List every product in the shop', description: 'x'.repeat(80) }]
+      }]
+    })
+
+    const [params] = inner.sendListMessage.mock.calls[0]
+    expect(params.buttonText).toBe('Open the full shop…')
+    expect(params.sections[0].title).toBe('Products and inventory…')
+    expect(params.sections[0].rows[0]).toEqual({ rowId: 'list', title: 'List every product in t…', description: `${'x'.repeat(71)}…` })
+  })
+
+  it('should fall back to a numbered text menu when a list has too many rows', async () => {
+    const sender = createLayoutSender(inner)
+    const rows = Array.from({ length: 11 }, (_, i) => ({ rowId: `p${i + 1}`, title: `Product ${i + 1}` }))
+
+    await sender.sendListMessage({
+      chatId: 'chat',
+      message: 'Pick a product',
+      buttonText: 'Products',
+      sections: [{ title: 'A-K', rows: rows.slice(0, 6) }, { title: 'L-Z', rows: rows.slice(6) }]
+    })
+
+    expect(inner.sendListMessage).not.toHaveBeenCalled()
+    const [[, text]] = inner.sendMessage.mock.calls
+    expect(text).toContain('Pick a product\n\n1. Product 1\n')
+    expect(text).toContain('11. Product 11')
+  })
+
+  it('should send an overlong caption as text after the file', async () => {
+    const sender = createLayoutSender(inner, smallLimits)
+    const caption = 'A very long product caption'
+
+    await sender.sendFileByUrl({ chatId: 'chat', urlFile: 'https://example.com/a.jpg', fileName: 'a.jpg', caption })
+
+    expect(inner.sendFileByUrl).toHaveBeenCalledWith({ chatId: 'chat', urlFile: 'https://example.com/a.jpg', fileName: 'a.jpg', caption: undefined })
+    expect(inner.sendMessage.mock.calls.map(([, text]) => text).join(' ')).toBe(caption)
+    expect(inner.sendFileByUrl.mock.invocationCallOrder[0]).toBeLessThan(inner.sendMessage.mock.invocationCallOrder[0])
+  })
+
+  it('should send an overlong upload caption as text after the file', async () => {
+    const sender = createLayoutSender(inner, smallLimits)
+    const file = Buffer.from('id,name\n')
+
+    await sender.sendFileByUpload({ chatId: 'chat', file, fileName: 'products.csv', caption: 'Every product in the shop' })
+
+    expect(inner.sendFileByUpload).toHaveBeenCalledWith({ chatId: 'chat', file, fileName: 'products.csv', caption: undefined })
+    expect(inner.sendMessage).toHaveBeenCalled()
+  })
+
+  it('should pass a short caption through', async () => {
+    const sender = createLayoutSender(inner, smallLimits)
+
+    await sender.sendFileByUrl({ chatId: 'chat', urlFile: 'https://example.com/a.jpg', fileName: 'a.jpg', caption: 'Product A' })
+
+    expect(inner.sendFileByUrl).toHaveBeenCalledWith(expect.objectContaining({ caption: 'Product A' }))
+    expect(inner.sendMessage).not.toHaveBeenCalled()
+  })
+})
@@ -1,11 +1,68 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { createInMemoryManager } from '../../src/conversation/memory.js'
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createInMemoryManager, EXPIRED_SESSION_RETENTION_MS } from '../../src/conversation/memory.js'
+import { createFileMemoryManager } from '../../src/conversation/file-memory.js'
+import { createRedisMemoryManager } from '../../src/conversation/redis-memory.js'
+import { createRedisClient } from '../../src/redis/client.js'
+import type { MemoryManager } from '../../src/conversation/types.js'
+import { startFakeRedisServer, type FakeRedisServer } from '../mocks/redis-server.js'
+
+const TIMEOUT_MS = 5000
+
+let tempDir: string
+let redis: FakeRedisServer
+let openManagers: MemoryManager[] = []
+let nextPrefix = 0
+
+beforeAll(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'sessions-'))
+  redis = await startFakeRedisServer()
+})
+
+afterAll(async () => {
+  await redis.close()
+  await rm(tempDir, { recursive: true, force: true })
+})
 
-describe('InMemoryManager', () => {
-  const TIMEOUT_MS = 5000
+afterEach(async () => {
+  await Promise.all(openManagers.map(manager => manager.close?.()))
+  openManagers = []
+})
+
+function track(manager: MemoryManager): MemoryManager {
+  openManagers.push(manager)
+  return manager
+}
+
+const backends: Array<{ name: string; create: () => Promise<MemoryManager> }> = [
+  {
+    name: 'InMemoryManager',
+    create: async () => createInMemoryManager(TIMEOUT_MS)
+  },
+  {
+    name: 'FileMemoryManager',
+    create: async () => track(createFileMemoryManager({
+      filePath: join(tempDir, `sessions-${nextPrefix++}.json`),
+      timeoutMs: TIMEOUT_MS
+    }))
+  },
+  {
+    name: 'RedisMemoryManager',
+    create: async () => track(createRedisMemoryManager({
+      client: createRedisClient(redis.url),
+      timeoutMs: TIMEOUT_MS,
+      keyPrefix: `test-${nextPrefix++}:`
+    }))
+  }
+]
+
+describe.each(backends)('$name', ({ create }) => {
+  const createMemory = create
 
   beforeEach(() => {
-    vi.useFakeTimers()
+    vi.useFakeTimers({ toFake: ['Date'] })
   })
 
   afterEach(() => {
@@ -13,8 +70,8 @@ describe('InMemoryManager', () => {
   })
 
   describe('createSession', () => {
-    it('should create session with correct initial values', () => {
-      const memory = createInMemoryManager(TIMEOUT_MS)
+    it('should create session with correct initial values', async () => {
+      const memory = await createMemory()
       const now = Date.now()
 
       const session = memory.createSession('chat123', 'awaiting_trigger')
@@ -29,128 +86,258 @@ describe('InMemoryManager', () => {
   })
 
   describe('set and get', () => {
-    it('should store and retrieve session', () => {
-      const memory = createInMemoryManager(TIMEOUT_MS)
+    it('should store and retrieve session', async () => {
+      const memory = await createMemory()
       const session = memory.createSession('chat123', 'awaiting_trigger')
 
-      memory.set('chat123', session)
-      const retrieved = memory.get('chat123')
+      await memory.set('chat123', session)
+      const retrieved = await memory.get('chat123')
 
       expect(retrieved).toBeDefined()
       expect(retrieved?.chatId).toBe('chat123')
     })
 
-    it('should return undefined for non-existent session', () => {
-      const memory = createInMemoryManager(TIMEOUT_MS)
+    it('should return undefined for non-existent session', async () => {
+      const memory = await createMemory()
 
-      const retrieved = memory.get('nonexistent')
+      const retrieved = await memory.get('nonexistent')
 
       expect(retrieved).toBeUndefined()
     })
 
-    it('should update timestamps on set', () => {
-      const memory = createInMemoryManager(TIMEOUT_MS)
+    it('should update timestamps on set', async () => {
+      const memory = await createMemory()
       const session = memory.createSession('chat123', 'awaiting_trigger')
-      memory.set('chat123', session)
+      await memory.set('chat123', session)
 
       vi.advanceTimersByTime(1000)
       const newTime = Date.now()
 
       session.currentStep = 'awaiting_intent'
-      memory.set('chat123', session)
+      await memory.set('chat123', session)
 
-      const retrieved = memory.get('chat123')
+      const retrieved = await memory.get('chat123')
       expect(retrieved?.updatedAt).toBe(newTime)
       expect(retrieved?.expiresAt).toBe(newTime + TIMEOUT_MS)
     })
   })
 
   describe('expiration', () => {
-    it('should return undefined for expired session', () => {
-      const memory = createInMemoryManager(TIMEOUT_MS)
+    it('should return undefined for expired session', async () => {
+      const memory = await createMemory()
       const session = memory.createSession('chat123', 'awaiting_trigger')
-      memory.set('chat123', session)
+      await memory.set('chat123', session)
 
       vi.advanceTimersByTime(TIMEOUT_MS + 1)
 
-      const retrieved = memory.get('chat123')
+      const retrieved = await memory.get('chat123')
       expect(retrieved).toBeUndefined()
     })
 
-    it('should return session that has not expired', () => {
-      const memory = createInMemoryManager(TIMEOUT_MS)
+    it('should return session that has not expired', async () => {
+      const memory = await createMemory()
       const session = memory.createSession('chat123', 'awaiting_trigger')
-      memory.set('chat123', session)
+      await memory.set('chat123', session)
 
       vi.advanceTimersByTime(TIMEOUT_MS - 1)
 
-      const retrieved = memory.get('chat123')
+      const retrieved = await memory.get('chat123')
       expect(retrieved).toBeDefined()
     })
 
-    it('should delete expired session from storage on get', () => {
-      const memory = createInMemoryManager(TIMEOUT_MS)
+    it('should delete expired session from storage on get', async () => {
+      const memory = await createMemory()
       const session = memory.createSession('chat123', 'awaiting_trigger')
-      memory.set('chat123', session)
+      await memory.set('chat123', session)
 
       vi.advanceTimersByTime(TIMEOUT_MS + 1)
-      const firstGet = memory.get('chat123')
+      const firstGet = await memory.get('chat123')
       expect(firstGet).toBeUndefined()
 
-      memory.set('chat123', memory.createSession('chat123', 'new_step'))
-      const secondGet = memory.get('chat123')
+      await memory.set('chat123', memory.createSession('chat123', 'new_step'))
+      const secondGet = await memory.get('chat123')
       expect(secondGet?.currentStep).toBe('new_step')
     })
   })
 
   describe('delete', () => {
-    it('should remove session', () => {
-      const memory = createInMemoryManager(TIMEOUT_MS)
+    it('should remove session', async () => {
+      const memory = await createMemory()
       const session = memory.createSession('chat123', 'awaiting_trigger')
-      memory.set('chat123', session)
+      await memory.set('chat123', session)
 
-      memory.delete('chat123')
+      await memory.delete('chat123')
 
-      expect(memory.get('chat123')).toBeUndefined()
+      expect(await memory.get('chat123')).toBeUndefined()
     })
 
-    it('should not throw when deleting non-existent session', () => {
-      const memory = createInMemoryManager(TIMEOUT_MS)
+    it('should not throw when deleting non-existent session', async () => {
+      const memory = await createMemory()
 
-      expect(() => memory.delete('nonexistent')).not.toThrow()
+      await expect(memory.delete('nonexistent')).resolves.toBeUndefined()
     })
   })
 
   describe('cleanup', () => {
-    it('should remove all expired sessions', () => {
-      const memory = createInMemoryManager(TIMEOUT_MS)
+    it('should remove all expired sessions', async () => {
+      const memory = await createMemory()
 
       const session1 = memory.createSession('chat1', 'awaiting_trigger')
-      memory.set('chat1', session1)
+      await memory.set('chat1', session1)
 
       vi.advanceTimersByTime(2000)
       const session2 = memory.createSession('chat2', 'awaiting_trigger')
-      memory.set('chat2', session2)
+      await memory.set('chat2', session2)
 
       vi.advanceTimersByTime(TIMEOUT_MS - 1000)
-      memory.cleanup()
+      await memory.cleanup()
 
-      expect(memory.get('chat1')).toBeUndefined()
-      expect(memory.get('chat2')).toBeDefined()
+      expect(await memory.get('chat1')).toBeUndefined()
+      expect(await memory.get('chat2')).toBeDefined()
     })
 
-    it('should keep all sessions when none are expired', () => {
-      const memory = createInMemoryManager(TIMEOUT_MS)
+    it('should keep all sessions when none are expired', async () => {
+      const memory = await createMemory()
 
       const session1 = memory.createSession('chat1', 'awaiting_trigger')
       const session2 = memory.createSession('chat2', 'awaiting_trigger')
-      memory.set('chat1', session1)
-      memory.set('chat2', session2)
+      await memory.set('chat1', session1)
+      await memory.set('chat2', session2)
+
+      const evicted = await memory.cleanup()
+
+      expect(evicted).toEqual([])
+      expect(await memory.get('chat1')).toBeDefined()
+      expect(await memory.get('chat2')).toBeDefined()
+    })
+
+    it('should return the evicted sessions with their last step', async () => {
+      const memory = await createMemory()
+      const session = memory.createSession('chat1', 'awaiting_trigger')
+      session.currentStep = 'awaiting_product_fields'
+      await memory.set('chat1', session)
+
+      vi.advanceTimersByTime(TIMEOUT_MS + 1)
+      const evicted = await memory.cleanup()
+
+      expect(evicted).toHaveLength(1)
+      expect(evicted[0]).toMatchObject({ chatId: 'chat1', currentStep: 'awaiting_product_fields' })
+    })
+  })
 
-      memory.cleanup()
+  describe('takeExpired', () => {
+    it('should return nothing for active or unknown sessions', async () => {
+      const memory = await createMemory()
+      await memory.set('chat123', memory.createSession('chat123', 'awaiting_intent'))
 
-      expect(memory.get('chat1')).toBeDefined()
-      expect(memory.get('chat2')).toBeDefined()
+      expect(await memory.takeExpired('chat123')).toBeUndefined()
+      expect(await memory.takeExpired('unknown')).toBeUndefined()
+      expect(await memory.get('chat123')).toBeDefined()
     })
+
+    it('should return a session that lapsed, once', async () => {
+      const memory = await createMemory()
+      await memory.set('chat123', memory.createSession('chat123', 'browse_orders'))
+
+      vi.advanceTimersByTime(TIMEOUT_MS + 1)
+
+      expect((await memory.takeExpired('chat123'))?.currentStep).toBe('browse_orders')
+      expect(await memory.takeExpired('chat123')).toBeUndefined()
+    })
+
+    it('should return sessions evicted by get and by cleanup', async () => {
+      const memory = await createMemory()
+      await memory.set('chat1', memory.createSession('chat1', 'step_one'))
+      await memory.set('chat2', memory.createSession('chat2', 'step_two'))
+
+      vi.advanceTimersByTime(TIMEOUT_MS + 1)
+      expect(await memory.get('chat1')).toBeUndefined()
+      await memory.cleanup()
+
+      expect((await memory.takeExpired('chat1'))?.currentStep).toBe('step_one')
+      expect((await memory.takeExpired('chat2'))?.currentStep).toBe('step_two')
+    })
+
+    it('should forget the expired session when a new one is set or the chat is deleted', async () => {
+      const memory = await createMemory()
+      await memory.set('chat1', memory.createSession('chat1', 'step_one'))
+      await memory.set('chat2', memory.createSession('chat2', 'step_two'))
+      vi.advanceTimersByTime(TIMEOUT_MS + 1)
+      await memory.cleanup()
+
+      await memory.set('chat1', memory.createSession('chat1', 'awaiting_intent'))
+      await memory.delete('chat2')
+
+      expect(await memory.takeExpired('chat1')).toBeUndefined()
+      expect(await memory.takeExpired('chat2')).toBeUndefined()
+    })
+
+    it('should forget sessions that expired longer ago than the retention window', async () => {
+      const memory = await createMemory()
+      await memory.set('chat123', memory.createSession('chat123', 'browse_orders'))
+
+      vi.advanceTimersByTime(TIMEOUT_MS + EXPIRED_SESSION_RETENTION_MS + 1)
+      await memory.cleanup()
+
+      expect(await memory.takeExpired('chat123')).toBeUndefined()
+    })
+  })
+})
+
+describe('FileMemoryManager persistence', () => {
+  it('should restore sessions written by a previous instance', async () => {
+    const filePath = join(tempDir, 'restart.json')
+    const first = createFileMemoryManager({ filePath, timeoutMs: TIMEOUT_MS })
+    const session = first.createSession('chat123', 'awaiting_product_fields')
+    session.context.productInput = { name: 'Widget', price: '19.99' }
+    await first.set('chat123', session)
+    await first.close?.()
+
+    const second = createFileMemoryManager({ filePath, timeoutMs: TIMEOUT_MS })
+    const restored = await second.get('chat123')
+
+    expect(restored?.currentStep).toBe('awaiting_product_fields')
+    expect(restored?.context.productInput).toEqual({ name: 'Widget', price: '19.99' })
+  })
+
+  it('should create missing directories on first write', async () => {
+    const filePath = join(tempDir, 'nested', 'dir', 'sessions.json')
+    const memory = createFileMemoryManager({ filePath, timeoutMs: TIMEOUT_MS })
+
+    await memory.set('chat123', memory.createSession('chat123', 'awaiting_intent'))
+
+    const stored = JSON.parse(await readFile(filePath, 'utf-8'))
+    expect(stored.sessions.chat123.currentStep).toBe('awaiting_intent')
+  })
+
+  it('should start empty when the file is not valid JSON', async () => {
+    const filePath = join(tempDir, 'corrupt.json')
+    await writeFile(filePath, '{not json', 'utf-8')
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+
+    const memory = createFileMemoryManager({ filePath, timeoutMs: TIMEOUT_MS, logger })
+
+    expect(await memory.get('chat123')).toBeUndefined()
+    expect(logger.error).toHaveBeenCalledWith(expect.objectContaining({ event: 'session_file_corrupt' }))
+  })
+})
+
+describe('RedisMemoryManager storage', () => {
+  it('should store sessions as JSON under the key prefix, expiring after the retention window', async () => {
+    const memory = track(createRedisMemoryManager({ client: createRedisClient(redis.url), timeoutMs: TIMEOUT_MS, keyPrefix: 'px-test:' }))
+
+    await memory.set('chat123', memory.createSession('chat123', 'awaiting_intent'))
+
+    expect(redis.commands).toContainEqual(['SET', 'px-test:chat123', expect.any(String), 'PX', String(TIMEOUT_MS + EXPIRED_SESSION_RETENTION_MS)])
+    expect(JSON.parse(redis.store.get('px-test:chat123')!.value).currentStep).toBe('awaiting_intent')
+  })
+
+  it('should share sessions between instances', async () => {
+    const first = track(createRedisMemoryManager({ client: createRedisClient(redis.url), timeoutMs: TIMEOUT_MS, keyPrefix: 'shared:' }))
+    const second = track(createRedisMemoryManager({ client: createRedisClient(redis.url), timeoutMs: TIMEOUT_MS, keyPrefix: 'shared:' }))
+
+    await first.set('chat123', first.createSession('chat123', 'browse_orders'))
+
+    expect((await second.get('chat123'))?.currentStep).toBe('browse_orders')
   })
 })
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  createInMemoryMessageStatusStore,
+  createMessageStatusTracker,
+  type MessageStatusStore,
+  type MessageStatusTrackerDeps
+} from '../../src/greenapi/message-status.js'
+import { GreenApiError } from '../../src/errors.js'
+import { createManualClock } from '../mocks/clock.js'
+import { createMockLogger, createMockSender } from '../mocks/greenapi.js'
+
+describe('InMemoryMessageStatusStore', () => {
+  it('should list a chat\'s messages newest first', async () => {
+    const store = createInMemoryMessageStatusStore(10)
+    await store.save({ idMessage: 'a', chatId: 'chat-1', statuses: [] })
+    await store.save({ idMessage: 'b', chatId: 'chat-2', statuses: [] })
+    await store.save({ idMessage: 'c', chatId: 'chat-1', statuses: [] })
+
+    expect((await store.listByChat('chat-1')).map(message => message.idMessage)).toEqual(['c', 'a'])
+  })
+
+  it('should drop the oldest message once the limit is reached', async () => {
+    const store = createInMemoryMessageStatusStore(2)
+    await store.save({ idMessage: 'a', chatId: 'chat-1', statuses: [] })
+    await store.save({ idMessage: 'b', chatId: 'chat-1', statuses: [] })
+    await store.save({ idMessage: 'a', chatId: 'chat-1', statuses: [{ status: 'sent', at: '2026-03-02T10:00:00.000Z' }] })
+    await store.save({ idMessage: 'c', chatId: 'chat-1', statuses: [] })
+
+    expect(await store.get('a')).toBeUndefined()
+    expect((await store.listByChat('chat-1')).map(message => message.idMessage)).toEqual(['c', 'b'])
+  })
+})
+
+describe('MessageStatusTracker', () => {
+  let clock: ReturnType<typeof createManualClock>
+  let logger: ReturnType<typeof createMockLogger>
+  let inner: ReturnType<typeof createMockSender>
+  let store: MessageStatusStore
+  let sent: number
+
+  beforeEach(() => {
+    clock = createManualClock(new Date('2026-03-02T10:00:00Z'))
+    logger = createMockLogger()
+    inner = createMockSender()
+    sent = 0
+    inner.sendMessage.mockImplementation(async () => ({ idMessage: `sent-${++sent}` }))
+    store = createInMemoryMessageStatusStore(100)
+  })
+
+  function createTracker(overrides: Partial<MessageStatusTrackerDeps> = {}) {
+    return createMessageStatusTracker({
+      store,
+      clock,
+      logger,
+      messages: { delivery_failed_notice: 'Not delivered to {chatId} ({status}): {message}' },
+      maxRetries: 1,
+      fallbackChatIds: ['owner@c.us'],
+      ...overrides
+    })
+  }
+
+  it('should track every message a wrapped sender sends as pending', async () => {
+    const tracker = createTracker()
+    const sender = tracker.track(inner, { kind: 'reply' })
+
+    expect(await sender.sendMessage('customer@c.us', 'Hello')).toEqual({ idMessage: 'sent-1' })
+    await sender.sendButtons({ chatId: 'customer@c.us', body: 'Pick', buttons: [] })
+
+    const history = await tracker.history('customer@c.us')
+    expect(history.map(message => message.idMessage)).toEqual(['mock-btn-id', 'sent-1'])
+    expect(history[1]).toEqual({
+      idMessage: 'sent-1',
+      chatId: 'customer@c.us',
+      kind: 'reply',
+      statuses: [{ status: 'pending', at: '2026-03-02T10:00:00.000Z' }]
+    })
+  })
+
+  it('should append reported statuses to the history once each', async () => {
+    const tracker = createTracker()
+    await tracker.track(inner, { kind: 'reply' }).sendMessage('customer@c.us', 'Hello')
+
+    await tracker.recordStatus({ idMessage: 'sent-1', chatId: 'customer@c.us', status: 'delivered', at: new Date('2026-03-02T10:00:05Z') })
+    await tracker.recordStatus({ idMessage: 'sent-1', chatId: 'customer@c.us', status: 'delivered' })
+    await tracker.recordStatus({ idMessage: 'sent-1', chatId: 'customer@c.us', status: 'read' })
+
+    const [message] = await tracker.history('customer@c.us')
+    expect(message.statuses.map(entry => [entry.status, entry.at])).toEqual([
+      ['pending', '2026-03-02T10:00:00.000Z'],
+      ['delivered', '2026-03-02T10:00:05.000Z'],
+      ['read', '2026-03-02T10:00:00.000Z']
+    ])
+  })
+
+  it('should keep statuses of messages it did not send', async () => {
+    const tracker = createTracker()
+
+    await tracker.recordStatus({ idMessage: 'from-phone', chatId: 'customer@c.us', status: 'read' })
+
+    expect(await tracker.history('customer@c.us')).toEqual([
+      { idMessage: 'from-phone', chatId: 'customer@c.us', statuses: [{ status: 'read', at: '2026-03-02T10:00:00.000Z', description: undefined }] }
+    ])
+  })
+
+  it('should not resend ordinary messages whose delivery failed', async () => {
+    const tracker = createTracker()
+    await tracker.track(inner, { kind: 'reply' }).sendMessage('customer@c.us', 'Hello')
+
+    await tracker.recordStatus({ idMessage: 'sent-1', chatId: 'customer@c.us', status: 'failed' })
+
+    expect(inner.sendMessage).toHaveBeenCalledTimes(1)
+  })
+
+  describe('important messages', () => {
+    it('should resend a message whose delivery failed', async () => {
+      const tracker = createTracker()
+      await tracker.track(inner, { kind: 'order_alert', important: true }).sendMessage('owner-2@c.us', 'New order #42')
+
+      await tracker.recordStatus({ idMessage: 'sent-1', chatId: 'owner-2@c.us', status: 'failed', description: 'timeout' })
+
+      expect(inner.sendMessage).toHaveBeenLastCalledWith('owner-2@c.us', 'New order #42')
+      const resent = await store.get('sent-2')
+      expect(resent).toMatchObject({ kind: 'order_alert', attempt: 2, retryOf: 'sent-1' })
+      expect(logger.warn).toHaveBeenCalledWith(expect.objectContaining({ event: 'delivery_failed_resending', idMessage: 'sent-1' }))
+    })
+
+    it('should resend once when the failure is reported twice', async () => {
+      const tracker = createTracker()
+      await tracker.track(inner, { kind: 'order_alert', important: true }).sendMessage('owner-2@c.us', 'New order #42')
+
+      await tracker.recordStatus({ idMessage: 'sent-1', chatId: 'owner-2@c.us', status: 'failed' })
+      await tracker.recordStatus({ idMessage: 'sent-1', chatId: 'owner-2@c.us', status: 'noAccount' })
+
+      expect(inner.sendMessage).toHaveBeenCalledTimes(2)
+    })
+
+    it('should tell the fallback chats once the retries are used up', async () => {
+      const tracker = createTracker({ fallbackChatIds: ['owner@c.us', 'owner-2@c.us'] })
+      await tracker.track(inner, { kind: 'order_alert', important: true }).sendMessage('owner-2@c.us', 'New order #42')
+
+      await tracker.recordStatus({ idMessage: 'sent-1', chatId: 'owner-2@c.us', status: 'failed' })
+      await tracker.recordStatus({ idMessage: 'sent-2', chatId: 'owner-2@c.us', status: 'yellowCard' })
+
+      expect(inner.sendMessage.mock.calls).toEqual([
+        ['owner-2@c.us', 'New order #42'],
+        ['owner-2@c.us', 'New order #42'],
+        ['owner@c.us', 'Not delivered to owner-2@c.us (yellowCard): New order #42']
+      ])
+      expect(logger.error).toHaveBeenCalledWith(expect.objectContaining({ event: 'delivery_failed_permanently', idMessage: 'sent-2', attempt: 2 }))
+    })
+
+    it('should go straight to the fallback when retries are off', async () => {
+      const tracker = createTracker({ maxRetries: 0 })
+      await tracker.track(inner, { kind: 'stock_alert', important: true }).sendMessage('owner-2@c.us', 'Low stock: Mug')
+
+      await tracker.recordStatus({ idMessage: 'sent-1', chatId: 'owner-2@c.us', status: 'failed' })
+
+      expect(inner.sendMessage).toHaveBeenLastCalledWith('owner@c.us', 'Not delivered to owner-2@c.us (failed): Low stock: Mug')
+    })
+
+    it('should log a resend that fails instead of throwing', async () => {
+      const tracker = createTracker()
+      await tracker.track(inner, { kind: 'order_alert', important: true }).sendMessage('owner-2@c.us', 'New order #42')
+      inner.sendMessage.mockRejectedValueOnce(new GreenApiError('Green API error: 500', 500))
+
+      await expect(tracker.recordStatus({ idMessage: 'sent-1', chatId: 'owner-2@c.us', status: 'failed' })).resolves.toBeUndefined()
+
+      expect(logger.error).toHaveBeenCalledWith(expect.objectContaining({ event: 'delivery_resend_error', idMessage: 'sent-1' }))
+    })
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createHmac } from 'crypto'
+import { createOrderWebhookHandler } from '../../src/woocommerce/order-webhook.js'
+import { createInMemoryProcessedMessageStore } from '../../src/webhook/dedup.js'
+import { WebhookError, WebhookSignatureError } from '../../src/errors.js'
+import { createMockSender, createMockLogger } from '../mocks/greenapi.js'
+import { createMockOrder } from '../mocks/woocommerce.js'
+
+describe('OrderWebhookHandler', () => {
+  const secret = 'test-secret'
+  const messages = {
+    order_notification_created: 'New order #{number}\n{customer}\n{total} {currency}\n{status}\n{items}',
+    order_notification_updated: 'Order #{number} updated: {status}'
+  }
+  let sender: ReturnType<typeof createMockSender>
+  let logger: ReturnType<typeof createMockLogger>
+
+  beforeEach(() => {
+    sender = createMockSender()
+    logger = createMockLogger()
+  })
+
+  function createHandler(ownerChatIds = ['owner@c.us']) {
+    const processedMessages = createInMemoryProcessedMessageStore(60000)
+    return createOrderWebhookHandler({ secret, ownerChatIds, sender, messages, logger, processedMessages })
+  }
+
+  function sign(body: Buffer): string {
+    return createHmac('sha256', secret).update(body).digest('base64')
+  }
+
+  function orderBody(overrides = {}): Buffer {
+    return Buffer.from(JSON.stringify(createMockOrder(overrides)))
+  }
+
+  describe('verifySignature', () => {
+    it('should accept base64 HMAC-SHA256 of the raw body', () => {
+      const body = orderBody()
+      expect(createHandler().verifySignature(body, sign(body))).toBe(true)
+    })
+
+    it('should reject missing or mismatched signatures', () => {
+      const body = orderBody()
+      const handler = createHandler()
+      expect(handler.verifySignature(body, undefined)).toBe(false)
+      expect(handler.verifySignature(body, 'short')).toBe(false)
+      expect(handler.verifySignature(Buffer.from(body.toString() + ' '), sign(body))).toBe(false)
+    })
+  })
+
+  describe('handle', () => {
+    it('should send formatted summary to each owner', async () => {
+      const body = orderBody()
+      const handler = createHandler(['a@c.us', 'b@c.us'])
+
+      const result = await handler.handle({ rawBody: body, signature: sign(body), topic: 'order.created' })
+      await handler.drain()
+
+      expect(result).toEqual({ action: 'accepted' })
+      expect(sender.sendMessage).toHaveBeenCalledWith(
+        'a@c.us',
+        'New order #501\nDana Levi\n42.00 EUR\nprocessing\n• 2 × Blue Mug - 20.00\n• 1 × Teapot - 22.00'
+      )
+      expect(sender.sendMessage).toHaveBeenCalledWith('b@c.us', expect.any(String))
+    })
+
+    it('should use the update template for order.updated', async () => {
+      const body = orderBody({ status: 'on-hold' })
+      const handler = createHandler()
+
+      await handler.handle({ rawBody: body, signature: sign(body), topic: 'order.updated' })
+      await handler.drain()
+
+      expect(sender.sendMessage).toHaveBeenCalledWith('owner@c.us', 'Order #501 updated: on-hold')
+    })
+
+    it('should keep notifying other owners when one send fails', async () => {
+      sender.sendMessage.mockRejectedValueOnce(new Error('Green API down'))
+      const body = orderBody()
+
+      const handler = createHandler(['a@c.us', 'b@c.us'])
+
+      await handler.handle({ rawBody: body, signature: sign(body), topic: 'order.created' })
+      await handler.drain()
+
+      expect(sender.sendMessage).toHaveBeenCalledTimes(2)
+      expect(logger.info).toHaveBeenCalledWith({ event: 'order_notification_sent', orderId: 501, notified: 1 })
+      expect(logger.error).toHaveBeenCalledWith(expect.objectContaining({ event: 'order_notification_send_error', chatId: 'a@c.us' }))
+    })
+
+    it('should accept a delivery id once, also when the redelivery arrives during the first', async () => {
+      const body = orderBody()
+      const handler = createHandler()
+      const request = { rawBody: body, signature: sign(body), topic: 'order.created', deliveryId: '77' }
+
+      const results = await Promise.all([handler.handle(request), handler.handle(request)])
+      const later = await handler.handle(request)
+      await handler.drain()
+
+      expect(results.map(result => result.action).sort()).toEqual(['accepted', 'duplicate'])
+      expect(later).toEqual({ action: 'duplicate' })
+      expect(sender.sendMessage).toHaveBeenCalledTimes(1)
+    })
+
+    it('should notify for every delivery without an id', async () => {
+      const body = orderBody()
+      const handler = createHandler()
+
+      await handler.handle({ rawBody: body, signature: sign(body), topic: 'order.created' })
+      await handler.handle({ rawBody: body, signature: sign(body), topic: 'order.created' })
+      await handler.drain()
+
+      expect(sender.sendMessage).toHaveBeenCalledTimes(2)
+    })
+
+    it('should throw WebhookSignatureError on invalid signature', async () => {
+      await expect(createHandler().handle({ rawBody: orderBody(), signature: 'bogus', topic: 'order.created' }))
+        .rejects.toThrow(WebhookSignatureError)
+      expect(sender.sendMessage).not.toHaveBeenCalled()
+    })
+
+    it('should throw WebhookError on malformed order payload', async () => {
+      const body = Buffer.from(JSON.stringify({ id: 1 }))
+
+      await expect(createHandler().handle({ rawBody: body, signature: sign(body), topic: 'order.created' }))
+        .rejects.toThrow(WebhookError)
+    })
+
+    it('should answer ping deliveries without a signature', async () => {
+      const result = await createHandler().handle({ rawBody: Buffer.from('webhook_id=7') })
+
+      expect(result).toEqual({ action: 'ping' })
+    })
+
+    it('should ignore topics other than order created/updated', async () => {
+      const body = orderBody()
+
+      const result = await createHandler().handle({ rawBody: body, signature: sign(body), topic: 'order.deleted' })
+
+      expect(result).toEqual({ action: 'ignored_topic' })
+      expect(sender.sendMessage).not.toHaveBeenCalled()
+    })
+  })
+})
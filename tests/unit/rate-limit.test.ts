@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createRateLimitedSender, type RateLimitedSenderDeps } from '../../src/greenapi/rate-limit.js'
+import { createManualClock } from '../mocks/clock.js'
+import { createMockSender, createMockLogger } from '../mocks/greenapi.js'
+
+function flush() {
+  return new Promise(resolve => setImmediate(resolve))
+}
+
+describe('RateLimitedSender', () => {
+  let clock: ReturnType<typeof createManualClock>
+  let inner: ReturnType<typeof createMockSender>
+
+  beforeEach(() => {
+    clock = createManualClock(new Date('2026-03-02T10:00:00Z'))
+    inner = createMockSender()
+  })
+
+  function createSender(overrides: Partial<RateLimitedSenderDeps> = {}) {
+    return createRateLimitedSender({
+      sender: inner,
+      clock,
+      logger: createMockLogger(),
+      messagesPerSecond: 2,
+      burst: 2,
+      perChatIntervalMs: 0,
+      ...overrides
+    })
+  }
+
+  function sentTo(): string[] {
+    return inner.sendMessage.mock.calls.map(([chatId, message]) => `${chatId}:${message}`)
+  }
+
+  it('should send immediately while tokens are available', async () => {
+    const sender = createSender()
+
+    await sender.sendMessage('a@c.us', '1')
+    await sender.sendMessage('b@c.us', '1')
+
+    expect(inner.sendMessage).toHaveBeenCalledTimes(2)
+    expect(sender.pending()).toBe(0)
+  })
+
+  it('should queue sends beyond the burst and release them at the configured rate', async () => {
+    const sender = createSender()
+
+    const sends = ['1', '2', '3', '4'].map(text => sender.sendMessage(`${text}@c.us`, text))
+    await flush()
+    expect(inner.sendMessage).toHaveBeenCalledTimes(2)
+    expect(sender.pending()).toBe(2)
+
+    await clock.advance(499)
+    expect(inner.sendMessage).toHaveBeenCalledTimes(2)
+    await clock.advance(1)
+    expect(inner.sendMessage).toHaveBeenCalledTimes(3)
+    await clock.advance(500)
+    expect(inner.sendMessage).toHaveBeenCalledTimes(4)
+
+    expect(await Promise.all(sends)).toHaveLength(4)
+    expect(sentTo()).toEqual(['1@c.us:1', '2@c.us:2', '3@c.us:3', '4@c.us:4'])
+  })
+
+  it('should refill tokens over time up to the burst size', async () => {
+    const sender = createSender()
+    await sender.sendMessage('a@c.us', '1')
+    await sender.sendMessage('a@c.us', '2')
+
+    await clock.advance(10000)
+    const sends = ['3', '4', '5'].map(text => sender.sendMessage('a@c.us', text))
+    await flush()
+
+    expect(inner.sendMessage).toHaveBeenCalledTimes(4)
+    await clock.advance(500)
+    await Promise.all(sends)
+    expect(inner.sendMessage).toHaveBeenCalledTimes(5)
+  })
+
+  it('should space sends to the same chat without holding up other chats', async () => {
+    const sender = createSender({ messagesPerSecond: 100, burst: 10, perChatIntervalMs: 1000 })
+
+    const sends = [
+      sender.sendMessage('a@c.us', '1'),
+      sender.sendMessage('a@c.us', '2'),
+      sender.sendMessage('b@c.us', '1')
+    ]
+    await flush()
+    expect(sentTo()).toEqual(['a@c.us:1', 'b@c.us:1'])
+
+    await clock.advance(999)
+    expect(sentTo()).toHaveLength(2)
+    await clock.advance(1)
+
+    await Promise.all(sends)
+    expect(sentTo()).toEqual(['a@c.us:1', 'b@c.us:1', 'a@c.us:2'])
+  })
+
+  it('should keep each chat in order', async () => {
+    const sender = createSender({ messagesPerSecond: 1, burst: 1, perChatIntervalMs: 200 })
+
+    const sends = ['1', '2', '3'].map(text => sender.sendMessage('a@c.us', text))
+    await clock.advance(5000)
+    await Promise.all(sends)
+
+    expect(sentTo()).toEqual(['a@c.us:1', 'a@c.us:2', 'a@c.us:3'])
+  })
+
+  it('should limit buttons and files like text messages', async () => {
+    const sender = createSender({ burst: 1 })
+
+    const sends = [
+      sender.sendButtons({ chatId: 'a@c.us', body: 'Pick', buttons: [] }),
+      sender.sendFileByUrl({ chatId: 'b@c.us', urlFile: 'https://example.com/a.jpg', fileName: 'a.jpg' })
+    ]
+    await flush()
+    expect(inner.sendButtons).toHaveBeenCalledTimes(1)
+    expect(inner.sendFileByUrl).not.toHaveBeenCalled()
+
+    await clock.advance(500)
+    await Promise.all(sends)
+    expect(inner.sendFileByUrl).toHaveBeenCalledTimes(1)
+  })
+
+  it('should pass send failures back to the caller', async () => {
+    inner.sendMessage.mockRejectedValueOnce(new Error('Green API down'))
+    const sender = createSender()
+
+    await expect(sender.sendMessage('a@c.us', '1')).rejects.toThrow('Green API down')
+    await expect(sender.sendMessage('a@c.us', '2')).resolves.toEqual({ idMessage: 'mock-msg-id' })
+  })
+
+  it('should log when sends are throttled', async () => {
+    const logger = createMockLogger()
+    const sender = createSender({ burst: 1, logger })
+
+    void sender.sendMessage('a@c.us', '1')
+    void sender.sendMessage('a@c.us', '2')
+    await flush()
+
+    expect(logger.info).toHaveBeenCalledWith({ event: 'greenapi_send_throttled', pending: 1, waitMs: 500 })
+    await clock.advance(500)
+  })
+})
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import { createServer, type AddressInfo, type Server } from 'net'
+import { createRedisClient, encodeCommand, parseReply } from '../../src/redis/client.js'
+import { RedisError } from '../../src/errors.js'
+import { startFakeRedisServer, type FakeRedisServer } from '../mocks/redis-server.js'
+
+describe('Redis client', () => {
+  describe('encodeCommand', () => {
+    it('should encode arguments as RESP bulk strings using byte lengths', () => {
+      expect(encodeCommand(['SET', 'k', 'שלום', 'PX', 5000]).toString()).toBe(
+        '*5\r\n$3\r\nSET\r\n$1\r\nk\r\n$8\r\nשלום\r\n$2\r\nPX\r\n$4\r\n5000\r\n'
+      )
+    })
+  })
+
+  describe('parseReply', () => {
+    it('should parse simple strings, integers, nulls and arrays', () => {
+      expect(parseReply(Buffer.from('+OK\r\n'))?.value).toBe('OK')
+      expect(parseReply(Buffer.from(':3\r\n'))?.value).toBe(3)
+      expect(parseReply(Buffer.from('$-1\r\n'))?.value).toBeNull()
+      expect(parseReply(Buffer.from('*2\r\n$1\r\n0\r\n*1\r\n$3\r\nkey\r\n'))?.value).toEqual(['0', ['key']])
+    })
+
+    it('should return error replies as RedisError', () => {
+      const reply = parseReply(Buffer.from('-ERR boom\r\n'))
+      expect(reply?.value).toBeInstanceOf(RedisError)
+      expect((reply?.value as RedisError).message).toBe('ERR boom')
+    })
+
+    it('should read the whole array when one of its elements is an error', () => {
+      const buffer = Buffer.from('*3\r\n:1\r\n-ERR bad\r\n:3\r\n+OK\r\n')
+
+      const reply = parseReply(buffer)
+
+      expect((reply?.value as RedisError).message).toBe('ERR bad')
+      expect(parseReply(buffer, reply!.offset)?.value).toBe('OK')
+    })
+
+    it('should return undefined for incomplete replies', () => {
+      expect(parseReply(Buffer.from('$5\r\nhel'))).toBeUndefined()
+      expect(parseReply(Buffer.from('*2\r\n$1\r\na\r\n'))).toBeUndefined()
+      expect(parseReply(Buffer.from('+OK'))).toBeUndefined()
+    })
+  })
+
+  describe('createRedisClient', () => {
+    let server: FakeRedisServer
+
+    beforeAll(async () => {
+      server = await startFakeRedisServer({ password: 'secret' })
+    })
+
+    afterAll(async () => {
+      await server.close()
+    })
+
+    function urlWithPassword(password: string): string {
+      return server.url.replace('redis://', `redis://:${password}@`) + '/2'
+    }
+
+    it('should authenticate, select the database and run commands', async () => {
+      const client = createRedisClient(urlWithPassword('secret'))
+
+      expect(await client.command(['SET', 'greeting', 'hi'])).toBe('OK')
+      expect(await client.command(['GET', 'greeting'])).toBe('hi')
+      expect(server.commands).toContainEqual(['AUTH', 'secret'])
+      expect(server.commands).toContainEqual(['SELECT', '2'])
+
+      await client.close()
+    })
+
+    it('should reject commands when authentication fails', async () => {
+      const client = createRedisClient(urlWithPassword('wrong'))
+
+      await expect(client.command(['PING'])).rejects.toThrow('WRONGPASS')
+    })
+
+    it('should reject with RedisError for server errors', async () => {
+      const client = createRedisClient(urlWithPassword('secret'))
+
+      await expect(client.command(['FLUSHALL'])).rejects.toBeInstanceOf(RedisError)
+
+      await client.close()
+    })
+
+    it('should reject when the server is unreachable', async () => {
+      const client = createRedisClient('redis://127.0.0.1:1')
+
+      await expect(client.command(['PING'])).rejects.toThrow('Failed to connect to Redis')
+    })
+
+    it('should reject unsupported URL schemes', () => {
+      expect(() => createRedisClient('http://localhost:6379')).toThrow(RedisError)
+    })
+  })
+
+  describe('broken connections', () => {
+    let server: Server
+    let connections: number
+
+    /** Answers each connection's commands with the replies `script` gives for that connection number. */
+    async function startScriptedServer(script: (connection: number) => string | undefined): Promise<string> {
+      connections = 0
+      server = createServer(socket => {
+        const connection = ++connections
+        socket.on('data', () => {
+          const reply = script(connection)
+          if (reply !== undefined) {
+            socket.write(reply)
+          }
+        })
+      })
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+      return `redis://127.0.0.1:${(server.address() as AddressInfo).port}`
+    }
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve))
+    })
+
+    it('should fail the command on an unreadable reply and reconnect for the next one', async () => {
+      const url = await startScriptedServer(connection => connection === 1 ? '?garbage\r\n' : '+PONG\r\n')
+      const client = createRedisClient(url)
+
+      await expect(client.command(['PING'])).rejects.toThrow('Unexpected Redis reply type: ?')
+      expect(await client.command(['PING'])).toBe('PONG')
+      expect(connections).toBe(2)
+
+      await client.close()
+    })
+
+    it('should keep later replies in step after an array with an error element', async () => {
+      const replies = ['*3\r\n:1\r\n-ERR bad\r\n:3\r\n', '+PONG\r\n']
+      const url = await startScriptedServer(() => replies.shift() ?? '+OK\r\n')
+      const client = createRedisClient(url)
+
+      await expect(client.command(['EXEC'])).rejects.toThrow('ERR bad')
+      expect(await client.command(['PING'])).toBe('PONG')
+      expect(connections).toBe(1)
+
+      await client.close()
+    })
+
+    it('should time out commands the server never answers', async () => {
+      const url = await startScriptedServer(connection => connection === 1 ? undefined : '+PONG\r\n')
+      const client = createRedisClient(url, undefined, { commandTimeoutMs: 50 })
+
+      await expect(client.command(['GET', 'session:1'])).rejects.toThrow('Redis command GET timed out after 50ms')
+      expect(await client.command(['PING'])).toBe('PONG')
+
+      await client.close()
+    })
+  })
+})
\ No newline at end of file
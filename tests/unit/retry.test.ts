@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createGreenApiSender } from '../../src/greenapi/sender.js'
+import { createRetryingSender, isRetryableSendError, type RetryingSenderDeps } from '../../src/greenapi/retry.js'
+import { createInMemoryFailedMessageStore, type FailedMessageStore } from '../../src/greenapi/failed-messages.js'
+import { GreenApiError } from '../../src/errors.js'
+import { createManualClock } from '../mocks/clock.js'
+import { createMockLogger } from '../mocks/greenapi.js'
+
+function ok(idMessage = 'msg123') {
+  return { ok: true, json: async () => ({ idMessage }) }
+}
+
+function failure(status: number, headers: Record<string, string> = {}) {
+  return {
+    ok: false,
+    status,
+    text: async () => 'error',
+    headers: new Headers(headers)
+  }
+}
+
+function flush() {
+  return new Promise(resolve => setImmediate(resolve))
+}
+
+describe('RetryingSender', () => {
+  const config = { instanceId: 'test123', token: 'token456' }
+  let clock: ReturnType<typeof createManualClock>
+  let logger: ReturnType<typeof createMockLogger>
+  let failedMessages: FailedMessageStore
+  let mockFetch: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    clock = createManualClock(new Date('2026-03-02T10:00:00Z'))
+    logger = createMockLogger()
+    failedMessages = createInMemoryFailedMessageStore()
+    mockFetch = vi.fn()
+  })
+
+  function createSender(overrides: Partial<RetryingSenderDeps> = {}) {
+    return createRetryingSender({
+      sender: createGreenApiSender(config, undefined, mockFetch as unknown as typeof fetch),
+      failedMessages,
+      clock,
+      logger,
+      maxAttempts: 4,
+      baseDelayMs: 500,
+      maxDelayMs: 30000,
+      random: () => 0.5,
+      ...overrides
+    })
+  }
+
+  it('should pass through successful sends', async () => {
+    mockFetch.mockResolvedValue(ok())
+
+    expect(await createSender().sendMessage('123@c.us', 'Hello')).toEqual({ idMessage: 'msg123' })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should retry 5xx responses with exponential backoff', async () => {
+    mockFetch
+      .mockResolvedValueOnce(failure(502))
+      .mockResolvedValueOnce(failure(503))
+      .mockResolvedValueOnce(ok())
+    const sending = createSender().sendMessage('123@c.us', 'Hello')
+    await flush()
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+
+    // 500ms backoff, half fixed and half jittered (random 0.5) = 375ms
+    await clock.advance(374)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    await clock.advance(1)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+
+    // 1000ms backoff = 750ms
+    await clock.advance(750)
+    expect(await sending).toEqual({ idMessage: 'msg123' })
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+    expect(logger.warn).toHaveBeenCalledWith({
+      event: 'greenapi_send_retry',
+      method: 'sendMessage',
+      chatId: '123@c.us',
+      attempt: 1,
+      delayMs: 375,
+      statusCode: 502
+    })
+  })
+
+  it('should keep the jittered delay between half and all of the backoff', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('ECONNRESET')).mockResolvedValueOnce(ok())
+
+    const sending = createSender({ random: () => 0 }).sendMessage('123@c.us', 'Hello')
+    await flush()
+    await clock.advance(250)
+
+    expect(await sending).toEqual({ idMessage: 'msg123' })
+  })
+
+  it('should wait for Retry-After on 429', async () => {
+    mockFetch.mockResolvedValueOnce(failure(429, { 'Retry-After': '3' })).mockResolvedValueOnce(ok())
+    const sending = createSender().sendButtons({ chatId: '123@c.us', body: 'Pick', buttons: [] })
+    await flush()
+
+    await clock.advance(2999)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    await clock.advance(1)
+
+    expect(await sending).toEqual({ idMessage: 'msg123' })
+  })
+
+  it('should give up when Retry-After is longer than the maximum delay', async () => {
+    mockFetch.mockResolvedValue(failure(429, { 'Retry-After': '120' }))
+
+    await expect(createSender().sendMessage('123@c.us', 'Hello')).rejects.toThrow(GreenApiError)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(await failedMessages.list()).toHaveLength(1)
+  })
+
+  it('should not retry other 4xx responses', async () => {
+    mockFetch.mockResolvedValue(failure(400))
+
+    await expect(createSender().sendMessage('123@c.us', 'Hello')).rejects.toThrow('Green API error: 400')
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should record messages that failed every attempt and rethrow', async () => {
+    mockFetch.mockRejectedValue(new Error('ECONNREFUSED'))
+    const sending = createSender({ maxAttempts: 2 }).sendMessage('123@c.us', 'Hello')
+    const result = expect(sending).rejects.toThrow('Network error sending message')
+    await flush()
+    await clock.advance(375)
+    await result
+
+    expect(await failedMessages.list()).toEqual([{
+      id: expect.any(String),
+      chatId: '123@c.us',
+      request: { method: 'sendMessage', chatId: '123@c.us', message: 'Hello' },
+      attempts: 2,
+      error: 'Network error sending message',
+      statusCode: undefined,
+      failedAt: '2026-03-02T10:00:00.375Z'
+    }])
+    expect(logger.error).toHaveBeenCalledWith(expect.objectContaining({ event: 'greenapi_send_failed_permanently', attempts: 2 }))
+  })
+
+  describe('resend', () => {
+    it('should send a failed message again and forget it', async () => {
+      mockFetch.mockResolvedValueOnce(failure(400)).mockResolvedValueOnce(ok('resent-1'))
+      const sender = createSender()
+      await sender.sendFileByUrl({ chatId: '123@c.us', urlFile: 'https://example.com/a.jpg', fileName: 'a.jpg' }).catch(() => {})
+      const [failed] = await sender.listFailed()
+
+      expect(await sender.resend(failed.id)).toEqual({ idMessage: 'resent-1' })
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toEqual({ chatId: '123@c.us', urlFile: 'https://example.com/a.jpg', fileName: 'a.jpg' })
+      expect(await sender.listFailed()).toEqual([])
+    })
+
+    it('should store uploads as base64 and upload the same bytes again', async () => {
+      mockFetch.mockResolvedValueOnce(failure(400)).mockResolvedValueOnce(ok('resent-1'))
+      const sender = createSender()
+      await sender.sendFileByUpload({ chatId: '123@c.us', file: Buffer.from('id,name\n'), fileName: 'products.csv' }).catch(() => {})
+      const [failed] = await sender.listFailed()
+
+      expect(failed.request).toEqual({
+        method: 'sendFileByUpload',
+        params: { chatId: '123@c.us', fileName: 'products.csv', fileBase64: Buffer.from('id,name\n').toString('base64') }
+      })
+      expect(await sender.resend(failed.id)).toEqual({ idMessage: 'resent-1' })
+      const form = mockFetch.mock.calls[1][1].body as FormData
+      expect(await (form.get('file') as File).text()).toBe('id,name\n')
+    })
+
+    it('should keep the message under the same id when it fails again', async () => {
+      mockFetch.mockResolvedValue(failure(400))
+      const sender = createSender()
+      await sender.sendMessage('123@c.us', 'Hello').catch(() => {})
+      const [failed] = await sender.listFailed()
+
+      await expect(sender.resend(failed.id)).rejects.toThrow(GreenApiError)
+      expect((await sender.listFailed()).map(message => message.id)).toEqual([failed.id])
+    })
+
+    it('should resolve to undefined for unknown ids', async () => {
+      expect(await createSender().resend('missing')).toBeUndefined()
+    })
+  })
+
+  describe('isRetryableSendError', () => {
+    it('should retry network errors, 429 and 5xx only', () => {
+      expect(isRetryableSendError(new GreenApiError('network'))).toBe(true)
+      expect(isRetryableSendError(new GreenApiError('rate limited', 429))).toBe(true)
+      expect(isRetryableSendError(new GreenApiError('server', 500))).toBe(true)
+      expect(isRetryableSendError(new GreenApiError('bad request', 400))).toBe(false)
+      expect(isRetryableSendError(new Error('bug'))).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createScheduler } from '../../src/scheduler/scheduler.js'
+import { msUntilTimeOfDay } from '../../src/scheduler/clock.js'
+import { createMockLogger } from '../mocks/greenapi.js'
+import { createManualClock } from '../mocks/clock.js'
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+
+describe('msUntilTimeOfDay', () => {
+  it('should target later today when the time has not passed', () => {
+    expect(msUntilTimeOfDay(new Date(2026, 9, 19, 7, 30), 8, 0)).toBe(30 * MINUTE)
+  })
+
+  it('should target tomorrow when the time has passed or is now', () => {
+    expect(msUntilTimeOfDay(new Date(2026, 9, 19, 9, 0), 8, 0)).toBe(23 * HOUR)
+    expect(msUntilTimeOfDay(new Date(2026, 9, 19, 8, 0), 8, 0)).toBe(24 * HOUR)
+  })
+})
+
+describe('Scheduler', () => {
+  let clock: ReturnType<typeof createManualClock>
+  let logger: ReturnType<typeof createMockLogger>
+
+  beforeEach(() => {
+    clock = createManualClock(new Date(2026, 9, 19, 7, 30))
+    logger = createMockLogger()
+  })
+
+  it('should not run anything before start', async () => {
+    const scheduler = createScheduler({ clock, logger })
+    const run = vi.fn().mockResolvedValue(undefined)
+    scheduler.every({ name: 'check', run }, HOUR)
+
+    await clock.advance(3 * HOUR)
+
+    expect(run).not.toHaveBeenCalled()
+    expect(scheduler.isRunning()).toBe(false)
+  })
+
+  it('should run interval tasks every intervalMs', async () => {
+    const scheduler = createScheduler({ clock, logger })
+    const run = vi.fn().mockResolvedValue(undefined)
+    scheduler.every({ name: 'check', run }, HOUR)
+    scheduler.start()
+
+    await clock.advance(HOUR - 1)
+    expect(run).not.toHaveBeenCalled()
+
+    await clock.advance(1)
+    expect(run).toHaveBeenCalledTimes(1)
+
+    await clock.advance(2 * HOUR)
+    expect(run).toHaveBeenCalledTimes(3)
+  })
+
+  it('should run daily tasks at the configured local time', async () => {
+    const scheduler = createScheduler({ clock, logger })
+    const runTimes: Date[] = []
+    scheduler.dailyAt({ name: 'digest', run: async () => { runTimes.push(clock.now()) } }, '08:00')
+    scheduler.start()
+
+    await clock.advance(2 * 24 * HOUR)
+
+    expect(runTimes).toEqual([new Date(2026, 9, 19, 8, 0), new Date(2026, 9, 20, 8, 0)])
+  })
+
+  it('should log task errors and keep the schedule', async () => {
+    const scheduler = createScheduler({ clock, logger })
+    const run = vi.fn().mockRejectedValueOnce(new Error('store down')).mockResolvedValue(undefined)
+    scheduler.every({ name: 'check', run }, HOUR)
+    scheduler.start()
+
+    await clock.advance(2 * HOUR)
+
+    expect(run).toHaveBeenCalledTimes(2)
+    expect(logger.error).toHaveBeenCalledWith(expect.objectContaining({ event: 'scheduler_task_error', task: 'check' }))
+    expect(logger.info).toHaveBeenCalledWith({ event: 'scheduler_task_success', task: 'check' })
+  })
+
+  it('should cancel pending timers on stop', async () => {
+    const scheduler = createScheduler({ clock, logger })
+    const run = vi.fn().mockResolvedValue(undefined)
+    scheduler.every({ name: 'check', run }, HOUR)
+    scheduler.dailyAt({ name: 'digest', run }, '08:00')
+    scheduler.start()
+    expect(clock.pendingTimers()).toBe(2)
+
+    scheduler.stop()
+    await clock.advance(24 * HOUR)
+
+    expect(clock.pendingTimers()).toBe(0)
+    expect(run).not.toHaveBeenCalled()
+    expect(scheduler.isRunning()).toBe(false)
+  })
+
+  it('should not double-schedule when started twice', () => {
+    const scheduler = createScheduler({ clock, logger })
+    scheduler.every({ name: 'check', run: vi.fn() }, HOUR)
+
+    scheduler.start()
+    scheduler.start()
+
+    expect(clock.pendingTimers()).toBe(1)
+  })
+})
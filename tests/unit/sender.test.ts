@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { createGreenApiSender, type SendButtonsParams } from '../../src/greenapi/sender.js'
+import { createGreenApiSender, parseRetryAfter, type SendButtonsParams, type SendFileByUploadParams, type SendFileByUrlParams } from '../../src/greenapi/sender.js'
 import { GreenApiError } from '../../src/errors.js'
 
 describe('GreenApiSender', () => {
@@ -244,4 +244,237 @@ describe('GreenApiSender', () => {
         .rejects.toThrow(/Green API error: 403/)
     })
   })
+
+  describe('sendListMessage', () => {
+    it('should send sections and rows to sendListMessage', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ idMessage: 'list123' })
+      })
+
+      const sender = createGreenApiSender(config, mockLogger, mockFetch)
+      const result = await sender.sendListMessage({
+        chatId: '123@c.us',
+        message: 'What would you like to do?',
+        buttonText: 'Menu',
+        sections: [{ title: 'Products', rows: [{ rowId: 'list', title: 'List Products' }] }],
+        title: 'Welcome!'
+      })
+
+      expect(result.idMessage).toBe('list123')
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.green-api.com/waInstancetest123/sendListMessage/token456',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            chatId: '123@c.us',
+            message: 'What would you like to do?',
+            buttonText: 'Menu',
+            sections: [{ title: 'Products', rows: [{ rowId: 'list', title: 'List Products' }] }],
+            title: 'Welcome!'
+          })
+        }
+      )
+    })
+
+    it('should throw GreenApiError on API error response', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 400,
+        text: async () => 'Bad Request'
+      })
+
+      const sender = createGreenApiSender(config, mockLogger, mockFetch)
+
+      await expect(sender.sendListMessage({ chatId: '123@c.us', message: 'Pick', buttonText: 'Menu', sections: [] }))
+        .rejects.toThrow(/Green API error: 400/)
+    })
+  })
+
+  describe('sendFileByUrl', () => {
+    const fileParams: SendFileByUrlParams = {
+      chatId: '123@c.us',
+      urlFile: 'https://test-store.com/wp-content/uploads/mug.jpg',
+      fileName: 'mug.jpg'
+    }
+
+    it('should send file by URL successfully', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ idMessage: 'file123' })
+      })
+
+      const sender = createGreenApiSender(config, mockLogger, mockFetch)
+      const result = await sender.sendFileByUrl(fileParams)
+
+      expect(result.idMessage).toBe('file123')
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.green-api.com/waInstancetest123/sendFileByUrl/token456',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            chatId: '123@c.us',
+            urlFile: 'https://test-store.com/wp-content/uploads/mug.jpg',
+            fileName: 'mug.jpg'
+          })
+        }
+      )
+    })
+
+    it('should include optional caption', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ idMessage: 'file123' })
+      })
+
+      const sender = createGreenApiSender(config, mockLogger, mockFetch)
+      await sender.sendFileByUrl({ ...fileParams, caption: 'Blue Mug' })
+
+      const callBody = JSON.parse(mockFetch.mock.calls[0][1].body)
+      expect(callBody.caption).toBe('Blue Mug')
+    })
+
+    it('should log success event', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ idMessage: 'file123' })
+      })
+
+      const sender = createGreenApiSender(config, mockLogger, mockFetch)
+      await sender.sendFileByUrl(fileParams)
+
+      expect(mockLogger.info).toHaveBeenCalledWith({
+        event: 'greenapi_send_file_start',
+        chatId: '123@c.us',
+        fileName: 'mug.jpg'
+      })
+      expect(mockLogger.info).toHaveBeenCalledWith({
+        event: 'greenapi_send_file_success',
+        chatId: '123@c.us',
+        idMessage: 'file123'
+      })
+    })
+
+    it('should throw GreenApiError on network error', async () => {
+      const mockFetch = vi.fn().mockRejectedValue(new Error('Connection refused'))
+
+      const sender = createGreenApiSender(config, mockLogger, mockFetch)
+
+      await expect(sender.sendFileByUrl(fileParams))
+        .rejects.toThrow(/Network error sending file/)
+    })
+
+    it('should throw GreenApiError on API error response', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 400,
+        text: async () => 'Bad Request'
+      })
+
+      const sender = createGreenApiSender(config, mockLogger, mockFetch)
+
+      await expect(sender.sendFileByUrl(fileParams))
+        .rejects.toThrow(GreenApiError)
+      await expect(sender.sendFileByUrl(fileParams))
+        .rejects.toThrow(/Green API error: 400/)
+    })
+  })
+
+  describe('sendFileByUpload', () => {
+    const uploadParams: SendFileByUploadParams = {
+      chatId: '123@c.us',
+      file: Buffer.from('id,name\n1,Mug\n'),
+      fileName: 'products.csv',
+      mimeType: 'text/csv'
+    }
+
+    it('should upload the file as multipart form data to the media host', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ idMessage: 'upload123' })
+      })
+
+      const sender = createGreenApiSender(config, mockLogger, mockFetch)
+      const result = await sender.sendFileByUpload(uploadParams)
+
+      expect(result.idMessage).toBe('upload123')
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://media.green-api.com/waInstancetest123/sendFileByUpload/token456')
+      expect(init.method).toBe('POST')
+      expect(init.headers).toBeUndefined()
+      const form = init.body as FormData
+      expect(form.get('chatId')).toBe('123@c.us')
+      expect(form.get('fileName')).toBe('products.csv')
+      expect(form.get('caption')).toBeNull()
+      const file = form.get('file') as File
+      expect(file.name).toBe('products.csv')
+      expect(file.type).toBe('text/csv')
+      expect(await file.text()).toBe('id,name\n1,Mug\n')
+    })
+
+    it('should include optional caption and default the MIME type', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ idMessage: 'upload123' })
+      })
+
+      const sender = createGreenApiSender(config, mockLogger, mockFetch)
+      await sender.sendFileByUpload({ ...uploadParams, mimeType: undefined, caption: 'Products' })
+
+      const form = mockFetch.mock.calls[0][1].body as FormData
+      expect(form.get('caption')).toBe('Products')
+      expect((form.get('file') as File).type).toBe('application/octet-stream')
+    })
+
+    it('should throw GreenApiError on network error', async () => {
+      const mockFetch = vi.fn().mockRejectedValue(new Error('Connection refused'))
+
+      const sender = createGreenApiSender(config, mockLogger, mockFetch)
+
+      await expect(sender.sendFileByUpload(uploadParams))
+        .rejects.toThrow(/Network error uploading file/)
+    })
+
+    it('should throw GreenApiError on API error response', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 413,
+        text: async () => 'Payload Too Large'
+      })
+
+      const sender = createGreenApiSender(config, mockLogger, mockFetch)
+
+      await expect(sender.sendFileByUpload(uploadParams))
+        .rejects.toThrow(/Green API error: 413/)
+    })
+  })
+  describe('rate limiting', () => {
+    it('should expose Retry-After on 429 errors', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 429,
+        text: async () => 'Too Many Requests',
+        headers: new Headers({ 'Retry-After': '7' })
+      })
+
+      const sender = createGreenApiSender(config, mockLogger, mockFetch)
+      const error = await sender.sendMessage('123@c.us', 'Hello').catch(err => err)
+
+      expect(error).toBeInstanceOf(GreenApiError)
+      expect(error.statusCode).toBe(429)
+      expect(error.retryAfterMs).toBe(7000)
+    })
+
+    it('should parse Retry-After seconds and HTTP dates', () => {
+      const now = Date.parse('2026-03-02T10:00:00Z')
+
+      expect(parseRetryAfter('2', now)).toBe(2000)
+      expect(parseRetryAfter('Mon, 02 Mar 2026 10:00:05 GMT', now)).toBe(5000)
+      expect(parseRetryAfter('Mon, 02 Mar 2026 09:00:00 GMT', now)).toBe(0)
+      expect(parseRetryAfter('soon', now)).toBeUndefined()
+      expect(parseRetryAfter(null, now)).toBeUndefined()
+    })
+  })
 })
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createSessionSweeper } from '../../src/conversation/session-sweeper.js'
+import { createInMemoryManager } from '../../src/conversation/memory.js'
+import { createMockLogger } from '../mocks/greenapi.js'
+
+describe('SessionSweeper', () => {
+  const TIMEOUT_MS = 5000
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should evict expired sessions and log the abandoned step', async () => {
+    const memory = createInMemoryManager(TIMEOUT_MS)
+    const logger = createMockLogger()
+    const abandoned = memory.createSession('chat1', 'awaiting_intent')
+    abandoned.currentStep = 'awaiting_product_image'
+    await memory.set('chat1', abandoned)
+    vi.advanceTimersByTime(TIMEOUT_MS - 1000)
+    await memory.set('chat2', memory.createSession('chat2', 'awaiting_intent'))
+    vi.advanceTimersByTime(1001)
+
+    const sweeper = createSessionSweeper({ memory, logger })
+    const evicted = await sweeper.run()
+
+    expect(sweeper.name).toBe('session_cleanup')
+    expect(evicted).toBe(1)
+    expect(logger.info).toHaveBeenCalledWith({
+      event: 'session_expired',
+      chatId: 'chat1',
+      step: 'awaiting_product_image',
+      idleMs: TIMEOUT_MS + 1
+    })
+    expect(await memory.get('chat2')).toBeDefined()
+  })
+
+  it('should not log anything when no session expired', async () => {
+    const memory = createInMemoryManager(TIMEOUT_MS)
+    const logger = createMockLogger()
+    await memory.set('chat1', memory.createSession('chat1', 'awaiting_intent'))
+
+    expect(await createSessionSweeper({ memory, logger }).run()).toBe(0)
+    expect(logger.info).not.toHaveBeenCalled()
+  })
+})
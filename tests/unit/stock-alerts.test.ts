@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createStockAlertService } from '../../src/woocommerce/stock-alerts.js'
+import type { WooProduct } from '../../src/woocommerce/types.js'
+import { createMockSender, createMockLogger } from '../mocks/greenapi.js'
+import { createMockWooCommerceClient, createMockProduct } from '../mocks/woocommerce.js'
+import { createManualClock } from '../mocks/clock.js'
+
+describe('StockAlertService', () => {
+  const messages = {
+    low_stock_alert: 'Low stock ({count}):\n{items}',
+    stock_line_low: '• {name}{sku}: {stock} left (threshold {threshold})',
+    stock_line_out: '• {name}{sku}: out of stock',
+    stock_digest: 'Digest {date}\nLow ({lowCount}):\n{lowStock}\nOut ({outCount}):\n{outOfStock}\nAdded ({addedCount}):\n{addedToday}',
+    stock_digest_none: 'None'
+  }
+  let sender: ReturnType<typeof createMockSender>
+  let logger: ReturnType<typeof createMockLogger>
+  let wooCommerce: ReturnType<typeof createMockWooCommerceClient>
+
+  beforeEach(() => {
+    sender = createMockSender()
+    logger = createMockLogger()
+    wooCommerce = createMockWooCommerceClient()
+  })
+
+  function setProducts(products: WooProduct[]) {
+    wooCommerce.getProducts.mockResolvedValue({ products, page: 1, perPage: 100, total: products.length, totalPages: 1 })
+  }
+
+  function createService(ownerChatIds = ['owner@c.us']) {
+    return createStockAlertService({
+      wooCommerce,
+      sender,
+      messages,
+      ownerChatIds,
+      lowStockThreshold: 5,
+      clock: createManualClock(new Date(2026, 9, 19, 8, 0)),
+      logger
+    })
+  }
+
+  describe('checkLowStock', () => {
+    it('should alert owners about products at or below the global threshold', async () => {
+      setProducts([
+        createMockProduct({ id: 1, name: 'Blue Mug', sku: 'MUG-1', stock_quantity: 3 }),
+        createMockProduct({ id: 2, name: 'Teapot', sku: 'TEA-1', stock_quantity: 5 }),
+        createMockProduct({ id: 3, name: 'Plate', sku: 'PLT-1', stock_quantity: 6 })
+      ])
+
+      const result = await createService(['a@c.us', 'b@c.us']).checkLowStock()
+
+      expect(result).toEqual({ lowStock: 2, alerted: 2, notified: 2 })
+      const expected = 'Low stock (2):\n• Blue Mug (MUG-1): 3 left (threshold 5)\n• Teapot (TEA-1): 5 left (threshold 5)'
+      expect(sender.sendMessage).toHaveBeenCalledWith('a@c.us', expected)
+      expect(sender.sendMessage).toHaveBeenCalledWith('b@c.us', expected)
+    })
+
+    it('should prefer the product low stock amount over the global threshold', async () => {
+      setProducts([
+        createMockProduct({ id: 1, name: 'Blue Mug', stock_quantity: 8, low_stock_amount: 10 }),
+        createMockProduct({ id: 2, name: 'Teapot', stock_quantity: 3, low_stock_amount: 2 })
+      ])
+
+      const result = await createService().checkLowStock()
+
+      expect(result.alerted).toBe(1)
+      expect(sender.sendMessage).toHaveBeenCalledWith('owner@c.us', expect.stringContaining('Blue Mug (TEST-001): 8 left (threshold 10)'))
+      expect(sender.sendMessage).toHaveBeenCalledWith('owner@c.us', expect.not.stringContaining('Teapot'))
+    })
+
+    it('should mark products without stock left as out of stock', async () => {
+      setProducts([createMockProduct({ name: 'Blue Mug', sku: '', stock_quantity: 0, stock_status: 'outofstock' })])
+
+      await createService().checkLowStock()
+
+      expect(sender.sendMessage).toHaveBeenCalledWith('owner@c.us', 'Low stock (1):\n• Blue Mug: out of stock')
+    })
+
+    it('should skip products that do not manage stock', async () => {
+      setProducts([createMockProduct({ stock_quantity: null })])
+
+      const result = await createService().checkLowStock()
+
+      expect(result).toEqual({ lowStock: 0, alerted: 0, notified: 0 })
+      expect(sender.sendMessage).not.toHaveBeenCalled()
+    })
+
+    it('should alert once per product until it is restocked', async () => {
+      const service = createService()
+      setProducts([createMockProduct({ id: 1, name: 'Blue Mug', stock_quantity: 3 })])
+
+      await service.checkLowStock()
+      const repeat = await service.checkLowStock()
+
+      expect(repeat).toEqual({ lowStock: 1, alerted: 0, notified: 0 })
+      expect(sender.sendMessage).toHaveBeenCalledTimes(1)
+
+      setProducts([createMockProduct({ id: 1, name: 'Blue Mug', stock_quantity: 20 })])
+      await service.checkLowStock()
+      setProducts([createMockProduct({ id: 1, name: 'Blue Mug', stock_quantity: 2 })])
+      const afterRestock = await service.checkLowStock()
+
+      expect(afterRestock.alerted).toBe(1)
+      expect(sender.sendMessage).toHaveBeenCalledTimes(2)
+    })
+
+    it('should scan every page of the catalogue', async () => {
+      wooCommerce.getProducts
+        .mockResolvedValueOnce({ products: [createMockProduct({ id: 1, stock_quantity: 50 })], page: 1, perPage: 100, total: 2, totalPages: 2 })
+        .mockResolvedValueOnce({ products: [createMockProduct({ id: 2, stock_quantity: 1 })], page: 2, perPage: 100, total: 2, totalPages: 2 })
+
+      const result = await createService().checkLowStock()
+
+      expect(wooCommerce.getProducts).toHaveBeenNthCalledWith(1, 100, 1)
+      expect(wooCommerce.getProducts).toHaveBeenNthCalledWith(2, 100, 2)
+      expect(result.alerted).toBe(1)
+    })
+
+    it('should keep notifying other owners when one send fails', async () => {
+      sender.sendMessage.mockRejectedValueOnce(new Error('Green API down'))
+      setProducts([createMockProduct({ stock_quantity: 1 })])
+
+      const result = await createService(['a@c.us', 'b@c.us']).checkLowStock()
+
+      expect(result.notified).toBe(1)
+      expect(logger.error).toHaveBeenCalledWith(expect.objectContaining({ event: 'low_stock_alert_send_error', chatId: 'a@c.us' }))
+    })
+
+    it('should propagate WooCommerce errors to the scheduler', async () => {
+      wooCommerce.getProducts.mockRejectedValue(new Error('store down'))
+
+      await expect(createService().checkLowStock()).rejects.toThrow('store down')
+    })
+  })
+
+  describe('sendDailyDigest', () => {
+    it('should list low stock, out of stock and products added today', async () => {
+      setProducts([
+        createMockProduct({ id: 1, name: 'Blue Mug', sku: 'MUG-1', stock_quantity: 2, date_created: '2026-10-01T10:00:00' }),
+        createMockProduct({ id: 2, name: 'Teapot', sku: 'TEA-1', stock_quantity: 0, stock_status: 'outofstock', date_created: '2026-10-02T10:00:00' }),
+        createMockProduct({ id: 3, name: 'Plate', sku: 'PLT-1', stock_quantity: 40, date_created: '2026-10-19T07:15:00' })
+      ])
+
+      const result = await createService().sendDailyDigest()
+
+      expect(result).toEqual({ lowStock: 1, outOfStock: 1, addedToday: 1, notified: 1 })
+      expect(sender.sendMessage).toHaveBeenCalledWith(
+        'owner@c.us',
+        'Digest 2026-10-19\nLow (1):\n• Blue Mug (MUG-1): 2 left (threshold 5)\nOut (1):\n• Teapot (TEA-1): out of stock\nAdded (1):\n• Plate'
+      )
+    })
+
+    it('should send the digest even when there is nothing to report', async () => {
+      setProducts([createMockProduct({ stock_quantity: 40, date_created: '2026-10-01T10:00:00' })])
+
+      await createService().sendDailyDigest()
+
+      expect(sender.sendMessage).toHaveBeenCalledWith(
+        'owner@c.us',
+        'Digest 2026-10-19\nLow (0):\nNone\nOut (0):\nNone\nAdded (0):\nNone'
+      )
+    })
+  })
+})
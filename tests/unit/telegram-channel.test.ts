@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createTelegramChannel } from '../../src/channels/telegram.js'
+import { createWebChatFileStore, type WebChatFileStore } from '../../src/webchat/files.js'
+import type { ChannelAdapter } from '../../src/channels/types.js'
+import type { MessageInput } from '../../src/conversation/flow-controller.js'
+import { WebhookError } from '../../src/errors.js'
+import { createMockLogger } from '../mocks/greenapi.js'
+import {
+  createMockTelegramSender,
+  createTelegramCallbackUpdate,
+  createTelegramPhotoUpdate,
+  createTelegramTextUpdate
+} from '../mocks/telegram.js'
+
+describe('TelegramChannel', () => {
+  let sender: ReturnType<typeof createMockTelegramSender>
+  let files: WebChatFileStore
+  let channel: ChannelAdapter
+
+  beforeEach(() => {
+    sender = createMockTelegramSender()
+    files = createWebChatFileStore()
+    channel = createTelegramChannel({ sender, files, logger: createMockLogger() })
+  })
+
+  function deliver(update: unknown) {
+    return channel.receive({ baseUrl: 'https://bot.example.com', update })
+  }
+
+  describe('receive', () => {
+    it('should turn a text message into flow input', async () => {
+      expect(await deliver(createTelegramTextUpdate('list'))).toEqual({
+        id: '1001',
+        chatId: 'tg:555000111',
+        senderId: 'tg:555000111',
+        message: { type: 'text', content: 'list' }
+      })
+    })
+
+    it('should treat a tapped button as its callback data and answer the tap', async () => {
+      const inbound = await deliver(createTelegramCallbackUpdate('add_product'))
+
+      expect(inbound?.message).toEqual({ type: 'text', content: 'add_product' })
+      expect(inbound?.chatId).toBe('tg:555000111')
+      expect(sender.answerCallbackQuery).toHaveBeenCalledWith('cb-1')
+    })
+
+    it('should still process the tap when answering it fails', async () => {
+      sender.answerCallbackQuery.mockRejectedValue(new Error('query is too old'))
+
+      expect(await deliver(createTelegramCallbackUpdate('add_product'))).not.toBeNull()
+    })
+
+    it('should download the largest photo size and pass a URL without the bot token', async () => {
+      const inbound = await deliver(createTelegramPhotoUpdate())
+
+      expect(sender.downloadFile).not.toHaveBeenCalled()
+      const message = await (inbound!.message as () => Promise<MessageInput>)()
+      expect(sender.downloadFile).toHaveBeenCalledWith('large')
+      expect(message).toMatchObject({ type: 'image', mimeType: 'image/jpeg' })
+      const url = message.content
+      expect(url).toMatch(/^https:\/\/bot\.example\.com\/telegram\/files\/[0-9a-f-]{36}$/)
+      expect(files.get(url.split('/').at(-1)!)).toEqual({ data: Buffer.from('large-bytes'), fileName: 'large.jpg', mimeType: 'image/jpeg' })
+    })
+
+    it('should ignore updates without a message the flow can use', async () => {
+      const sticker = { update_id: 7, message: { message_id: 1, chat: { id: 1, type: 'private' }, date: 0 } }
+
+      expect(await deliver({ update_id: 6, edited_message: {} })).toBeNull()
+      expect(await deliver(sticker)).toBeNull()
+    })
+
+    it('should throw WebhookError for malformed updates', async () => {
+      await expect(deliver({ message: {} })).rejects.toThrow(WebhookError)
+    })
+
+    it('should throw WebhookError for a delivery without a base URL', async () => {
+      await expect(channel.receive({ update: createTelegramTextUpdate('list') })).rejects.toThrow(WebhookError)
+    })
+  })
+
+  describe('sendReply', () => {
+    it('should send buttons as an inline keyboard under the text', async () => {
+      await channel.sendReply('tg:555', {
+        handled: true,
+        buttons: {
+          header: 'Product',
+          body: 'What next?',
+          options: [{ buttonId: 'update', buttonText: 'Update' }, { buttonId: 'remove', buttonText: 'Remove' }]
+        }
+      })
+
+      expect(sender.sendMessage).toHaveBeenCalledWith({
+        chatId: '555',
+        text: 'Product\n\nWhat next?',
+        buttons: [[{ text: 'Update', callback_data: 'update' }], [{ text: 'Remove', callback_data: 'remove' }]]
+      })
+    })
+
+    it('should list every row of a list message as a button', async () => {
+      await channel.sendReply('tg:555', {
+        handled: true,
+        list: {
+          body: 'What would you like to do?',
+          buttonText: 'Menu',
+          sections: [
+            { title: 'Products', rows: [{ rowId: 'list', title: 'List Products' }] },
+            { title: 'Orders', rows: [{ rowId: 'orders', title: 'Recent Orders', description: 'Last 10' }] }
+          ]
+        }
+      })
+
+      expect(sender.sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+        buttons: [[{ text: 'List Products', callback_data: 'list' }], [{ text: 'Recent Orders', callback_data: 'orders' }]]
+      }))
+    })
+
+    it('should send media first, then the pre-message and the text', async () => {
+      await channel.sendReply('tg:555', {
+        handled: true,
+        media: { type: 'url', url: 'https://shop.test/mug.jpg', fileName: 'mug.jpg', caption: 'Mug' },
+        preMessage: 'Found it',
+        response: 'Reply 1 to update it'
+      })
+
+      expect(sender.sendPhoto).toHaveBeenCalledWith({ chatId: '555', file: { url: 'https://shop.test/mug.jpg' }, caption: 'Mug' })
+      expect(sender.sendMessage.mock.calls.map(([params]) => params.text)).toEqual(['Found it', 'Reply 1 to update it'])
+      expect(sender.sendPhoto.mock.invocationCallOrder[0]).toBeLessThan(sender.sendMessage.mock.invocationCallOrder[0])
+    })
+
+    it('should upload files that are not images as documents', async () => {
+      const data = Buffer.from('id,name\n')
+
+      await channel.sendReply('tg:555', {
+        handled: true,
+        media: { type: 'upload', data, fileName: 'products.csv', mimeType: 'text/csv' }
+      })
+
+      expect(sender.sendDocument).toHaveBeenCalledWith({
+        chatId: '555',
+        file: { data, fileName: 'products.csv', mimeType: 'text/csv' },
+        caption: undefined
+      })
+    })
+
+    it('should split text longer than a Telegram message', async () => {
+      const lines = Array.from({ length: 300 }, (_, i) => `${i + 1}. Product ${i + 1} - $9.99 (stock: 4)`)
+
+      await channel.sendReply('tg:555', { handled: true, response: lines.join('\n') })
+
+      expect(sender.sendMessage.mock.calls.length).toBeGreaterThan(1)
+      expect(sender.sendMessage.mock.calls.every(([params]) => params.text.length <= 4096)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createTelegramSender } from '../../src/telegram/sender.js'
+import { TelegramError } from '../../src/errors.js'
+import { createMockLogger } from '../mocks/greenapi.js'
+
+describe('TelegramSender', () => {
+  const config = { botToken: '123:ABC' }
+
+  function okResponse(result: unknown) {
+    return { ok: true, status: 200, json: async () => ({ ok: true, result }) }
+  }
+
+  it('should send text with an inline keyboard', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(okResponse({ message_id: 42 }))
+    const sender = createTelegramSender(config, undefined, mockFetch)
+
+    const result = await sender.sendMessage({ chatId: '555', text: 'Pick one', buttons: [[{ text: 'List', callback_data: 'list' }]] })
+
+    expect(result).toEqual({ messageId: 42 })
+    expect(mockFetch).toHaveBeenCalledWith('https://api.telegram.org/bot123:ABC/sendMessage', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ chat_id: '555', text: 'Pick one', reply_markup: { inline_keyboard: [[{ text: 'List', callback_data: 'list' }]] } })
+    })
+  })
+
+  it('should send a photo by URL', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(okResponse({ message_id: 43 }))
+    const sender = createTelegramSender(config, undefined, mockFetch)
+
+    await sender.sendPhoto({ chatId: '555', file: { url: 'https://shop.test/mug.jpg' }, caption: 'Mug' })
+
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toBe('https://api.telegram.org/bot123:ABC/sendPhoto')
+    expect(JSON.parse(init.body)).toEqual({ chat_id: '555', photo: 'https://shop.test/mug.jpg', caption: 'Mug' })
+  })
+
+  it('should upload documents as multipart form data', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(okResponse({ message_id: 44 }))
+    const sender = createTelegramSender(config, undefined, mockFetch)
+
+    await sender.sendDocument({ chatId: '555', file: { data: Buffer.from('id,name\n'), fileName: 'products.csv', mimeType: 'text/csv' } })
+
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toBe('https://api.telegram.org/bot123:ABC/sendDocument')
+    const form = init.body as FormData
+    expect(form.get('chat_id')).toBe('555')
+    const document = form.get('document') as File
+    expect(document.name).toBe('products.csv')
+    expect(await document.text()).toBe('id,name\n')
+  })
+
+  it('should download a file without exposing its URL', async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(okResponse({ file_id: 'abc', file_path: 'photos/file_1.jpg' }))
+      .mockResolvedValueOnce({ ok: true, status: 200, arrayBuffer: async () => new TextEncoder().encode('jpeg-bytes').buffer })
+    const sender = createTelegramSender(config, undefined, mockFetch)
+
+    expect(await sender.downloadFile('abc')).toEqual({ data: Buffer.from('jpeg-bytes'), filePath: 'photos/file_1.jpg' })
+    expect(mockFetch).toHaveBeenLastCalledWith('https://api.telegram.org/file/bot123:ABC/photos/file_1.jpg')
+  })
+
+  it('should throw TelegramError when a download fails', async () => {
+    const logger = createMockLogger()
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(okResponse({ file_id: 'abc', file_path: 'photos/file_1.jpg' }))
+      .mockResolvedValueOnce({ ok: false, status: 404 })
+    const sender = createTelegramSender(config, logger, mockFetch)
+
+    const error = await sender.downloadFile('abc').catch(err => err)
+
+    expect(error).toBeInstanceOf(TelegramError)
+    expect(error.message).not.toContain('123:ABC')
+    expect(JSON.stringify(logger.error.mock.calls)).not.toContain('123:ABC')
+  })
+
+  it('should throw TelegramError with the retry delay of a 429', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 429,
+      json: async () => ({ ok: false, error_code: 429, description: 'Too Many Requests: retry after 3', parameters: { retry_after: 3 } })
+    })
+    const sender = createTelegramSender(config, undefined, mockFetch)
+
+    const error = await sender.sendMessage({ chatId: '555', text: 'Hi' }).catch(err => err)
+
+    expect(error).toBeInstanceOf(TelegramError)
+    expect(error.statusCode).toBe(429)
+    expect(error.retryAfterMs).toBe(3000)
+  })
+
+  it('should throw TelegramError on network errors', async () => {
+    const sender = createTelegramSender(config, undefined, vi.fn().mockRejectedValue(new Error('ECONNRESET')))
+
+    await expect(sender.answerCallbackQuery('cb-1')).rejects.toThrow(TelegramError)
+  })
+})
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createWebChatChannel, type WebChatChannel } from '../../src/channels/webchat.js'
+import { createWebChatFileStore, type WebChatFileStore } from '../../src/webchat/files.js'
+import { createWebChat } from '../../src/webchat/chat.js'
+import { WEB_CHAT_MAX_IMAGE_BYTES } from '../../src/webchat/types.js'
+import { WebhookError } from '../../src/errors.js'
+import { createMockLogger } from '../mocks/greenapi.js'
+import { createManualClock } from '../mocks/clock.js'
+
+const baseUrl = 'https://bot.example.com'
+
+describe('WebChatFileStore', () => {
+  it('should return saved files until they expire', async () => {
+    const clock = createManualClock(new Date('2026-03-02T10:00:00Z'))
+    const files = createWebChatFileStore({ ttlMs: 1000, clock })
+    const id = files.save({ data: Buffer.from('png'), fileName: 'mug.png', mimeType: 'image/png' })
+
+    expect(files.get(id)).toEqual({ data: Buffer.from('png'), fileName: 'mug.png', mimeType: 'image/png' })
+    await clock.advance(1000)
+    expect(files.get(id)).toBeUndefined()
+  })
+
+  it('should drop the oldest file when full', () => {
+    const files = createWebChatFileStore({ maxFiles: 2 })
+    const first = files.save({ data: Buffer.from('1'), fileName: 'a' })
+    const second = files.save({ data: Buffer.from('2'), fileName: 'b' })
+    const third = files.save({ data: Buffer.from('3'), fileName: 'c' })
+
+    expect(files.get(first)).toBeUndefined()
+    expect(files.get(second)?.fileName).toBe('b')
+    expect(files.get(third)?.fileName).toBe('c')
+  })
+})
+
+describe('WebChatChannel', () => {
+  let files: WebChatFileStore
+  let channel: WebChatChannel
+
+  beforeEach(() => {
+    files = createWebChatFileStore()
+    channel = createWebChatChannel({ files, logger: createMockLogger() })
+  })
+
+  describe('receive', () => {
+    it('should key the chat by the signed-in user', async () => {
+      expect(await channel.receive({ userId: 'dana', baseUrl, body: { id: 'm1', text: 'list' } })).toEqual({
+        id: 'dana:m1',
+        chatId: 'web:dana',
+        senderId: 'web:dana',
+        message: { type: 'text', content: 'list' }
+      })
+    })
+
+    it('should store uploaded images and pass their URL to the flow', async () => {
+      const inbound = await channel.receive({
+        userId: 'dana',
+        baseUrl,
+        body: { id: 'm2', image: { data: Buffer.from('png-bytes').toString('base64'), mimeType: 'image/png', fileName: 'mug.png' } }
+      })
+
+      expect(inbound?.message).toMatchObject({ type: 'image', mimeType: 'image/png' })
+      const url = inbound!.message.content
+      expect(url).toMatch(/^https:\/\/bot\.example\.com\/chat\/files\/[0-9a-f-]{36}$/)
+      expect(files.get(url.split('/').at(-1)!)).toMatchObject({ data: Buffer.from('png-bytes'), fileName: 'mug.png' })
+    })
+
+    it('should reject messages with neither or both of text and image', async () => {
+      await expect(channel.receive({ userId: 'dana', baseUrl, body: { id: 'm3' } })).rejects.toThrow(WebhookError)
+      await expect(channel.receive({
+        userId: 'dana',
+        baseUrl,
+        body: { id: 'm4', text: 'hi', image: { data: 'cG5n', mimeType: 'image/png' } }
+      })).rejects.toThrow('Send either text or an image')
+    })
+
+    it('should reject images over the size limit and other file types', async () => {
+      const tooLarge = Buffer.alloc(WEB_CHAT_MAX_IMAGE_BYTES + 1).toString('base64')
+
+      await expect(channel.receive({ userId: 'dana', baseUrl, body: { id: 'm5', image: { data: tooLarge, mimeType: 'image/png' } } }))
+        .rejects.toThrow('Images must be between 1 byte and 5 MB')
+      await expect(channel.receive({ userId: 'dana', baseUrl, body: { id: 'm6', image: { data: 'cGRm', mimeType: 'application/pdf' } } }))
+        .rejects.toThrow(WebhookError)
+    })
+  })
+
+  describe('sendReply', () => {
+    it('should collect replies per message and keep them for retries', async () => {
+      await channel.sendReply('web:dana', {
+        handled: true,
+        preMessage: 'Welcome!',
+        buttons: { header: 'Shop', body: 'What next?', options: [{ buttonId: 'list', buttonText: 'List Products' }] }
+      }, 'dana:m1')
+      await channel.sendReply('web:dana', { handled: true, response: 'Products (0)' }, 'dana:m2')
+
+      const replies = [
+        { type: 'text', text: 'Welcome!' },
+        { type: 'buttons', text: 'Shop\n\nWhat next?', buttons: [{ id: 'list', label: 'List Products' }] }
+      ]
+      expect(channel.repliesTo('dana:m1')).toEqual(replies)
+      expect(channel.repliesTo('dana:m1')).toEqual(replies)
+      expect(channel.repliesTo('dana:m2')).toEqual([{ type: 'text', text: 'Products (0)' }])
+      expect(channel.repliesTo('dana:m3')).toEqual([])
+    })
+
+    it('should forget the replies of the oldest message when full', async () => {
+      channel = createWebChatChannel({ files, maxRepliedMessages: 2 })
+
+      for (const id of ['m1', 'm2', 'm3']) {
+        await channel.sendReply('web:dana', { handled: true, response: id }, `dana:${id}`)
+      }
+
+      expect(channel.repliesTo('dana:m1')).toEqual([])
+      expect(channel.repliesTo('dana:m3')).toEqual([{ type: 'text', text: 'm3' }])
+    })
+
+    it('should show list rows as buttons', async () => {
+      await channel.sendReply('web:dana', {
+        handled: true,
+        list: {
+          body: 'Pick one',
+          buttonText: 'Menu',
+          sections: [{ title: 'Orders', rows: [{ rowId: 'orders', title: 'Orders', description: 'Last 10' }] }]
+        }
+      }, 'dana:m1')
+
+      expect(channel.repliesTo('dana:m1')).toEqual([
+        { type: 'buttons', text: 'Pick one', buttons: [{ id: 'orders', label: 'Orders', description: 'Last 10' }] }
+      ])
+    })
+
+    it('should link uploaded files through the file store', async () => {
+      await channel.sendReply('web:dana', {
+        handled: true,
+        media: { type: 'upload', data: Buffer.from('id\n'), fileName: 'products.csv', mimeType: 'text/csv', caption: 'Export' },
+        response: 'Done'
+      }, 'dana:m1')
+
+      const [file, text] = channel.repliesTo('dana:m1')
+      expect(file).toMatchObject({ type: 'file', fileName: 'products.csv', mimeType: 'text/csv', caption: 'Export' })
+      expect(file.type === 'file' && files.get(file.url.replace('/chat/files/', ''))?.data).toEqual(Buffer.from('id\n'))
+      expect(text).toEqual({ type: 'text', text: 'Done' })
+    })
+  })
+})
+
+describe('WebChat', () => {
+  const users = [
+    { id: 'dana', role: 'owner' as const, token: 'dana-token-0123456789' },
+    { id: 'sam', role: 'viewer' as const, token: 'sam-token-0123456789' }
+  ]
+
+  it('should authenticate users by token', () => {
+    const webChat = createWebChat({ users, flowController: { process: vi.fn() } })
+
+    expect(webChat.authenticate('Bearer sam-token-0123456789')?.id).toBe('sam')
+    expect(webChat.authenticate('Bearer wrong-token-0123456789')).toBeUndefined()
+    expect(webChat.authenticate(undefined)).toBeUndefined()
+  })
+
+  it('should run the flow with the user role and return the replies', async () => {
+    const flowController = { process: vi.fn().mockResolvedValue({ handled: true, response: 'Products (0)' }) }
+    const webChat = createWebChat({ users, flowController })
+
+    const response = await webChat.send(users[1], { id: 'm1', text: 'list' }, baseUrl)
+
+    expect(flowController.process).toHaveBeenCalledWith('web:sam', { type: 'text', content: 'list' }, { role: 'viewer' })
+    expect(response).toEqual({ handled: true, replies: [{ type: 'text', text: 'Products (0)' }] })
+  })
+
+  it('should give overlapping requests of one user their own replies', async () => {
+    const flowController = {
+      process: vi.fn().mockImplementation(async (_chatId, message) => ({ handled: true, response: `You said ${message.content}` }))
+    }
+    const webChat = createWebChat({ users, flowController })
+
+    const [first, second] = await Promise.all([
+      webChat.send(users[0], { id: 'm1', text: 'list' }, baseUrl),
+      webChat.send(users[0], { id: 'm2', text: 'orders' }, baseUrl)
+    ])
+
+    expect(first.replies).toEqual([{ type: 'text', text: 'You said list' }])
+    expect(second.replies).toEqual([{ type: 'text', text: 'You said orders' }])
+  })
+})
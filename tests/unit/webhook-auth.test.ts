@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createWebhookAuth, isValidIpRange } from '../../src/webhook/auth.js'
+import { createMockLogger } from '../mocks/greenapi.js'
+
+describe('WebhookAuth', () => {
+  let logger: ReturnType<typeof createMockLogger>
+
+  beforeEach(() => {
+    logger = createMockLogger()
+  })
+
+  it('should be disabled when neither token nor IP ranges are configured', () => {
+    const auth = createWebhookAuth({ logger })
+
+    expect(auth.enabled).toBe(false)
+    expect(auth.verify({ ip: '203.0.113.7' })).toEqual({ ok: true })
+  })
+
+  describe('token', () => {
+    it('should accept a matching bearer token', () => {
+      const auth = createWebhookAuth({ token: 'secret-token', logger })
+
+      expect(auth.enabled).toBe(true)
+      expect(auth.verify({ authorization: 'Bearer secret-token', ip: '203.0.113.7' })).toEqual({ ok: true })
+    })
+
+    it('should accept a bare token without the Bearer scheme', () => {
+      const auth = createWebhookAuth({ token: 'secret-token', logger })
+
+      expect(auth.verify({ authorization: 'secret-token', ip: '203.0.113.7' })).toEqual({ ok: true })
+    })
+
+    it('should reject a missing Authorization header', () => {
+      const auth = createWebhookAuth({ token: 'secret-token', logger })
+
+      expect(auth.verify({ ip: '203.0.113.7' })).toEqual({ ok: false, reason: 'missing_token' })
+    })
+
+    it('should reject a mismatched token', () => {
+      const auth = createWebhookAuth({ token: 'secret-token', logger })
+
+      expect(auth.verify({ authorization: 'Bearer secret-tokeN', ip: '203.0.113.7' })).toEqual({ ok: false, reason: 'invalid_token' })
+      expect(auth.verify({ authorization: 'Bearer secret', ip: '203.0.113.7' })).toEqual({ ok: false, reason: 'invalid_token' })
+    })
+
+    it('should count and log rejections without the expected token', () => {
+      const auth = createWebhookAuth({ token: 'secret-token', logger })
+
+      auth.verify({ ip: '203.0.113.7' })
+      auth.verify({ authorization: 'Bearer wrong', ip: '203.0.113.8' })
+      auth.verify({ authorization: 'Bearer wrong', ip: '203.0.113.8' })
+
+      expect(auth.rejections()).toEqual({ missing_token: 1, invalid_token: 2, ip_not_allowed: 0 })
+      expect(logger.warn).toHaveBeenLastCalledWith({
+        event: 'webhook_auth_rejected',
+        reason: 'invalid_token',
+        ip: '203.0.113.8',
+        rejections: 3
+      })
+      expect(JSON.stringify(logger.warn.mock.calls)).not.toContain('secret-token')
+    })
+  })
+
+  describe('IP ranges', () => {
+    it('should accept addresses inside an IPv4 CIDR range', () => {
+      const auth = createWebhookAuth({ allowedIpRanges: ['10.0.0.0/8', '192.168.1.10'], logger })
+
+      expect(auth.enabled).toBe(true)
+      expect(auth.verify({ ip: '10.20.30.40' })).toEqual({ ok: true })
+      expect(auth.verify({ ip: '192.168.1.10' })).toEqual({ ok: true })
+    })
+
+    it('should accept IPv4-mapped IPv6 addresses', () => {
+      const auth = createWebhookAuth({ allowedIpRanges: ['10.0.0.0/8'], logger })
+
+      expect(auth.verify({ ip: '::ffff:10.1.2.3' })).toEqual({ ok: true })
+    })
+
+    it('should accept addresses inside an IPv6 range', () => {
+      const auth = createWebhookAuth({ allowedIpRanges: ['2001:db8::/32'], logger })
+
+      expect(auth.verify({ ip: '2001:db8:1::5' })).toEqual({ ok: true })
+      expect(auth.verify({ ip: '2001:db9::5' })).toEqual({ ok: false, reason: 'ip_not_allowed' })
+    })
+
+    it('should reject addresses outside every range before checking the token', () => {
+      const auth = createWebhookAuth({ token: 'secret-token', allowedIpRanges: ['10.0.0.0/8'], logger })
+
+      expect(auth.verify({ authorization: 'Bearer secret-token', ip: '192.168.1.10' })).toEqual({ ok: false, reason: 'ip_not_allowed' })
+      expect(auth.rejections().ip_not_allowed).toBe(1)
+    })
+  })
+
+  describe('isValidIpRange', () => {
+    it('should accept addresses and CIDR ranges', () => {
+      expect(isValidIpRange('1.2.3.4')).toBe(true)
+      expect(isValidIpRange('1.2.3.0/24')).toBe(true)
+      expect(isValidIpRange('2001:db8::/32')).toBe(true)
+    })
+
+    it('should reject malformed entries', () => {
+      expect(isValidIpRange('not-an-ip')).toBe(false)
+      expect(isValidIpRange('1.2.3.0/33')).toBe(false)
+      expect(isValidIpRange('1.2.3.0/')).toBe(false)
+      expect(isValidIpRange('2001:db8::/129')).toBe(false)
+    })
+  })
+})
@@ -1,9 +1,15 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { createWebhookHandler } from '../../src/webhook/handler.js'
 import { createMockWebhookForwarder } from '../../src/webhook/forwarder.js'
-import { WebhookError } from '../../src/errors.js'
-import type { FlowController } from '../../src/conversation/flow-controller.js'
-import type { FlowResult } from '../../src/conversation/types.js'
+import { WebhookError, WebhookReplyError } from '../../src/errors.js'
+import { createInMemoryProcessedMessageStore, type ProcessedMessageStore } from '../../src/webhook/dedup.js'
+import { createFlowController, type FlowController } from '../../src/conversation/flow-controller.js'
+import { createInMemoryManager } from '../../src/conversation/memory.js'
+import { createInMemoryMessageStatusStore, createMessageStatusTracker, type MessageStatusTracker } from '../../src/greenapi/message-status.js'
+import { loadMessages } from '../../src/messages.js'
+import type { FlowDefinition, FlowResult } from '../../src/conversation/types.js'
+import type { WooCommerceClient } from '../../src/woocommerce/types.js'
+import { readFileSync } from 'fs'
 import {
   createMockSender,
   createMockLogger,
@@ -11,8 +17,11 @@ import {
   createImageWebhookPayload,
   createButtonsResponsePayload,
   createInteractiveButtonsResponsePayload,
-  createTemplateButtonReplyPayload
+  createTemplateButtonReplyPayload,
+  createListResponsePayload,
+  createOutgoingStatusPayload
 } from '../mocks/greenapi.js'
+import { createManualClock } from '../mocks/clock.js'
 
 describe('WebhookHandler', () => {
   let mockSender: ReturnType<typeof createMockSender>
@@ -29,12 +38,14 @@ describe('WebhookHandler', () => {
     mockForwarder = createMockWebhookForwarder()
   })
 
-  function createHandler(options?: { withForwarder?: boolean }) {
+  function createHandler(options?: { withForwarder?: boolean; processedMessages?: ProcessedMessageStore; messageStatus?: MessageStatusTracker }) {
     return createWebhookHandler({
       flowController: mockFlowController,
       sender: mockSender,
       logger: mockLogger,
-      forwarder: options?.withForwarder ? mockForwarder : undefined
+      forwarder: options?.withForwarder ? mockForwarder : undefined,
+      processedMessages: options?.processedMessages,
+      messageStatus: options?.messageStatus
     })
   }
 
@@ -51,7 +62,28 @@ describe('WebhookHandler', () => {
 
         expect(mockFlowController.process).toHaveBeenCalledWith(
           '987654321@c.us',
-          { type: 'text', content: 'test-shop' }
+          { type: 'text', content: 'test-shop' },
+          { role: 'owner' }
+        )
+      })
+
+      it('should pass the role resolved by access control', async () => {
+        vi.mocked(mockFlowController.process).mockResolvedValue({ handled: false })
+        const resolveRole = vi.fn().mockReturnValue('viewer')
+        const handler = createWebhookHandler({
+          flowController: mockFlowController,
+          sender: mockSender,
+          logger: mockLogger,
+          accessControl: { enabled: true, resolveRole }
+        })
+
+        await handler.handle(createValidWebhookPayload('list'))
+
+        expect(resolveRole).toHaveBeenCalledWith('987654321@c.us', '987654321@c.us')
+        expect(mockFlowController.process).toHaveBeenCalledWith(
+          '987654321@c.us',
+          { type: 'text', content: 'list' },
+          { role: 'viewer' }
         )
       })
 
@@ -104,6 +136,83 @@ describe('WebhookHandler', () => {
         })
       })
 
+      it('should send a list message when flow returns a list', async () => {
+        const flowResult: FlowResult = {
+          handled: true,
+          list: {
+            body: 'What would you like to do?',
+            buttonText: 'Menu',
+            sections: [{ title: 'Products', rows: [{ rowId: 'list', title: 'List Products' }] }],
+            header: 'Welcome!'
+          }
+        }
+        vi.mocked(mockFlowController.process).mockReturnValue(flowResult)
+
+        const handler = createHandler()
+        await handler.handle(createValidWebhookPayload('test-shop'))
+
+        expect(mockSender.sendListMessage).toHaveBeenCalledWith({
+          chatId: '987654321@c.us',
+          message: 'What would you like to do?',
+          buttonText: 'Menu',
+          sections: [{ title: 'Products', rows: [{ rowId: 'list', title: 'List Products' }] }],
+          title: 'Welcome!',
+          footer: undefined
+        })
+        expect(mockSender.sendButtons).not.toHaveBeenCalled()
+        expect(mockSender.sendMessage).not.toHaveBeenCalled()
+      })
+
+      it('should send image before text when flow returns an image', async () => {
+        const flowResult: FlowResult = {
+          handled: true,
+          preMessage: 'Product card',
+          media: { type: 'url', url: 'https://test-store.com/mug.jpg', fileName: 'mug.jpg', caption: 'Blue Mug' },
+          buttons: {
+            body: 'What next?',
+            options: [{ buttonId: 'menu', buttonText: 'Back to menu' }]
+          }
+        }
+        vi.mocked(mockFlowController.process).mockReturnValue(flowResult)
+
+        const handler = createHandler()
+        await handler.handle(createValidWebhookPayload('1'))
+
+        expect(mockSender.sendFileByUrl).toHaveBeenCalledWith({
+          chatId: '987654321@c.us',
+          urlFile: 'https://test-store.com/mug.jpg',
+          fileName: 'mug.jpg',
+          caption: 'Blue Mug'
+        })
+        expect(mockSender.sendFileByUrl.mock.invocationCallOrder[0])
+          .toBeLessThan(mockSender.sendMessage.mock.invocationCallOrder[0])
+        expect(mockSender.sendMessage).toHaveBeenCalledWith('987654321@c.us', 'Product card')
+        expect(mockSender.sendButtons).toHaveBeenCalled()
+      })
+
+      it('should upload generated files before the text', async () => {
+        const flowResult: FlowResult = {
+          handled: true,
+          response: 'Export ready',
+          media: { type: 'upload', data: Buffer.from('id,name\n1,Mug\n'), fileName: 'products.csv', mimeType: 'text/csv' }
+        }
+        vi.mocked(mockFlowController.process).mockReturnValue(flowResult)
+
+        const handler = createHandler()
+        await handler.handle(createValidWebhookPayload('1'))
+
+        expect(mockSender.sendFileByUpload).toHaveBeenCalledWith({
+          chatId: '987654321@c.us',
+          file: Buffer.from('id,name\n1,Mug\n'),
+          fileName: 'products.csv',
+          mimeType: 'text/csv',
+          caption: undefined
+        })
+        expect(mockSender.sendFileByUrl).not.toHaveBeenCalled()
+        expect(mockSender.sendFileByUpload.mock.invocationCallOrder[0])
+          .toBeLessThan(mockSender.sendMessage.mock.invocationCallOrder[0])
+      })
+
       it('should not send any message when flow returns handled=false', async () => {
         const flowResult: FlowResult = { handled: false }
         vi.mocked(mockFlowController.process).mockReturnValue(flowResult)
@@ -150,7 +259,8 @@ describe('WebhookHandler', () => {
             type: 'image',
             content: 'https://example.com/image.jpg',
             mimeType: 'image/jpeg'
-          }
+          },
+          { role: 'owner' }
         )
         expect(mockSender.sendMessage).toHaveBeenCalledWith(
           '987654321@c.us',
@@ -212,7 +322,8 @@ describe('WebhookHandler', () => {
         expect(result.handled).toBe(true)
         expect(mockFlowController.process).toHaveBeenCalledWith(
           '987654321@c.us',
-          { type: 'text', content: 'list' }
+          { type: 'text', content: 'list' },
+          { role: 'owner' }
         )
         expect(mockSender.sendMessage).toHaveBeenCalledWith(
           '987654321@c.us',
@@ -232,7 +343,8 @@ describe('WebhookHandler', () => {
         expect(result.handled).toBe(true)
         expect(mockFlowController.process).toHaveBeenCalledWith(
           '987654321@c.us',
-          { type: 'text', content: 'add' }
+          { type: 'text', content: 'add' },
+          { role: 'owner' }
         )
         expect(mockSender.sendMessage).toHaveBeenCalledWith(
           '987654321@c.us',
@@ -252,7 +364,8 @@ describe('WebhookHandler', () => {
         expect(result.handled).toBe(true)
         expect(mockFlowController.process).toHaveBeenCalledWith(
           '987654321@c.us',
-          { type: 'text', content: 'list' }
+          { type: 'text', content: 'list' },
+          { role: 'owner' }
         )
         expect(mockSender.sendMessage).toHaveBeenCalledWith(
           '987654321@c.us',
@@ -283,7 +396,23 @@ describe('WebhookHandler', () => {
         expect(result.handled).toBe(true)
         expect(mockFlowController.process).toHaveBeenCalledWith(
           '987654321@c.us',
-          { type: 'text', content: 'List Products' }
+          { type: 'text', content: 'List Products' },
+          { role: 'owner' }
+        )
+      })
+
+      it('should process listResponseMessage and extract the selected row id', async () => {
+        const flowResult: FlowResult = { handled: true, response: 'You selected orders' }
+        vi.mocked(mockFlowController.process).mockReturnValue(flowResult)
+
+        const handler = createHandler()
+        const result = await handler.handle(createListResponsePayload('orders', 'Orders'))
+
+        expect(result.handled).toBe(true)
+        expect(mockFlowController.process).toHaveBeenCalledWith(
+          '987654321@c.us',
+          { type: 'text', content: 'orders' },
+          { role: 'owner' }
         )
       })
     })
@@ -304,6 +433,67 @@ describe('WebhookHandler', () => {
       })
     })
 
+    describe('delivery status', () => {
+      function createTracker() {
+        return createMessageStatusTracker({
+          store: createInMemoryMessageStatusStore(100),
+          clock: createManualClock(new Date('2026-03-02T10:00:00Z')),
+          messages: {},
+          logger: mockLogger
+        })
+      }
+
+      it('should record outgoingMessageStatus webhooks against the sent message', async () => {
+        const messageStatus = createTracker()
+        const handler = createHandler({ messageStatus })
+
+        const result = await handler.handle(createOutgoingStatusPayload('sent-msg-1', 'delivered'))
+
+        expect(result).toEqual({ handled: true, action: 'status_recorded' })
+        const [message] = await messageStatus.history('987654321@c.us')
+        expect(message.idMessage).toBe('sent-msg-1')
+        expect(message.statuses).toEqual([{ status: 'delivered', at: '2026-03-02T10:00:00.000Z', description: undefined }])
+        expect(mockFlowController.process).not.toHaveBeenCalled()
+      })
+
+      it('should record every status of a message even with deduplication on', async () => {
+        const messageStatus = createTracker()
+        const handler = createHandler({ messageStatus, processedMessages: createInMemoryProcessedMessageStore(60000) })
+
+        await handler.handle(createOutgoingStatusPayload('sent-msg-1', 'sent'))
+        await handler.handle(createOutgoingStatusPayload('sent-msg-1', 'delivered'))
+        await handler.handle(createOutgoingStatusPayload('sent-msg-1', 'read'))
+
+        const [message] = await messageStatus.history('987654321@c.us')
+        expect(message.statuses.map(entry => entry.status)).toEqual(['sent', 'delivered', 'read'])
+      })
+
+      it('should record outgoingAPIMessageReceived as sent', async () => {
+        const messageStatus = createTracker()
+        const handler = createHandler({ messageStatus })
+
+        const result = await handler.handle({ ...createValidWebhookPayload('Hello'), typeWebhook: 'outgoingAPIMessageReceived', idMessage: 'sent-msg-2' })
+
+        expect(result.action).toBe('status_recorded')
+        const [message] = await messageStatus.history('987654321@c.us')
+        expect(message).toMatchObject({ idMessage: 'sent-msg-2', statuses: [{ status: 'sent' }] })
+      })
+
+      it('should ignore status webhooks when tracking is off', async () => {
+        const handler = createHandler()
+
+        const result = await handler.handle(createOutgoingStatusPayload('sent-msg-1'))
+
+        expect(result).toEqual({ handled: false, action: 'ignored_webhook_type' })
+      })
+
+      it('should reject status webhooks with an unknown status', () => {
+        const handler = createHandler()
+
+        expect(() => handler.parsePayload(createOutgoingStatusPayload('sent-msg-1', 'exploded'))).toThrow(WebhookError)
+      })
+    })
+
     describe('invalid payloads', () => {
       it('should throw WebhookError for missing chatId', async () => {
         const handler = createHandler()
@@ -478,5 +668,159 @@ describe('WebhookHandler', () => {
         expect(mockForwarder.getCallCount()).toBe(1)
       })
     })
+
+    describe('deduplication', () => {
+      it('should return the cached result for a replayed idMessage without re-running the flow', async () => {
+        vi.mocked(mockFlowController.process).mockResolvedValue({ handled: true, response: 'Created product' })
+        const handler = createHandler({ processedMessages: createInMemoryProcessedMessageStore(60000) })
+        const payload = createValidWebhookPayload('Confirm')
+
+        const first = await handler.handle(payload)
+        const replay = await handler.handle(payload)
+
+        expect(replay).toEqual(first)
+        expect(mockFlowController.process).toHaveBeenCalledTimes(1)
+        expect(mockSender.sendMessage).toHaveBeenCalledTimes(1)
+        expect(mockLogger.info).toHaveBeenCalledWith({
+          event: 'duplicate_webhook_ignored',
+          idMessage: 'ABC123',
+          chatId: '987654321@c.us',
+          inFlight: false
+        })
+      })
+
+      it('should process different idMessages independently', async () => {
+        vi.mocked(mockFlowController.process).mockResolvedValue({ handled: true, response: 'OK' })
+        const handler = createHandler({ processedMessages: createInMemoryProcessedMessageStore(60000) })
+
+        await handler.handle({ ...createValidWebhookPayload('1'), idMessage: 'MSG-1' })
+        await handler.handle({ ...createValidWebhookPayload('1'), idMessage: 'MSG-2' })
+
+        expect(mockFlowController.process).toHaveBeenCalledTimes(2)
+      })
+
+      it('should share the in-flight result with a replay that arrives during processing', async () => {
+        let finish: (result: FlowResult) => void = () => {}
+        vi.mocked(mockFlowController.process).mockReturnValue(new Promise<FlowResult>(resolve => { finish = resolve }))
+        const handler = createHandler({ processedMessages: createInMemoryProcessedMessageStore(60000) })
+        const payload = createValidWebhookPayload('Confirm')
+
+        const first = handler.handle(payload)
+        const replay = handler.handle(payload)
+        finish({ handled: true, response: 'Created product' })
+
+        expect(await replay).toEqual(await first)
+        expect(mockFlowController.process).toHaveBeenCalledTimes(1)
+        expect(mockSender.sendMessage).toHaveBeenCalledTimes(1)
+      })
+
+      it('should not cache deliveries that failed so a retry is processed again', async () => {
+        vi.mocked(mockFlowController.process)
+          .mockRejectedValueOnce(new Error('WooCommerce down'))
+          .mockResolvedValueOnce({ handled: true, response: 'OK' })
+        const handler = createHandler({ processedMessages: createInMemoryProcessedMessageStore(60000) })
+        const payload = createValidWebhookPayload('Confirm')
+
+        await expect(handler.handle(payload)).rejects.toThrow('WooCommerce down')
+        const retry = await handler.handle(payload)
+
+        expect(retry).toEqual({ handled: true, action: 'flow_processed' })
+        expect(mockFlowController.process).toHaveBeenCalledTimes(2)
+      })
+
+      it('should process the message when the store fails', async () => {
+        vi.mocked(mockFlowController.process).mockResolvedValue({ handled: true, response: 'OK' })
+        const store: ProcessedMessageStore = {
+          get: vi.fn().mockRejectedValue(new Error('connection lost')),
+          set: vi.fn().mockRejectedValue(new Error('connection lost'))
+        }
+        const handler = createHandler({ processedMessages: store })
+
+        const result = await handler.handle(createValidWebhookPayload('Confirm'))
+
+        expect(result).toEqual({ handled: true, action: 'flow_processed' })
+        expect(mockLogger.error).toHaveBeenCalledWith(expect.objectContaining({ event: 'dedup_store_error', operation: 'get' }))
+        expect(mockLogger.error).toHaveBeenCalledWith(expect.objectContaining({ event: 'dedup_store_error', operation: 'set' }))
+      })
+    })
+
+    describe('per-chat ordering', () => {
+      it('should not let two messages from one chat run at the same time', async () => {
+        const active = new Set<string>()
+        let overlapped = false
+        vi.mocked(mockFlowController.process).mockImplementation(async (chatId) => {
+          overlapped ||= active.has(chatId)
+          active.add(chatId)
+          await new Promise(resolve => setTimeout(resolve, 5))
+          active.delete(chatId)
+          return { handled: true, response: 'OK' }
+        })
+        const handler = createHandler()
+
+        await Promise.all([
+          handler.handle(createValidWebhookPayload('1')),
+          handler.handle(createValidWebhookPayload('2'))
+        ])
+
+        expect(overlapped).toBe(false)
+        expect(mockFlowController.process).toHaveBeenCalledTimes(2)
+      })
+
+      it('should apply overlapping messages to the session in arrival order', async () => {
+        const flow = JSON.parse(readFileSync(new URL('../../src/flows/inventory.json', import.meta.url), 'utf-8')) as FlowDefinition
+        const memory = createInMemoryManager(300000)
+        const flowController = createFlowController({
+          memory,
+          flow,
+          messages: loadMessages(),
+          triggerCode: 'test-shop',
+          wooCommerce: {} as WooCommerceClient
+        })
+        const handler = createWebhookHandler({ flowController, sender: mockSender, logger: mockLogger })
+        const message = (text: string, idMessage: string) => ({ ...createValidWebhookPayload(text), idMessage })
+
+        await handler.handle(message('test-shop', 'MSG-1'))
+        await Promise.all([
+          handler.handle(message('2', 'MSG-2')),
+          handler.handle(message('Name: Blue Widget\nPrice: 25\nStock: 10', 'MSG-3'))
+        ])
+
+        const session = await memory.get('987654321@c.us')
+        expect(session?.currentStep).toBe('awaiting_product_image')
+        expect(session?.context.productData).toMatchObject({ name: 'Blue Widget' })
+        expect(mockLogger.info).toHaveBeenCalledWith(expect.objectContaining({ event: 'chat_message_queued', idMessage: 'MSG-3', queued: 1 }))
+      })
+    })
+
+    describe('reply failures', () => {
+      it('should wrap send failures after the flow ran in WebhookReplyError', async () => {
+        vi.mocked(mockFlowController.process).mockResolvedValue({ handled: true, response: 'Product created' })
+        const sendError = new Error('Green API unavailable')
+        mockSender.sendMessage.mockRejectedValueOnce(sendError)
+        const handler = createHandler()
+
+        const error = await handler.handle(createValidWebhookPayload('Confirm')).catch(err => err)
+
+        expect(error).toBeInstanceOf(WebhookReplyError)
+        expect(error.chatId).toBe('987654321@c.us')
+        expect(error.cause).toBe(sendError)
+      })
+    })
+  })
+
+  describe('isFlowMessage', () => {
+    it('should accept incoming text and image messages', () => {
+      const handler = createHandler()
+
+      expect(handler.isFlowMessage(handler.parsePayload(createValidWebhookPayload('hi')))).toBe(true)
+      expect(handler.isFlowMessage(handler.parsePayload(createImageWebhookPayload()))).toBe(true)
+    })
+
+    it('should reject other webhook types', () => {
+      const handler = createHandler()
+      const payload = handler.parsePayload(createOutgoingStatusPayload('sent-msg-1'))
+
+      expect(handler.isFlowMessage(payload)).toBe(false)
+    })
   })
 })
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { createWooCommerceClient } from '../../src/woocommerce/client.js'
 import { WooCommerceError } from '../../src/errors.js'
-import { createMockProduct } from '../mocks/woocommerce.js'
+import { createMockProduct, createMockOrder } from '../mocks/woocommerce.js'
 
 describe('WooCommerceClient', () => {
   const config = {
@@ -29,19 +29,21 @@ describe('WooCommerceClient', () => {
 
       const mockFetch = vi.fn().mockResolvedValue({
         ok: true,
+        headers: new Headers(),
         json: async () => mockProducts
       })
 
       const client = createWooCommerceClient(config, mockLogger, mockFetch)
       const result = await client.getProducts()
 
-      expect(result).toEqual(mockProducts)
-      expect(result).toHaveLength(2)
+      expect(result.products).toEqual(mockProducts)
+      expect(result.products).toHaveLength(2)
     })
 
     it('should use correct URL with per_page parameter', async () => {
       const mockFetch = vi.fn().mockResolvedValue({
         ok: true,
+        headers: new Headers(),
         json: async () => []
       })
 
@@ -49,7 +51,7 @@ describe('WooCommerceClient', () => {
       await client.getProducts(50)
 
       expect(mockFetch).toHaveBeenCalledWith(
-        'https://test-store.com/wp-json/wc/v3/products?per_page=50',
+        'https://test-store.com/wp-json/wc/v3/products?per_page=50&page=1',
         expect.objectContaining({
           method: 'GET',
           headers: expect.objectContaining({
@@ -62,6 +64,7 @@ describe('WooCommerceClient', () => {
     it('should default to 100 products per page', async () => {
       const mockFetch = vi.fn().mockResolvedValue({
         ok: true,
+        headers: new Headers(),
         json: async () => []
       })
 
@@ -69,7 +72,7 @@ describe('WooCommerceClient', () => {
       await client.getProducts()
 
       expect(mockFetch).toHaveBeenCalledWith(
-        'https://test-store.com/wp-json/wc/v3/products?per_page=100',
+        'https://test-store.com/wp-json/wc/v3/products?per_page=100&page=1',
         expect.any(Object)
       )
     })
@@ -77,6 +80,7 @@ describe('WooCommerceClient', () => {
     it('should send Basic auth header with encoded credentials', async () => {
       const mockFetch = vi.fn().mockResolvedValue({
         ok: true,
+        headers: new Headers(),
         json: async () => []
       })
 
@@ -103,6 +107,7 @@ describe('WooCommerceClient', () => {
 
       const mockFetch = vi.fn().mockResolvedValue({
         ok: true,
+        headers: new Headers(),
         json: async () => mockProducts
       })
 
@@ -111,32 +116,91 @@ describe('WooCommerceClient', () => {
 
       expect(mockLogger.info).toHaveBeenCalledWith({
         event: 'woocommerce_get_products_start',
-        perPage: 100
+        perPage: 100,
+        page: 1
       })
       expect(mockLogger.info).toHaveBeenCalledWith({
         event: 'woocommerce_get_products_success',
-        productCount: 3
+        productCount: 3,
+        page: 1,
+        total: 3,
+        totalPages: 1
       })
     })
 
     it('should return empty array when no products exist (not an error)', async () => {
       const mockFetch = vi.fn().mockResolvedValue({
         ok: true,
+        headers: new Headers(),
         json: async () => []
       })
 
       const client = createWooCommerceClient(config, mockLogger, mockFetch)
       const result = await client.getProducts()
 
-      expect(result).toEqual([])
-      expect(result).toHaveLength(0)
+      expect(result.products).toEqual([])
+      expect(result.total).toBe(0)
+      expect(result.totalPages).toBe(0)
       expect(mockLogger.error).not.toHaveBeenCalled()
       expect(mockLogger.info).toHaveBeenCalledWith({
         event: 'woocommerce_get_products_success',
-        productCount: 0
+        productCount: 0,
+        page: 1,
+        total: 0,
+        totalPages: 0
       })
     })
 
+    it('should request the given page', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        headers: new Headers(),
+        json: async () => []
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      await client.getProducts(20, 3)
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test-store.com/wp-json/wc/v3/products?per_page=20&page=3',
+        expect.any(Object)
+      )
+    })
+
+    it('should return pagination metadata from X-WP-Total headers', async () => {
+      const mockProducts = [createMockProduct({ id: 21 }), createMockProduct({ id: 22 })]
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        headers: new Headers({ 'X-WP-Total': '42', 'X-WP-TotalPages': '3' }),
+        json: async () => mockProducts
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      const result = await client.getProducts(20, 2)
+
+      expect(result).toEqual({
+        products: mockProducts,
+        page: 2,
+        perPage: 20,
+        total: 42,
+        totalPages: 3
+      })
+    })
+
+    it('should fall back to product count when pagination headers are invalid', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        headers: new Headers({ 'X-WP-Total': 'abc' }),
+        json: async () => [createMockProduct()]
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      const result = await client.getProducts()
+
+      expect(result.total).toBe(1)
+      expect(result.totalPages).toBe(1)
+    })
+
     it('should throw WooCommerceError on network error', async () => {
       const networkError = new Error('Connection refused')
       const mockFetch = vi.fn().mockRejectedValue(networkError)
@@ -220,6 +284,149 @@ describe('WooCommerceClient', () => {
     })
   })
 
+  describe('searchProducts', () => {
+    it('should send search term ordered by relevance', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        headers: new Headers(),
+        json: async () => []
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      await client.searchProducts({ search: 'blue mug' })
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test-store.com/wp-json/wc/v3/products?per_page=20&search=blue+mug&orderby=relevance',
+        expect.objectContaining({ method: 'GET' })
+      )
+    })
+
+    it('should send SKU, category and status filters', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        headers: new Headers(),
+        json: async () => []
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      await client.searchProducts({ sku: 'MUG/1', category: 15, status: 'draft' }, 5)
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test-store.com/wp-json/wc/v3/products?per_page=5&sku=MUG%2F1&category=15&status=draft',
+        expect.any(Object)
+      )
+    })
+
+    it('should return matches with total from headers', async () => {
+      const mockProducts = [createMockProduct({ id: 1 }), createMockProduct({ id: 2 })]
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        headers: new Headers({ 'X-WP-Total': '42', 'X-WP-TotalPages': '3' }),
+        json: async () => mockProducts
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      const result = await client.searchProducts({ search: 'test' })
+
+      expect(result.products).toEqual(mockProducts)
+      expect(result.total).toBe(42)
+      expect(result.totalPages).toBe(3)
+    })
+
+    it('should throw WooCommerceError with invalid_data code on invalid filter', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 400,
+        text: async () => JSON.stringify({
+          code: 'rest_invalid_param',
+          message: 'Invalid parameter(s): status',
+          data: { status: 400 }
+        })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      await expect(client.searchProducts({ status: 'bogus' })).rejects.toMatchObject({
+        errorCode: 'invalid_data',
+        statusCode: 400
+      })
+    })
+
+    it('should throw WooCommerceError with network_error code on network failure', async () => {
+      const mockFetch = vi.fn().mockRejectedValue(new Error('ECONNREFUSED'))
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      await expect(client.searchProducts({ search: 'mug' })).rejects.toMatchObject({
+        errorCode: 'network_error'
+      })
+    })
+  })
+
+  describe('getProduct', () => {
+    it('should fetch product by id with categories and images', async () => {
+      const mockProduct = createMockProduct({
+        id: 42,
+        categories: [{ id: 15, name: 'Mugs', slug: 'mugs' }],
+        images: [{ id: 7, src: 'https://test-store.com/mug.jpg', name: 'mug', alt: '' }]
+      })
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => mockProduct
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      const result = await client.getProduct(42)
+
+      expect(result).toEqual(mockProduct)
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test-store.com/wp-json/wc/v3/products/42',
+        expect.objectContaining({ method: 'GET' })
+      )
+    })
+
+    it('should log start and success events', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => createMockProduct({ id: 42, sku: 'SKU-42' })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      await client.getProduct(42)
+
+      expect(mockLogger.info).toHaveBeenCalledWith({ event: 'woocommerce_get_product_start', productId: 42 })
+      expect(mockLogger.info).toHaveBeenCalledWith({ event: 'woocommerce_get_product_success', productId: 42, sku: 'SKU-42' })
+    })
+
+    it('should throw WooCommerceError with not_found code on 404', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 404,
+        text: async () => JSON.stringify({
+          code: 'woocommerce_rest_product_invalid_id',
+          message: 'Invalid ID.',
+          data: { status: 404 }
+        })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      await expect(client.getProduct(999)).rejects.toMatchObject({
+        errorCode: 'not_found',
+        statusCode: 404
+      })
+    })
+
+    it('should throw WooCommerceError with network_error code on network failure', async () => {
+      const mockFetch = vi.fn().mockRejectedValue(new Error('ECONNREFUSED'))
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      await expect(client.getProduct(1)).rejects.toThrow(WooCommerceError)
+      await expect(client.getProduct(1)).rejects.toMatchObject({ errorCode: 'network_error' })
+    })
+  })
+
   describe('getProductBySku', () => {
     it('should fetch product by SKU successfully', async () => {
       const mockProduct = createMockProduct({ id: 42, sku: 'TEST-SKU-001' })
@@ -367,6 +574,47 @@ describe('WooCommerceClient', () => {
     })
   })
 
+  describe('findCategory', () => {
+    const categories = [
+      { id: 15, name: 'Mugs', slug: 'mugs' },
+      { id: 16, name: 'Travel Mugs', slug: 'travel-mugs' }
+    ]
+
+    it('should search categories and pick the exact name or slug', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({ ok: true, json: async () => categories })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      expect(await client.findCategory('mugs')).toEqual(categories[0])
+      expect(await client.findCategory('Travel Mugs')).toEqual(categories[1])
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test-store.com/wp-json/wc/v3/products/categories?search=Travel%20Mugs&per_page=100',
+        expect.objectContaining({ method: 'GET' })
+      )
+    })
+
+    it('should accept a partial match only when it is the only one', async () => {
+      const mockFetch = vi.fn()
+        .mockResolvedValueOnce({ ok: true, json: async () => [categories[1]] })
+        .mockResolvedValueOnce({ ok: true, json: async () => categories })
+        .mockResolvedValueOnce({ ok: true, json: async () => [] })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      expect(await client.findCategory('travel')).toEqual(categories[1])
+      expect(await client.findCategory('mug')).toBeNull()
+      expect(await client.findCategory('teapots')).toBeNull()
+    })
+
+    it('should throw WooCommerceError on API errors', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({ ok: false, status: 401, text: async () => '{"code":"woocommerce_rest_cannot_view"}' })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      await expect(client.findCategory('mugs')).rejects.toMatchObject({ errorCode: 'unauthorized' })
+    })
+  })
+
   describe('createProduct', () => {
     const validInput = {
       name: 'Test Product',
@@ -809,4 +1057,526 @@ describe('WooCommerceClient', () => {
       }
     })
   })
+
+  describe('updateProduct', () => {
+    it('should update product successfully', async () => {
+      const mockProduct = createMockProduct({ id: 42, regular_price: '24.99', stock_quantity: 15 })
+
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => mockProduct
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      const result = await client.updateProduct(42, { regular_price: '24.99', stock_quantity: 15 })
+
+      expect(result).toEqual(mockProduct)
+    })
+
+    it('should use correct URL and method', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => createMockProduct({ id: 42 })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      await client.updateProduct(42, { regular_price: '24.99' })
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test-store.com/wp-json/wc/v3/products/42',
+        expect.objectContaining({
+          method: 'PUT',
+          headers: expect.objectContaining({
+            'Content-Type': 'application/json'
+          }),
+          body: expect.any(String)
+        })
+      )
+    })
+
+    it('should send only price when stock is not provided', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => createMockProduct({ id: 42 })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      await client.updateProduct(42, { regular_price: '24.99' })
+
+      const calledBody = JSON.parse(mockFetch.mock.calls[0][1].body)
+      expect(calledBody).toEqual({ regular_price: '24.99' })
+    })
+
+    it('should enable stock management when stock is provided', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => createMockProduct({ id: 42 })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      await client.updateProduct(42, { stock_quantity: 0 })
+
+      const calledBody = JSON.parse(mockFetch.mock.calls[0][1].body)
+      expect(calledBody).toEqual({ manage_stock: true, stock_quantity: 0 })
+    })
+
+    it('should log start and success events', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => createMockProduct({ id: 42, regular_price: '24.99', stock_quantity: 15 })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      await client.updateProduct(42, { regular_price: '24.99', stock_quantity: 15 })
+
+      expect(mockLogger.info).toHaveBeenCalledWith({
+        event: 'woocommerce_update_product_start',
+        productId: 42,
+        fields: ['regular_price', 'stock_quantity']
+      })
+      expect(mockLogger.info).toHaveBeenCalledWith({
+        event: 'woocommerce_update_product_success',
+        productId: 42,
+        price: '24.99',
+        stock: 15
+      })
+    })
+
+    it('should throw WooCommerceError with network_error code on network failure', async () => {
+      const mockFetch = vi.fn().mockRejectedValue(new Error('Connection refused'))
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      try {
+        await client.updateProduct(42, { stock_quantity: 5 })
+        expect.fail('Should have thrown')
+      } catch (err) {
+        expect(err).toBeInstanceOf(WooCommerceError)
+        expect((err as WooCommerceError).errorCode).toBe('network_error')
+        expect((err as WooCommerceError).message).toMatch(/Network error updating product/)
+      }
+    })
+
+    it('should throw WooCommerceError with unauthorized code on 401', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 401,
+        text: async () => JSON.stringify({
+          code: 'woocommerce_rest_cannot_edit',
+          message: 'Sorry, you are not allowed to edit this resource.',
+          data: { status: 401 }
+        })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      try {
+        await client.updateProduct(42, { stock_quantity: 5 })
+        expect.fail('Should have thrown')
+      } catch (err) {
+        expect(err).toBeInstanceOf(WooCommerceError)
+        expect((err as WooCommerceError).errorCode).toBe('unauthorized')
+        expect((err as WooCommerceError).statusCode).toBe(401)
+      }
+    })
+
+    it('should throw WooCommerceError with forbidden code on 403', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 403,
+        text: async () => JSON.stringify({
+          code: 'woocommerce_rest_forbidden',
+          message: 'You do not have permission to do that.',
+          data: { status: 403 }
+        })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      try {
+        await client.updateProduct(42, { stock_quantity: 5 })
+        expect.fail('Should have thrown')
+      } catch (err) {
+        expect(err).toBeInstanceOf(WooCommerceError)
+        expect((err as WooCommerceError).errorCode).toBe('forbidden')
+      }
+    })
+
+    it('should throw WooCommerceError with not_found code on 404', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 404,
+        text: async () => JSON.stringify({
+          code: 'woocommerce_rest_product_invalid_id',
+          message: 'Invalid ID.',
+          data: { status: 404 }
+        })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      try {
+        await client.updateProduct(999, { stock_quantity: 5 })
+        expect.fail('Should have thrown')
+      } catch (err) {
+        expect(err).toBeInstanceOf(WooCommerceError)
+        expect((err as WooCommerceError).errorCode).toBe('not_found')
+        expect((err as WooCommerceError).statusCode).toBe(404)
+      }
+    })
+
+    it('should throw WooCommerceError with invalid_data code on 400', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 400,
+        text: async () => JSON.stringify({
+          code: 'rest_invalid_param',
+          message: 'Invalid parameter(s): stock_quantity',
+          data: { status: 400 }
+        })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      try {
+        await client.updateProduct(42, { stock_quantity: 5 })
+        expect.fail('Should have thrown')
+      } catch (err) {
+        expect(err).toBeInstanceOf(WooCommerceError)
+        expect((err as WooCommerceError).errorCode).toBe('invalid_data')
+      }
+    })
+
+    it('should throw WooCommerceError with server_error code on 500', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 500,
+        text: async () => 'Internal Server Error'
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      try {
+        await client.updateProduct(42, { stock_quantity: 5 })
+        expect.fail('Should have thrown')
+      } catch (err) {
+        expect(err).toBeInstanceOf(WooCommerceError)
+        expect((err as WooCommerceError).errorCode).toBe('server_error')
+      }
+    })
+
+    it('should throw WooCommerceError with unknown code on JSON parse error', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => { throw new SyntaxError('Unexpected token') }
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      try {
+        await client.updateProduct(42, { stock_quantity: 5 })
+        expect.fail('Should have thrown')
+      } catch (err) {
+        expect(err).toBeInstanceOf(WooCommerceError)
+        expect((err as WooCommerceError).errorCode).toBe('unknown')
+      }
+    })
+  })
+
+  describe('deleteProduct', () => {
+    it('should move product to trash by default', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => createMockProduct({ id: 42, status: 'trash' })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      const result = await client.deleteProduct(42)
+
+      expect(result.status).toBe('trash')
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test-store.com/wp-json/wc/v3/products/42?force=false',
+        expect.objectContaining({ method: 'DELETE' })
+      )
+    })
+
+    it('should request permanent deletion when force is true', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => createMockProduct({ id: 42 })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      await client.deleteProduct(42, true)
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test-store.com/wp-json/wc/v3/products/42?force=true',
+        expect.objectContaining({ method: 'DELETE' })
+      )
+    })
+
+    it('should log start and success events', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => createMockProduct({ id: 42, status: 'trash' })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      await client.deleteProduct(42)
+
+      expect(mockLogger.info).toHaveBeenCalledWith({
+        event: 'woocommerce_delete_product_start',
+        productId: 42,
+        force: false
+      })
+      expect(mockLogger.info).toHaveBeenCalledWith({
+        event: 'woocommerce_delete_product_success',
+        productId: 42,
+        force: false,
+        status: 'trash'
+      })
+    })
+
+    it('should throw WooCommerceError with network_error code on network failure', async () => {
+      const mockFetch = vi.fn().mockRejectedValue(new Error('Connection refused'))
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      try {
+        await client.deleteProduct(42)
+        expect.fail('Should have thrown')
+      } catch (err) {
+        expect(err).toBeInstanceOf(WooCommerceError)
+        expect((err as WooCommerceError).errorCode).toBe('network_error')
+        expect((err as WooCommerceError).message).toMatch(/Network error deleting product/)
+      }
+    })
+
+    it('should throw WooCommerceError with already_trashed code on 410', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 410,
+        text: async () => JSON.stringify({
+          code: 'woocommerce_rest_already_trashed',
+          message: 'The product has already been deleted.',
+          data: { status: 410 }
+        })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      try {
+        await client.deleteProduct(42)
+        expect.fail('Should have thrown')
+      } catch (err) {
+        expect(err).toBeInstanceOf(WooCommerceError)
+        expect((err as WooCommerceError).errorCode).toBe('already_trashed')
+        expect((err as WooCommerceError).statusCode).toBe(410)
+        expect((err as WooCommerceError).message).toBe('The product has already been deleted.')
+      }
+    })
+
+    it('should throw WooCommerceError with trash_not_supported code on 501', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 501,
+        text: async () => JSON.stringify({
+          code: 'woocommerce_rest_trash_not_supported',
+          message: 'The product does not support trashing.',
+          data: { status: 501 }
+        })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      try {
+        await client.deleteProduct(42)
+        expect.fail('Should have thrown')
+      } catch (err) {
+        expect(err).toBeInstanceOf(WooCommerceError)
+        expect((err as WooCommerceError).errorCode).toBe('trash_not_supported')
+        expect((err as WooCommerceError).statusCode).toBe(501)
+      }
+    })
+
+    it('should throw WooCommerceError with unauthorized code on 401', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 401,
+        text: async () => JSON.stringify({
+          code: 'woocommerce_rest_cannot_delete',
+          message: 'Sorry, you are not allowed to delete this resource.',
+          data: { status: 401 }
+        })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      try {
+        await client.deleteProduct(42)
+        expect.fail('Should have thrown')
+      } catch (err) {
+        expect(err).toBeInstanceOf(WooCommerceError)
+        expect((err as WooCommerceError).errorCode).toBe('unauthorized')
+      }
+    })
+
+    it('should throw WooCommerceError with not_found code on 404', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 404,
+        text: async () => JSON.stringify({
+          code: 'woocommerce_rest_product_invalid_id',
+          message: 'Invalid ID.',
+          data: { status: 404 }
+        })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      try {
+        await client.deleteProduct(42)
+        expect.fail('Should have thrown')
+      } catch (err) {
+        expect(err).toBeInstanceOf(WooCommerceError)
+        expect((err as WooCommerceError).errorCode).toBe('not_found')
+      }
+    })
+
+    it('should throw WooCommerceError with server_error code on 500', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 500,
+        text: async () => 'Internal Server Error'
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      try {
+        await client.deleteProduct(42)
+        expect.fail('Should have thrown')
+      } catch (err) {
+        expect(err).toBeInstanceOf(WooCommerceError)
+        expect((err as WooCommerceError).errorCode).toBe('server_error')
+      }
+    })
+  })
+
+  describe('getOrders', () => {
+    it('should request most recent orders first', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => [createMockOrder()]
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      const orders = await client.getOrders()
+
+      expect(orders).toHaveLength(1)
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test-store.com/wp-json/wc/v3/orders?per_page=10&orderby=date&order=desc',
+        expect.objectContaining({ method: 'GET' })
+      )
+    })
+
+    it('should send status filter', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => []
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      await client.getOrders({ status: 'on-hold' }, 5)
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test-store.com/wp-json/wc/v3/orders?per_page=5&orderby=date&order=desc&status=on-hold',
+        expect.any(Object)
+      )
+    })
+
+    it('should throw WooCommerceError with network_error code on network failure', async () => {
+      const mockFetch = vi.fn().mockRejectedValue(new Error('ECONNREFUSED'))
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      await expect(client.getOrders()).rejects.toMatchObject({ errorCode: 'network_error' })
+    })
+  })
+
+  describe('getOrder', () => {
+    it('should fetch order by id', async () => {
+      const mockOrder = createMockOrder({ id: 42 })
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => mockOrder
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      const result = await client.getOrder(42)
+
+      expect(result).toEqual(mockOrder)
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test-store.com/wp-json/wc/v3/orders/42',
+        expect.objectContaining({ method: 'GET' })
+      )
+    })
+
+    it('should throw WooCommerceError with not_found code on 404', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 404,
+        text: async () => JSON.stringify({ code: 'woocommerce_rest_shop_order_invalid_id', message: 'Invalid ID.', data: { status: 404 } })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      await expect(client.getOrder(999)).rejects.toMatchObject({ errorCode: 'not_found', statusCode: 404 })
+    })
+  })
+
+  describe('updateOrderStatus', () => {
+    it('should PUT only the new status', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => createMockOrder({ id: 42, status: 'completed' })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      const result = await client.updateOrderStatus(42, 'completed')
+
+      expect(result.status).toBe('completed')
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test-store.com/wp-json/wc/v3/orders/42',
+        expect.objectContaining({
+          method: 'PUT',
+          body: JSON.stringify({ status: 'completed' })
+        })
+      )
+    })
+
+    it('should log start and success events', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => createMockOrder({ id: 42, status: 'on-hold' })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+      await client.updateOrderStatus(42, 'on-hold')
+
+      expect(mockLogger.info).toHaveBeenCalledWith({ event: 'woocommerce_update_order_status_start', orderId: 42, status: 'on-hold' })
+      expect(mockLogger.info).toHaveBeenCalledWith({ event: 'woocommerce_update_order_status_success', orderId: 42, status: 'on-hold' })
+    })
+
+    it('should throw WooCommerceError with invalid_data code on 400', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 400,
+        text: async () => JSON.stringify({ code: 'rest_invalid_param', message: 'Invalid parameter(s): status', data: { status: 400 } })
+      })
+
+      const client = createWooCommerceClient(config, mockLogger, mockFetch)
+
+      await expect(client.updateOrderStatus(42, 'shipped')).rejects.toMatchObject({ errorCode: 'invalid_data' })
+    })
+  })
 })